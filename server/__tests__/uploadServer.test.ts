@@ -0,0 +1,257 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type Server } from 'node:http';
+import { createHash } from 'node:crypto';
+import { access, mkdtemp, readFile, rm } from 'node:fs/promises';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { deflateSync, gzipSync } from 'node:zlib';
+import { createUploadMiddleware } from '../uploadServer';
+
+describe('uploadServer', () => {
+  let dataDir: string;
+  let server: Server;
+  let endpoint: string;
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(join(tmpdir(), 'upload-server-test-'));
+    const middleware = createUploadMiddleware({ dataDir, maxChunkSize: 1024 });
+    server = createServer((req, res) => middleware(req, res));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/upload`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await rm(dataDir, { recursive: true, force: true });
+  });
+
+  // Chunks are only taken for uploads the server has issued an ID for
+  const startUpload = async (body: Record<string, unknown> = {}): Promise<string> => {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileSize: 0, ...body }),
+    });
+    return ((await response.json()) as { uploadId: string }).uploadId;
+  };
+
+  const putChunk = (uploadId: string, index: number, data: string, totalChunks: number) =>
+    fetch(`${endpoint}/${uploadId}/chunks/${index}`, {
+      method: 'PUT',
+      headers: { 'X-Total-Chunks': String(totalChunks) },
+      body: data,
+    });
+
+  // Same requests the HTTP transport (src/utils/httpTransport.ts) sends
+  it('should receive chunks in any order, report them and assemble the file', async () => {
+    const uploadId = await startUpload();
+    const content = 'hello resumable world';
+    const chunks = [content.slice(0, 8), content.slice(8, 16), content.slice(16)];
+
+    // Chunks arrive out of order, with a "resume" in between
+    for (const index of [2, 0]) {
+      expect((await putChunk(uploadId, index, chunks[index], 3)).status).toBe(204);
+    }
+    const listed = await fetch(`${endpoint}/${uploadId}/chunks`);
+    await expect(listed.json()).resolves.toEqual([0, 2]);
+
+    await putChunk(uploadId, 1, chunks[1], 3);
+    const response = await fetch(`${endpoint}/${uploadId}/complete`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName: 'greeting.txt', fileSize: content.length, totalChunks: 3 }),
+    });
+
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({
+      uploadId,
+      location: join(dataDir, uploadId, 'file'),
+      size: content.length,
+      checksum: `sha256:${createHash('sha256').update(content).digest('hex')}`,
+    });
+    await expect(readFile(join(dataDir, uploadId, 'file'), 'utf8')).resolves.toBe(content);
+  });
+
+  it('should issue upload IDs and limits, and complete with the size given at init', async () => {
+    const init = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName: 'a.txt', fileSize: 4 }),
+    });
+    expect(init.status).toBe(201);
+    const { uploadId, limits, contentEncodings } = (await init.json()) as {
+      uploadId: string;
+      limits: unknown;
+      contentEncodings: string[];
+    };
+    expect(uploadId).toMatch(/^[\w-]+$/);
+    expect(limits).toEqual({ maxChunkSize: 1024 });
+    expect(contentEncodings).toEqual(['gzip', 'deflate']);
+
+    await expect((await fetch(`${endpoint}/${uploadId}/chunks`)).json()).resolves.toEqual([]);
+    await putChunk(uploadId, 0, 'abcd', 1);
+
+    const complete = () => fetch(`${endpoint}/${uploadId}/complete`, { method: 'POST' });
+    const first = (await (await complete()).json()) as { size: number };
+    expect(first.size).toBe(4);
+
+    // Repeating completion (e.g. after a lost response) returns the same result
+    await expect((await complete()).json()).resolves.toEqual(first);
+    await expect((await fetch(`${endpoint}/${uploadId}/chunks`)).json()).resolves.toEqual([0]);
+    expect((await putChunk(uploadId, 0, 'abcd', 1)).status).toBe(409);
+  });
+
+  it('should delete everything stored for an aborted upload', async () => {
+    const uploadId = await startUpload();
+    await putChunk(uploadId, 0, 'abc', 2);
+
+    expect((await fetch(`${endpoint}/${uploadId}`, { method: 'DELETE' })).status).toBe(204);
+
+    await expect(access(join(dataDir, uploadId))).rejects.toThrow();
+    expect((await fetch(`${endpoint}/${uploadId}/chunks`)).status).toBe(404);
+    expect((await fetch(`${endpoint}/${uploadId}`, { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('should not take chunks for an aborted upload', async () => {
+    const uploadId = await startUpload();
+    await fetch(`${endpoint}/${uploadId}`, { method: 'DELETE' });
+
+    expect((await putChunk(uploadId, 0, 'abc', 1)).status).toBe(404);
+    await expect(access(join(dataDir, uploadId))).rejects.toThrow();
+  });
+
+  it('should report unknown uploads as 404', async () => {
+    const response = await fetch(`${endpoint}/missing/chunks`);
+    expect(response.status).toBe(404);
+    expect((await putChunk('missing', 0, 'abc', 1)).status).toBe(404);
+  });
+
+  it('should replace a chunk that is sent twice', async () => {
+    const uploadId = await startUpload();
+    await putChunk(uploadId, 0, 'first', 1);
+    await putChunk(uploadId, 0, 'again', 1);
+
+    const response = await fetch(`${endpoint}/${uploadId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({ fileSize: 5 }),
+    });
+
+    expect(response.status).toBe(200);
+    await expect(readFile(join(dataDir, uploadId, 'file'), 'utf8')).resolves.toBe('again');
+  });
+
+  it('should refuse to complete while chunks are missing', async () => {
+    const uploadId = await startUpload();
+    await putChunk(uploadId, 1, 'b', 3);
+
+    const response = await fetch(`${endpoint}/${uploadId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({ fileSize: 3 }),
+    });
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toMatchObject({ missing: [0, 2] });
+  });
+
+  it('should reject an assembled file with the wrong size', async () => {
+    const uploadId = await startUpload();
+    await putChunk(uploadId, 0, 'abc', 1);
+
+    const response = await fetch(`${endpoint}/${uploadId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({ fileSize: 10 }),
+    });
+
+    expect(response.status).toBe(422);
+  });
+
+  it('should validate chunk requests', async () => {
+    expect((await putChunk('upload-5', 5, 'x', 2)).status).toBe(400);
+    expect((await putChunk('upload-5', 0, 'x'.repeat(2048), 2)).status).toBe(413);
+    expect((await putChunk('..', 0, 'x', 1)).status).toBe(404);
+  });
+
+  it('should follow a changed chunk count and drop chunks beyond it', async () => {
+    const uploadId = await startUpload();
+    // Sent as 4 chunks, then the last 3 were re-split into 2 larger ones
+    await putChunk(uploadId, 0, 'ab', 4);
+    await putChunk(uploadId, 3, 'g', 4);
+    await putChunk(uploadId, 1, 'cde', 3);
+    await putChunk(uploadId, 2, 'fg', 3);
+
+    await expect((await fetch(`${endpoint}/${uploadId}/chunks`)).json()).resolves.toEqual([0, 1, 2]);
+    const response = await fetch(`${endpoint}/${uploadId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({ fileSize: 7 }),
+    });
+    expect(response.status).toBe(200);
+    await expect(readFile(join(dataDir, uploadId, 'file'), 'utf8')).resolves.toBe('abcdefg');
+  });
+
+  it('should verify X-Chunk-Checksum and reject mismatching chunks with 460', async () => {
+    const uploadId = await startUpload();
+    const sha256 = (data: string) => `sha256:${createHash('sha256').update(data).digest('hex')}`;
+    const put = (data: string, checksum: string) =>
+      fetch(`${endpoint}/${uploadId}/chunks/0`, {
+        method: 'PUT',
+        headers: { 'X-Total-Chunks': '1', 'X-Chunk-Checksum': checksum },
+        body: data,
+      });
+
+    expect((await put('hello', sha256('hellO'))).status).toBe(460);
+    await expect((await fetch(`${endpoint}/${uploadId}/chunks`)).json()).resolves.toEqual([]);
+    expect((await put('hello', 'md5:abc')).status).toBe(400);
+
+    expect((await put('hello', sha256('hello'))).status).toBe(204);
+    await expect((await fetch(`${endpoint}/${uploadId}/chunks`)).json()).resolves.toEqual([0]);
+  });
+
+  it('should decode compressed chunks, checking the checksum of the bytes sent', async () => {
+    const uploadId = await startUpload();
+    const put = (index: number, body: Buffer, encoding: string, checksum?: string) =>
+      fetch(`${endpoint}/${uploadId}/chunks/${index}`, {
+        method: 'PUT',
+        headers: {
+          'X-Total-Chunks': '2',
+          'Content-Encoding': encoding,
+          ...(checksum ? { 'X-Chunk-Checksum': checksum } : {}),
+        },
+        body,
+      });
+    const gzipped = gzipSync('hello ');
+    const sentChecksum = `sha256:${createHash('sha256').update(gzipped).digest('hex')}`;
+
+    expect((await put(0, gzipped, 'gzip', sentChecksum)).status).toBe(204);
+    expect((await put(1, deflateSync('world'), 'deflate')).status).toBe(204);
+    const response = await fetch(`${endpoint}/${uploadId}/complete`, {
+      method: 'POST',
+      body: JSON.stringify({ fileSize: 11 }),
+    });
+    expect(response.status).toBe(200);
+    await expect(readFile(join(dataDir, uploadId, 'file'), 'utf8')).resolves.toBe('hello world');
+  });
+
+  it('should reject unknown, corrupt and oversized compressed chunks', async () => {
+    const uploadId = await startUpload();
+    const put = (body: Buffer, encoding: string, checksum?: string) =>
+      fetch(`${endpoint}/${uploadId}/chunks/0`, {
+        method: 'PUT',
+        headers: {
+          'X-Total-Chunks': '1',
+          'Content-Encoding': encoding,
+          ...(checksum ? { 'X-Chunk-Checksum': checksum } : {}),
+        },
+        body,
+      });
+    const corrupt = gzipSync('hello').subarray(0, 12);
+
+    expect((await put(Buffer.from('hello'), 'br')).status).toBe(415);
+    expect((await put(corrupt, 'gzip')).status).toBe(400);
+    expect((await put(corrupt, 'gzip', `sha256:${'0'.repeat(64)}`)).status).toBe(460);
+    // Under the limit as sent, over it once decoded
+    expect((await put(gzipSync('x'.repeat(4096)), 'gzip')).status).toBe(413);
+    await expect((await fetch(`${endpoint}/${uploadId}/chunks`)).json()).resolves.toEqual([]);
+  });
+});
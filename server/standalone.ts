@@ -0,0 +1,12 @@
+import { createServer } from 'node:http';
+import { createUploadMiddleware, DEFAULT_DATA_DIR } from './uploadServer';
+
+const port = Number(process.env.PORT ?? 3001);
+const dataDir = process.env.UPLOAD_DATA_DIR ?? DEFAULT_DATA_DIR;
+
+// Standalone mode runs on its own port, so the browser needs CORS
+const middleware = createUploadMiddleware({ dataDir, cors: true });
+
+createServer((req, res) => middleware(req, res)).listen(port, () => {
+  console.log(`Upload server listening on http://localhost:${port}/api/upload (data: ${dataDir})`);
+});
@@ -0,0 +1,393 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { createReadStream, createWriteStream } from 'node:fs';
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'node:fs/promises';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pipeline } from 'node:stream/promises';
+import { createGunzip, createInflate } from 'node:zlib';
+import type { Transform } from 'node:stream';
+
+export interface UploadServerOptions {
+  /** Directory where chunks and assembled files are stored */
+  dataDir?: string;
+  /** URL prefix the API is mounted on */
+  basePath?: string;
+  /** Largest accepted chunk, in bytes */
+  maxChunkSize?: number;
+  /** Add permissive CORS headers (for running standalone next to the Vite dev server) */
+  cors?: boolean;
+}
+
+export type UploadMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next?: (err?: unknown) => void
+) => void;
+
+interface UploadMeta {
+  fileName?: string;
+  fileSize?: number;
+  /**
+   * Taken from the latest chunk request; changes when the client re-splits the chunks it
+   * has not sent yet (chunks may differ in size, they are concatenated by index)
+   */
+  totalChunks?: number;
+  /** Set once the file has been assembled, so completion can be repeated safely */
+  result?: UploadResult;
+}
+
+interface UploadResult {
+  uploadId: string;
+  location: string;
+  size: number;
+  checksum: string;
+}
+
+export const DEFAULT_DATA_DIR = join(tmpdir(), 'resumable-upload-server');
+const DEFAULT_BASE_PATH = '/api/upload';
+const DEFAULT_MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+
+// Upload IDs become directory names, so keep them to a safe alphabet
+const UPLOAD_ID_PATTERN = /^[\w.-]{1,128}$/;
+const CHUNK_CHECKSUM_PATTERN = /^sha256:[0-9a-f]{64}$/;
+// Content-Encodings accepted on chunk bodies, advertised when an upload starts
+const CONTENT_DECODERS: Record<string, () => Transform> = {
+  gzip: createGunzip,
+  deflate: createInflate,
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string, public body?: Record<string, unknown>) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const parts: Buffer[] = [];
+  for await (const part of req) {
+    parts.push(part as Buffer);
+  }
+  try {
+    const body = JSON.parse(Buffer.concat(parts).toString('utf8') || '{}');
+    return typeof body === 'object' && body !== null ? body : {};
+  } catch {
+    throw new HttpError(400, 'Invalid JSON body');
+  }
+}
+
+function parseChunkChecksum(value: string | string[] | undefined): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const checksum = String(value).toLowerCase();
+  if (!CHUNK_CHECKSUM_PATTERN.test(checksum)) {
+    throw new HttpError(400, 'Invalid X-Chunk-Checksum header, expected sha256:<hex>');
+  }
+  return checksum;
+}
+
+function parseContentEncoding(value: string | undefined): (() => Transform) | undefined {
+  const encoding = (value ?? 'identity').trim().toLowerCase();
+  if (encoding === 'identity') {
+    return undefined;
+  }
+  const decoder = CONTENT_DECODERS[encoding];
+  if (!decoder) {
+    throw new HttpError(415, `Unsupported Content-Encoding: ${value}`);
+  }
+  return decoder;
+}
+
+function parseChunkIndex(value: string, totalChunks?: number): number {
+  const index = Number(value);
+  if (!Number.isInteger(index) || index < 0 || (totalChunks !== undefined && index >= totalChunks)) {
+    throw new HttpError(400, `Invalid chunk index: ${value}`);
+  }
+  return index;
+}
+
+/**
+ * Reference chunk-receiving backend for local development, matching the HTTP transport:
+ *
+ * POST   {basePath}                          - start an upload; returns a server-issued uploadId and limits
+ * PUT    {basePath}/{uploadId}/chunks/{index} - store one chunk (raw bytes, or gzip/deflate with
+ *                                              Content-Encoding); 460 when the bytes sent do not
+ *                                              match the optional X-Chunk-Checksum (sha256:<hex>)
+ * GET    {basePath}/{uploadId}/chunks         - JSON array of received chunk indices
+ * POST   {basePath}/{uploadId}/complete       - assemble chunks into the final file, verify its size
+ *                                              and return its location and SHA-256
+ * DELETE {basePath}/{uploadId}                - discard the upload and everything stored for it
+ *
+ * Works as connect-style middleware (Vite dev server) or as a plain http handler.
+ */
+export function createUploadMiddleware(options: UploadServerOptions = {}): UploadMiddleware {
+  const dataDir = options.dataDir ?? DEFAULT_DATA_DIR;
+  const basePath = (options.basePath ?? DEFAULT_BASE_PATH).replace(/\/$/, '');
+  const maxChunkSize = options.maxChunkSize ?? DEFAULT_MAX_CHUNK_SIZE;
+
+  const uploadDir = (uploadId: string) => join(dataDir, uploadId);
+  const chunksDir = (uploadId: string) => join(uploadDir(uploadId), 'chunks');
+  const metaPath = (uploadId: string) => join(uploadDir(uploadId), 'meta.json');
+
+  const readMeta = async (uploadId: string): Promise<UploadMeta | null> => {
+    try {
+      return JSON.parse(await readFile(metaPath(uploadId), 'utf8'));
+    } catch {
+      return null;
+    }
+  };
+
+  const writeMeta = (uploadId: string, meta: UploadMeta) =>
+    writeFile(metaPath(uploadId), JSON.stringify(meta));
+
+  const init = async (req: IncomingMessage) => {
+    const body = await readJsonBody(req);
+    const fileSize = Number(body.fileSize);
+    if (!Number.isInteger(fileSize) || fileSize < 0) {
+      throw new HttpError(400, 'Missing or invalid fileSize');
+    }
+
+    const uploadId = randomUUID();
+    await mkdir(chunksDir(uploadId), { recursive: true });
+    await writeMeta(uploadId, {
+      fileName: typeof body.fileName === 'string' ? body.fileName : undefined,
+      fileSize,
+    });
+    return { uploadId, limits: { maxChunkSize }, contentEncodings: Object.keys(CONTENT_DECODERS) };
+  };
+
+  const listChunks = async (uploadId: string): Promise<number[]> => {
+    const files = await readdir(chunksDir(uploadId));
+    return files
+      .filter((name) => /^\d+\.part$/.test(name))
+      .map((name) => Number(name.slice(0, -'.part'.length)))
+      .sort((a, b) => a - b);
+  };
+
+  const putChunk = async (req: IncomingMessage, uploadId: string, rawIndex: string) => {
+    const totalChunks = Number(req.headers['x-total-chunks']);
+    if (!Number.isInteger(totalChunks) || totalChunks < 1) {
+      throw new HttpError(400, 'Missing or invalid X-Total-Chunks header');
+    }
+    const index = parseChunkIndex(rawIndex, totalChunks);
+    const expectedChecksum = parseChunkChecksum(req.headers['x-chunk-checksum']);
+    const createDecoder = parseContentEncoding(req.headers['content-encoding']);
+    if (Number(req.headers['content-length'] ?? 0) > maxChunkSize) {
+      throw new HttpError(413, 'Chunk too large');
+    }
+
+    // Only uploads started with init take chunks, so one that was aborted or never started stays gone
+    const meta = await readMeta(uploadId);
+    if (!meta) {
+      throw new HttpError(404, 'Unknown upload');
+    }
+    if (meta.result) {
+      throw new HttpError(409, 'Upload is already complete');
+    }
+
+    if (meta.totalChunks !== totalChunks) {
+      // Chunks beyond a smaller total belong to the old layout
+      const stale = (await listChunks(uploadId)).filter((received) => received >= totalChunks);
+      await Promise.all(stale.map((received) => rm(join(chunksDir(uploadId), `${received}.part`), { force: true })));
+      await writeMeta(uploadId, { ...meta, totalChunks });
+    }
+
+    // Write to a temp file and rename, so an interrupted request never leaves a partial chunk
+    const chunkPath = join(chunksDir(uploadId), `${index}.part`);
+    const tempPath = `${chunkPath}.${process.pid}.${Date.now()}.tmp`;
+    // The checksum covers the bytes as sent; compressed chunks are stored decoded
+    const hash = createHash('sha256');
+    const hashSent = async function* (source: AsyncIterable<Buffer>) {
+      for await (const data of source) {
+        hash.update(data);
+        yield data;
+      }
+    };
+    // Stops decoding as soon as the chunk outgrows the limit, so a small compressed body cannot fill the disk
+    let stored = 0;
+    const limitSize = async function* (source: AsyncIterable<Buffer>) {
+      for await (const data of source) {
+        stored += data.length;
+        if (stored > maxChunkSize) {
+          throw new HttpError(413, 'Chunk too large');
+        }
+        yield data;
+      }
+    };
+    try {
+      try {
+        if (createDecoder) {
+          await pipeline(req, hashSent, createDecoder(), limitSize, createWriteStream(tempPath));
+        } else {
+          await pipeline(req, hashSent, limitSize, createWriteStream(tempPath));
+        }
+      } catch (error) {
+        // The client hashed bytes that decode, so a body that does not was damaged on the way
+        if (error instanceof HttpError || !createDecoder) {
+          throw error;
+        }
+        throw expectedChecksum
+          ? new HttpError(460, 'Checksum mismatch')
+          : new HttpError(400, `Chunk body is not valid ${req.headers['content-encoding']}`);
+      }
+      // 460 as in the tus checksum extension; the client sends the chunk again
+      if (expectedChecksum && `sha256:${hash.digest('hex')}` !== expectedChecksum) {
+        throw new HttpError(460, 'Checksum mismatch');
+      }
+      await rename(tempPath, chunkPath);
+    } catch (error) {
+      await rm(tempPath, { force: true });
+      throw error;
+    }
+  };
+
+  const complete = async (req: IncomingMessage, uploadId: string): Promise<UploadResult> => {
+    const body = await readJsonBody(req);
+    const meta = await readMeta(uploadId);
+    if (!meta) {
+      throw new HttpError(404, 'Unknown upload');
+    }
+    if (meta.result) {
+      return meta.result;
+    }
+
+    const fileSize = body.fileSize === undefined ? meta.fileSize : Number(body.fileSize);
+    if (fileSize === undefined || !Number.isInteger(fileSize) || fileSize < 0) {
+      throw new HttpError(400, 'Missing or invalid fileSize');
+    }
+    if (meta.totalChunks === undefined) {
+      throw new HttpError(409, 'Upload has no chunks');
+    }
+
+    const received = new Set(await listChunks(uploadId));
+    const missing = Array.from({ length: meta.totalChunks }, (_, index) => index).filter(
+      (index) => !received.has(index)
+    );
+    if (missing.length > 0) {
+      throw new HttpError(409, 'Upload is missing chunks', { missing });
+    }
+
+    // Concatenate chunks in order into the final file
+    const filePath = join(uploadDir(uploadId), 'file');
+    const out = createWriteStream(filePath);
+    for (let index = 0; index < meta.totalChunks; index++) {
+      await pipeline(createReadStream(join(chunksDir(uploadId), `${index}.part`)), out, { end: false });
+    }
+    await new Promise<void>((resolve, reject) => out.end((error?: Error | null) => (error ? reject(error) : resolve())));
+
+    const { size } = await stat(filePath);
+    if (size !== fileSize) {
+      await rm(filePath, { force: true });
+      throw new HttpError(422, `Assembled size ${size} does not match expected size ${fileSize}`);
+    }
+
+    const hash = createHash('sha256');
+    for await (const data of createReadStream(filePath)) {
+      hash.update(data as Buffer);
+    }
+
+    const result: UploadResult = { uploadId, location: filePath, size, checksum: `sha256:${hash.digest('hex')}` };
+    await writeMeta(uploadId, { ...meta, result });
+    await rm(chunksDir(uploadId), { recursive: true, force: true });
+    return result;
+  };
+
+  const abort = async (uploadId: string) => {
+    if (!(await readMeta(uploadId))) {
+      throw new HttpError(404, 'Unknown upload');
+    }
+    await rm(uploadDir(uploadId), { recursive: true, force: true });
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== basePath && !url.pathname.startsWith(`${basePath}/`)) {
+      return false;
+    }
+
+    if (options.cors) {
+      res.setHeader('Access-Control-Allow-Origin', '*');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, PUT, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Content-Encoding, X-Upload-Id, X-Chunk-Index, X-Total-Chunks, X-Chunk-Offset, X-Chunk-Checksum');
+      if (req.method === 'OPTIONS') {
+        res.statusCode = 204;
+        res.end();
+        return true;
+      }
+    }
+
+    const segments = url.pathname.slice(basePath.length).split('/').filter(Boolean).map(decodeURIComponent);
+    if (req.method === 'POST' && segments.length === 0) {
+      sendJson(res, 201, await init(req));
+      return true;
+    }
+
+    const [uploadId, resource, rawIndex] = segments;
+    if (!uploadId || !UPLOAD_ID_PATTERN.test(uploadId)) {
+      throw new HttpError(404, 'Not found');
+    }
+
+    if (req.method === 'PUT' && resource === 'chunks' && rawIndex !== undefined && segments.length === 3) {
+      await putChunk(req, uploadId, rawIndex);
+      res.statusCode = 204;
+      res.end();
+      return true;
+    }
+
+    if (req.method === 'GET' && resource === 'chunks' && segments.length === 2) {
+      const meta = await readMeta(uploadId);
+      if (!meta) {
+        throw new HttpError(404, 'Unknown upload');
+      }
+      // Chunks are removed once assembled; they all count as received
+      const chunks = meta.result
+        ? Array.from({ length: meta.totalChunks ?? 0 }, (_, index) => index)
+        : await listChunks(uploadId);
+      sendJson(res, 200, chunks);
+      return true;
+    }
+
+    if (req.method === 'POST' && resource === 'complete' && segments.length === 2) {
+      sendJson(res, 200, await complete(req, uploadId));
+      return true;
+    }
+
+    if (req.method === 'DELETE' && segments.length === 1) {
+      await abort(uploadId);
+      res.statusCode = 204;
+      res.end();
+      return true;
+    }
+
+    throw new HttpError(404, 'Not found');
+  };
+
+  return (req, res, next) => {
+    handle(req, res)
+      .then((handled) => {
+        if (handled) {
+          return;
+        }
+        if (next) {
+          next();
+        } else {
+          sendJson(res, 404, { error: 'Not found' });
+        }
+      })
+      .catch((error: unknown) => {
+        if (error instanceof HttpError) {
+          sendJson(res, error.status, { error: error.message, ...error.body });
+          return;
+        }
+        console.error('Upload server error:', error);
+        sendJson(res, 500, { error: 'Internal server error' });
+      });
+  };
+}
@@ -0,0 +1,15 @@
+import type { Plugin } from 'vite';
+import { createUploadMiddleware, type UploadServerOptions } from './uploadServer';
+
+/**
+ * Mounts the reference upload server on the Vite dev server,
+ * so VITE_UPLOAD_ENDPOINT=/api/upload works without a separate process
+ */
+export function uploadServerPlugin(options: UploadServerOptions = {}): Plugin {
+  return {
+    name: 'upload-server',
+    configureServer(server) {
+      server.middlewares.use(createUploadMiddleware(options));
+    },
+  };
+}
@@ -1,93 +1,217 @@
-import { useState, useEffect } from 'react';
-import { UploadState } from './types/upload';
-import { getAllUploadStates, loadUploadState, deleteUploadState } from './utils/uploadState';
-import FileUpload from './components/FileUpload';
-import UploadProgress from './components/UploadProgress';
-import ResumeUploads from './components/ResumeUploads';
-
-function App() {
-  const [currentUpload, setCurrentUpload] = useState<UploadState | null>(null);
-  const [currentFile, setCurrentFile] = useState<File | null>(null);
-  const [previousUploads, setPreviousUploads] = useState<UploadState[]>([]);
-
-  useEffect(() => {
-    // Load previous uploads on mount
-    const uploads = getAllUploadStates();
-    setPreviousUploads(uploads);
-  }, []);
-
-  const handleUploadStart = (uploadState: UploadState, file: File) => {
-    setCurrentUpload(uploadState);
-    setCurrentFile(file);
-    // Refresh previous uploads list
-    const uploads = getAllUploadStates();
-    setPreviousUploads(uploads);
-  };
-
-  const handleUploadComplete = () => {
-    setCurrentUpload(null);
-    setCurrentFile(null);
-    // Refresh previous uploads list
-    const uploads = getAllUploadStates();
-    setPreviousUploads(uploads);
-  };
-
-  const handleResume = (uploadId: string, file: File | null) => {
-    const state = loadUploadState(uploadId);
-    if (state) {
-      setCurrentUpload(state);
-      setCurrentFile(file);
-    }
-  };
-
-  const handleDelete = (uploadId: string) => {
-    deleteUploadState(uploadId);
-    const uploads = getAllUploadStates();
-    setPreviousUploads(uploads);
-    if (currentUpload?.uploadId === uploadId) {
-      setCurrentUpload(null);
-    }
-  };
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
-      <div className="max-w-4xl mx-auto">
-        <div className="bg-white rounded-lg shadow-xl p-8">
-          <h1 className="text-3xl font-bold text-gray-800 mb-2">
-            Resumable AI File Upload System
-          </h1>
-          <p className="text-gray-600 mb-8">
-            Upload large AI datasets, model artifacts, or training files with automatic chunking and resume capability.
-          </p>
-
-          {!currentUpload ? (
-            <>
-              <FileUpload onUploadStart={handleUploadStart} />
-              {previousUploads.length > 0 && (
-                <ResumeUploads
-                  uploads={previousUploads}
-                  onResume={handleResume}
-                  onDelete={handleDelete}
-                />
-              )}
-            </>
-          ) : (
-            <UploadProgress
-              uploadState={currentUpload}
-              file={currentFile}
-              onComplete={handleUploadComplete}
-              onCancel={() => {
-                setCurrentUpload(null);
-                setCurrentFile(null);
-              }}
-              onFileSelect={(file) => setCurrentFile(file)}
-            />
-          )}
-        </div>
-      </div>
-    </div>
-  );
-}
-
-export default App;
-
+import { useState, useEffect } from 'react';
+import { QuarantinedSession, UploadResult, UploadState } from './types/upload';
+import {
+  applyRetention,
+  listUploadSessions,
+  loadUploadState,
+  deleteUploadState,
+  startNewUpload,
+} from './utils/uploadState';
+import FileUpload from './components/FileUpload';
+import UploadProgress from './components/UploadProgress';
+import ResumeUploads from './components/ResumeUploads';
+import ChecksumBadge from './components/ChecksumBadge';
+import StorageUsage from './components/StorageUsage';
+import { getDefaultTransport } from './utils/transports';
+import { renewUploadEncryption } from './utils/encryption';
+import { getDefaultStateStore } from './utils/stateStore';
+import { getDefaultFileSourceStore } from './utils/fileSources';
+import { getRetentionPolicy } from './utils/retention';
+
+const transport = getDefaultTransport();
+const stateStore = getDefaultStateStore();
+const fileSources = getDefaultFileSourceStore();
+const retentionPolicy = getRetentionPolicy();
+
+// The file is not needed to resume the upload anymore
+function forgetFile(uploadId: string) {
+  fileSources?.delete(uploadId).catch((error) => {
+    console.error('Failed to forget upload file:', error);
+  });
+}
+
+function App() {
+  const [currentUpload, setCurrentUpload] = useState<UploadState | null>(null);
+  const [currentFile, setCurrentFile] = useState<File | null>(null);
+  // Data key of the current upload when it is encrypted and unlocked
+  const [encryptionKey, setEncryptionKey] = useState<CryptoKey | undefined>();
+  const [previousUploads, setPreviousUploads] = useState<UploadState[]>([]);
+  const [quarantinedUploads, setQuarantinedUploads] = useState<QuarantinedSession[]>([]);
+  const [completedUpload, setCompletedUpload] = useState<{ fileName: string; result?: UploadResult } | null>(null);
+  const [restartError, setRestartError] = useState<string | null>(null);
+
+  const isUploading = currentUpload !== null;
+
+  // Keep the list of previous uploads in step with the store while it is shown. It is
+  // hidden during an upload, which saves its state on every chunk
+  useEffect(() => {
+    if (isUploading) {
+      return;
+    }
+    let active = true;
+    const refresh = () => {
+      listUploadSessions(stateStore).then(({ states, quarantined }) => {
+        if (active) {
+          setPreviousUploads(states);
+          setQuarantinedUploads(quarantined);
+        }
+      });
+    };
+    refresh();
+    const unsubscribe = stateStore.subscribe(refresh);
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, [isUploading]);
+
+  // Delete expired uploads and mark the ones the server has discarded, once per page
+  // load; the list refreshes as the store reports the changes
+  useEffect(() => {
+    applyRetention(discardUpload, { policy: retentionPolicy, store: stateStore }).catch((error) => {
+      console.error('Failed to apply retention policy:', error);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const handleUploadStart = (uploadState: UploadState, file: File, key?: CryptoKey) => {
+    setCompletedUpload(null);
+    setRestartError(null);
+    setCurrentUpload(uploadState);
+    setCurrentFile(file);
+    setEncryptionKey(key);
+  };
+
+  const handleUploadComplete = (result?: UploadResult) => {
+    if (currentUpload) {
+      setCompletedUpload({ fileName: currentUpload.fileName, result });
+      forgetFile(currentUpload.uploadId);
+    }
+    setCurrentUpload(null);
+    setCurrentFile(null);
+  };
+
+  const handleResume = async (uploadId: string, file: File | null) => {
+    const state = await loadUploadState(uploadId, stateStore);
+    if (state) {
+      setCurrentUpload(state);
+      setCurrentFile(file);
+      setEncryptionKey(undefined);
+    }
+  };
+
+  // Forget an upload and release partial data on the server, if the transport keeps any.
+  // Finalized uploads are only forgotten: the assembled file on the server is the result
+  const discardUpload = async (uploadId: string) => {
+    const state = await loadUploadState(uploadId, stateStore);
+    if (state && !state.result && transport.abortUpload) {
+      transport.abortUpload(state).catch((error) => {
+        console.error('Failed to abort upload on server:', error);
+      });
+    }
+
+    forgetFile(uploadId);
+    await deleteUploadState(uploadId, stateStore);
+  };
+
+  const handleCancel = () => {
+    if (currentUpload) {
+      discardUpload(currentUpload.uploadId);
+    }
+    setCurrentUpload(null);
+    setCurrentFile(null);
+  };
+
+  // The re-selected file is not the one the upload started with: drop the old upload
+  // and upload this file from scratch, encrypted under the same key if the old one was
+  // (or compressed if it was)
+  const handleRestart = async (uploadId: string, file: File) => {
+    const previous = await loadUploadState(uploadId, stateStore);
+    const encryption = previous?.encryption;
+    // Only the current upload's key; a key left from an earlier upload would not match its wrapped key
+    const key = currentUpload?.uploadId === uploadId ? encryptionKey : undefined;
+    await discardUpload(uploadId);
+    setCurrentUpload(null);
+    setCurrentFile(null);
+    try {
+      const uploadState = await startNewUpload(transport, file, {
+        encryption: encryption && renewUploadEncryption(encryption),
+        compress: previous?.compression !== undefined,
+      });
+      handleUploadStart(uploadState, file, encryption ? key : undefined);
+    } catch (error) {
+      setRestartError(error instanceof Error ? error.message : 'Failed to start upload');
+    }
+  };
+
+  const handleDelete = (uploadId: string) => {
+    discardUpload(uploadId);
+    if (currentUpload?.uploadId === uploadId) {
+      setCurrentUpload(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8 px-4">
+      <div className="max-w-4xl mx-auto">
+        <div className="bg-white rounded-lg shadow-xl p-8">
+          <h1 className="text-3xl font-bold text-gray-800 mb-2">
+            Resumable AI File Upload System
+          </h1>
+          <p className="text-gray-600 mb-8">
+            Upload large AI datasets, model artifacts, or training files with automatic chunking and resume capability.
+          </p>
+
+          {!currentUpload ? (
+            <>
+              {completedUpload && (
+                <div className="mb-6 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded">
+                  <p className="font-medium flex items-center gap-2">
+                    {completedUpload.fileName} uploaded
+                    <ChecksumBadge result={completedUpload.result} />
+                  </p>
+                  {completedUpload.result && (
+                    <p className="text-sm break-all">
+                      {completedUpload.result.location}
+                      {completedUpload.result.checksum && ` • ${completedUpload.result.checksum}`}
+                    </p>
+                  )}
+                </div>
+              )}
+              {restartError && (
+                <div className="mb-6 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+                  {restartError}
+                </div>
+              )}
+              <FileUpload transport={transport} onUploadStart={handleUploadStart} />
+              {(previousUploads.length > 0 || quarantinedUploads.length > 0) && (
+                <ResumeUploads
+                  uploads={previousUploads}
+                  quarantined={quarantinedUploads}
+                  onResume={handleResume}
+                  onDelete={handleDelete}
+                  onRestart={handleRestart}
+                />
+              )}
+              {previousUploads.length > 0 && <StorageUsage uploads={previousUploads} policy={retentionPolicy} />}
+            </>
+          ) : (
+            <UploadProgress
+              uploadState={currentUpload}
+              file={currentFile}
+              transport={transport}
+              onComplete={handleUploadComplete}
+              onCancel={handleCancel}
+              onFileSelect={(file) => setCurrentFile(file)}
+              onRestart={(file) => handleRestart(currentUpload.uploadId, file)}
+              encryptionKey={encryptionKey}
+            />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default App;
+
@@ -1,25 +1,25 @@
-import React from 'react';
-
-interface ChevronDownIconProps {
-  className?: string;
-}
-
-export const ChevronDownIcon: React.FC<ChevronDownIconProps> = ({ className = 'w-4 h-4' }) => {
-  return (
-    <svg
-      className={className}
-      fill="none"
-      stroke="currentColor"
-      viewBox="0 0 24 24"
-      aria-hidden="true"
-    >
-      <path
-        strokeLinecap="round"
-        strokeLinejoin="round"
-        strokeWidth={2}
-        d="M19 9l-7 7-7-7"
-      />
-    </svg>
-  );
-};
-
+import React from 'react';
+
+interface ChevronDownIconProps {
+  className?: string;
+}
+
+export const ChevronDownIcon: React.FC<ChevronDownIconProps> = ({ className = 'w-4 h-4' }) => {
+  return (
+    <svg
+      className={className}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+      aria-hidden="true"
+    >
+      <path
+        strokeLinecap="round"
+        strokeLinejoin="round"
+        strokeWidth={2}
+        d="M19 9l-7 7-7-7"
+      />
+    </svg>
+  );
+};
+
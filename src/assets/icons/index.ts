@@ -1,3 +1,3 @@
-export { UploadIcon } from './UploadIcon';
-export { ChevronDownIcon } from './ChevronDownIcon';
-
+export { UploadIcon } from './UploadIcon';
+export { ChevronDownIcon } from './ChevronDownIcon';
+
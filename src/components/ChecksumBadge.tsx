@@ -0,0 +1,31 @@
+import { UploadResult } from '../types/upload';
+
+interface ChecksumBadgeProps {
+  result?: UploadResult;
+}
+
+/**
+ * Outcome of comparing the server's whole-file digest with the local file;
+ * renders nothing when no comparison was made
+ */
+export default function ChecksumBadge({ result }: ChecksumBadgeProps) {
+  if (result?.verified === undefined) {
+    return null;
+  }
+
+  return result.verified ? (
+    <span
+      title={`SHA-256 matches the local file: ${result.checksum}`}
+      className="inline-flex items-center px-2 py-0.5 text-xs font-medium text-green-800 bg-green-100 rounded-full"
+    >
+      Verified
+    </span>
+  ) : (
+    <span
+      title={`Server reported ${result.checksum}, which does not match the local file`}
+      className="inline-flex items-center px-2 py-0.5 text-xs font-medium text-red-800 bg-red-100 rounded-full"
+    >
+      Checksum mismatch
+    </span>
+  );
+}
@@ -0,0 +1,40 @@
+interface FileMismatchPromptProps {
+  /** Name of the file that was selected */
+  fileName: string;
+  /** Name the upload was started with */
+  uploadFileName: string;
+  onRestart: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown when a file re-selected to resume an upload is not the one it was started with.
+ * Resuming would mix chunks of two files, so the only choices are to start over or back out
+ */
+export default function FileMismatchPrompt({ fileName, uploadFileName, onRestart, onCancel }: FileMismatchPromptProps) {
+  return (
+    <div role="alertdialog" className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+      <p className="text-sm font-medium text-yellow-800">
+        {fileName} does not match the file this upload started with
+      </p>
+      <p className="text-sm text-yellow-800 mt-1">
+        Its contents differ from {uploadFileName} as it was when the upload began. Restart to upload
+        this file from the beginning, or cancel and select the original file.
+      </p>
+      <div className="flex gap-2 mt-3">
+        <button
+          onClick={onRestart}
+          className="px-4 py-2 text-sm font-medium text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 transition-colors"
+        >
+          Restart upload
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
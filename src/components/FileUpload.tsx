@@ -1,164 +1,301 @@
-import { useRef, useState, useEffect } from 'react';
-import { UploadState } from '../types/upload';
-import { generateUploadId } from '../utils/fileChunker';
-import { createUploadState, saveUploadState } from '../utils/uploadState';
-import { UploadIcon } from '../assets/icons';
-import { UPLOAD_SPEEDS, getUploadSpeed, setUploadSpeed, type UploadSpeed } from '../utils/api';
-import { getSpeedLabel } from '../utils/formatters';
-
-const CHUNK_SIZE = 1024 * 1024; // 1 MB
-
-interface FileUploadProps {
-  onUploadStart: (uploadState: UploadState, file: File) => void;
-}
-
-export default function FileUpload({ onUploadStart }: FileUploadProps) {
-  const [isDragging, setIsDragging] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [uploadSpeed, setUploadSpeedState] = useState<UploadSpeed>(getUploadSpeed());
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  // Update global speed when local state changes
-  useEffect(() => {
-    setUploadSpeed(uploadSpeed);
-  }, [uploadSpeed]);
-
-  const handleFileSelect = (file: File) => {
-    setError(null);
-
-    if (!file) {
-      return;
-    }
-
-    // Generate unique upload ID
-    const uploadId = generateUploadId();
-
-    // Calculate total chunks without splitting (optimization)
-    // Handle empty files - at least 1 chunk needed
-    const totalChunks = file.size === 0 ? 1 : Math.ceil(file.size / CHUNK_SIZE);
-
-    // Create initial upload state
-    const uploadState = createUploadState(
-      uploadId,
-      file.name,
-      file.size,
-      totalChunks,
-      CHUNK_SIZE
-    );
-
-    // Save to localStorage
-    saveUploadState(uploadId, uploadState);
-
-    // Start upload with file reference
-    onUploadStart(uploadState, file);
-  };
-
-  const handleDragOver = (e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragging(true);
-  };
-
-  const handleDragLeave = (e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragging(false);
-  };
-
-  const handleDrop = (e: React.DragEvent) => {
-    e.preventDefault();
-    setIsDragging(false);
-
-    const file = e.dataTransfer.files[0];
-    if (file) {
-      handleFileSelect(file);
-    }
-  };
-
-  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      handleFileSelect(file);
-    }
-  };
-
-  const handleClick = () => {
-    fileInputRef.current?.click();
-  };
-
-  const handleSpeedChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const newSpeed = e.target.value as UploadSpeed;
-    setUploadSpeedState(newSpeed);
-    setUploadSpeed(newSpeed);
-  };
-
-  return (
-    <div className="space-y-4">
-      {/* Upload Speed Selector */}
-      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-        <div className="flex items-center justify-between">
-          <div>
-            <label htmlFor="upload-speed" className="block text-sm font-medium text-gray-700 mb-1">
-              Upload Speed
-            </label>
-            <p className="text-xs text-gray-500">
-              Choose the upload speed before selecting your file
-            </p>
-          </div>
-          <select
-            id="upload-speed"
-            value={uploadSpeed}
-            onChange={handleSpeedChange}
-            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-          >
-            {Object.keys(UPLOAD_SPEEDS).map((speed) => (
-              <option key={speed} value={speed}>
-                {getSpeedLabel(speed as UploadSpeed)}
-              </option>
-            ))}
-          </select>
-        </div>
-      </div>
-
-      <div
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-        onClick={handleClick}
-        className={`
-          border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
-          transition-all duration-200
-          ${
-            isDragging
-              ? 'border-blue-500 bg-blue-50'
-              : 'border-gray-300 hover:border-blue-400 hover:bg-gray-50'
-          }
-        `}
-      >
-        <input
-          ref={fileInputRef}
-          type="file"
-          className="hidden"
-          onChange={handleFileInputChange}
-        />
-        <div className="space-y-4">
-          <div className="mx-auto text-gray-400">
-            <UploadIcon className="h-12 w-12" />
-          </div>
-          <div>
-            <p className="text-lg font-medium text-gray-700">
-              Drop your file here, or click to browse
-            </p>
-            <p className="text-sm text-gray-500 mt-2">
-              Supports large files - uploads are automatically chunked and resumable
-            </p>
-          </div>
-        </div>
-      </div>
-
-      {error && (
-        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
-          {error}
-        </div>
-      )}
-    </div>
-  );
-}
+import { useRef, useState } from 'react';
+import { UploadState, UploadTransport } from '../types/upload';
+import { getAllUploadStates, startNewUpload } from '../utils/uploadState';
+import { findUploadForFile } from '../utils/fileFingerprint';
+import { createUploadEncryption, unlockUploadEncryption } from '../utils/encryption';
+import {
+  FileSourceStore,
+  MAX_FILE_COPY_SIZE,
+  getDefaultFileSourceStore,
+  getDroppedFileHandle,
+  pickFile,
+  supportsFileHandles,
+} from '../utils/fileSources';
+import { formatBytes } from '../utils/formatters';
+import { UploadIcon } from '../assets/icons';
+import {
+  getNetworkProfileId,
+  getNetworkProfiles,
+  isBuiltInProfile,
+  resetNetworkProfile,
+  saveNetworkProfile,
+  setNetworkProfile,
+} from '../utils/api';
+import { NetworkProfile } from '../utils/networkSimulator';
+import NetworkProfileEditor from './NetworkProfileEditor';
+
+interface FileUploadProps {
+  transport: UploadTransport;
+  /** encryptionKey is set for encrypted uploads whose passphrase was entered */
+  onUploadStart: (uploadState: UploadState, file: File, encryptionKey?: CryptoKey) => void;
+  /** Remembers the chosen file for resuming; null where nothing can be remembered */
+  fileSources?: FileSourceStore | null;
+}
+
+export default function FileUpload({
+  transport,
+  onUploadStart,
+  fileSources = getDefaultFileSourceStore(),
+}: FileUploadProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [profiles, setProfiles] = useState<NetworkProfile[]>(getNetworkProfiles);
+  const [profileId, setProfileId] = useState(getNetworkProfileId);
+  const [showProfileEditor, setShowProfileEditor] = useState(false);
+  const [compress, setCompress] = useState(false);
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [keepCopy, setKeepCopy] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedProfile = profiles.find((profile) => profile.id === profileId) ?? profiles[0];
+
+  // Lets the upload be resumed without choosing the file again: by its handle, or by a
+  // copy where the browser has no handles and the user opted in
+  const rememberFile = async (uploadState: UploadState, file: File, handle: FileSystemFileHandle | null) => {
+    try {
+      if (handle) {
+        await fileSources?.saveHandle(uploadState.uploadId, handle);
+      } else if (keepCopy && file.size <= MAX_FILE_COPY_SIZE) {
+        await fileSources?.saveCopy(uploadState, file);
+      }
+    } catch (err) {
+      console.error('Failed to remember upload file:', err);
+    }
+  };
+
+  const handleFileSelect = async (file: File, handle: FileSystemFileHandle | null = null) => {
+    setError(null);
+
+    if (!file || isStarting) {
+      return;
+    }
+
+    if (encrypt && !passphrase) {
+      setError('Enter a passphrase to encrypt the upload');
+      return;
+    }
+
+    setIsStarting(true);
+    const start = async (uploadState: UploadState, key?: CryptoKey) => {
+      await rememberFile(uploadState, file, handle);
+      onUploadStart(uploadState, file, key);
+    };
+    try {
+      // A file that belongs to an unfinished upload (even under a new name) picks it up again
+      const existing = await findUploadForFile(await getAllUploadStates(), file);
+      if (existing) {
+        // Unlocked here if the passphrase entered is the upload's; otherwise it is asked for
+        const key =
+          existing.encryption && passphrase
+            ? await unlockUploadEncryption(existing.encryption, passphrase).catch(() => undefined)
+            : undefined;
+        await start(existing, key);
+      } else if (encrypt) {
+        const { encryption, key } = await createUploadEncryption(passphrase);
+        await start(await startNewUpload(transport, file, { encryption }), key);
+      } else {
+        await start(await startNewUpload(transport, file, { compress }));
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start upload');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      getDroppedFileHandle(e.dataTransfer.items?.[0]).then((handle) => handleFileSelect(file, handle));
+    }
+  };
+
+  const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      handleFileSelect(file);
+    }
+  };
+
+  // The browser's own picker where it returns a handle that can be remembered
+  const handleClick = () => {
+    if (!supportsFileHandles()) {
+      fileInputRef.current?.click();
+      return;
+    }
+    pickFile()
+      .then((picked) => picked && handleFileSelect(picked.file, picked.handle))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to open file'));
+  };
+
+  // Reads the profiles back from the simulator after it changed them
+  const selectProfile = (id: string) => {
+    setNetworkProfile(id);
+    setProfiles(getNetworkProfiles());
+    setProfileId(getNetworkProfileId());
+  };
+
+  const handleProfileChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    selectProfile(e.target.value);
+  };
+
+  const handleProfileSave = (profile: NetworkProfile) => {
+    saveNetworkProfile(profile);
+    selectProfile(profile.id);
+  };
+
+  const handleProfileReset = (id: string) => {
+    resetNetworkProfile(id);
+    selectProfile(getNetworkProfileId());
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Network Profile Selector */}
+      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+        <div className="flex items-center justify-between">
+          <div>
+            <label htmlFor="network-profile" className="block text-sm font-medium text-gray-700 mb-1">
+              Network Conditions
+            </label>
+            <p className="text-xs text-gray-500">
+              Choose how the simulated network behaves before selecting your file
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              id="network-profile"
+              value={selectedProfile.id}
+              onChange={handleProfileChange}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:border-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+            >
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setShowProfileEditor(!showProfileEditor)}
+              className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:border-gray-400 transition-colors"
+            >
+              {showProfileEditor ? 'Done' : 'Edit'}
+            </button>
+          </div>
+        </div>
+        {showProfileEditor && (
+          <NetworkProfileEditor
+            profile={selectedProfile}
+            isBuiltIn={isBuiltInProfile(selectedProfile.id)}
+            onSave={handleProfileSave}
+            onReset={handleProfileReset}
+          />
+        )}
+      </div>
+
+      <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 space-y-2">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            checked={compress && !encrypt}
+            disabled={encrypt}
+            onChange={(e) => setCompress(e.target.checked)}
+          />
+          Compress chunks
+        </label>
+        <p className="text-xs text-gray-500">
+          gzip per chunk for text such as JSONL and CSV, where the server supports it. Skipped for files that are
+          compressed already and for encrypted uploads
+        </p>
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <input type="checkbox" checked={encrypt} onChange={(e) => setEncrypt(e.target.checked)} />
+          Encrypt chunks before upload
+        </label>
+        <p className="text-xs text-gray-500">
+          AES-GCM in the browser: the server only ever stores ciphertext. The passphrase is needed to resume or
+          decrypt the upload and cannot be recovered
+        </p>
+        {encrypt && (
+          <input
+            type="password"
+            aria-label="Encryption passphrase"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        )}
+        {fileSources && !supportsFileHandles() && (
+          <>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input type="checkbox" checked={keepCopy} onChange={(e) => setKeepCopy(e.target.checked)} />
+              Keep a copy for resuming
+            </label>
+            <p className="text-xs text-gray-500">
+              This browser cannot reopen files by itself. Files up to {formatBytes(MAX_FILE_COPY_SIZE)} are copied into
+              browser storage until the upload finishes, so it resumes without choosing the file again
+            </p>
+          </>
+        )}
+      </div>
+
+      <div
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        onClick={handleClick}
+        className={`
+          border-2 border-dashed rounded-lg p-12 text-center cursor-pointer
+          transition-all duration-200
+          ${
+            isDragging
+              ? 'border-blue-500 bg-blue-50'
+              : 'border-gray-300 hover:border-blue-400 hover:bg-gray-50'
+          }
+        `}
+      >
+        <input
+          ref={fileInputRef}
+          type="file"
+          className="hidden"
+          onChange={handleFileInputChange}
+        />
+        <div className="space-y-4">
+          <div className="mx-auto text-gray-400">
+            <UploadIcon className="h-12 w-12" />
+          </div>
+          <div>
+            <p className="text-lg font-medium text-gray-700">
+              {isStarting ? 'Starting upload...' : 'Drop your file here, or click to browse'}
+            </p>
+            <p className="text-sm text-gray-500 mt-2">
+              Supports large files - uploads are automatically chunked and resumable
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
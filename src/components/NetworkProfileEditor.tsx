@@ -0,0 +1,152 @@
+import { useEffect, useState } from 'react';
+import { NetworkProfile, formatFailureRates, parseFailureRates } from '../utils/networkSimulator';
+
+interface NetworkProfileEditorProps {
+  profile: NetworkProfile;
+  /** Built-in profiles can be reset to their defaults; user-created ones can be deleted */
+  isBuiltIn: boolean;
+  onSave: (profile: NetworkProfile) => void;
+  onReset: (profileId: string) => void;
+}
+
+// Form fields are kept as text so partially typed numbers are not rejected mid-edit
+interface ProfileForm {
+  label: string;
+  latencyMs: string;
+  jitterMs: string;
+  bandwidthKBps: string;
+  failureRates: string;
+  offlineStartSec: string;
+  offlineDurationSec: string;
+  offlineRepeatSec: string;
+  seed: string;
+}
+
+function toForm(profile: NetworkProfile): ProfileForm {
+  const window = profile.offlineWindows[0];
+  return {
+    label: profile.label,
+    latencyMs: String(profile.latencyMs),
+    jitterMs: String(profile.jitterMs),
+    bandwidthKBps: profile.bandwidthBytesPerSec === null ? '' : String(profile.bandwidthBytesPerSec / 1024),
+    failureRates: formatFailureRates(profile.failureRates),
+    offlineStartSec: window ? String(window.startMs / 1000) : '',
+    offlineDurationSec: window ? String(window.durationMs / 1000) : '',
+    offlineRepeatSec: window?.repeatEveryMs ? String(window.repeatEveryMs / 1000) : '',
+    seed: profile.seed === null ? '' : String(profile.seed),
+  };
+}
+
+function parseNumber(value: string, field: string): number {
+  const number = Number(value);
+  if (value.trim() === '' || !Number.isFinite(number) || number < 0) {
+    throw new Error(`${field} must be a non-negative number`);
+  }
+  return number;
+}
+
+function fromForm(form: ProfileForm, id: string): NetworkProfile {
+  const offlineWindows = form.offlineDurationSec.trim()
+    ? [
+        {
+          startMs: parseNumber(form.offlineStartSec || '0', 'Offline start') * 1000,
+          durationMs: parseNumber(form.offlineDurationSec, 'Offline duration') * 1000,
+          ...(form.offlineRepeatSec.trim()
+            ? { repeatEveryMs: parseNumber(form.offlineRepeatSec, 'Offline repeat') * 1000 }
+            : {}),
+        },
+      ]
+    : [];
+  return {
+    id,
+    label: form.label.trim() || id,
+    latencyMs: parseNumber(form.latencyMs, 'Latency'),
+    jitterMs: parseNumber(form.jitterMs, 'Jitter'),
+    bandwidthBytesPerSec: form.bandwidthKBps.trim()
+      ? parseNumber(form.bandwidthKBps, 'Bandwidth') * 1024
+      : null,
+    failureRates: parseFailureRates(form.failureRates),
+    offlineWindows,
+    seed: form.seed.trim() ? Math.floor(parseNumber(form.seed, 'Seed')) : null,
+  };
+}
+
+const inputClass =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * Edits the latency, bandwidth, failure and outage settings of a simulator profile
+ */
+export default function NetworkProfileEditor({ profile, isBuiltIn, onSave, onReset }: NetworkProfileEditorProps) {
+  const [form, setForm] = useState<ProfileForm>(() => toForm(profile));
+  const [error, setError] = useState<string | null>(null);
+
+  // Reload the form when another profile is selected (or this one is reset)
+  useEffect(() => {
+    setForm(toForm(profile));
+    setError(null);
+  }, [profile]);
+
+  const field = (key: keyof ProfileForm, label: string, placeholder?: string) => (
+    <label className="block text-xs text-gray-600">
+      {label}
+      <input
+        className={inputClass}
+        value={form[key]}
+        placeholder={placeholder}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+      />
+    </label>
+  );
+
+  const save = (id: string) => {
+    try {
+      onSave(fromForm(form, id));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid profile');
+    }
+  };
+
+  return (
+    <div className="space-y-3 pt-3">
+      <div className="grid grid-cols-3 gap-3">
+        {field('label', 'Name')}
+        {field('latencyMs', 'Latency (ms)')}
+        {field('jitterMs', 'Jitter (± ms)')}
+        {field('bandwidthKBps', 'Bandwidth (KB/s)', 'Unlimited')}
+        {field('failureRates', 'Failure rates', 'e.g. 503=10%, 429=5%')}
+        {field('seed', 'Seed', 'Random')}
+        {field('offlineStartSec', 'Offline from (s)', '0')}
+        {field('offlineDurationSec', 'Offline for (s)', 'Never offline')}
+        {field('offlineRepeatSec', 'Repeat every (s)', 'Once')}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => save(profile.id)}
+          className="px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded hover:bg-blue-700 transition-colors"
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={() => save(`custom-${Date.now()}`)}
+          className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
+        >
+          Save as New
+        </button>
+        <button
+          type="button"
+          onClick={() => onReset(profile.id)}
+          className="px-3 py-1 text-sm font-medium text-gray-700 bg-gray-100 rounded hover:bg-gray-200 transition-colors"
+        >
+          {isBuiltIn ? 'Reset to Default' : 'Delete'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState } from 'react';
+import { UploadEncryption } from '../types/upload';
+import { unlockUploadEncryption } from '../utils/encryption';
+
+interface PassphrasePromptProps {
+  encryption: UploadEncryption;
+  onUnlock: (key: CryptoKey) => void;
+}
+
+/**
+ * Asks for the passphrase of an encrypted upload. Only the wrapped data key is saved,
+ * so a resumed upload cannot send chunks until it is unlocked again
+ */
+export default function PassphrasePrompt({ encryption, onUnlock }: PassphrasePromptProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsUnlocking(true);
+    try {
+      onUnlock(await unlockUploadEncryption(encryption, passphrase));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock upload');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+      <label htmlFor="upload-passphrase" className="block text-sm text-yellow-800 mb-2">
+        This upload is encrypted. Enter its passphrase to continue:
+      </label>
+      <div className="flex gap-2">
+        <input
+          id="upload-passphrase"
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-yellow-500"
+        />
+        <button
+          type="submit"
+          disabled={!passphrase || isUnlocking}
+          className="px-4 py-2 text-sm font-medium text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 disabled:opacity-50 transition-colors"
+        >
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-700 mt-2">{error}</p>}
+    </form>
+  );
+}
@@ -1,141 +1,245 @@
-import { useRef } from 'react';
-import { UploadState } from '../types/upload';
-import { formatBytes } from '../utils/formatters';
-
-interface ResumeUploadsProps {
-  uploads: UploadState[];
-  onResume: (uploadId: string, file: File | null) => void;
-  onDelete: (uploadId: string) => void;
-}
-
-export default function ResumeUploads({
-  uploads,
-  onResume,
-  onDelete,
-}: ResumeUploadsProps) {
-  const fileInputRef = useRef<HTMLInputElement>(null);
-  const resumeUploadIdRef = useRef<string | null>(null);
-
-  const handleResumeClick = (uploadId: string) => {
-    resumeUploadIdRef.current = uploadId;
-    fileInputRef.current?.click();
-  };
-
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    const uploadId = resumeUploadIdRef.current;
-    
-    if (file && uploadId) {
-      const upload = uploads.find((u) => u.uploadId === uploadId);
-      if (upload && file.name === upload.fileName && file.size === upload.fileSize) {
-        onResume(uploadId, file);
-      } else {
-        alert('Please select the same file to resume upload.');
-      }
-    }
-    
-    // Reset
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-    resumeUploadIdRef.current = null;
-  };
-  const getProgress = (upload: UploadState): number => {
-    const uploadedCount = upload.chunks.filter((chunk) => chunk.uploaded).length;
-    return (uploadedCount / upload.totalChunks) * 100;
-  };
-
-  const isComplete = (upload: UploadState): boolean => {
-    return upload.chunks.every((chunk) => chunk.uploaded);
-  };
-
-  const incompleteUploads = uploads.filter((upload) => !isComplete(upload));
-  const completeUploads = uploads.filter((upload) => isComplete(upload));
-
-  if (uploads.length === 0) {
-    return null;
-  }
-
-  return (
-    <div className="mt-8 space-y-4">
-      <input
-        ref={fileInputRef}
-        type="file"
-        className="hidden"
-        onChange={handleFileSelect}
-      />
-      <h2 className="text-xl font-semibold text-gray-800">Previous Uploads</h2>
-
-      {incompleteUploads.length > 0 && (
-        <div className="space-y-3">
-          <h3 className="text-sm font-medium text-gray-600">Incomplete</h3>
-          {incompleteUploads.map((upload) => {
-            const progress = getProgress(upload);
-            return (
-              <div
-                key={upload.uploadId}
-                className="border border-gray-200 rounded-lg p-4 bg-gray-50"
-              >
-                <div className="flex items-center justify-between mb-2">
-                  <div className="flex-1">
-                    <p className="font-medium text-gray-800">{upload.fileName}</p>
-                    <p className="text-sm text-gray-500">
-                      {formatBytes(upload.fileSize)} • {progress.toFixed(1)}% complete
-                    </p>
-                  </div>
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => handleResumeClick(upload.uploadId)}
-                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
-                    >
-                      Resume
-                    </button>
-                    <button
-                      onClick={() => onDelete(upload.uploadId)}
-                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
-                    >
-                      Delete
-                    </button>
-                  </div>
-                </div>
-                <div className="w-full bg-gray-200 rounded-full h-2">
-                  <div
-                    className="h-full bg-blue-500 rounded-full transition-all"
-                    style={{ width: `${progress}%` }}
-                  />
-                </div>
-              </div>
-            );
-          })}
-        </div>
-      )}
-
-      {completeUploads.length > 0 && (
-        <div className="space-y-3">
-          <h3 className="text-sm font-medium text-gray-600">Completed</h3>
-          {completeUploads.map((upload) => (
-            <div
-              key={upload.uploadId}
-              className="border border-green-200 rounded-lg p-4 bg-green-50"
-            >
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="font-medium text-gray-800">{upload.fileName}</p>
-                  <p className="text-sm text-gray-500">
-                    {formatBytes(upload.fileSize)} • Completed
-                  </p>
-                </div>
-                <button
-                  onClick={() => onDelete(upload.uploadId)}
-                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
-                >
-                  Delete
-                </button>
-              </div>
-            </div>
-          ))}
-        </div>
-      )}
-    </div>
-  );
-}
+import { useRef, useState } from 'react';
+import { QuarantinedSession, UploadState } from '../types/upload';
+import { formatBytes } from '../utils/formatters';
+import { isFileForUpload } from '../utils/fileFingerprint';
+import {
+  FileSourceStore,
+  getDefaultFileSourceStore,
+  pickFile,
+  restoreUploadFile,
+  supportsFileHandles,
+} from '../utils/fileSources';
+import ChecksumBadge from './ChecksumBadge';
+import FileMismatchPrompt from './FileMismatchPrompt';
+
+interface ResumeUploadsProps {
+  uploads: UploadState[];
+  /** Saved uploads that cannot be read; they can only be deleted */
+  quarantined?: QuarantinedSession[];
+  onResume: (uploadId: string, file: File | null) => void;
+  onDelete: (uploadId: string) => void;
+  /** Discard the upload and start over with a file that does not match it */
+  onRestart?: (uploadId: string, file: File) => void;
+  /** Reopens files remembered when uploads started; null where nothing can be remembered */
+  fileSources?: FileSourceStore | null;
+}
+
+export default function ResumeUploads({
+  uploads,
+  quarantined = [],
+  onResume,
+  onDelete,
+  onRestart,
+  fileSources = getDefaultFileSourceStore(),
+}: ResumeUploadsProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const resumeUploadIdRef = useRef<string | null>(null);
+  // A re-selected file that is not the one the upload started with
+  const [mismatch, setMismatch] = useState<{ uploadId: string; file: File } | null>(null);
+
+  // An upload the server has discarded can only start over, with the same file
+  const continueUpload = (upload: UploadState, file: File) => {
+    if (upload.stale && onRestart) {
+      onRestart(upload.uploadId, file);
+    } else {
+      onResume(upload.uploadId, file);
+    }
+  };
+
+  const resumeWithFile = async (upload: UploadState, file: File, handle: FileSystemFileHandle | null = null) => {
+    setMismatch(null);
+    if (await isFileForUpload(upload, file)) {
+      // Picked with a handle: remembered, so next time the file is reopened without asking
+      if (handle) {
+        await fileSources?.saveHandle(upload.uploadId, handle).catch((err) => {
+          console.error('Failed to remember upload file:', err);
+        });
+      }
+      continueUpload(upload, file);
+    } else {
+      setMismatch({ uploadId: upload.uploadId, file });
+    }
+  };
+
+  // Reopens the file remembered for the upload; asks for it only when that fails
+  const handleResumeClick = async (upload: UploadState) => {
+    const remembered = fileSources && (await restoreUploadFile(fileSources, upload));
+    if (remembered) {
+      continueUpload(upload, remembered);
+    } else if (supportsFileHandles()) {
+      const picked = await pickFile().catch(() => null);
+      if (picked) {
+        await resumeWithFile(upload, picked.file, picked.handle);
+      }
+    } else {
+      resumeUploadIdRef.current = upload.uploadId;
+      fileInputRef.current?.click();
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const uploadId = resumeUploadIdRef.current;
+
+    // Reset
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    resumeUploadIdRef.current = null;
+
+    const upload = uploads.find((u) => u.uploadId === uploadId);
+    if (file && upload) {
+      await resumeWithFile(upload, file);
+    }
+  };
+  const getProgress = (upload: UploadState): number => {
+    const uploadedCount = upload.chunks.filter((chunk) => chunk.uploaded).length;
+    return (uploadedCount / upload.totalChunks) * 100;
+  };
+
+  const isComplete = (upload: UploadState): boolean => {
+    return upload.chunks.every((chunk) => chunk.uploaded);
+  };
+
+  const incompleteUploads = uploads.filter((upload) => !isComplete(upload));
+  const completeUploads = uploads.filter((upload) => isComplete(upload));
+
+  if (uploads.length === 0 && quarantined.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-8 space-y-4">
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+      <h2 className="text-xl font-semibold text-gray-800">Previous Uploads</h2>
+
+      {incompleteUploads.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-600">Incomplete</h3>
+          {incompleteUploads.map((upload) => {
+            const progress = getProgress(upload);
+            return (
+              <div
+                key={upload.uploadId}
+                className="border border-gray-200 rounded-lg p-4 bg-gray-50"
+              >
+                <div className="flex items-center justify-between mb-2">
+                  <div className="flex-1">
+                    <p className="font-medium text-gray-800">{upload.fileName}</p>
+                    <p className="text-sm text-gray-500">
+                      {formatBytes(upload.fileSize)} • {progress.toFixed(1)}% complete
+                    </p>
+                    {upload.stale && (
+                      <p className="text-sm text-red-600">
+                        Expired on the server: {upload.stale.reason}. Restarting uploads the file again.
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleResumeClick(upload)}
+                      className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors"
+                    >
+                      {upload.stale && onRestart ? 'Restart' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => onDelete(upload.uploadId)}
+                      className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="h-full bg-blue-500 rounded-full transition-all"
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+                {mismatch?.uploadId === upload.uploadId && (
+                  <div className="mt-3">
+                    <FileMismatchPrompt
+                      fileName={mismatch.file.name}
+                      uploadFileName={upload.fileName}
+                      onRestart={() => {
+                        setMismatch(null);
+                        onRestart?.(upload.uploadId, mismatch.file);
+                      }}
+                      onCancel={() => setMismatch(null)}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {completeUploads.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-600">Completed</h3>
+          {completeUploads.map((upload) => (
+            <div
+              key={upload.uploadId}
+              className="border border-green-200 rounded-lg p-4 bg-green-50"
+            >
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-gray-800 flex items-center gap-2">
+                    {upload.fileName}
+                    <ChecksumBadge result={upload.result} />
+                  </p>
+                  <p className="text-sm text-gray-500">
+                    {formatBytes(upload.fileSize)} • Completed
+                  </p>
+                  {upload.result && (
+                    <p className="text-xs text-gray-500 break-all">
+                      {upload.result.location}
+                      {upload.result.checksum && ` • ${upload.result.checksum}`}
+                    </p>
+                  )}
+                </div>
+                <button
+                  onClick={() => onDelete(upload.uploadId)}
+                  className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {quarantined.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-sm font-medium text-gray-600">Corrupted</h3>
+          {quarantined.map((session) => (
+            <div
+              key={session.uploadId}
+              className="border border-red-200 rounded-lg p-4 bg-red-50 flex items-center justify-between"
+            >
+              <div>
+                <p className="font-medium text-gray-800">Corrupted session</p>
+                <p className="text-sm text-gray-500 break-all">
+                  {session.uploadId} • {session.problem}
+                </p>
+              </div>
+              <button
+                onClick={() => onDelete(session.uploadId)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
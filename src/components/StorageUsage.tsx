@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { UploadState } from '../types/upload';
+import { formatBytes } from '../utils/formatters';
+import { RetentionPolicy, isUploadComplete } from '../utils/retention';
+
+interface StorageUsageProps {
+  uploads: UploadState[];
+  policy: RetentionPolicy;
+  /** Storage used and available to the page; defaults to navigator.storage.estimate() */
+  estimate?: () => Promise<StorageEstimate>;
+}
+
+const estimateStorage = (): Promise<StorageEstimate> =>
+  navigator.storage?.estimate ? navigator.storage.estimate() : Promise.resolve({});
+
+/**
+ * How much the saved uploads take and how long they are kept. The estimate covers
+ * everything the page stores (states, remembered files), as the browser counts it
+ */
+export default function StorageUsage({ uploads, policy, estimate = estimateStorage }: StorageUsageProps) {
+  const [usage, setUsage] = useState<StorageEstimate | null>(null);
+  const completed = uploads.filter(isUploadComplete).length;
+
+  // Measured again whenever the list changes, which is when storage changes
+  useEffect(() => {
+    let active = true;
+    estimate()
+      .then((result) => {
+        if (active) {
+          setUsage(result);
+        }
+      })
+      .catch((error) => console.error('Failed to estimate storage:', error));
+    return () => {
+      active = false;
+    };
+  }, [estimate, uploads]);
+
+  return (
+    <div className="mt-6 text-xs text-gray-500 space-y-1">
+      <p>
+        {uploads.length - completed} unfinished and {completed} completed uploads saved
+        {usage?.usage !== undefined &&
+          ` • ${formatBytes(usage.usage)} used` +
+            (usage.quota !== undefined ? ` of ${formatBytes(usage.quota)} available` : '')}
+      </p>
+      <p>
+        Unfinished uploads are deleted {policy.incompleteDays} days after their last progress; the{' '}
+        {policy.keepCompleted} most recent completed uploads are kept. When storage is full, the oldest are
+        deleted first.
+      </p>
+    </div>
+  );
+}
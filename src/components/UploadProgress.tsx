@@ -1,276 +1,522 @@
-import { useEffect, useRef, useState } from 'react';
-import { UploadState } from '../types/upload';
-import { useResumableUpload } from '../hooks/useResumableUpload';
-import { UPLOAD_SPEEDS, type UploadSpeed } from '../utils/api';
-import { ChevronDownIcon } from '../assets/icons';
-import { formatBytes, getSpeedLabel, formatTime } from '../utils/formatters';
-
-interface UploadProgressProps {
-  uploadState: UploadState;
-  file: File | null;
-  onComplete: () => void;
-  onCancel: () => void;
-  onFileSelect?: (file: File) => void;
-}
-
-export default function UploadProgress({
-  uploadState: initialUploadState,
-  file,
-  onComplete,
-  onCancel,
-  onFileSelect,
-}: UploadProgressProps) {
-  const fileInputRef = useRef<HTMLInputElement>(null);
-
-  const [showSpeedMenu, setShowSpeedMenu] = useState(false);
-  const speedMenuRef = useRef<HTMLDivElement>(null);
-
-  const {
-    state,
-    isUploading,
-    isPaused,
-    uploadSpeed,
-    progress,
-    uploadedBytes,
-    failedChunks,
-    startUpload,
-    pauseUpload,
-    resumeUpload,
-    cancelUpload,
-    retryFailedChunks,
-    changeSpeed,
-  } = useResumableUpload({
-    uploadState: initialUploadState,
-    file,
-    onComplete,
-  });
-
-  // Close speed menu when clicking outside
-  useEffect(() => {
-    const handleClickOutside = (event: MouseEvent) => {
-      if (speedMenuRef.current && !speedMenuRef.current.contains(event.target as Node)) {
-        setShowSpeedMenu(false);
-      }
-    };
-
-    if (showSpeedMenu) {
-      document.addEventListener('mousedown', handleClickOutside);
-      return () => document.removeEventListener('mousedown', handleClickOutside);
-    }
-  }, [showSpeedMenu]);
-
-  // Auto-start upload when file is available
-  useEffect(() => {
-    if (file && !isUploading && state.chunks.some((chunk) => !chunk.uploaded)) {
-      startUpload();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [file]);
-
-  const getElapsedTime = (): number => {
-    return Date.now() - state.startTime;
-  };
-
-  const getEstimatedTimeRemaining = (): string => {
-    if (progress === 0 || progress === 100) return '--';
-    const elapsed = getElapsedTime();
-    const estimated = (elapsed / progress) * (100 - progress);
-    return formatTime(estimated);
-  };
-
-  const uploadedCount = state.chunks.filter((chunk) => chunk.uploaded).length;
-  const failedCount = failedChunks.length;
-
-  const needsFile = !file && state.chunks.some((chunk) => !chunk.uploaded);
-
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0];
-    if (selectedFile) {
-      if (selectedFile.name === state.fileName && selectedFile.size === state.fileSize) {
-        // File matches, pass it to parent
-        if (onFileSelect) {
-          onFileSelect(selectedFile);
-        }
-      } else {
-        alert('Please select the same file to resume upload.');
-      }
-    }
-    // Reset input
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
-  };
-
-  return (
-    <div className="space-y-6">
-      <div className="flex items-center justify-between">
-        <div>
-          <h2 className="text-xl font-semibold text-gray-800">{state.fileName}</h2>
-          <p className="text-sm text-gray-500">
-            {formatBytes(uploadedBytes)} / {formatBytes(state.fileSize)} • {uploadedCount} / {state.totalChunks} chunks
-          </p>
-        </div>
-        <button
-          onClick={() => {
-            cancelUpload();
-            onCancel();
-          }}
-          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
-        >
-          Cancel
-        </button>
-      </div>
-
-      {needsFile && (
-        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
-          <p className="text-sm text-yellow-800 mb-2">
-            File needed to resume upload. Please select the same file:
-          </p>
-          <input
-            ref={fileInputRef}
-            type="file"
-            className="hidden"
-            onChange={handleFileSelect}
-          />
-          <button
-            onClick={() => fileInputRef.current?.click()}
-            className="px-4 py-2 text-sm font-medium text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 transition-colors"
-          >
-            Select File to Resume
-          </button>
-        </div>
-      )}
-
-      {/* Progress Bar */}
-      <div className="space-y-2">
-        <div className="flex items-center justify-between text-sm">
-          <span className="text-gray-600">Progress</span>
-          <span className="font-medium text-gray-800">{progress.toFixed(1)}%</span>
-        </div>
-        <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
-          <div
-            className="h-full bg-gradient-to-r from-blue-500 to-indigo-600 transition-all duration-300 ease-out"
-            style={{ width: `${progress}%` }}
-          />
-        </div>
-      </div>
-
-      {/* Stats */}
-      <div className="grid grid-cols-3 gap-4">
-        <div className="bg-gray-50 rounded-lg p-4">
-          <p className="text-sm text-gray-600">Uploaded</p>
-          <p className="text-lg font-semibold text-gray-800">{uploadedCount}</p>
-        </div>
-        <div className="bg-gray-50 rounded-lg p-4">
-          <p className="text-sm text-gray-600">Failed</p>
-          <p className="text-lg font-semibold text-red-600">{failedCount}</p>
-        </div>
-        <div className="bg-gray-50 rounded-lg p-4">
-          <p className="text-sm text-gray-600">Time Remaining</p>
-          <p className="text-lg font-semibold text-gray-800">
-            {getEstimatedTimeRemaining()}
-          </p>
-        </div>
-      </div>
-
-      {/* Chunk Status Grid */}
-      <div>
-        <h3 className="text-sm font-medium text-gray-700 mb-3">Chunk Status</h3>
-        <div className="grid grid-cols-10 gap-1">
-          {state.chunks.map((chunk, index) => (
-            <div
-              key={index}
-              className={`
-                aspect-square rounded text-xs flex items-center justify-center
-                ${
-                  chunk.uploaded
-                    ? 'bg-green-500 text-white'
-                    : chunk.failed
-                    ? 'bg-red-500 text-white'
-                    : 'bg-gray-200 text-gray-600'
-                }
-              `}
-              title={`Chunk ${index}: ${chunk.uploaded ? 'Uploaded' : chunk.failed ? 'Failed' : 'Pending'}`}
-            >
-              {index + 1}
-            </div>
-          ))}
-        </div>
-      </div>
-
-      {/* Controls */}
-      <div className="flex gap-3 items-center">
-        <div className="relative" ref={speedMenuRef}>
-          <button
-            onClick={() => setShowSpeedMenu(!showSpeedMenu)}
-            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2"
-            title="Change upload speed"
-          >
-            <span>{getSpeedLabel(uploadSpeed)}</span>
-            <ChevronDownIcon className={`w-4 h-4 transition-transform ${showSpeedMenu ? 'rotate-180' : ''}`} />
-          </button>
-
-          {showSpeedMenu && (
-            <div className="absolute top-full left-0 mt-2 bg-white border border-gray-200 rounded-lg shadow-lg z-10 min-w-[160px]">
-              {Object.keys(UPLOAD_SPEEDS).map((speed) => (
-                <button
-                  key={speed}
-                  onClick={() => {
-                    changeSpeed(speed as UploadSpeed);
-                    setShowSpeedMenu(false);
-                  }}
-                  className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 transition-colors ${
-                    uploadSpeed === speed ? 'bg-blue-50 text-blue-600 font-medium' : 'text-gray-700'
-                  }`}
-                >
-                  {getSpeedLabel(speed as UploadSpeed)}
-                </button>
-              ))}
-            </div>
-          )}
-        </div>
-
-        {!isUploading ? (
-          <button
-            onClick={startUpload}
-            className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
-          >
-            {uploadedCount === 0 ? 'Start Upload' : 'Resume Upload'}
-          </button>
-        ) : (
-          <>
-            {isPaused ? (
-              <button
-                onClick={resumeUpload}
-                className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
-              >
-                Resume
-              </button>
-            ) : (
-              <button
-                onClick={pauseUpload}
-                className="flex-1 px-6 py-3 bg-yellow-600 text-white rounded-lg font-medium hover:bg-yellow-700 transition-colors"
-              >
-                Pause
-              </button>
-            )}
-          </>
-        )}
-
-        {failedCount > 0 && (
-          <button
-            onClick={retryFailedChunks}
-            className="px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors"
-          >
-            Retry Failed ({failedCount})
-          </button>
-        )}
-      </div>
-
-      {/* Upload ID for debugging */}
-      <div className="text-xs text-gray-400">
-        Upload ID: {state.uploadId}
-      </div>
-    </div>
-  );
-}
+import { useEffect, useRef, useState } from 'react';
+import { UploadResult, UploadState, UploadTransport } from '../types/upload';
+import { useResumableUpload } from '../hooks/useResumableUpload';
+import { getNetworkProfiles } from '../utils/api';
+import { ChevronDownIcon } from '../assets/icons';
+import { formatBytes, formatTime } from '../utils/formatters';
+import { RetryPolicy } from '../utils/retryPolicy';
+import { ConcurrencyLimits } from '../utils/concurrencyController';
+import { isFileForUpload } from '../utils/fileFingerprint';
+import {
+  FileSourceStore,
+  getDefaultFileSourceStore,
+  isPartialCopy,
+  pickFile,
+  restoreUploadFile,
+  supportsFileHandles,
+} from '../utils/fileSources';
+import ChecksumBadge from './ChecksumBadge';
+import FileMismatchPrompt from './FileMismatchPrompt';
+import PassphrasePrompt from './PassphrasePrompt';
+
+// Failed chunks listed with their last error below the grid
+const MAX_LISTED_ERRORS = 5;
+
+interface UploadProgressProps {
+  uploadState: UploadState;
+  file: File | null;
+  transport: UploadTransport;
+  /** Called with what the server reported about the finished upload, if anything */
+  onComplete: (result?: UploadResult) => void;
+  onCancel: () => void;
+  onFileSelect?: (file: File) => void;
+  /** Discard this upload and start over with a file that does not match it */
+  onRestart?: (file: File) => void;
+  retryPolicy?: RetryPolicy;
+  concurrencyLimits?: ConcurrencyLimits;
+  /** Data key of an encrypted upload; without it the user is asked for the passphrase */
+  encryptionKey?: CryptoKey;
+  /** Reopens the file remembered when the upload started; null where nothing can be remembered */
+  fileSources?: FileSourceStore | null;
+}
+
+export default function UploadProgress({
+  uploadState: initialUploadState,
+  file,
+  transport,
+  onComplete,
+  onCancel,
+  onFileSelect,
+  onRestart,
+  retryPolicy,
+  concurrencyLimits,
+  encryptionKey: initialEncryptionKey,
+  fileSources = getDefaultFileSourceStore(),
+}: UploadProgressProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [showProfileMenu, setShowProfileMenu] = useState(false);
+  const [abortOnPause, setAbortOnPause] = useState(false);
+  // A re-selected file that is not the one the upload started with
+  const [mismatchedFile, setMismatchedFile] = useState<File | null>(null);
+  const [encryptionKey, setEncryptionKey] = useState(initialEncryptionKey);
+  const profileMenuRef = useRef<HTMLDivElement>(null);
+
+  const {
+    state,
+    isUploading,
+    isPaused,
+    isVerifying,
+    error,
+    reconciliation,
+    networkProfileId,
+    progress,
+    uploadedBytes,
+    compressionSavings,
+    chunkProgress,
+    inFlightChunks,
+    concurrency,
+    failedChunks,
+    startUpload,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    retryFailedChunks,
+    changeNetworkProfile,
+  } = useResumableUpload({
+    uploadState: initialUploadState,
+    file,
+    transport,
+    onComplete,
+    retryPolicy,
+    concurrencyLimits,
+    encryptionKey,
+  });
+
+  // Tick once a second while chunks wait for a retry, so their countdowns move
+  const [now, setNow] = useState(Date.now());
+  const hasScheduledRetries = state.chunks.some((chunk) => chunk.failed && chunk.lastError?.retryAt !== undefined);
+  useEffect(() => {
+    if (!hasScheduledRetries) {
+      return;
+    }
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasScheduledRetries]);
+
+  // Close network profile menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (profileMenuRef.current && !profileMenuRef.current.contains(event.target as Node)) {
+        setShowProfileMenu(false);
+      }
+    };
+
+    if (showProfileMenu) {
+      document.addEventListener('mousedown', handleClickOutside);
+      return () => document.removeEventListener('mousedown', handleClickOutside);
+    }
+  }, [showProfileMenu]);
+
+  const needsPassphrase = !!state.encryption && !encryptionKey && state.chunks.some((chunk) => !chunk.uploaded);
+
+  // Auto-start upload when file (and, if encrypted, the key) is available
+  useEffect(() => {
+    if (file && !needsPassphrase && !isUploading && state.chunks.some((chunk) => !chunk.uploaded)) {
+      startUpload();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [file, needsPassphrase]);
+
+  const networkProfiles = getNetworkProfiles();
+  const networkProfile = networkProfiles.find((profile) => profile.id === networkProfileId);
+
+  const getElapsedTime = (): number => {
+    return Date.now() - state.startTime;
+  };
+
+  const getEstimatedTimeRemaining = (): string => {
+    if (progress === 0 || progress === 100) return '--';
+    const elapsed = getElapsedTime();
+    const estimated = (elapsed / progress) * (100 - progress);
+    return formatTime(estimated);
+  };
+
+  const uploadedCount = state.chunks.filter((chunk) => chunk.uploaded).length;
+  const failedCount = failedChunks.length;
+
+  // The server discarded the upload while it ran; it can only start over
+  const canRestart = !!state.stale && !!onRestart;
+  const needsFile = !file && !canRestart && state.chunks.some((chunk) => !chunk.uploaded);
+
+  // An upload the server has discarded can only start over, with the same file
+  const continueWithFile = (matchingFile: File) => {
+    if (canRestart) {
+      cancelUpload();
+      onRestart?.(matchingFile);
+    } else {
+      onFileSelect?.(matchingFile);
+    }
+  };
+
+  const selectFile = async (selectedFile: File, handle: FileSystemFileHandle | null = null) => {
+    setMismatchedFile(null);
+    if (await isFileForUpload(state, selectedFile)) {
+      // Picked with a handle: remembered, so next time the file is reopened without asking
+      if (handle) {
+        await fileSources?.saveHandle(state.uploadId, handle).catch((err) => {
+          console.error('Failed to remember upload file:', err);
+        });
+      }
+      // File matches, pass it to parent
+      continueWithFile(selectedFile);
+    } else {
+      setMismatchedFile(selectedFile);
+    }
+  };
+
+  // Reopens the file remembered for the upload; asks for it only when that fails
+  const handleSelectClick = async () => {
+    const remembered = fileSources && (await restoreUploadFile(fileSources, state));
+    if (remembered) {
+      continueWithFile(remembered);
+    } else if (supportsFileHandles()) {
+      const picked = await pickFile().catch(() => null);
+      if (picked) {
+        await selectFile(picked.file, picked.handle);
+      }
+    } else {
+      fileInputRef.current?.click();
+    }
+  };
+
+  // Starting over needs the whole file, which a partial copy does not have
+  const handleRestartClick = async () => {
+    if (file && !isPartialCopy(file)) {
+      continueWithFile(file);
+    } else {
+      await handleSelectClick();
+    }
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    // Reset input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    if (selectedFile) {
+      await selectFile(selectedFile);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+            {state.fileName}
+            <ChecksumBadge result={state.result} />
+          </h2>
+          <p className="text-sm text-gray-500">
+            {formatBytes(uploadedBytes)} / {formatBytes(state.fileSize)} • {uploadedCount} / {state.totalChunks} chunks
+            {state.encryption && ' • Encrypted'}
+            {isVerifying && ' • Verifying checksum...'}
+          </p>
+          {compressionSavings && compressionSavings.originalBytes > 0 && (
+            <p className="text-xs text-gray-500">
+              Compressed ({state.compression}): {formatBytes(compressionSavings.compressedBytes)} sent for{' '}
+              {formatBytes(compressionSavings.originalBytes)},{' '}
+              {Math.round((1 - compressionSavings.compressedBytes / compressionSavings.originalBytes) * 100)}% saved
+            </p>
+          )}
+          {file && file.name !== state.fileName && (
+            <p className="text-xs text-gray-500">Matched {file.name} to this upload by its contents</p>
+          )}
+          {state.stale && (
+            <p className="text-sm text-red-600">
+              Expired on the server: {state.stale.reason}.{canRestart && ' Restarting uploads the file again.'}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={() => {
+            cancelUpload();
+            onCancel();
+          }}
+          title="Stop and discard this upload"
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+
+      {/* Picks the file again, to resume or to restart */}
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="hidden"
+        onChange={handleFileSelect}
+      />
+
+      {needsFile && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <p className="text-sm text-yellow-800 mb-2">
+            File needed to resume upload. Please select the same file:
+          </p>
+          <button
+            onClick={handleSelectClick}
+            className="px-4 py-2 text-sm font-medium text-white bg-yellow-600 rounded-lg hover:bg-yellow-700 transition-colors"
+          >
+            Select File to Resume
+          </button>
+        </div>
+      )}
+
+      {needsPassphrase && <PassphrasePrompt encryption={state.encryption!} onUnlock={setEncryptionKey} />}
+
+      {mismatchedFile && (
+        <FileMismatchPrompt
+          fileName={mismatchedFile.name}
+          uploadFileName={state.fileName}
+          onRestart={() => {
+            setMismatchedFile(null);
+            cancelUpload();
+            onRestart?.(mismatchedFile);
+          }}
+          onCancel={() => setMismatchedFile(null)}
+        />
+      )}
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+          {error}
+        </div>
+      )}
+
+      {reconciliation && (reconciliation.recovered.length > 0 || reconciliation.requeued.length > 0) && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded text-sm">
+          <p className="font-medium">Resumed from the server's copy</p>
+          <ul className="mt-1 space-y-0.5">
+            {reconciliation.recovered.length > 0 && (
+              <li>
+                {reconciliation.recovered.length} {reconciliation.recovered.length === 1 ? 'chunk was' : 'chunks were'} already on the server and will not be sent again
+              </li>
+            )}
+            {reconciliation.requeued.length > 0 && (
+              <li>
+                {reconciliation.requeued.length} {reconciliation.requeued.length === 1 ? 'chunk was' : 'chunks were'} missing on the server and will be uploaded again
+              </li>
+            )}
+          </ul>
+        </div>
+      )}
+
+      {/* Progress Bar */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">Progress</span>
+          <span className="font-medium text-gray-800">{progress.toFixed(1)}%</span>
+        </div>
+        <div className="w-full bg-gray-200 rounded-full h-3 overflow-hidden">
+          <div
+            className="h-full bg-gradient-to-r from-blue-500 to-indigo-600 transition-all duration-300 ease-out"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-4 gap-4">
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">Uploaded</p>
+          <p className="text-lg font-semibold text-gray-800">{uploadedCount}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">Failed</p>
+          <p className="text-lg font-semibold text-red-600">{failedCount}</p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4">
+          <p className="text-sm text-gray-600">Time Remaining</p>
+          <p className="text-lg font-semibold text-gray-800">
+            {getEstimatedTimeRemaining()}
+          </p>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-4" title="Chunk requests sent in parallel, adjusted to the network">
+          <p className="text-sm text-gray-600">Concurrency</p>
+          <p className="text-lg font-semibold text-gray-800" data-testid="concurrency">{concurrency}</p>
+        </div>
+      </div>
+
+      {/* Chunk Status Grid */}
+      <div>
+        <h3 className="text-sm font-medium text-gray-700 mb-3">Chunk Status</h3>
+        <div className="grid grid-cols-10 gap-1">
+          {state.chunks.map((chunk, index) => {
+            // A chunk being retried is still marked failed until its request settles
+            const uploading = !chunk.uploaded && inFlightChunks.includes(index);
+            return (
+              <div
+                key={index}
+                className={`
+                  relative overflow-hidden aspect-square rounded text-xs flex items-center justify-center
+                  ${
+                    chunk.uploaded
+                      ? 'bg-green-500 text-white'
+                      : uploading
+                      ? 'bg-blue-100 text-blue-800'
+                      : chunk.failed
+                      ? chunk.lastError?.retryable === false
+                        ? 'bg-red-700 text-white'
+                        : 'bg-red-500 text-white'
+                      : 'bg-gray-200 text-gray-600'
+                  }
+                `}
+                title={`Chunk ${index}: ${
+                  chunk.uploaded
+                    ? 'Uploaded'
+                    : uploading
+                    ? `Uploading${
+                        chunkProgress[index] !== undefined ? ` (${Math.round(chunkProgress[index] * 100)}%)` : ''
+                      }`
+                    : chunk.failed
+                    ? `Failed${chunk.lastError ? ` (${chunk.lastError.message})` : ''}${
+                        chunk.lastError?.retryAt !== undefined
+                          ? `, retrying in ${formatTime(Math.max(0, chunk.lastError.retryAt - now))}`
+                          : ''
+                      }`
+                    : 'Pending'
+                }`}
+              >
+                {/* Fills from the bottom as the chunk's bytes are sent */}
+                {!chunk.uploaded && chunkProgress[index] !== undefined && (
+                  <div
+                    className="absolute inset-x-0 bottom-0 bg-blue-400 transition-all duration-200"
+                    style={{ height: `${chunkProgress[index] * 100}%` }}
+                    data-testid={`chunk-progress-${index}`}
+                  />
+                )}
+                <span className="relative">{index + 1}</span>
+                {/* Countdown to the next automatic retry */}
+                {!uploading && chunk.failed && chunk.lastError?.retryAt !== undefined && (
+                  <span className="absolute bottom-0 inset-x-0 text-center text-[9px] leading-tight">
+                    {formatTime(Math.max(0, chunk.lastError.retryAt - now))}
+                  </span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {failedChunks.length > 0 && (
+          <ul className="mt-3 space-y-1 text-xs text-red-700">
+            {failedChunks.slice(0, MAX_LISTED_ERRORS).map((chunk) => (
+              <li key={chunk.chunkIndex}>
+                Chunk {chunk.chunkIndex + 1}: {chunk.lastError?.message ?? 'Upload failed'}
+                {chunk.lastError?.retryAt !== undefined
+                  ? ` (retrying in ${formatTime(Math.max(0, chunk.lastError.retryAt - now))})`
+                  : chunk.lastError?.retryable === false
+                  ? ' (will not be retried automatically)'
+                  : ` (gave up after ${chunk.retryCount} ${chunk.retryCount === 1 ? 'attempt' : 'attempts'})`}
+              </li>
+            ))}
+            {failedChunks.length > MAX_LISTED_ERRORS && (
+              <li>...and {failedChunks.length - MAX_LISTED_ERRORS} more</li>
+            )}
+          </ul>
+        )}
+      </div>
+
+      {/* Controls */}
+      <div className="flex gap-3 items-center">
+        <div className="relative" ref={profileMenuRef}>
+          <button
+            onClick={() => setShowProfileMenu(!showProfileMenu)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2"
+            title="Change simulated network conditions"
+          >
+            <span>{networkProfile?.label ?? networkProfileId}</span>
+            <ChevronDownIcon className={`w-4 h-4 transition-transform ${showProfileMenu ? 'rotate-180' : ''}`} />
+          </button>
+
+          {showProfileMenu && (
+            <div className="absolute top-full left-0 mt-2 bg-white border border-gray-200 rounded-lg shadow-lg z-10 min-w-[200px]">
+              {networkProfiles.map((profile) => (
+                <button
+                  key={profile.id}
+                  onClick={() => {
+                    changeNetworkProfile(profile.id);
+                    setShowProfileMenu(false);
+                  }}
+                  className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 transition-colors ${
+                    networkProfileId === profile.id ? 'bg-blue-50 text-blue-600 font-medium' : 'text-gray-700'
+                  }`}
+                >
+                  {profile.label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {canRestart && !isUploading ? (
+          <button
+            onClick={handleRestartClick}
+            className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            Restart Upload
+          </button>
+        ) : !isUploading ? (
+          <button
+            onClick={startUpload}
+            className="flex-1 px-6 py-3 bg-blue-600 text-white rounded-lg font-medium hover:bg-blue-700 transition-colors"
+          >
+            {uploadedCount === 0 ? 'Start Upload' : 'Resume Upload'}
+          </button>
+        ) : (
+          <>
+            {isPaused ? (
+              <button
+                onClick={resumeUpload}
+                className="flex-1 px-6 py-3 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors"
+              >
+                Resume
+              </button>
+            ) : (
+              <button
+                onClick={() => pauseUpload({ abort: abortOnPause })}
+                className="flex-1 px-6 py-3 bg-yellow-600 text-white rounded-lg font-medium hover:bg-yellow-700 transition-colors"
+              >
+                Pause
+              </button>
+            )}
+          </>
+        )}
+
+        {failedCount > 0 && (
+          <button
+            onClick={retryFailedChunks}
+            className="px-6 py-3 bg-red-600 text-white rounded-lg font-medium hover:bg-red-700 transition-colors"
+          >
+            Retry Failed ({failedCount})
+          </button>
+        )}
+      </div>
+
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={abortOnPause}
+          onChange={(e) => setAbortOnPause(e.target.checked)}
+          className="rounded border-gray-300"
+        />
+        Pause immediately (abort chunks in flight; they are sent again on resume)
+      </label>
+
+      {/* Upload ID for debugging */}
+      <div className="text-xs text-gray-400">
+        Upload ID: {state.uploadId}
+      </div>
+    </div>
+  );
+}
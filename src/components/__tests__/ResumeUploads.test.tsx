@@ -1,174 +1,393 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
-import userEvent from '@testing-library/user-event';
-import ResumeUploads from '../ResumeUploads';
-import { createUploadState } from '../../utils/uploadState';
-
-describe('ResumeUploads', () => {
-  const mockOnResume = vi.fn();
-  const mockOnDelete = vi.fn();
-
-  beforeEach(() => {
-    vi.clearAllMocks();
-    localStorage.clear();
-    // Mock window.alert for all tests
-    vi.spyOn(window, 'alert').mockImplementation(() => {});
-  });
-
-  afterEach(() => {
-    vi.restoreAllMocks();
-  });
-
-  it('should not render when there are no uploads', () => {
-    render(
-      <ResumeUploads
-        uploads={[]}
-        onResume={mockOnResume}
-        onDelete={mockOnDelete}
-      />
-    );
-
-    expect(screen.queryByText(/previous uploads/i)).not.toBeInTheDocument();
-  });
-
-  it('should display previous uploads', () => {
-    const upload1 = createUploadState('id1', 'file1.txt', 1024, 4, 256);
-    const upload2 = createUploadState('id2', 'file2.txt', 2048, 8, 256);
-
-    render(
-      <ResumeUploads
-        uploads={[upload1, upload2]}
-        onResume={mockOnResume}
-        onDelete={mockOnDelete}
-      />
-    );
-
-    expect(screen.getByText('Previous Uploads')).toBeInTheDocument();
-    expect(screen.getByText('file1.txt')).toBeInTheDocument();
-    expect(screen.getByText('file2.txt')).toBeInTheDocument();
-  });
-
-  it('should separate incomplete and complete uploads', () => {
-    const incomplete = createUploadState('id1', 'incomplete.txt', 1024, 4, 256);
-    incomplete.chunks[0].uploaded = true; // Only 1 of 4 chunks uploaded
-
-    const complete = createUploadState('id2', 'complete.txt', 1024, 4, 256);
-    complete.chunks.forEach(chunk => {
-      chunk.uploaded = true;
-    });
-
-    render(
-      <ResumeUploads
-        uploads={[incomplete, complete]}
-        onResume={mockOnResume}
-        onDelete={mockOnDelete}
-      />
-    );
-
-    expect(screen.getByText('Incomplete')).toBeInTheDocument();
-    expect(screen.getByText('Completed')).toBeInTheDocument();
-  });
-
-  it('should show progress for incomplete uploads', () => {
-    const upload = createUploadState('id1', 'file.txt', 1024, 4, 256);
-    upload.chunks[0].uploaded = true;
-    upload.chunks[1].uploaded = true;
-
-    render(
-      <ResumeUploads
-        uploads={[upload]}
-        onResume={mockOnResume}
-        onDelete={mockOnDelete}
-      />
-    );
-
-    expect(screen.getByText(/50\.0% complete/i)).toBeInTheDocument();
-  });
-
-  it('should validate file name and size when resuming', async () => {
-    const user = userEvent.setup();
-    const upload = createUploadState('id1', 'file.txt', 1024, 4, 256);
-    const wrongFile = new File(['test'], 'wrong.txt', { type: 'text/plain' });
-
-    // Mock window.alert
-    const alertSpy = vi.spyOn(window, 'alert').mockImplementation(() => {});
-
-    render(
-      <ResumeUploads
-        uploads={[upload]}
-        onResume={mockOnResume}
-        onDelete={mockOnDelete}
-      />
-    );
-
-    const resumeButton = screen.getByText('Resume');
-    await user.click(resumeButton);
-
-    const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
-    if (fileInput) {
-      await user.upload(fileInput, wrongFile);
-
-      await waitFor(() => {
-        expect(alertSpy).toHaveBeenCalledWith(
-          expect.stringContaining('same file')
-        );
-      });
-
-      alertSpy.mockRestore();
-    }
-  });
-
-  it('should call onDelete when delete button is clicked', async () => {
-    const user = userEvent.setup();
-    const upload = createUploadState('id1', 'file.txt', 1024, 4, 256);
-
-    render(
-      <ResumeUploads
-        uploads={[upload]}
-        onResume={mockOnResume}
-        onDelete={mockOnDelete}
-      />
-    );
-
-    const deleteButtons = screen.getAllByText('Delete');
-    await user.click(deleteButtons[0]);
-
-    expect(mockOnDelete).toHaveBeenCalledWith('id1');
-  });
-
-  it('should display file size correctly', () => {
-    const upload = createUploadState('id1', 'file.txt', 2048, 4, 512);
-
-    render(
-      <ResumeUploads
-        uploads={[upload]}
-        onResume={mockOnResume}
-        onDelete={mockOnDelete}
-      />
-    );
-
-    expect(screen.getByText(/2 KB/i)).toBeInTheDocument();
-  });
-
-  it('should handle multiple incomplete uploads', () => {
-    const upload1 = createUploadState('id1', 'file1.txt', 1024, 4, 256);
-    upload1.chunks[0].uploaded = true;
-
-    const upload2 = createUploadState('id2', 'file2.txt', 2048, 8, 256);
-    upload2.chunks[0].uploaded = true;
-    upload2.chunks[1].uploaded = true;
-
-    render(
-      <ResumeUploads
-        uploads={[upload1, upload2]}
-        onResume={mockOnResume}
-        onDelete={mockOnDelete}
-      />
-    );
-
-    expect(screen.getByText('file1.txt')).toBeInTheDocument();
-    expect(screen.getByText('file2.txt')).toBeInTheDocument();
-    expect(screen.getAllByText('Resume')).toHaveLength(2);
-  });
-});
-
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { IDBFactory } from 'fake-indexeddb';
+import ResumeUploads from '../ResumeUploads';
+import { createUploadState, updateChunkStatus } from '../../utils/uploadState';
+import { createFileFingerprint } from '../../utils/fileFingerprint';
+import { FileSourceStore, createFileSourceStore } from '../../utils/fileSources';
+
+describe('ResumeUploads', () => {
+  const mockOnResume = vi.fn();
+  const mockOnDelete = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should not render when there are no uploads', () => {
+    render(
+      <ResumeUploads
+        uploads={[]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.queryByText(/previous uploads/i)).not.toBeInTheDocument();
+  });
+
+  it('should display previous uploads', () => {
+    const upload1 = createUploadState('id1', 'file1.txt', 1024, 4, 256);
+    const upload2 = createUploadState('id2', 'file2.txt', 2048, 8, 256);
+
+    render(
+      <ResumeUploads
+        uploads={[upload1, upload2]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText('Previous Uploads')).toBeInTheDocument();
+    expect(screen.getByText('file1.txt')).toBeInTheDocument();
+    expect(screen.getByText('file2.txt')).toBeInTheDocument();
+  });
+
+  it('should separate incomplete and complete uploads', () => {
+    const incomplete = createUploadState('id1', 'incomplete.txt', 1024, 4, 256);
+    incomplete.chunks[0].uploaded = true; // Only 1 of 4 chunks uploaded
+
+    const complete = createUploadState('id2', 'complete.txt', 1024, 4, 256);
+    complete.chunks.forEach(chunk => {
+      chunk.uploaded = true;
+    });
+
+    render(
+      <ResumeUploads
+        uploads={[incomplete, complete]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText('Incomplete')).toBeInTheDocument();
+    expect(screen.getByText('Completed')).toBeInTheDocument();
+  });
+
+  it('should show progress for incomplete uploads', () => {
+    const upload = createUploadState('id1', 'file.txt', 1024, 4, 256);
+    upload.chunks[0].uploaded = true;
+    upload.chunks[1].uploaded = true;
+
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText(/50\.0% complete/i)).toBeInTheDocument();
+  });
+
+  it('should validate file name and size when resuming', async () => {
+    const user = userEvent.setup();
+    const upload = createUploadState('id1', 'file.txt', 1024, 4, 256);
+    const wrongFile = new File(['test'], 'wrong.txt', { type: 'text/plain' });
+    const mockOnRestart = vi.fn();
+
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+        onRestart={mockOnRestart}
+      />
+    );
+
+    const resumeButton = screen.getByText('Resume');
+    await user.click(resumeButton);
+
+    const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+    await user.upload(fileInput, wrongFile);
+
+    await waitFor(() => {
+      expect(screen.getByText(/wrong.txt does not match/)).toBeInTheDocument();
+    });
+    expect(mockOnResume).not.toHaveBeenCalled();
+
+    await user.click(screen.getByText('Restart upload'));
+    expect(mockOnRestart).toHaveBeenCalledWith('id1', wrongFile);
+  });
+
+  it('should resume with a renamed file whose contents match the fingerprint', async () => {
+    const user = userEvent.setup();
+    const original = new File(['{"prompt": 1}'], 'train.jsonl', { lastModified: 1000 });
+    const upload = createUploadState('id1', 'train.jsonl', original.size, 1, original.size);
+    upload.fingerprint = await createFileFingerprint(original);
+    const renamed = new File(['{"prompt": 1}'], 'train-copy.jsonl', { lastModified: 1000 });
+
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    await user.click(screen.getByText('Resume'));
+    await user.upload(document.querySelector('input[type="file"]') as HTMLInputElement, renamed);
+
+    await waitFor(() => {
+      expect(mockOnResume).toHaveBeenCalledWith('id1', renamed);
+    });
+  });
+
+  it('should offer to restart or cancel when the contents changed', async () => {
+    const user = userEvent.setup();
+    const original = new File(['{"prompt": 1}'], 'train.jsonl', { lastModified: 1000 });
+    const upload = createUploadState('id1', 'train.jsonl', original.size, 1, original.size);
+    upload.fingerprint = await createFileFingerprint(original);
+    // Same name and size, different contents
+    const edited = new File(['{"prompt": 2}'], 'train.jsonl', { lastModified: 2000 });
+
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+        onRestart={vi.fn()}
+      />
+    );
+
+    await user.click(screen.getByText('Resume'));
+    await user.upload(document.querySelector('input[type="file"]') as HTMLInputElement, edited);
+
+    await waitFor(() => {
+      expect(screen.getByText('Restart upload')).toBeInTheDocument();
+    });
+    expect(mockOnResume).not.toHaveBeenCalled();
+
+    await user.click(screen.getByText('Cancel'));
+    expect(screen.queryByText('Restart upload')).not.toBeInTheDocument();
+  });
+
+  it('should resume with the remembered file without asking for it', async () => {
+    const user = userEvent.setup();
+    const original = new File(['{"prompt": 1}'], 'train.jsonl', { lastModified: 1000 });
+    const upload = createUploadState('id1', 'train.jsonl', original.size, 1, original.size);
+    upload.fingerprint = await createFileFingerprint(original);
+    const fileSources: FileSourceStore = {
+      saveHandle: vi.fn(),
+      saveCopy: vi.fn(),
+      restore: vi.fn().mockResolvedValue(original),
+      delete: vi.fn(),
+    };
+    render(
+      <ResumeUploads uploads={[upload]} onResume={mockOnResume} onDelete={mockOnDelete} fileSources={fileSources} />
+    );
+    const pickerClick = vi.spyOn(document.querySelector('input[type="file"]') as HTMLInputElement, 'click');
+
+    await user.click(screen.getByText('Resume'));
+
+    await waitFor(() => {
+      expect(mockOnResume).toHaveBeenCalledWith('id1', original);
+    });
+    expect(fileSources.restore).toHaveBeenCalledWith('id1');
+    expect(pickerClick).not.toHaveBeenCalled();
+  });
+
+  it('should restart uploads the server has discarded instead of resuming them', async () => {
+    const user = userEvent.setup();
+    const onRestart = vi.fn();
+    const original = new File(['{"prompt": 1}'], 'train.jsonl', { lastModified: 1000 });
+    const upload = {
+      ...createUploadState('id1', 'train.jsonl', original.size, 1, original.size),
+      fingerprint: await createFileFingerprint(original),
+      stale: { since: 1000, reason: 'HTTP 410' },
+    };
+    const fileSources: FileSourceStore = {
+      saveHandle: vi.fn(),
+      saveCopy: vi.fn(),
+      restore: vi.fn().mockResolvedValue(original),
+      delete: vi.fn(),
+    };
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+        onRestart={onRestart}
+        fileSources={fileSources}
+      />
+    );
+
+    expect(screen.getByText(/expired on the server: HTTP 410/i)).toBeInTheDocument();
+    await user.click(screen.getByText('Restart'));
+
+    await waitFor(() => {
+      expect(onRestart).toHaveBeenCalledWith('id1', original);
+    });
+    expect(mockOnResume).not.toHaveBeenCalled();
+  });
+
+  it('should ask for the whole file to restart a discarded upload kept as a partial copy', async () => {
+    const user = userEvent.setup();
+    const onRestart = vi.fn();
+    const original = new File(['aaaabbbb'], 'data.bin');
+    const upload = {
+      ...updateChunkStatus(createUploadState('id1', 'data.bin', original.size, 2, 4), 0, true),
+      fingerprint: await createFileFingerprint(original),
+      stale: { since: 1000, reason: 'HTTP 404' },
+    };
+    const fileSources = createFileSourceStore({ indexedDB: new IDBFactory() });
+    await fileSources.saveCopy(upload, original);
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+        onRestart={onRestart}
+        fileSources={fileSources}
+      />
+    );
+    const pickerClick = vi.spyOn(document.querySelector('input[type="file"]') as HTMLInputElement, 'click');
+
+    await user.click(screen.getByText('Restart'));
+
+    await waitFor(() => {
+      expect(pickerClick).toHaveBeenCalled();
+    });
+    expect(onRestart).not.toHaveBeenCalled();
+    expect(mockOnResume).not.toHaveBeenCalled();
+  });
+
+  it('should ask for the file when the remembered one changed', async () => {
+    const user = userEvent.setup();
+    const original = new File(['{"prompt": 1}'], 'train.jsonl', { lastModified: 1000 });
+    const upload = createUploadState('id1', 'train.jsonl', original.size, 1, original.size);
+    upload.fingerprint = await createFileFingerprint(original);
+    const edited = new File(['{"prompt": 2}'], 'train.jsonl', { lastModified: 2000 });
+    const fileSources: FileSourceStore = {
+      saveHandle: vi.fn(),
+      saveCopy: vi.fn(),
+      restore: vi.fn().mockResolvedValue(edited),
+      delete: vi.fn(),
+    };
+    render(
+      <ResumeUploads uploads={[upload]} onResume={mockOnResume} onDelete={mockOnDelete} fileSources={fileSources} />
+    );
+    const pickerClick = vi.spyOn(document.querySelector('input[type="file"]') as HTMLInputElement, 'click');
+
+    await user.click(screen.getByText('Resume'));
+
+    await waitFor(() => {
+      expect(pickerClick).toHaveBeenCalled();
+    });
+    expect(mockOnResume).not.toHaveBeenCalled();
+  });
+
+  it('should show corrupted sessions with a delete option', async () => {
+    const user = userEvent.setup();
+
+    render(
+      <ResumeUploads
+        uploads={[]}
+        quarantined={[{ uploadId: 'broken', problem: 'Stored data is not valid JSON' }]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText('Corrupted session')).toBeInTheDocument();
+    expect(screen.getByText(/Stored data is not valid JSON/)).toBeInTheDocument();
+    expect(screen.queryByText('Resume')).not.toBeInTheDocument();
+
+    await user.click(screen.getByText('Delete'));
+
+    expect(mockOnDelete).toHaveBeenCalledWith('broken');
+  });
+
+  it('should call onDelete when delete button is clicked', async () => {
+    const user = userEvent.setup();
+    const upload = createUploadState('id1', 'file.txt', 1024, 4, 256);
+
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    const deleteButtons = screen.getAllByText('Delete');
+    await user.click(deleteButtons[0]);
+
+    expect(mockOnDelete).toHaveBeenCalledWith('id1');
+  });
+
+  it('should show the final object of finalized uploads', () => {
+    const upload = createUploadState('id1', 'file.txt', 1024, 1, 1024);
+    upload.chunks[0].uploaded = true;
+    upload.result = { location: '/data/id1/file', checksum: 'sha256:abc' };
+
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText('/data/id1/file • sha256:abc')).toBeInTheDocument();
+    expect(screen.queryByText('Verified')).not.toBeInTheDocument();
+  });
+
+  it('should mark uploads whose digest matched the local file as verified', () => {
+    const upload = createUploadState('id1', 'file.txt', 1024, 1, 1024);
+    upload.chunks[0].uploaded = true;
+    upload.result = { location: '/data/id1/file', checksum: `sha256:${'a'.repeat(64)}`, verified: true };
+
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText('Verified')).toBeInTheDocument();
+  });
+
+  it('should display file size correctly', () => {
+    const upload = createUploadState('id1', 'file.txt', 2048, 4, 512);
+
+    render(
+      <ResumeUploads
+        uploads={[upload]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText(/2 KB/i)).toBeInTheDocument();
+  });
+
+  it('should handle multiple incomplete uploads', () => {
+    const upload1 = createUploadState('id1', 'file1.txt', 1024, 4, 256);
+    upload1.chunks[0].uploaded = true;
+
+    const upload2 = createUploadState('id2', 'file2.txt', 2048, 8, 256);
+    upload2.chunks[0].uploaded = true;
+    upload2.chunks[1].uploaded = true;
+
+    render(
+      <ResumeUploads
+        uploads={[upload1, upload2]}
+        onResume={mockOnResume}
+        onDelete={mockOnDelete}
+      />
+    );
+
+    expect(screen.getByText('file1.txt')).toBeInTheDocument();
+    expect(screen.getByText('file2.txt')).toBeInTheDocument();
+    expect(screen.getAllByText('Resume')).toHaveLength(2);
+  });
+});
+
@@ -1,234 +1,1359 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { renderHook, waitFor, act } from '@testing-library/react';
-import { useResumableUpload } from '../useResumableUpload';
-import { createUploadState } from '../../utils/uploadState';
-import * as api from '../../utils/api';
-
-// Mock the API module
-vi.mock('../../utils/api', async (importOriginal) => {
-  const actual = await importOriginal<typeof import('../../utils/api')>();
-  return {
-    ...actual,
-    uploadChunk: vi.fn(),
-  };
-});
-
-describe('useResumableUpload', () => {
-  const mockFile = new File(['test content'], 'test.txt', { type: 'text/plain' });
-  const mockUploadState = createUploadState('test-id', 'test.txt', 1024, 2, 512);
-  const mockOnComplete = vi.fn();
-
-  beforeEach(() => {
-    vi.clearAllMocks();
-    localStorage.clear();
-    // Default: successful uploads
-    vi.spyOn(Math, 'random').mockReturnValue(0.5);
-    // Reset mock implementation for each test
-    vi.mocked(api.uploadChunk).mockReset();
-    vi.mocked(api.uploadChunk).mockResolvedValue(undefined);
-  });
-
-  it('should initialize with correct state', () => {
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: mockUploadState,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    expect(result.current.state.uploadId).toBe('test-id');
-    expect(result.current.isUploading).toBe(false);
-    expect(result.current.isPaused).toBe(false);
-    expect(result.current.progress).toBe(0);
-  });
-
-  it('should calculate progress correctly', () => {
-    const stateWithProgress = createUploadState('test-id', 'test.txt', 1024, 4, 256);
-    stateWithProgress.chunks[0].uploaded = true;
-    stateWithProgress.chunks[1].uploaded = true;
-
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: stateWithProgress,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    expect(result.current.progress).toBe(50); // 2 out of 4 chunks
-  });
-
-  it('should start upload when startUpload is called', async () => {
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: mockUploadState,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    await act(async () => {
-      result.current.startUpload();
-    });
-
-    await waitFor(() => {
-      expect(api.uploadChunk).toHaveBeenCalled();
-    });
-  });
-
-  it('should upload chunks in parallel', async () => {
-    const state = createUploadState('test-id', 'test.txt', 1024, 5, 256);
-
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: state,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    await act(async () => {
-      result.current.startUpload();
-    });
-
-    await waitFor(() => {
-      // Should have called uploadChunk multiple times (up to MAX_PARALLEL_UPLOADS at a time)
-      expect(api.uploadChunk).toHaveBeenCalled();
-    }, { timeout: 2000 });
-  });
-
-  it('should skip already uploaded chunks', async () => {
-    const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
-    state.chunks[0].uploaded = true; // First chunk already uploaded
-
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: state,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    await act(async () => {
-      result.current.startUpload();
-    });
-
-    await waitFor(() => {
-      // Should only upload chunks 1 and 2, not chunk 0
-      const calls = vi.mocked(api.uploadChunk).mock.calls;
-      const chunkIndices = calls.map(call => call[0].chunkIndex);
-      expect(chunkIndices).not.toContain(0);
-    }, { timeout: 2000 });
-  });
-
-  it('should handle failed chunks', async () => {
-    // Make upload fail for first chunk
-    vi.mocked(api.uploadChunk).mockImplementation(async (request) => {
-      if (request.chunkIndex === 0) {
-        throw new Error('Upload failed');
-      }
-    });
-
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: mockUploadState,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    await act(async () => {
-      result.current.startUpload();
-    });
-
-    await waitFor(() => {
-      const failedChunks = result.current.failedChunks;
-      expect(failedChunks.length).toBeGreaterThan(0);
-    }, { timeout: 2000 });
-  });
-
-  it('should pause and resume upload', async () => {
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: mockUploadState,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    await act(async () => {
-      result.current.startUpload();
-    });
-
-    await act(async () => {
-      result.current.pauseUpload();
-    });
-
-    expect(result.current.isPaused).toBe(true);
-
-    await act(async () => {
-      result.current.resumeUpload();
-    });
-
-    expect(result.current.isPaused).toBe(false);
-  });
-
-  it('should retry failed chunks', async () => {
-    let callCount = 0;
-    vi.mocked(api.uploadChunk).mockImplementation(async (request) => {
-      callCount++;
-      if (request.chunkIndex === 0 && callCount === 1) {
-        throw new Error('Upload failed');
-      }
-      // Succeed on retry
-    });
-
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: mockUploadState,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    await act(async () => {
-      result.current.startUpload();
-    });
-
-    await waitFor(() => {
-      const failedChunks = result.current.failedChunks;
-      if (failedChunks.length > 0) {
-        return true;
-      }
-      return false;
-    }, { timeout: 2000 });
-
-    await act(async () => {
-      result.current.retryFailedChunks();
-    });
-
-    // Should have retried the failed chunk
-    await waitFor(() => {
-      expect(api.uploadChunk).toHaveBeenCalledTimes(3); // 2 initial + 1 retry
-    }, { timeout: 2000 });
-  });
-
-  it('should calculate uploaded bytes correctly', () => {
-    const state = createUploadState('test-id', 'test.txt', 1024, 4, 256);
-    state.chunks[0].uploaded = true;
-    state.chunks[1].uploaded = true;
-
-    const { result } = renderHook(() =>
-      useResumableUpload({
-        uploadState: state,
-        file: mockFile,
-        onComplete: mockOnComplete,
-      })
-    );
-
-    expect(result.current.uploadedBytes).toBe(512); // 2 chunks * 256 bytes
-  });
-
-});
-
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { IDBFactory } from 'fake-indexeddb';
+import { useResumableUpload } from '../useResumableUpload';
+import {
+  createUploadState,
+  loadMeasuredThroughput,
+  loadUploadState,
+  saveMeasuredThroughput,
+} from '../../utils/uploadState';
+import { UploadTransport } from '../../types/upload';
+import { AuthError, QuotaError, ServerError, SessionExpiredError, TimeoutError } from '../../utils/uploadErrors';
+import { DEFAULT_RETRY_POLICY, RetryPolicy } from '../../utils/retryPolicy';
+import { sha256Chunk, sha256File } from '../../utils/checksum';
+import { ENCRYPTION_OVERHEAD, createUploadEncryption, decryptUpload } from '../../utils/encryption';
+import { createFileSourceStore } from '../../utils/fileSources';
+
+const createUploadChunkMock = () =>
+  vi.fn<Parameters<UploadTransport['uploadChunk']>, ReturnType<UploadTransport['uploadChunk']>>();
+
+// Mock transport so no simulated delays or random failures are involved
+const mockTransport = {
+  uploadChunk: createUploadChunkMock(),
+  getUploadedChunks: vi.fn<Parameters<UploadTransport['getUploadedChunks']>, ReturnType<UploadTransport['getUploadedChunks']>>(),
+};
+
+describe('useResumableUpload', () => {
+  const mockFile = new File(['test content'], 'test.txt', { type: 'text/plain' });
+  const mockUploadState = createUploadState('test-id', 'test.txt', 1024, 2, 512);
+  const mockOnComplete = vi.fn();
+  // Matches mockUploadState, so every chunk has data to send
+  const fullFile = new File([new Uint8Array(1024)], 'test.txt');
+  // Retries without waiting, for tests that are not about timing
+  const fastRetries: RetryPolicy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 0, overrides: {} };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    // Default: successful uploads
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    // Reset mock implementation for each test
+    mockTransport.uploadChunk.mockReset();
+    mockTransport.uploadChunk.mockResolvedValue(undefined);
+    mockTransport.getUploadedChunks.mockReset();
+    mockTransport.getUploadedChunks.mockResolvedValue([]);
+  });
+
+  it('should initialize with correct state', () => {
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    expect(result.current.state.uploadId).toBe('test-id');
+    expect(result.current.isUploading).toBe(false);
+    expect(result.current.isPaused).toBe(false);
+    expect(result.current.progress).toBe(0);
+  });
+
+  it('should leave the upload state it was given unchanged', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 3, 4);
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(result.current.state.chunks.every((chunk) => chunk.uploaded)).toBe(true);
+    expect(state.chunks.some((chunk) => chunk.uploaded)).toBe(false);
+  });
+
+  it('should calculate progress correctly', () => {
+    const stateWithProgress = createUploadState('test-id', 'test.txt', 1024, 4, 256);
+    stateWithProgress.chunks[0].uploaded = true;
+    stateWithProgress.chunks[1].uploaded = true;
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: stateWithProgress,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    expect(result.current.progress).toBe(50); // 2 out of 4 chunks
+  });
+
+  it('should start upload when startUpload is called', async () => {
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockTransport.uploadChunk).toHaveBeenCalled();
+    });
+  });
+
+  it('should upload chunks in parallel', async () => {
+    const state = createUploadState('test-id', 'test.txt', 1024, 5, 256);
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      // Should have called uploadChunk multiple times (up to MAX_PARALLEL_UPLOADS at a time)
+      expect(mockTransport.uploadChunk).toHaveBeenCalled();
+    }, { timeout: 2000 });
+  });
+
+  it('should skip already uploaded chunks', async () => {
+    const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+    state.chunks[0].uploaded = true; // First chunk already uploaded
+    mockTransport.getUploadedChunks.mockResolvedValue([0]);
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      // Should only upload chunks 1 and 2, not chunk 0
+      const calls = mockTransport.uploadChunk.mock.calls;
+      const chunkIndices = calls.map(call => call[0].chunkIndex);
+      expect(chunkIndices).not.toContain(0);
+    }, { timeout: 2000 });
+  });
+
+  it('should handle failed chunks', async () => {
+    // Make upload fail for first chunk
+    mockTransport.uploadChunk.mockImplementation(async (request) => {
+      if (request.chunkIndex === 0) {
+        throw new Error('Upload failed');
+      }
+    });
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      const failedChunks = result.current.failedChunks;
+      expect(failedChunks.length).toBeGreaterThan(0);
+    }, { timeout: 2000 });
+  });
+
+  it('should pause and resume upload', async () => {
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await act(async () => {
+      result.current.pauseUpload();
+    });
+
+    expect(result.current.isPaused).toBe(true);
+
+    await act(async () => {
+      result.current.resumeUpload();
+    });
+
+    expect(result.current.isPaused).toBe(false);
+  });
+
+  it('should retry failed chunks', async () => {
+    let callCount = 0;
+    mockTransport.uploadChunk.mockImplementation(async (request) => {
+      callCount++;
+      if (request.chunkIndex === 0 && callCount === 1) {
+        throw new Error('Upload failed');
+      }
+      // Succeed on retry
+    });
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      const failedChunks = result.current.failedChunks;
+      if (failedChunks.length > 0) {
+        return true;
+      }
+      return false;
+    }, { timeout: 2000 });
+
+    await act(async () => {
+      result.current.retryFailedChunks();
+    });
+
+    // Should have retried the failed chunk
+    await waitFor(() => {
+      expect(mockTransport.uploadChunk).toHaveBeenCalledTimes(3); // 2 initial + 1 retry
+    }, { timeout: 2000 });
+  });
+
+  it('should calculate uploaded bytes correctly', () => {
+    const state = createUploadState('test-id', 'test.txt', 1024, 4, 256);
+    state.chunks[0].uploaded = true;
+    state.chunks[1].uploaded = true;
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    expect(result.current.uploadedBytes).toBe(512); // 2 chunks * 256 bytes
+  });
+
+  it('should count the short last chunk at its real size', () => {
+    const state = createUploadState('test-id', 'test.txt', 1000, 4, 256);
+    state.chunks = state.chunks.map((chunk) => ({ ...chunk, uploaded: true }));
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    expect(result.current.uploadedBytes).toBe(1000);
+    expect(result.current.progress).toBe(100);
+  });
+
+  it('should include bytes of chunks that are still in flight', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 2, 6);
+    let finishChunk: () => void = () => {};
+    const uploadChunk = createUploadChunkMock().mockImplementation(
+      (request) =>
+        new Promise<void>((resolve) => {
+          request.onProgress?.(3);
+          finishChunk = resolve;
+        })
+    );
+    const transport = { ...mockTransport, uploadChunk, maxConcurrency: 1 };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(result.current.uploadedBytes).toBe(3);
+    });
+    expect(result.current.progress).toBe(25);
+    expect(result.current.chunkProgress).toEqual({ 0: 0.5 });
+
+    await act(async () => {
+      finishChunk();
+    });
+
+    await waitFor(() => {
+      expect(result.current.uploadedBytes).toBe(9);
+    });
+    expect(result.current.chunkProgress).toEqual({ 1: 0.5 });
+  });
+
+  // Transport whose chunk requests only end when aborted
+  const createHangingTransport = () => {
+    const signals: AbortSignal[] = [];
+    const uploadChunk = createUploadChunkMock().mockImplementation(
+      (request) =>
+        new Promise<void>((_, reject) => {
+          signals.push(request.signal!);
+          request.signal?.addEventListener('abort', () =>
+            reject(new DOMException('The upload was aborted', 'AbortError'))
+          );
+        })
+    );
+    return { transport: { ...mockTransport, uploadChunk }, uploadChunk, signals };
+  };
+
+  it('should abort in-flight chunks on pause when asked, leaving them pending', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 2, 6);
+    const { transport, signals } = createHangingTransport();
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+    await waitFor(() => {
+      expect(signals).toHaveLength(2);
+    });
+
+    await act(async () => {
+      result.current.pauseUpload({ abort: true });
+    });
+
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+    await waitFor(() => {
+      expect(result.current.state.chunks.every((chunk) => !chunk.uploaded && !chunk.failed && chunk.retryCount === 0)).toBe(true);
+    });
+    expect(result.current.isPaused).toBe(true);
+  });
+
+  it('should let in-flight chunks finish on a plain pause', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 2, 6);
+    const { transport, signals } = createHangingTransport();
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+    await waitFor(() => {
+      expect(signals).toHaveLength(2);
+    });
+
+    await act(async () => {
+      result.current.pauseUpload();
+    });
+
+    expect(signals.some((signal) => signal.aborted)).toBe(false);
+  });
+
+  it('should not send a chunk still in flight again when resumed after a plain pause', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 3, 4);
+    let finishFirstChunk = () => {};
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const uploadChunk = createUploadChunkMock().mockImplementation(async (request) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      if (request.chunkIndex === 0) {
+        await new Promise<void>((resolve) => {
+          finishFirstChunk = resolve;
+        });
+      }
+      inFlight--;
+    });
+    const transport = { ...mockTransport, uploadChunk, maxConcurrency: 1 };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+    await waitFor(() => {
+      expect(uploadChunk).toHaveBeenCalledTimes(1);
+    });
+
+    await act(async () => {
+      result.current.pauseUpload();
+      // Long enough for the run to notice the pause while chunk 0 is still in flight
+      await new Promise((resolve) => setTimeout(resolve, 300));
+    });
+    await act(async () => {
+      result.current.resumeUpload();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    });
+
+    expect(uploadChunk).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      finishFirstChunk();
+    });
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+
+    // The chunks after 0 may have been re-split on resume, but none is sent twice
+    const sent = uploadChunk.mock.calls.map(([request]) => request.chunkIndex);
+    expect(sent[0]).toBe(0);
+    expect(new Set(sent).size).toBe(sent.length);
+    expect(maxInFlight).toBe(1);
+    expect(mockOnComplete).toHaveBeenCalledTimes(1);
+    expect(result.current.isUploading).toBe(false);
+  });
+
+  it('should always abort in-flight chunks on cancel', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 2, 6);
+    const { transport, signals } = createHangingTransport();
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+    await waitFor(() => {
+      expect(signals).toHaveLength(2);
+    });
+
+    await act(async () => {
+      result.current.cancelUpload();
+    });
+
+    expect(signals.every((signal) => signal.aborted)).toBe(true);
+    expect(result.current.isUploading).toBe(false);
+    expect(result.current.failedChunks).toHaveLength(0);
+  });
+
+  it('should stop without retrying when a chunk fails with a fatal error', async () => {
+    const uploadChunk = createUploadChunkMock().mockImplementation(async (request) => {
+      if (request.chunkIndex === 0) {
+        throw new AuthError('Failed to upload chunk 0: HTTP 401', { status: 401 });
+      }
+    });
+    const state = createUploadState('test-id', 'test.txt', 1024, 4, 256);
+    const file = new File([new Uint8Array(1024)], 'test.txt');
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file,
+        transport: { ...mockTransport, uploadChunk, maxConcurrency: 2 },
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    // Only the first batch was sent, and the failed chunk was not retried
+    expect(uploadChunk).toHaveBeenCalledTimes(2);
+    expect(result.current.error).toBe('Upload stopped: Failed to upload chunk 0: HTTP 401');
+    expect(result.current.isUploading).toBe(false);
+    expect(result.current.state.chunks[0].lastError).toMatchObject({
+      kind: 'auth',
+      retryable: false,
+      status: 401,
+    });
+    expect(mockOnComplete).not.toHaveBeenCalled();
+  });
+
+  it('should mark the upload stale when the server has discarded it', async () => {
+    const uploadChunk = createUploadChunkMock().mockRejectedValue(
+      new SessionExpiredError('Failed to upload chunk 0: HTTP 410', { status: 410 })
+    );
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: fullFile,
+        transport: { ...mockTransport, uploadChunk, maxConcurrency: 1 },
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(result.current.error).toBe('Upload stopped: Failed to upload chunk 0: HTTP 410');
+    expect(result.current.state.stale).toEqual({
+      since: expect.any(Number),
+      reason: 'Failed to upload chunk 0: HTTP 410',
+    });
+  });
+
+  it('should wait for Retry-After before retrying a chunk', async () => {
+    const attempts: number[] = [];
+    const uploadChunk = createUploadChunkMock().mockImplementation(async (request) => {
+      if (request.chunkIndex !== 0) {
+        return;
+      }
+      attempts.push(Date.now());
+      if (attempts.length === 1) {
+        throw new QuotaError('Failed to upload chunk 0: HTTP 429', { status: 429, retryAfterMs: 300 });
+      }
+    });
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: fullFile,
+        transport: { ...mockTransport, uploadChunk },
+        onComplete: mockOnComplete,
+        retryPolicy: fastRetries,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+
+    expect(attempts).toHaveLength(2);
+    expect(attempts[1] - attempts[0]).toBeGreaterThanOrEqual(290);
+    expect(result.current.state.chunks[0].lastError).toBeUndefined();
+  });
+
+  it('should give up on a chunk after the maximum attempts of the policy', async () => {
+    const uploadChunk = createUploadChunkMock().mockImplementation(async (request) => {
+      if (request.chunkIndex === 0) {
+        throw new ServerError('Failed to upload chunk 0: HTTP 503', { status: 503 });
+      }
+    });
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: fullFile,
+        transport: { ...mockTransport, uploadChunk },
+        onComplete: mockOnComplete,
+        retryPolicy: { ...fastRetries, maxAttempts: 3 },
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(uploadChunk.mock.calls.filter(([request]) => request.chunkIndex === 0)).toHaveLength(3);
+    expect(result.current.failedChunks).toHaveLength(1);
+    expect(result.current.state.chunks[0].lastError?.retryAt).toBeUndefined();
+    expect(result.current.isUploading).toBe(false);
+  });
+
+  it('should back off between retries instead of retrying at once', async () => {
+    const attempts: number[] = [];
+    const uploadChunk = createUploadChunkMock().mockImplementation(async (request) => {
+      if (request.chunkIndex !== 0) {
+        return;
+      }
+      attempts.push(Date.now());
+      if (attempts.length < 3) {
+        throw new TypeError('Failed to fetch');
+      }
+    });
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: fullFile,
+        transport: { ...mockTransport, uploadChunk },
+        onComplete: mockOnComplete,
+        retryPolicy: { ...fastRetries, baseDelayMs: 100, jitter: 'none' },
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(mockOnComplete).toHaveBeenCalled();
+    // 100ms before the first retry, 200ms before the second
+    expect(attempts[1] - attempts[0]).toBeGreaterThanOrEqual(90);
+    expect(attempts[2] - attempts[1]).toBeGreaterThanOrEqual(190);
+  });
+
+  it('should stop retrying once the retry budget of the upload is spent', async () => {
+    const uploadChunk = createUploadChunkMock().mockRejectedValue(
+      new ServerError('Failed to upload chunk: HTTP 500', { status: 500 })
+    );
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: fullFile,
+        transport: { ...mockTransport, uploadChunk },
+        onComplete: mockOnComplete,
+        retryPolicy: { ...fastRetries, retryBudget: 3 },
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    // Two first attempts plus three retries shared between both chunks
+    expect(uploadChunk).toHaveBeenCalledTimes(5);
+    expect(result.current.failedChunks).toHaveLength(2);
+  });
+
+  it('should create the remote upload before sending chunks', async () => {
+    const createUpload = vi.fn().mockResolvedValue({ location: 'https://tus.test/files/abc' });
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const transport = { ...mockTransport, uploadChunk, createUpload };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(uploadChunk).toHaveBeenCalled();
+    });
+
+    expect(createUpload).toHaveBeenCalledTimes(1);
+    expect(uploadChunk.mock.calls[0][0].session).toEqual({
+      location: 'https://tus.test/files/abc',
+    });
+    expect(result.current.state.remoteSession?.location).toBe('https://tus.test/files/abc');
+  });
+
+  it('should surface an error when the remote upload cannot be created', async () => {
+    const createUpload = vi.fn().mockRejectedValue(new Error('Failed to create tus upload: HTTP 500'));
+    const uploadChunk = createUploadChunkMock();
+    const transport = { ...mockTransport, uploadChunk, createUpload };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(result.current.error).toContain('HTTP 500');
+    expect(result.current.isUploading).toBe(false);
+    expect(uploadChunk).not.toHaveBeenCalled();
+  });
+
+  it('should respect the transport concurrency limit', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 3, 4);
+    let inFlight = 0;
+    let maxInFlight = 0;
+    // Dedicated mock so calls from loops left running by other tests don't leak in
+    const uploadChunk = createUploadChunkMock().mockImplementation(async () => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+    });
+    const transport = { ...mockTransport, uploadChunk, maxConcurrency: 1 };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+
+    expect(maxInFlight).toBe(1);
+    const offsets = uploadChunk.mock.calls.map((call) => call[0].offset);
+    expect(offsets).toEqual([0, 4, 8]);
+  });
+
+  it('should keep other slots busy while one chunk is slow', async () => {
+    const state = createUploadState('test-id', 'test.txt', 1024, 4, 256);
+    let finishSlowChunk: () => void = () => {};
+    const uploadChunk = createUploadChunkMock().mockImplementation(async (request) => {
+      if (request.chunkIndex === 0) {
+        await new Promise<void>((resolve) => {
+          finishSlowChunk = resolve;
+        });
+      }
+    });
+    const transport = { ...mockTransport, uploadChunk, maxConcurrency: 2 };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: fullFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    // Chunks 1-3 go through the second slot without waiting for chunk 0
+    await waitFor(() => {
+      expect(result.current.state.chunks.slice(1).every((chunk) => chunk.uploaded)).toBe(true);
+    }, { timeout: 2000 });
+    expect(result.current.inFlightChunks).toEqual([0]);
+    expect(mockOnComplete).not.toHaveBeenCalled();
+
+    await act(async () => {
+      finishSlowChunk();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+    expect(result.current.inFlightChunks).toEqual([]);
+  });
+
+  it('should cut concurrency when chunks time out', async () => {
+    const state = createUploadState('test-id', 'test.txt', 1024, 4, 256);
+    mockTransport.uploadChunk
+      .mockRejectedValueOnce(new TimeoutError('Network request timed out'))
+      .mockResolvedValue(undefined);
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: fullFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+        retryPolicy: fastRetries,
+        concurrencyLimits: { min: 1, max: 8, initial: 4 },
+      })
+    );
+
+    expect(result.current.concurrency).toBe(4);
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+    expect(result.current.concurrency).toBe(2);
+  });
+
+  it('should not exceed the concurrency the transport allows', () => {
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: fullFile,
+        transport: { ...mockTransport, maxConcurrency: 1 },
+        onComplete: mockOnComplete,
+        concurrencyLimits: { min: 2, max: 8, initial: 4 },
+      })
+    );
+
+    expect(result.current.concurrency).toBe(1);
+  });
+
+  it('should re-split chunks not sent yet when the measured throughput calls for it', async () => {
+    const KiB = 1024;
+    const state = createUploadState('test-id', 'big.bin', 2048 * KiB, 32, 64 * KiB);
+    state.chunks[0].uploaded = true;
+    mockTransport.getUploadedChunks.mockResolvedValue([0]);
+    // Fast enough for chunks far larger than 64 KiB
+    saveMeasuredThroughput(1_000_000);
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: new File([new Uint8Array(2048 * KiB)], 'big.bin'),
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+
+    // The rest of the file went as one chunk after the one already uploaded
+    expect(result.current.state.totalChunks).toBe(2);
+    const [request] = mockTransport.uploadChunk.mock.calls.map((call) => call[0]);
+    expect(request).toMatchObject({ chunkIndex: 1, totalChunks: 2, offset: 64 * KiB });
+    expect(request.chunkData.size).toBe(1984 * KiB);
+  });
+
+  it('should remember the throughput it measured for the next upload', async () => {
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: mockUploadState,
+        file: fullFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+    expect(loadMeasuredThroughput()).toBeGreaterThan(0);
+  });
+
+  it('should store transport results and complete the upload on the server', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 2, 6);
+    const uploadChunk = createUploadChunkMock().mockImplementation(async (request) => ({
+      etag: `"etag-${request.chunkIndex}"`,
+    }));
+    const completeUpload = vi.fn().mockResolvedValue(undefined);
+    const transport = { ...mockTransport, uploadChunk, completeUpload };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalledTimes(1);
+    }, { timeout: 2000 });
+
+    expect(completeUpload).toHaveBeenCalledTimes(1);
+    expect(completeUpload.mock.calls[0][0].chunks.map((chunk: { etag?: string }) => chunk.etag)).toEqual([
+      '"etag-0"',
+      '"etag-1"',
+    ]);
+  });
+
+  it('should pass the finalized object to onComplete and persist it', async () => {
+    const state = createUploadState('final-id', 'test.txt', 12, 2, 6);
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const completeUpload = vi.fn().mockResolvedValue({ location: '/data/final-id/file', checksum: 'sha256:abc' });
+    const transport = { ...mockTransport, uploadChunk, completeUpload };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalledWith({ location: '/data/final-id/file', checksum: 'sha256:abc' });
+    }, { timeout: 2000 });
+
+    expect((await loadUploadState('final-id'))?.result?.location).toBe('/data/final-id/file');
+  });
+
+  it('should send chunk checksums and verify the file digest the server reports', async () => {
+    const state = createUploadState('verify-id', 'test.txt', 12, 2, 6);
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const completeUpload = vi.fn().mockResolvedValue({ location: '/data/verify-id/file', checksum: await sha256File(mockFile) });
+    const transport = { ...mockTransport, uploadChunk, completeUpload };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    const firstChunkChecksum = await sha256Chunk(mockFile.slice(0, 6));
+    expect(uploadChunk.mock.calls.find(([request]) => request.chunkIndex === 0)?.[0].checksum).toBe(firstChunkChecksum);
+    expect(result.current.state.chunks[0].checksum).toBe(firstChunkChecksum);
+    expect(mockOnComplete).toHaveBeenCalledWith(expect.objectContaining({ verified: true }));
+    expect((await loadUploadState('verify-id'))?.result?.verified).toBe(true);
+  });
+
+  it('should send the bytes the chunk processor returns', async () => {
+    const state = createUploadState('processed-id', 'test.txt', 12, 1, 12);
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const processed = new TextEncoder().encode('processed').buffer as ArrayBuffer;
+    const chunkProcessor = {
+      process: vi.fn().mockResolvedValue({ data: processed, checksum: 'sha256:processed' }),
+      hashFile: vi.fn(),
+      terminate: vi.fn(),
+    };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport: { ...mockTransport, uploadChunk },
+        onComplete: mockOnComplete,
+        chunkProcessor,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(chunkProcessor.process).toHaveBeenCalledTimes(1);
+    expect(chunkProcessor.process.mock.calls[0][0].size).toBe(12);
+    expect(uploadChunk.mock.calls[0][0]).toMatchObject({ checksum: 'sha256:processed' });
+    expect(uploadChunk.mock.calls[0][0].chunkData.size).toBe(processed.byteLength);
+  });
+
+  it('should send compressed chunks and track both sizes', async () => {
+    const text = 'a'.repeat(2048);
+    const state = { ...createUploadState('compressed-id', 'data.jsonl', 2048, 2, 1024), compression: 'gzip' as const };
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: new File([text], 'data.jsonl'),
+        transport: { ...mockTransport, uploadChunk },
+        onComplete: mockOnComplete,
+      })
+    );
+    expect(result.current.compressionSavings).toEqual({ originalBytes: 0, compressedBytes: 0 });
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    const request = uploadChunk.mock.calls[0][0];
+    expect(request.contentEncoding).toBe('gzip');
+    expect(request.chunkData.size).toBeLessThan(1024);
+    const compressedLength = result.current.state.chunks[0].compressedLength!;
+    expect(compressedLength).toBe(request.chunkData.size);
+    expect(result.current.compressionSavings).toEqual({
+      originalBytes: 2048,
+      compressedBytes: compressedLength + result.current.state.chunks[1].compressedLength!,
+    });
+    expect(result.current.uploadedBytes).toBe(2048);
+  });
+
+  it('should count progress of compressed chunks in bytes of the file', async () => {
+    const state = { ...createUploadState('compressed-id', 'data.jsonl', 2048, 1, 2048), compression: 'gzip' as const };
+    // Half of the compressed bytes are sent, then the request hangs
+    const uploadChunk = createUploadChunkMock().mockImplementation((request) => {
+      request.onProgress?.(request.chunkData.size / 2);
+      return new Promise(() => {});
+    });
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: new File(['a'.repeat(2048)], 'data.jsonl'),
+        transport: { ...mockTransport, uploadChunk },
+        onComplete: mockOnComplete,
+      })
+    );
+
+    act(() => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(result.current.uploadedBytes).toBe(1024);
+    });
+    expect(result.current.chunkProgress[0]).toBe(0.5);
+  });
+
+  it('should encrypt chunks and place them after the tags of earlier chunks', async () => {
+    const { encryption, key } = await createUploadEncryption('passphrase', { iterations: 1000 });
+    const state = { ...createUploadState('encrypted-id', 'test.txt', 12, 2, 6), encryption };
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    // The server's digest is of the ciphertext, so it cannot be compared with the file
+    const completeUpload = vi.fn().mockResolvedValue({ location: '/data/encrypted-id/file', checksum: `sha256:${'0'.repeat(64)}` });
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport: { ...mockTransport, uploadChunk, completeUpload },
+        onComplete: mockOnComplete,
+        encryptionKey: key,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    const requests = uploadChunk.mock.calls.map(([request]) => request).sort((a, b) => a.chunkIndex - b.chunkIndex);
+    expect(requests.map((request) => request.offset)).toEqual([0, 6 + ENCRYPTION_OVERHEAD]);
+    expect(requests.map((request) => request.chunkData.size)).toEqual([6 + ENCRYPTION_OVERHEAD, 6 + ENCRYPTION_OVERHEAD]);
+    expect(requests[0].checksum).toBe(await sha256Chunk(requests[0].chunkData));
+
+    const decrypted = await decryptUpload(new Blob(requests.map((request) => request.chunkData)), state, key);
+    expect(new TextDecoder().decode(await decrypted.arrayBuffer())).toBe('test content');
+    expect(mockOnComplete).toHaveBeenCalledWith(expect.not.objectContaining({ verified: expect.anything() }));
+    expect(result.current.error).toBeNull();
+  });
+
+  it('should not send an encrypted upload without its key', async () => {
+    const { encryption } = await createUploadEncryption('passphrase', { iterations: 1000 });
+    const state = { ...createUploadState('locked-id', 'test.txt', 12, 1, 12), encryption };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport: mockTransport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(mockTransport.uploadChunk).not.toHaveBeenCalled();
+    expect(result.current.isUploading).toBe(false);
+    expect(result.current.error).toContain('passphrase');
+  });
+
+  it('should report a file digest that does not match the local file', async () => {
+    const state = createUploadState('mismatch-id', 'test.txt', 12, 1, 12);
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const completeUpload = vi.fn().mockResolvedValue({ location: '/data/mismatch-id/file', checksum: `sha256:${'0'.repeat(64)}` });
+    const transport = { ...mockTransport, uploadChunk, completeUpload };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(mockOnComplete).not.toHaveBeenCalled();
+    expect(result.current.state.result?.verified).toBe(false);
+    expect(result.current.error).toContain('Checksum mismatch');
+  });
+
+  it('should not report completion when the server rejects it', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 1, 12);
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const completeUpload = vi.fn().mockRejectedValue(new Error('Failed to complete multipart upload: HTTP 400'));
+    const transport = { ...mockTransport, uploadChunk, completeUpload };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(mockOnComplete).not.toHaveBeenCalled();
+    expect(result.current.error).toContain('HTTP 400');
+  });
+
+  it('should mark chunks the server already has when resuming', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 3, 4);
+    state.remoteSession = { location: 's3-upload-id', key: 'test-id/test.txt' };
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const transport = {
+      ...mockTransport,
+      uploadChunk,
+      getUploadedChunks: vi.fn().mockResolvedValue([0, 1]),
+      createUpload: vi.fn(),
+    };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+
+    expect(transport.createUpload).not.toHaveBeenCalled();
+    expect(uploadChunk.mock.calls.map((call) => call[0].chunkIndex)).toEqual([2]);
+  });
+
+  it('should re-queue chunks the server lost and report the reconciliation', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 3, 4);
+    state.chunks[0].uploaded = true;
+    state.chunks[1].uploaded = true;
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const transport = {
+      ...mockTransport,
+      uploadChunk,
+      // Server kept chunk 0, lost chunk 1 and received chunk 2 before local state was saved
+      getUploadedChunks: vi.fn().mockResolvedValue([0, 2]),
+    };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+
+    expect(uploadChunk.mock.calls.map((call) => call[0].chunkIndex)).toEqual([1]);
+    expect(result.current.reconciliation).toEqual({ confirmed: 1, recovered: [2], requeued: [1] });
+  });
+
+  it('should mark the upload stale when the server discarded it before a resume', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 3, 4);
+    state.remoteSession = { location: 'https://tus.test/files/1' };
+    state.chunks[0].uploaded = true;
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const transport = {
+      ...mockTransport,
+      uploadChunk,
+      getUploadedChunks: vi.fn().mockRejectedValue(new SessionExpiredError('Failed to get upload offset: HTTP 404', { status: 404 })),
+      createUpload: vi.fn(),
+    };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(uploadChunk).not.toHaveBeenCalled();
+    expect(result.current.isUploading).toBe(false);
+    expect(result.current.error).toBe('Upload stopped: Failed to get upload offset: HTTP 404');
+    expect(result.current.state.stale).toEqual({
+      since: expect.any(Number),
+      reason: 'Failed to get upload offset: HTTP 404',
+    });
+  });
+
+  it('should resume from a partial copy without verifying the digest', async () => {
+    const state = createUploadState('copy-id', 'test.txt', 12, 2, 6);
+    state.chunks[0].uploaded = true;
+    const fileSources = createFileSourceStore({ indexedDB: new IDBFactory() });
+    await fileSources.saveCopy(state, mockFile);
+    const copy = (await fileSources.restore('copy-id'))!;
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const completeUpload = vi.fn().mockResolvedValue({ location: '/data/copy-id/file', checksum: await sha256File(mockFile) });
+    const transport = { ...mockTransport, uploadChunk, completeUpload, getUploadedChunks: vi.fn().mockResolvedValue([0]) };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: copy,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(uploadChunk.mock.calls.map(([request]) => request.chunkIndex)).toEqual([1]);
+    expect(mockOnComplete).toHaveBeenCalledWith({ location: '/data/copy-id/file', checksum: await sha256File(mockFile) });
+  });
+
+  it('should not send chunks a partial copy left out when the server lost them', async () => {
+    const state = createUploadState('copy-id', 'test.txt', 12, 2, 6);
+    state.chunks[0].uploaded = true;
+    const fileSources = createFileSourceStore({ indexedDB: new IDBFactory() });
+    await fileSources.saveCopy(state, mockFile);
+    const copy = (await fileSources.restore('copy-id'))!;
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const transport = { ...mockTransport, uploadChunk, getUploadedChunks: vi.fn().mockResolvedValue([]) };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: copy,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      await result.current.startUpload();
+    });
+
+    expect(uploadChunk).not.toHaveBeenCalled();
+    expect(result.current.isUploading).toBe(false);
+    expect(result.current.error).toBe(
+      'The server no longer has chunks the kept copy left out; choose the file again to resume'
+    );
+  });
+
+  it('should fall back to local state when the server cannot be queried', async () => {
+    const state = createUploadState('test-id', 'test.txt', 12, 3, 4);
+    state.chunks[0].uploaded = true;
+    const uploadChunk = createUploadChunkMock().mockResolvedValue(undefined);
+    const transport = {
+      ...mockTransport,
+      uploadChunk,
+      getUploadedChunks: vi.fn().mockRejectedValue(new Error('Failed to get uploaded chunks: HTTP 503')),
+    };
+
+    const { result } = renderHook(() =>
+      useResumableUpload({
+        uploadState: state,
+        file: mockFile,
+        transport,
+        onComplete: mockOnComplete,
+      })
+    );
+
+    await act(async () => {
+      result.current.startUpload();
+    });
+
+    await waitFor(() => {
+      expect(mockOnComplete).toHaveBeenCalled();
+    }, { timeout: 2000 });
+
+    expect(uploadChunk.mock.calls.map((call) => call[0].chunkIndex)).toEqual([1, 2]);
+    expect(result.current.reconciliation).toBeNull();
+  });
+});
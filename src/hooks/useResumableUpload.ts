@@ -1,253 +1,612 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { UploadState } from '../types/upload';
-import { uploadChunk, getUploadSpeed, setUploadSpeed as setGlobalUploadSpeed, type UploadSpeed } from '../utils/api';
-import { saveUploadState, updateChunkStatus } from '../utils/uploadState';
-import { splitFileIntoChunks } from '../utils/fileChunker';
-
-interface UseResumableUploadProps {
-  uploadState: UploadState;
-  file: File | null;
-  onComplete: () => void;
-}
-
-const MAX_RETRIES = 3;
-const MAX_PARALLEL_UPLOADS = 5; // Number of chunks to upload in parallel
-
-export function useResumableUpload({
-  uploadState,
-  file,
-  onComplete,
-}: UseResumableUploadProps) {
-  const [state, setState] = useState<UploadState>(uploadState);
-  const [isUploading, setIsUploading] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
-  const chunksRef = useRef<Blob[]>([]);
-  const stateRef = useRef<UploadState>(uploadState);
-  const isPausedRef = useRef(false);
-
-  // Keep stateRef in sync with state (needed for async loop)
-  useEffect(() => {
-    stateRef.current = state;
-  }, [state]);
-
-  // Keep isPausedRef in sync with isPaused (needed for async loop)
-  useEffect(() => {
-    isPausedRef.current = isPaused;
-  }, [isPaused]);
-
-  // Load file chunks when file is available
-  useEffect(() => {
-    if (file) {
-      chunksRef.current = splitFileIntoChunks(file, uploadState.chunkSize);
-    }
-  }, [file, uploadState.chunkSize]);
-
-  // Save state to localStorage whenever it changes
-  useEffect(() => {
-    saveUploadState(state.uploadId, state);
-  }, [state]);
-
-  const uploadSingleChunk = useCallback(
-    async (chunkIndex: number): Promise<boolean> => {
-      if (!file || !chunksRef.current[chunkIndex]) {
-        return false;
-      }
-
-      const chunk = chunksRef.current[chunkIndex];
-
-      try {
-        await uploadChunk({
-          uploadId: state.uploadId,
-          chunkIndex,
-          totalChunks: state.totalChunks,
-          chunkData: chunk,
-        });
-
-        // Mark chunk as uploaded
-        setState((prevState) =>
-          updateChunkStatus(prevState, chunkIndex, true, false)
-        );
-
-        return true;
-      } catch (error) {
-        console.error(`Failed to upload chunk ${chunkIndex}:`, error);
-
-        // Mark chunk as failed
-        setState((prevState) => {
-          const updated = updateChunkStatus(prevState, chunkIndex, false, true);
-          return updated;
-        });
-
-        return false;
-      }
-    },
-    [file, state.uploadId, state.totalChunks]
-  );
-
-  const retryFailedChunks = useCallback(async () => {
-    const failedChunks = state.chunks.filter(
-      (chunk) => !chunk.uploaded && chunk.failed && chunk.retryCount < MAX_RETRIES
-    );
-
-    if (failedChunks.length === 0) {
-      return;
-    }
-
-    // Reset failed status for retry
-    setState((prevState) => ({
-      ...prevState,
-      chunks: prevState.chunks.map((chunk) =>
-        chunk.failed && chunk.retryCount < MAX_RETRIES
-          ? { ...chunk, failed: false }
-          : chunk
-      ),
-    }));
-
-    // Retry failed chunks
-    const retryPromises = failedChunks.map((chunk) =>
-      uploadSingleChunk(chunk.chunkIndex)
-    );
-
-    await Promise.allSettled(retryPromises);
-  }, [state.chunks, uploadSingleChunk]);
-
-  const startUpload = useCallback(async () => {
-    if (!file) {
-      return;
-    }
-
-    // If already uploading and not paused, don't start again
-    // But allow resume if paused
-    if (isUploading && !isPaused) {
-      return;
-    }
-
-    // Reset pause state when starting/resuming
-    setIsPaused(false);
-    isPausedRef.current = false;
-    setIsUploading(true);
-
-    let hasMoreChunks = true;
-
-    // Upload chunks in parallel batches
-    while (hasMoreChunks) {
-      // Check pause state using ref (current value)
-      if (isPausedRef.current) {
-        break;
-      }
-
-      // Get current state to find pending chunks using ref for latest state
-      const currentState = stateRef.current;
-      const pendingChunks = currentState.chunks.filter((chunk) => !chunk.uploaded);
-      
-      if (pendingChunks.length === 0) {
-        hasMoreChunks = false;
-        break;
-      }
-
-      const batch = pendingChunks.slice(0, MAX_PARALLEL_UPLOADS);
-
-      // Upload batch in parallel
-      const batchPromises = batch.map((chunk) =>
-        uploadSingleChunk(chunk.chunkIndex)
-      );
-
-      await Promise.allSettled(batchPromises);
-
-      // Check pause state again after batch completes
-      if (isPausedRef.current) {
-        break;
-      }
-
-      // Check if all chunks are uploaded using latest state
-      const latestState = stateRef.current;
-      const allUploaded = latestState.chunks.every((chunk) => chunk.uploaded);
-      if (allUploaded) {
-        hasMoreChunks = false;
-        setIsUploading(false);
-        onComplete();
-        break;
-      }
-
-      // Small delay between batches to avoid overwhelming
-      await new Promise((resolve) => setTimeout(resolve, 100));
-    }
-
-    // Retry failed chunks if upload was not paused
-    if (!isPausedRef.current) {
-      await retryFailedChunks();
-    }
-
-    // Final check - only needed if loop exited due to pause
-    if (isPausedRef.current) {
-      // Keep isUploading as true so resume can work
-      return;
-    }
-
-    // Check if all chunks uploaded (in case retry completed everything)
-    setState((prevState) => {
-      const allUploaded = prevState.chunks.every((chunk) => chunk.uploaded);
-      if (allUploaded) {
-        setIsUploading(false);
-        onComplete();
-      } else {
-        setIsUploading(false);
-      }
-      return prevState;
-    });
-  }, [file, isUploading, isPaused, uploadSingleChunk, retryFailedChunks, onComplete]);
-
-  const pauseUpload = useCallback(() => {
-    setIsPaused(true);
-    isPausedRef.current = true;
-  }, []);
-
-  const resumeUpload = useCallback(() => {
-    // Clear pause state and restart upload
-    setIsPaused(false);
-    isPausedRef.current = false;
-    startUpload();
-  }, [startUpload]);
-
-  const cancelUpload = useCallback(() => {
-    // Stop upload by pausing and setting isUploading to false
-    setIsPaused(true);
-    isPausedRef.current = true;
-    setIsUploading(false);
-  }, []);
-
-  const getProgress = useCallback(() => {
-    const uploadedCount = state.chunks.filter((chunk) => chunk.uploaded).length;
-    return (uploadedCount / state.totalChunks) * 100;
-  }, [state.chunks, state.totalChunks]);
-
-  const getUploadedBytes = useCallback(() => {
-    const uploadedCount = state.chunks.filter((chunk) => chunk.uploaded).length;
-    return uploadedCount * state.chunkSize;
-  }, [state.chunks, state.chunkSize]);
-
-  const getFailedChunks = useCallback(() => {
-    return state.chunks.filter((chunk) => chunk.failed && !chunk.uploaded);
-  }, [state.chunks]);
-
-  const changeSpeed = useCallback((speed: UploadSpeed) => {
-    // Update the global speed setting (used by uploadChunk)
-    setGlobalUploadSpeed(speed);
-  }, []);
-
-  return {
-    state,
-    isUploading,
-    isPaused,
-    uploadSpeed: getUploadSpeed(), // Get from global state
-    progress: getProgress(),
-    uploadedBytes: getUploadedBytes(),
-    failedChunks: getFailedChunks(),
-    startUpload,
-    pauseUpload,
-    resumeUpload,
-    cancelUpload,
-    retryFailedChunks,
-    changeSpeed,
-  };
-}
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { ChunkStatus, ReconciliationSummary, UploadResult, UploadState, UploadTransport } from '../types/upload';
+import { getNetworkProfileId, setNetworkProfile } from '../utils/api';
+import {
+  getPendingTailStart,
+  loadMeasuredThroughput,
+  markUploadStale,
+  reconcileChunks,
+  resizePendingChunks,
+  saveMeasuredThroughput,
+  updateChunkStatus,
+} from '../utils/uploadState';
+import { chooseChunkSize, sliceChunk } from '../utils/fileChunker';
+import { isSha256Checksum } from '../utils/checksum';
+import { hasChunkBytes, isPartialCopy } from '../utils/fileSources';
+import { ChunkProcessor, getDefaultChunkProcessor } from '../utils/workerPool';
+import { StateStore, getDefaultStateStore } from '../utils/stateStore';
+import { createStatePersister } from '../utils/statePersister';
+import { getChunkIv, getStoredOffset } from '../utils/encryption';
+import { describeChunkError, toUploadError } from '../utils/uploadErrors';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, planRetry } from '../utils/retryPolicy';
+import { runScheduler } from '../utils/scheduler';
+import {
+  ConcurrencyLimits,
+  DEFAULT_CONCURRENCY_LIMITS,
+  createConcurrencyController,
+} from '../utils/concurrencyController';
+
+interface UseResumableUploadProps {
+  uploadState: UploadState;
+  file: File | null;
+  transport: UploadTransport;
+  onComplete: (result?: UploadResult) => void;
+  retryPolicy?: RetryPolicy;
+  concurrencyLimits?: ConcurrencyLimits;
+  /** Hashes chunks before they are sent; defaults to a Web Worker pool shared by the page */
+  chunkProcessor?: ChunkProcessor;
+  /** Data key of an encrypted upload (uploadState.encryption), see utils/encryption.ts */
+  encryptionKey?: CryptoKey;
+  /** Where the state is saved as the upload progresses; defaults to getDefaultStateStore() */
+  stateStore?: StateStore;
+}
+
+// Failed chunks are sent again automatically only while the retry policy has scheduled them
+const isScheduledForRetry = (chunk: ChunkStatus): boolean =>
+  chunk.failed && chunk.lastError?.retryAt !== undefined;
+
+const isFatal = (chunk: ChunkStatus): boolean =>
+  chunk.failed && chunk.lastError?.retryable === false;
+
+// Weight of the newest chunk in the running throughput average
+const THROUGHPUT_SMOOTHING = 0.3;
+// Pending chunks are only re-split when the size they should have differs at least this
+// much (either way), so small changes in measured throughput do not churn the layout
+const RESIZE_FACTOR = 2;
+
+/**
+ * One run of the upload loop. `paused` is set once a pause stops it from starting chunks;
+ * `done` settles after the chunks it has in flight
+ */
+interface UploadRun {
+  done: Promise<void>;
+  paused: boolean;
+}
+
+export function useResumableUpload({
+  uploadState,
+  file,
+  transport,
+  onComplete,
+  retryPolicy = DEFAULT_RETRY_POLICY,
+  concurrencyLimits = DEFAULT_CONCURRENCY_LIMITS,
+  chunkProcessor = getDefaultChunkProcessor(),
+  encryptionKey,
+  stateStore = getDefaultStateStore(),
+}: UseResumableUploadProps) {
+  const [state, setState] = useState<UploadState>(uploadState);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // Hashing the whole file after completion, to compare with the server's digest
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationSummary | null>(null);
+  // Bytes sent so far for chunks that are still in flight, by chunk index
+  const [chunkProgress, setChunkProgress] = useState<Record<number, number>>({});
+  // Indices of chunks whose requests are in flight, in ascending order
+  const [inFlightChunks, setInFlightChunks] = useState<number[]>([]);
+  // Running average of what one connection achieves (bytes/s), for sizing chunks
+  const throughputRef = useRef<number | null>(loadMeasuredThroughput());
+  // Adapts the number of parallel chunk requests to the link; some protocols (e.g. tus)
+  // must append chunks one at a time, so the transport can lower the ceiling
+  const { min: minConcurrency, max: maxConcurrency, initial: initialConcurrency } = concurrencyLimits;
+  // Last value reported by the controller, so changes re-render
+  const [concurrency, setConcurrency] = useState<number | null>(null);
+  const concurrencyController = useMemo(() => {
+    const ceiling = Math.min(maxConcurrency, transport.maxConcurrency ?? maxConcurrency);
+    return createConcurrencyController(
+      { min: Math.min(minConcurrency, ceiling), max: ceiling, initial: initialConcurrency },
+      { onChange: setConcurrency }
+    );
+  }, [minConcurrency, maxConcurrency, initialConcurrency, transport.maxConcurrency]);
+  const stateRef = useRef<UploadState>(uploadState);
+  const isPausedRef = useRef(false);
+  const reconciledRef = useRef(false);
+  // One controller per in-flight chunk request, so pause and cancel can stop them
+  const abortControllersRef = useRef(new Map<number, AbortController>());
+  // The run of the upload loop in progress, if any (see startUpload)
+  const runRef = useRef<UploadRun | null>(null);
+
+  // Keep stateRef in sync with state (needed for async loop)
+  useEffect(() => {
+    stateRef.current = state;
+  }, [state]);
+
+  // Keep isPausedRef in sync with isPaused (needed for async loop)
+  useEffect(() => {
+    isPausedRef.current = isPaused;
+  }, [isPaused]);
+
+  // A new controller starts over from its initial concurrency
+  useEffect(() => {
+    setConcurrency(concurrencyController.current);
+  }, [concurrencyController]);
+
+  // Stop sending data when the component goes away
+  useEffect(() => {
+    const controllers = abortControllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  // Save state as it changes, batched and journaled rather than written whole each time.
+  // The state passed in is already stored, so it is only written once it changes
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const persister = useMemo(() => createStatePersister(stateStore, { saved: uploadState }), [stateStore]);
+
+  // Write what is still pending when the page is closed or the component goes away
+  useEffect(() => {
+    const flush = () => {
+      persister.flush();
+    };
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [persister]);
+
+  // Apply an update to both the ref and React state, so the async loop
+  // sees it immediately instead of after the next render. `changedChunks` lists the
+  // chunks an update of chunk statuses changed, which are journaled instead of a snapshot
+  const updateState = useCallback(
+    (updater: (prevState: UploadState) => UploadState, changedChunks?: number[]) => {
+      const updated = updater(stateRef.current);
+      stateRef.current = updated;
+      setState(updated);
+      persister.update(updated, changedChunks);
+    },
+    [persister]
+  );
+
+  const uploadSingleChunk = useCallback(
+    async (chunkIndex: number): Promise<boolean> => {
+      const chunk = file && sliceChunk(file, stateRef.current.chunks[chunkIndex]);
+      if (!chunk) {
+        return false;
+      }
+
+      // Transports report bytes sent, progress counts bytes of the file; they differ once
+      // the chunk is compressed or encrypted
+      let sentSize = chunk.size;
+      const onProgress = (loadedBytes: number) => {
+        const fileBytes = sentSize === chunk.size ? loadedBytes : Math.round((loadedBytes / sentSize) * chunk.size);
+        setChunkProgress((prev) => ({ ...prev, [chunkIndex]: Math.min(fileBytes, chunk.size) }));
+      };
+      const clearProgress = () => {
+        setChunkProgress((prev) => {
+          const { [chunkIndex]: _done, ...rest } = prev;
+          return rest;
+        });
+      };
+
+      const controller = new AbortController();
+      abortControllersRef.current.set(chunkIndex, controller);
+      const startedAt = Date.now();
+
+      try {
+        const { encryption, compression } = stateRef.current;
+        const { data, checksum, contentEncoding } = await chunkProcessor.process(chunk, {
+          compression,
+          encryption: encryption && encryptionKey && { key: encryptionKey, iv: getChunkIv(encryption, chunkIndex) },
+        });
+        sentSize = data.byteLength;
+        const result = await transport.uploadChunk({
+          uploadId: state.uploadId,
+          chunkIndex,
+          totalChunks: stateRef.current.totalChunks,
+          offset: getStoredOffset(stateRef.current, stateRef.current.chunks[chunkIndex]),
+          chunkData: new Blob([data]),
+          contentEncoding,
+          checksum,
+          session: stateRef.current.remoteSession,
+          onProgress,
+          signal: controller.signal,
+        });
+        clearProgress();
+        concurrencyController.recordSuccess(chunk.size, startedAt);
+        const chunkThroughput = (chunk.size / Math.max(1, Date.now() - startedAt)) * 1000;
+        throughputRef.current =
+          throughputRef.current === null
+            ? chunkThroughput
+            : throughputRef.current + THROUGHPUT_SMOOTHING * (chunkThroughput - throughputRef.current);
+
+        // Mark chunk as uploaded, keeping its checksum, compressed size and any transport metadata (e.g. S3 ETag)
+        const compressed = contentEncoding ? { compressedLength: data.byteLength } : {};
+        updateState((prevState) =>
+          updateChunkStatus(prevState, chunkIndex, true, false, { ...result, checksum, ...compressed }),
+          [chunkIndex]
+        );
+
+        return true;
+      } catch (error) {
+        clearProgress();
+
+        // Aborted by pause or cancel: the chunk goes back to pending without counting as a failure
+        if (controller.signal.aborted) {
+          return false;
+        }
+
+        console.error(`Failed to upload chunk ${chunkIndex}:`, error);
+
+        // Mark chunk as failed, remembering why and when (if ever) it is retried
+        const uploadError = toUploadError(error);
+        concurrencyController.recordFailure(uploadError, startedAt);
+        const chunks = stateRef.current.chunks;
+        const failures = chunks[chunkIndex].retryCount + 1;
+        const failuresInUpload = chunks.reduce((total, status) => total + status.retryCount, 0) + 1;
+        const retry = planRetry(retryPolicy, uploadError, failures, failuresInUpload);
+        updateState((prevState) =>
+          updateChunkStatus(prevState, chunkIndex, false, true, undefined, describeChunkError(uploadError, retry)),
+          [chunkIndex]
+        );
+
+        return false;
+      } finally {
+        abortControllersRef.current.delete(chunkIndex);
+      }
+    },
+    [file, transport, retryPolicy, concurrencyController, chunkProcessor, encryptionKey, state.uploadId, updateState]
+  );
+
+  // Create the server-side upload once, for transports that need one (e.g. tus, S3)
+  const ensureRemoteSession = useCallback(async (): Promise<boolean> => {
+    if (!transport.createUpload || stateRef.current.remoteSession) {
+      return true;
+    }
+
+    try {
+      const remoteSession = await transport.createUpload(stateRef.current);
+      updateState((prevState) => ({ ...prevState, remoteSession, lastUpdate: Date.now() }));
+      // A brand new upload has nothing on the server to reconcile against
+      reconciledRef.current = true;
+      return true;
+    } catch (err) {
+      console.error('Failed to create upload:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create upload');
+      return false;
+    }
+  }, [transport, updateState]);
+
+  // On the first start, the server's chunk list wins over local state: chunks it lost
+  // are queued again and chunks it already has are not sent twice. Returns false when
+  // the server has discarded the upload, which is then marked stale
+  const reconcileWithServer = useCallback(async (): Promise<boolean> => {
+    if (reconciledRef.current || (transport.createUpload && !stateRef.current.remoteSession)) {
+      return true;
+    }
+    reconciledRef.current = true;
+
+    try {
+      const serverChunks = await transport.getUploadedChunks(stateRef.current);
+      const reconciled = reconcileChunks(stateRef.current, serverChunks);
+      updateState(() => reconciled.state);
+      setReconciliation(reconciled.summary);
+    } catch (err) {
+      const uploadError = toUploadError(err);
+      if (uploadError.kind === 'session-expired') {
+        // Resuming cannot help; the upload can only be started over
+        setError(`Upload stopped: ${uploadError.message}`);
+        updateState((prevState) => markUploadStale(prevState, uploadError.message));
+        return false;
+      }
+      // Carry on from local state; the server will reject anything it cannot accept
+      console.error('Failed to reconcile with server:', err);
+    }
+    return true;
+  }, [transport, updateState]);
+
+  // Tell the server the upload is done (if the protocol needs it), check the digest it
+  // reports against the local file, then notify the caller
+  const finishUpload = useCallback(async (uploadedFile: File) => {
+    let result: UploadResult | undefined;
+    if (transport.completeUpload) {
+      try {
+        result = (await transport.completeUpload(stateRef.current)) || undefined;
+      } catch (err) {
+        console.error('Failed to complete upload:', err);
+        setError(err instanceof Error ? err.message : 'Failed to complete upload');
+        setIsUploading(false);
+        return;
+      }
+    }
+
+    // The server hashed the ciphertext of an encrypted upload, which only re-encrypting the
+    // file could reproduce; its chunks were checked on arrival and GCM authenticates them on decryption.
+    // A partial copy reads as zeros where chunks were left out, so it is left unverified too
+    if (result && isSha256Checksum(result.checksum) && !stateRef.current.encryption && !isPartialCopy(uploadedFile)) {
+      const serverChecksum = result.checksum.toLowerCase();
+      setIsVerifying(true);
+      try {
+        result = { ...result, verified: (await chunkProcessor.hashFile(uploadedFile)) === serverChecksum };
+      } catch (err) {
+        // The file could not be read again; the upload stands, just unverified
+        console.error('Failed to verify upload:', err);
+      } finally {
+        setIsVerifying(false);
+      }
+    }
+
+    if (result) {
+      const finalResult = result;
+      updateState((prevState) => ({ ...prevState, result: finalResult, lastUpdate: Date.now() }));
+      // Save now rather than within the save interval: the caller usually unmounts us from onComplete
+      await persister.flush();
+    }
+
+    setIsUploading(false);
+    // Stay on screen so the mismatch is seen rather than reported as a finished upload
+    if (result?.verified === false) {
+      setError('Checksum mismatch: the file on the server differs from the local file');
+      return;
+    }
+    onComplete(result);
+  }, [transport, chunkProcessor, onComplete, updateState, persister]);
+
+  // Chunks not sent yet follow the throughput measured since they were planned, e.g. a
+  // resumed upload on a faster link uses larger chunks from where it stopped
+  const resizePendingForThroughput = useCallback(() => {
+    const current = stateRef.current;
+    const tailStart = getPendingTailStart(current);
+    // Encrypted chunks add a tag each, so the stored size (e.g. tus's Upload-Length) depends
+    // on the chunk count and the layout must stay as it was planned
+    if (throughputRef.current === null || tailStart === current.chunks.length || current.encryption) {
+      return;
+    }
+
+    // Chunks before the tail count towards the protocol's chunk limit
+    const limits = { ...transport.limits, ...current.limits };
+    const tailLimits = limits.maxChunks ? { ...limits, maxChunks: limits.maxChunks - tailStart } : limits;
+    const tailBytes = current.fileSize - current.chunks[tailStart].offset;
+    let chunkSize: number;
+    try {
+      chunkSize = chooseChunkSize(tailBytes, tailLimits, throughputRef.current);
+    } catch {
+      // Keep the current layout, which fitted the limits when it was planned
+      return;
+    }
+
+    if (chunkSize < current.chunkSize * RESIZE_FACTOR && chunkSize > current.chunkSize / RESIZE_FACTOR) {
+      return;
+    }
+    updateState((prevState) => resizePendingChunks(prevState, chunkSize));
+  }, [transport, updateState]);
+
+  const startUpload = useCallback(async () => {
+    if (!file) {
+      return;
+    }
+
+    // Already sending, unless a pause stopped the run from starting chunks
+    const previousRun = runRef.current;
+    if (previousRun && !previousRun.paused) {
+      return;
+    }
+
+    if (stateRef.current.encryption && !encryptionKey) {
+      setError('Enter the passphrase to continue this encrypted upload');
+      return;
+    }
+
+    // Reset pause state when starting/resuming
+    setIsPaused(false);
+    isPausedRef.current = false;
+    setIsUploading(true);
+    setError(null);
+
+    // A paused run still finishes the chunks it has in flight; starting after it keeps
+    // them from being sent twice and the slots within the concurrency limit
+    if (previousRun) {
+      await previousRun.done;
+      // Another start after the same pause went first
+      if (runRef.current) {
+        return;
+      }
+    }
+
+    const run: UploadRun = { done: Promise.resolve(), paused: false };
+    runRef.current = run;
+    run.done = (async () => {
+      try {
+        // Reconcile first: chunks the server already has must not be re-split
+        if (!(await reconcileWithServer()) || !(await ensureRemoteSession())) {
+          setIsUploading(false);
+          return;
+        }
+        // A partial copy has only the chunks that were still to upload when it was made
+        if (stateRef.current.chunks.some((chunk) => !chunk.uploaded && !hasChunkBytes(file, chunk))) {
+          setError('The server no longer has chunks the kept copy left out; choose the file again to resume');
+          setIsUploading(false);
+          return;
+        }
+        resizePendingForThroughput();
+
+        // Keep as many chunks in flight as the controller allows; each freed slot takes the next ready chunk
+        let fatalChunk: ChunkStatus | undefined;
+        await runScheduler<number>({
+          concurrency: () => concurrencyController.current,
+          // Failed chunks stay pending while the retry policy has a retry scheduled,
+          // and wait until their retry time (backoff, Retry-After)
+          next: (inFlight) => {
+            const now = Date.now();
+            const chunk = stateRef.current.chunks.find(
+              (candidate) =>
+                !candidate.uploaded &&
+                !inFlight.has(candidate.chunkIndex) &&
+                sliceChunk(file, candidate) !== null &&
+                (!candidate.failed || (isScheduledForRetry(candidate) && candidate.lastError!.retryAt! <= now))
+            );
+            return chunk ? chunk.chunkIndex : null;
+          },
+          nextWakeAt: (inFlight) => {
+            const retryTimes = stateRef.current.chunks
+              .filter((chunk) => !chunk.uploaded && !inFlight.has(chunk.chunkIndex) && isScheduledForRetry(chunk))
+              .map((chunk) => chunk.lastError!.retryAt!);
+            return retryTimes.length > 0 ? Math.min(...retryTimes) : null;
+          },
+          run: async (chunkIndex) => {
+            await uploadSingleChunk(chunkIndex);
+            // Stop on errors that resending cannot fix (expired credentials, lost session, ...);
+            // the remaining chunks would fail the same way
+            const chunk = stateRef.current.chunks[chunkIndex];
+            if (!fatalChunk && isFatal(chunk)) {
+              fatalChunk = chunk;
+            }
+          },
+          shouldStop: () => {
+            run.paused ||= isPausedRef.current;
+            return run.paused || fatalChunk !== undefined;
+          },
+          onInFlightChange: (inFlight) => setInFlightChunks([...inFlight].sort((a, b) => a - b)),
+        });
+
+        if (throughputRef.current !== null) {
+          saveMeasuredThroughput(throughputRef.current);
+        }
+
+        if (fatalChunk && !run.paused) {
+          setError(`Upload stopped: ${fatalChunk.lastError!.message}`);
+          // Resuming cannot help once the server has discarded the upload
+          if (fatalChunk.lastError!.kind === 'session-expired') {
+            const reason = fatalChunk.lastError!.message;
+            updateState((prevState) => markUploadStale(prevState, reason));
+          }
+        }
+
+        // Final check - only needed if loop exited due to pause
+        if (run.paused) {
+          // Keep isUploading as true so resume can work
+          return;
+        }
+
+        // Check if all chunks uploaded (in case retry completed everything)
+        if (stateRef.current.chunks.every((chunk) => chunk.uploaded)) {
+          await finishUpload(file);
+        } else {
+          setIsUploading(false);
+        }
+      } finally {
+        if (runRef.current === run) {
+          runRef.current = null;
+        }
+      }
+    })();
+    await run.done;
+  }, [file, encryptionKey, concurrencyController, reconcileWithServer, ensureRemoteSession, resizePendingForThroughput, uploadSingleChunk, finishUpload]);
+
+  // Manual retry: sends every failed chunk once more, including ones the retry policy gave
+  // up on or that failed with a non-retryable error, since the user may have fixed the
+  // cause (e.g. signed in again)
+  const retryFailedChunks = useCallback(async () => {
+    if (!stateRef.current.chunks.some((chunk) => chunk.failed && !chunk.uploaded)) {
+      return;
+    }
+
+    // Back to pending, so the upload loop sends them right away
+    updateState((prevState) => ({
+      ...prevState,
+      chunks: prevState.chunks.map((chunk) => (chunk.failed ? { ...chunk, failed: false } : chunk)),
+    }));
+
+    await startUpload();
+  }, [startUpload, updateState]);
+
+  const abortInFlightChunks = useCallback(() => {
+    abortControllersRef.current.forEach((controller) => controller.abort());
+  }, []);
+
+  // By default in-flight chunks are allowed to finish; abort stops them immediately
+  const pauseUpload = useCallback((options: { abort?: boolean } = {}) => {
+    setIsPaused(true);
+    isPausedRef.current = true;
+    if (options.abort) {
+      abortInFlightChunks();
+    }
+  }, [abortInFlightChunks]);
+
+  const resumeUpload = useCallback(() => {
+    // Clear pause state and restart upload
+    setIsPaused(false);
+    isPausedRef.current = false;
+    startUpload();
+  }, [startUpload]);
+
+  const cancelUpload = useCallback(() => {
+    // Stop upload by pausing, aborting anything in flight and setting isUploading to false
+    setIsPaused(true);
+    isPausedRef.current = true;
+    abortInFlightChunks();
+    setIsUploading(false);
+  }, [abortInFlightChunks]);
+
+  // Exact bytes: completed chunks at their real length (the last one is usually short)
+  // plus whatever in-flight chunks have sent so far
+  const getUploadedBytes = useCallback(() => {
+    const completedBytes = state.chunks
+      .filter((chunk) => chunk.uploaded)
+      .reduce((total, chunk) => total + chunk.length, 0);
+    const inFlightBytes = Object.entries(chunkProgress)
+      .filter(([chunkIndex]) => !state.chunks[Number(chunkIndex)]?.uploaded)
+      .reduce((total, [, loadedBytes]) => total + loadedBytes, 0);
+    return Math.min(completedBytes + inFlightBytes, state.fileSize);
+  }, [state.chunks, state.fileSize, chunkProgress]);
+
+  // What compression saved on the chunks uploaded so far: their size in the file and as sent
+  const getCompressionSavings = useCallback(() => {
+    const uploaded = state.chunks.filter((chunk) => chunk.uploaded);
+    return {
+      originalBytes: uploaded.reduce((total, chunk) => total + chunk.length, 0),
+      compressedBytes: uploaded.reduce((total, chunk) => total + (chunk.compressedLength ?? chunk.length), 0),
+    };
+  }, [state.chunks]);
+
+  const getProgress = useCallback(() => {
+    // An empty file has no bytes to count, only its single chunk
+    if (state.fileSize === 0) {
+      const uploadedCount = state.chunks.filter((chunk) => chunk.uploaded).length;
+      return (uploadedCount / state.totalChunks) * 100;
+    }
+    return (getUploadedBytes() / state.fileSize) * 100;
+  }, [state.chunks, state.totalChunks, state.fileSize, getUploadedBytes]);
+
+  // Fraction (0-1) of each in-flight chunk that has been sent, for partially filled grid cells
+  const getChunkFractions = useCallback(() => {
+    const fractions: Record<number, number> = {};
+    for (const [chunkIndex, loadedBytes] of Object.entries(chunkProgress)) {
+      const length = state.chunks[Number(chunkIndex)]?.length ?? 0;
+      fractions[Number(chunkIndex)] = length > 0 ? loadedBytes / length : 0;
+    }
+    return fractions;
+  }, [chunkProgress, state.chunks]);
+
+  const getFailedChunks = useCallback(() => {
+    return state.chunks.filter((chunk) => chunk.failed && !chunk.uploaded);
+  }, [state.chunks]);
+
+  const changeNetworkProfile = useCallback((profileId: string) => {
+    // Update the global simulator profile (used by uploadChunk)
+    setNetworkProfile(profileId);
+  }, []);
+
+  return {
+    state,
+    isUploading,
+    isPaused,
+    isVerifying,
+    error,
+    reconciliation,
+    networkProfileId: getNetworkProfileId(), // Get from global state
+    progress: getProgress(),
+    uploadedBytes: getUploadedBytes(),
+    compressionSavings: state.compression ? getCompressionSavings() : null,
+    chunkProgress: getChunkFractions(),
+    inFlightChunks,
+    concurrency: concurrency ?? concurrencyController.current,
+    failedChunks: getFailedChunks(),
+    startUpload,
+    pauseUpload,
+    resumeUpload,
+    cancelUpload,
+    retryFailedChunks,
+    changeNetworkProfile,
+  };
+}
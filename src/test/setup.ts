@@ -1,11 +1,32 @@
-import '@testing-library/jest-dom';
-import { cleanup } from '@testing-library/react';
-import { afterEach } from 'vitest';
-
-// Cleanup after each test
-afterEach(() => {
-  cleanup();
-  // Clear localStorage after each test
-  localStorage.clear();
-});
-
+import '@testing-library/jest-dom';
+import { cleanup } from '@testing-library/react';
+import { afterEach } from 'vitest';
+
+// Node's Buffer (no @types/node in this project)
+declare const Buffer: { from(data: Uint8Array): Uint8Array };
+
+// jsdom's Blob has no arrayBuffer(). Read through FileReader and copy the bytes
+// into a Node buffer, since WebCrypto rejects ArrayBuffers from the jsdom realm
+if (!Blob.prototype.arrayBuffer) {
+  Blob.prototype.arrayBuffer = function (this: Blob): Promise<ArrayBuffer> {
+    return new Promise((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const bytes = Buffer.from(new Uint8Array(reader.result as ArrayBuffer));
+        resolve(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer);
+      };
+      reader.onerror = () => reject(reader.error);
+      reader.readAsArrayBuffer(this);
+    });
+  };
+}
+
+// Cleanup after each test
+afterEach(() => {
+  cleanup();
+  // Clear localStorage after each test (absent in node-environment tests)
+  if (typeof localStorage !== 'undefined') {
+    localStorage.clear();
+  }
+});
+
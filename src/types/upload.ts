@@ -1,25 +1,241 @@
-export interface ChunkStatus {
-  chunkIndex: number;
-  uploaded: boolean;
-  failed: boolean;
-  retryCount: number;
-}
-
-export interface UploadState {
-  uploadId: string;
-  fileName: string;
-  fileSize: number;
-  totalChunks: number;
-  chunkSize: number;
-  chunks: ChunkStatus[];
-  startTime: number;
-  lastUpdate: number;
-}
-
-export interface ChunkUploadRequest {
-  uploadId: string;
-  chunkIndex: number;
-  totalChunks: number;
-  chunkData: Blob;
-}
-
+export interface ChunkStatus {
+  chunkIndex: number;
+  /** Byte range of the file this chunk covers; chunks of one upload may differ in size */
+  offset: number;
+  length: number;
+  uploaded: boolean;
+  failed: boolean;
+  retryCount: number;
+  /** Entity tag returned by object stores (S3 UploadPart), needed to complete the upload */
+  etag?: string;
+  /** SHA-256 of the bytes sent ("sha256:<hex>"), set once the chunk is uploaded */
+  checksum?: string;
+  /** Bytes sent for the chunk once uploaded, when compression made it smaller than length */
+  compressedLength?: number;
+  /** Why the most recent attempt failed; cleared once the chunk is uploaded */
+  lastError?: ChunkError;
+}
+
+/**
+ * Classes of upload failure, see utils/uploadErrors.ts
+ */
+export type UploadErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'auth'
+  | 'quota'
+  | 'payload-too-large'
+  | 'session-expired'
+  | 'server'
+  | 'request'
+  | 'checksum'
+  | 'unknown';
+
+/**
+ * Stored form of the error a chunk last failed with
+ */
+export interface ChunkError {
+  kind: UploadErrorKind;
+  message: string;
+  /** False when resending the chunk cannot succeed (e.g. expired credentials) */
+  retryable: boolean;
+  status?: number;
+  /**
+   * When (epoch ms) the chunk is sent again automatically, after backoff and any
+   * Retry-After; absent once the retry policy has given up on it
+   */
+  retryAt?: number;
+}
+
+export interface UploadState {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  totalChunks: number;
+  /** Size of newly planned chunks; chunks sent before a resize keep their own length */
+  chunkSize: number;
+  chunks: ChunkStatus[];
+  startTime: number;
+  lastUpdate: number;
+  /** Server-side upload resource, for transports that create one before sending chunks */
+  remoteSession?: RemoteSession;
+  /** Limits the server issued when the upload was initialized */
+  limits?: TransportLimits;
+  /** Final object reference, set once the server has assembled the file */
+  result?: UploadResult;
+  /** Identifies the file's contents, to check a re-selected file; absent for uploads saved before it existed */
+  fingerprint?: FileFingerprint;
+  /** Set when chunks are encrypted before they leave the browser */
+  encryption?: UploadEncryption;
+  /** Content-Encoding chunks are compressed with, negotiated when the upload started */
+  compression?: ContentEncoding;
+  /** When (epoch ms) the server discards the upload unless it is finished, if the server said when it started */
+  expiresAt?: number;
+  /** Set once the server is known to have discarded the upload; it can only be started over */
+  stale?: StaleSession;
+  /** Version of this structure the state was saved with, see utils/stateSchema.ts */
+  schemaVersion?: number;
+}
+
+export interface StaleSession {
+  /** When (epoch ms) the upload was found discarded */
+  since: number;
+  reason: string;
+}
+
+/**
+ * A saved upload that could not be read: corrupted, or saved by a newer version of the
+ * app. It is kept as stored, out of the way of resuming, until the user deletes it
+ */
+export interface QuarantinedSession {
+  uploadId: string;
+  /** Why the saved state cannot be used */
+  problem: string;
+}
+
+/**
+ * Per-chunk compression the server decodes (HTTP Content-Encoding), see utils/compression.ts
+ */
+export type ContentEncoding = 'gzip' | 'deflate';
+
+/**
+ * How an upload's chunks are encrypted, see utils/encryption.ts. Holds no secret: the
+ * data key is only stored wrapped with a key derived from the user's passphrase
+ */
+export interface UploadEncryption {
+  algorithm: 'AES-GCM';
+  keyLength: 256;
+  /** Random per-upload start of every chunk's 96-bit IV (base64); the chunk index fills the rest */
+  ivPrefix: string;
+  /** The upload's data key, wrapped with keyAlgorithm (base64) */
+  wrappedKey: string;
+  keyAlgorithm: 'AES-KW';
+  /** How the wrapping key is derived from the passphrase */
+  keyDerivation: {
+    algorithm: 'PBKDF2';
+    hash: 'SHA-256';
+    iterations: number;
+    /** base64 */
+    salt: string;
+  };
+}
+
+/**
+ * Cheap identity of a file's contents, see utils/fileFingerprint.ts
+ */
+export interface FileFingerprint {
+  size: number;
+  lastModified: number;
+  /** SHA-256 over sampled blocks: the start, the end and evenly spaced blocks between them */
+  sampleHash: string;
+  /** SHA-256 of the whole file, for files small enough to hash up front */
+  fullHash?: string;
+}
+
+/**
+ * Outcome of comparing local chunk state with the server's chunk list on resume
+ */
+export interface ReconciliationSummary {
+  /** Chunks both sides agree are uploaded */
+  confirmed: number;
+  /** Chunks the server has that local state did not know about, now marked uploaded */
+  recovered: number[];
+  /** Chunks local state had as uploaded but the server no longer has, queued again */
+  requeued: number[];
+}
+
+export interface RemoteSession {
+  /** URL or ID of the upload resource on the server (e.g. the tus upload URL, the S3 UploadId) */
+  location: string;
+  /** Object key, for object stores */
+  key?: string;
+  /** When (epoch ms) the server discards the resource unless the upload is finished (e.g. tus Upload-Expires) */
+  expiresAt?: number;
+}
+
+export interface ChunkUploadRequest {
+  uploadId: string;
+  chunkIndex: number;
+  totalChunks: number;
+  /** Byte offset of the chunk within the uploaded object; past the file offset when encrypted, see utils/encryption.ts */
+  offset: number;
+  chunkData: Blob;
+  /** How chunkData is compressed; the server decodes it before storing the chunk */
+  contentEncoding?: ContentEncoding;
+  /** SHA-256 of chunkData ("sha256:<hex>"); transports forward it so the server can verify the bytes */
+  checksum?: string;
+  session?: RemoteSession;
+  /** Reports bytes of this chunk sent so far; transports that cannot measure it may skip it */
+  onProgress?: (loadedBytes: number) => void;
+  /** Aborted when the upload is paused (optionally) or cancelled; transports should stop sending */
+  signal?: AbortSignal;
+}
+
+export interface ChunkUploadResult {
+  etag?: string;
+}
+
+/**
+ * Protocol limits on how a file may be split, e.g. S3's 5 MiB minimum part size
+ */
+export interface TransportLimits {
+  /** Minimum size of every chunk except the last */
+  minChunkSize?: number;
+  maxChunkSize?: number;
+  maxChunks?: number;
+}
+
+export interface UploadInitRequest {
+  fileName: string;
+  fileSize: number;
+}
+
+/**
+ * Server-issued identity of a new upload
+ */
+export interface UploadSession {
+  uploadId: string;
+  /** Limits for this upload, on top of the transport's own */
+  limits?: TransportLimits;
+  /** Content-Encodings the server decodes for chunks of this upload */
+  contentEncodings?: ContentEncoding[];
+  /** When (epoch ms) the server discards the upload unless it is finished */
+  expiresAt?: number;
+}
+
+/**
+ * Reference to the assembled file, returned when an upload is finalized
+ */
+export interface UploadResult {
+  /** URL, object key or path of the final object */
+  location: string;
+  /** Digest of the whole file as reported by the server, e.g. "sha256:..." */
+  checksum?: string;
+  /**
+   * Whether checksum matched the SHA-256 of the local file; absent when the server
+   * reported no SHA-256 digest to compare against
+   */
+  verified?: boolean;
+}
+
+/**
+ * Backend used by useResumableUpload to move chunk bytes and query server state.
+ * Implementations: the simulator in utils/api.ts and one utils/*Transport.ts file per protocol
+ */
+export interface UploadTransport {
+  uploadChunk(request: ChunkUploadRequest): Promise<ChunkUploadResult | void>;
+  getUploadedChunks(state: UploadState): Promise<number[]>;
+  /** Asks the server for an upload ID before any state is created; without it IDs are generated locally */
+  initUpload?(request: UploadInitRequest): Promise<UploadSession>;
+  /** Creates the server-side upload resource; called once before the first chunk */
+  createUpload?(state: UploadState): Promise<RemoteSession>;
+  /** Tells the server every chunk has arrived (e.g. S3 CompleteMultipartUpload) and returns the final object */
+  completeUpload?(state: UploadState): Promise<UploadResult | void>;
+  /** Deletes the upload and any partial data on the server */
+  abortUpload?(state: UploadState): Promise<void>;
+  /** Content-Encodings the transport can send chunks with; the server must accept them too */
+  contentEncodings?: ContentEncoding[];
+  /** Upper bound on parallel chunk requests (1 for protocols that append in order) */
+  maxConcurrency?: number;
+  limits?: TransportLimits;
+}
@@ -1,136 +1,247 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { uploadChunk, getUploadedChunks } from '../api';
-import { ChunkUploadRequest } from '../../types/upload';
-
-describe('api', () => {
-  beforeEach(() => {
-    vi.clearAllMocks();
-  });
-
-  describe('uploadChunk', () => {
-    it('should successfully upload a chunk', async () => {
-      const request: ChunkUploadRequest = {
-        uploadId: 'test-id',
-        chunkIndex: 0,
-        totalChunks: 5,
-        chunkData: new Blob(['test data']),
-      };
-
-      // Mock Math.random to avoid failures
-      vi.spyOn(Math, 'random').mockReturnValue(0.5); // 50% > 10% failure threshold
-
-      await expect(uploadChunk(request)).resolves.not.toThrow();
-    });
-
-    it('should simulate network delay', async () => {
-      const request: ChunkUploadRequest = {
-        uploadId: 'test-id',
-        chunkIndex: 0,
-        totalChunks: 5,
-        chunkData: new Blob(['test data']),
-      };
-
-      vi.spyOn(Math, 'random').mockReturnValue(0.5);
-
-      const startTime = Date.now();
-      await uploadChunk(request);
-      const endTime = Date.now();
-
-      // Should have some delay (at least 50ms based on implementation)
-      expect(endTime - startTime).toBeGreaterThanOrEqual(40);
-    });
-
-    it('should occasionally fail to simulate network errors', async () => {
-      const request: ChunkUploadRequest = {
-        uploadId: 'test-id',
-        chunkIndex: 0,
-        totalChunks: 5,
-        chunkData: new Blob(['test data']),
-      };
-
-      // Mock Math.random to return value < 0.1 (10% failure rate)
-      vi.spyOn(Math, 'random').mockReturnValue(0.05);
-
-      await expect(uploadChunk(request)).rejects.toThrow();
-    });
-
-    it('should handle different chunk indices', async () => {
-      vi.spyOn(Math, 'random').mockReturnValue(0.5);
-
-      const requests: ChunkUploadRequest[] = [
-        {
-          uploadId: 'test-id',
-          chunkIndex: 0,
-          totalChunks: 3,
-          chunkData: new Blob(['chunk 0']),
-        },
-        {
-          uploadId: 'test-id',
-          chunkIndex: 1,
-          totalChunks: 3,
-          chunkData: new Blob(['chunk 1']),
-        },
-        {
-          uploadId: 'test-id',
-          chunkIndex: 2,
-          totalChunks: 3,
-          chunkData: new Blob(['chunk 2']),
-        },
-      ];
-
-      const promises = requests.map(req => uploadChunk(req));
-      await expect(Promise.all(promises)).resolves.toHaveLength(3);
-    });
-
-    it('should work with different upload IDs', async () => {
-      vi.spyOn(Math, 'random').mockReturnValue(0.5);
-
-      const request1: ChunkUploadRequest = {
-        uploadId: 'upload-1',
-        chunkIndex: 0,
-        totalChunks: 2,
-        chunkData: new Blob(['data']),
-      };
-
-      const request2: ChunkUploadRequest = {
-        uploadId: 'upload-2',
-        chunkIndex: 0,
-        totalChunks: 2,
-        chunkData: new Blob(['data']),
-      };
-
-      await expect(uploadChunk(request1)).resolves.not.toThrow();
-      await expect(uploadChunk(request2)).resolves.not.toThrow();
-    });
-  });
-
-  describe('getUploadedChunks', () => {
-    it('should return an array of chunk indices', async () => {
-      const result = await getUploadedChunks('test-id');
-      expect(Array.isArray(result)).toBe(true);
-    });
-
-    it('should simulate network delay', async () => {
-      const startTime = Date.now();
-      await getUploadedChunks('test-id');
-      const endTime = Date.now();
-
-      // Should have some delay (at least 100ms based on implementation)
-      expect(endTime - startTime).toBeGreaterThanOrEqual(90);
-    });
-
-    it('should return empty array for new uploads', async () => {
-      const result = await getUploadedChunks('new-upload-id');
-      expect(result).toEqual([]);
-    });
-
-    it('should work with different upload IDs', async () => {
-      const result1 = await getUploadedChunks('id-1');
-      const result2 = await getUploadedChunks('id-2');
-
-      expect(result1).toEqual([]);
-      expect(result2).toEqual([]);
-    });
-  });
-});
-
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  uploadChunk,
+  getUploadedChunks,
+  abortUpload,
+  getNetworkProfile,
+  getNetworkProfiles,
+  resetNetworkProfile,
+  saveNetworkProfile,
+  setNetworkProfile,
+} from '../api';
+import { ChunkUploadRequest } from '../../types/upload';
+
+describe('api', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('uploadChunk', () => {
+    it('should successfully upload a chunk', async () => {
+      const request: ChunkUploadRequest = {
+        uploadId: 'test-id',
+        chunkIndex: 0,
+        offset: 0,
+        totalChunks: 5,
+        chunkData: new Blob(['test data']),
+      };
+
+      // Mock Math.random to avoid failures
+      vi.spyOn(Math, 'random').mockReturnValue(0.5); // 50% > 10% failure threshold
+
+      await expect(uploadChunk(request)).resolves.not.toThrow();
+    });
+
+    it('should simulate network delay', async () => {
+      const request: ChunkUploadRequest = {
+        uploadId: 'test-id',
+        chunkIndex: 0,
+        offset: 0,
+        totalChunks: 5,
+        chunkData: new Blob(['test data']),
+      };
+
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      const startTime = Date.now();
+      await uploadChunk(request);
+      const endTime = Date.now();
+
+      // Should have some delay (at least 50ms based on implementation)
+      expect(endTime - startTime).toBeGreaterThanOrEqual(40);
+    });
+
+    it('should occasionally fail to simulate network errors', async () => {
+      const request: ChunkUploadRequest = {
+        uploadId: 'test-id',
+        chunkIndex: 0,
+        offset: 0,
+        totalChunks: 5,
+        chunkData: new Blob(['test data']),
+      };
+
+      // Mock Math.random to return value < 0.1 (10% failure rate)
+      vi.spyOn(Math, 'random').mockReturnValue(0.05);
+
+      await expect(uploadChunk(request)).rejects.toThrow();
+    });
+
+    it('should handle different chunk indices', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      const requests: ChunkUploadRequest[] = [
+        {
+          uploadId: 'test-id',
+          chunkIndex: 0,
+          offset: 0,
+          totalChunks: 3,
+          chunkData: new Blob(['chunk 0']),
+        },
+        {
+          uploadId: 'test-id',
+          chunkIndex: 1,
+          offset: 7,
+          totalChunks: 3,
+          chunkData: new Blob(['chunk 1']),
+        },
+        {
+          uploadId: 'test-id',
+          chunkIndex: 2,
+          offset: 14,
+          totalChunks: 3,
+          chunkData: new Blob(['chunk 2']),
+        },
+      ];
+
+      const promises = requests.map(req => uploadChunk(req));
+      await expect(Promise.all(promises)).resolves.toHaveLength(3);
+    });
+
+    it('should work with different upload IDs', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+      const request1: ChunkUploadRequest = {
+        uploadId: 'upload-1',
+        chunkIndex: 0,
+        offset: 0,
+        totalChunks: 2,
+        chunkData: new Blob(['data']),
+      };
+
+      const request2: ChunkUploadRequest = {
+        uploadId: 'upload-2',
+        chunkIndex: 0,
+        offset: 0,
+        totalChunks: 2,
+        chunkData: new Blob(['data']),
+      };
+
+      await expect(uploadChunk(request1)).resolves.not.toThrow();
+      await expect(uploadChunk(request2)).resolves.not.toThrow();
+    });
+  });
+
+  describe('getUploadedChunks', () => {
+    it('should return an array of chunk indices', async () => {
+      const result = await getUploadedChunks('test-id');
+      expect(Array.isArray(result)).toBe(true);
+    });
+
+    it('should simulate network delay', async () => {
+      const startTime = Date.now();
+      await getUploadedChunks('test-id');
+      const endTime = Date.now();
+
+      // Should have some delay (at least 100ms based on implementation)
+      expect(endTime - startTime).toBeGreaterThanOrEqual(90);
+    });
+
+    it('should return empty array for new uploads', async () => {
+      const result = await getUploadedChunks('new-upload-id');
+      expect(result).toEqual([]);
+    });
+
+    it('should work with different upload IDs', async () => {
+      const result1 = await getUploadedChunks('id-1');
+      const result2 = await getUploadedChunks('id-2');
+
+      expect(result1).toEqual([]);
+      expect(result2).toEqual([]);
+    });
+
+    it('should stop and not record the chunk when aborted', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      const controller = new AbortController();
+
+      const pending = uploadChunk({
+        uploadId: 'aborted-id',
+        chunkIndex: 0,
+        offset: 0,
+        totalChunks: 1,
+        chunkData: new Blob(['data']),
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      await expect(getUploadedChunks('aborted-id')).resolves.toEqual([]);
+    });
+
+    it('should report chunks the simulated server received', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      for (const chunkIndex of [2, 0]) {
+        await uploadChunk({
+          uploadId: 'resumed-id',
+          chunkIndex,
+          offset: chunkIndex * 4,
+          totalChunks: 3,
+          chunkData: new Blob(['data']),
+        });
+      }
+
+      await expect(getUploadedChunks('resumed-id')).resolves.toEqual([0, 2]);
+
+      await abortUpload('resumed-id');
+      await expect(getUploadedChunks('resumed-id')).resolves.toEqual([]);
+    });
+  });
+
+  describe('network profiles', () => {
+    afterEach(() => {
+      localStorage.clear();
+      setNetworkProfile('verySlow');
+    });
+
+    it('should default to the very slow profile', () => {
+      expect(getNetworkProfile().id).toBe('verySlow');
+    });
+
+    it('should persist the selected profile', () => {
+      setNetworkProfile('mobile3g');
+      expect(getNetworkProfile().label).toBe('Mobile 3G');
+      expect(localStorage.getItem('networkProfile')).toBe('mobile3g');
+    });
+
+    it('should pick up a speed chosen before profiles existed', () => {
+      localStorage.setItem('uploadSpeed', 'fast');
+      expect(getNetworkProfile().id).toBe('fast');
+    });
+
+    it('should override a built-in profile until it is reset', () => {
+      saveNetworkProfile({ ...getNetworkProfile(), latencyMs: 5 });
+      expect(getNetworkProfile().latencyMs).toBe(5);
+
+      resetNetworkProfile('verySlow');
+      expect(getNetworkProfile().latencyMs).toBe(1500);
+    });
+
+    it('should add and delete custom profiles', () => {
+      saveNetworkProfile({ ...getNetworkProfile(), id: 'custom-1', label: 'Mine' });
+      setNetworkProfile('custom-1');
+      expect(getNetworkProfiles().map((profile) => profile.label)).toContain('Mine');
+
+      resetNetworkProfile('custom-1');
+      expect(getNetworkProfiles().some((profile) => profile.id === 'custom-1')).toBe(false);
+      expect(getNetworkProfile().id).toBe('verySlow');
+    });
+
+    it('should fail chunks with the selected profile\'s status codes', async () => {
+      saveNetworkProfile({
+        id: 'always-busy',
+        label: 'Always Busy',
+        latencyMs: 0,
+        jitterMs: 0,
+        bandwidthBytesPerSec: null,
+        failureRates: { 429: 1 },
+        offlineWindows: [],
+        seed: 1,
+      });
+      setNetworkProfile('always-busy');
+
+      await expect(
+        uploadChunk({ uploadId: 'busy-id', chunkIndex: 0, offset: 0, totalChunks: 1, chunkData: new Blob(['x']) })
+      ).rejects.toThrow('HTTP 429');
+      await expect(getUploadedChunks('busy-id')).resolves.toEqual([]);
+    });
+  });
+});
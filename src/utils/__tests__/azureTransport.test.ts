@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildBlockListXml, createAzureTransport, getBlockId, parseBlockId } from '../azureTransport';
+import { createUploadState } from '../uploadState';
+import { getStoredLength, getStoredOffset } from '../encryption';
+import { UploadEncryption, UploadState } from '../../types/upload';
+
+const CONTAINER_URL = 'http://127.0.0.1:10000/devstoreaccount1/uploads?sv=2021&sig=secret';
+
+const ENCRYPTION: UploadEncryption = {
+  algorithm: 'AES-GCM',
+  keyLength: 256,
+  ivPrefix: 'AAAAAAAAAAA=',
+  wrappedKey: '',
+  keyAlgorithm: 'AES-KW',
+  keyDerivation: { algorithm: 'PBKDF2', hash: 'SHA-256', iterations: 1, salt: '' },
+};
+
+/**
+ * Minimal in-memory stand-in for Azurite: Put Block, Get Block List, Put Block List, Delete Blob
+ */
+function createAzuriteStandIn() {
+  const uncommitted = new Map<string, Map<string, Blob>>();
+  const committed = new Map<string, { id: string; data: Blob }[]>();
+
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = new URL(String(input));
+    const blob = url.origin + url.pathname;
+    const comp = url.searchParams.get('comp');
+
+    if (url.searchParams.get('sig') !== 'secret') {
+      return new Response(null, { status: 403 });
+    }
+
+    if (init?.method === 'PUT' && comp === 'block') {
+      const blocks = uncommitted.get(blob) ?? new Map<string, Blob>();
+      blocks.set(url.searchParams.get('blockid')!, init.body as Blob);
+      uncommitted.set(blob, blocks);
+      return new Response(null, { status: 201 });
+    }
+
+    if (init?.method === 'GET' && comp === 'blocklist') {
+      const blocks = uncommitted.get(blob);
+      const list = committed.get(blob);
+      if (!blocks && !list) {
+        return new Response(null, { status: 404 });
+      }
+      const toXml = (entries: { id: string; data: Blob }[]) =>
+        entries.map((entry) => `<Block><Name>${entry.id}</Name><Size>${entry.data.size}</Size></Block>`).join('');
+      const uncommittedEntries = Array.from(blocks ?? []).map(([id, data]) => ({ id, data }));
+      return new Response(
+        `<?xml version="1.0" encoding="utf-8"?><BlockList><CommittedBlocks>${toXml(list ?? [])}</CommittedBlocks>` +
+          `<UncommittedBlocks>${toXml(uncommittedEntries)}</UncommittedBlocks></BlockList>`,
+        { status: 200 }
+      );
+    }
+
+    if (init?.method === 'PUT' && comp === 'blocklist') {
+      const blocks = uncommitted.get(blob) ?? new Map<string, Blob>();
+      const ids = Array.from(String(init.body).matchAll(/<Latest>([^<]+)<\/Latest>/g), (match) => match[1]);
+      if (ids.some((id) => !blocks.has(id))) {
+        return new Response(null, { status: 400 });
+      }
+      committed.set(blob, ids.map((id) => ({ id, data: blocks.get(id)! })));
+      uncommitted.delete(blob);
+      return new Response(null, { status: 201 });
+    }
+
+    if (init?.method === 'DELETE') {
+      const existed = committed.delete(blob);
+      uncommitted.delete(blob);
+      return new Response(null, { status: existed ? 202 : 404 });
+    }
+
+    return new Response(null, { status: 400 });
+  });
+
+  return { fetchMock, committed, uncommitted };
+}
+
+// Sends each chunk as the bytes it takes in the blob, with the tag when encrypted
+async function uploadChunks(transport: ReturnType<typeof createAzureTransport>, state: UploadState, indices: number[]) {
+  for (const index of indices) {
+    const chunk = state.chunks[index];
+    await transport.uploadChunk({
+      uploadId: state.uploadId,
+      chunkIndex: index,
+      totalChunks: state.totalChunks,
+      offset: getStoredOffset(state, chunk),
+      chunkData: new Blob(['x'.repeat(getStoredLength(state, chunk))]),
+      session: state.remoteSession,
+    });
+  }
+}
+
+describe('azureTransport', () => {
+  describe('block IDs', () => {
+    it('should produce equal-length, deterministic IDs', () => {
+      expect(getBlockId(0)).toBe(getBlockId(0));
+      expect(getBlockId(0)).not.toBe(getBlockId(1));
+      expect(getBlockId(0).length).toBe(getBlockId(49999).length);
+    });
+
+    it('should round-trip chunk indices', () => {
+      expect(parseBlockId(getBlockId(42))).toBe(42);
+    });
+
+    it('should ignore foreign block IDs', () => {
+      expect(parseBlockId(btoa('something-else'))).toBeNull();
+      expect(parseBlockId('not base64!')).toBeNull();
+    });
+
+    it('should build the block list in chunk order', () => {
+      expect(buildBlockListXml(2)).toContain(`<Latest>${getBlockId(0)}</Latest><Latest>${getBlockId(1)}</Latest>`);
+    });
+  });
+
+  it('should derive the blob URL without persisting the SAS token', async () => {
+    const transport = createAzureTransport({ containerUrl: CONTAINER_URL, keyPrefix: 'data/', fetch: vi.fn() });
+
+    const session = await transport.createUpload!(createUploadState('upload-1', 'train set.jsonl', 25, 3, 10));
+
+    expect(session.location).toBe('http://127.0.0.1:10000/devstoreaccount1/uploads/data/upload-1/train%20set.jsonl');
+  });
+
+  it('should upload blocks, resume from the block list and commit', async () => {
+    const azurite = createAzuriteStandIn();
+    const transport = createAzureTransport({ containerUrl: CONTAINER_URL, fetch: azurite.fetchMock });
+    const state = createUploadState('upload-1', 'data.bin', 25, 3, 10);
+    state.remoteSession = await transport.createUpload!(state);
+
+    await uploadChunks(transport, state, [0, 2]);
+
+    // A new session reconstructs what the server already holds
+    await expect(transport.getUploadedChunks(state)).resolves.toEqual([0, 2]);
+
+    await uploadChunks(transport, state, [1]);
+    await expect(transport.completeUpload!(state)).resolves.toEqual({ location: state.remoteSession.location });
+
+    const blob = state.remoteSession.location;
+    expect(azurite.committed.get(blob)?.map((block) => parseBlockId(block.id))).toEqual([0, 1, 2]);
+    await expect(transport.getUploadedChunks(state)).resolves.toEqual([0, 1, 2]);
+  });
+
+  it('should resume an encrypted upload from blocks that include their tags', async () => {
+    const azurite = createAzuriteStandIn();
+    const transport = createAzureTransport({ containerUrl: CONTAINER_URL, fetch: azurite.fetchMock });
+    const state = { ...createUploadState('upload-1', 'data.bin', 25, 3, 10), encryption: ENCRYPTION };
+    state.remoteSession = await transport.createUpload!(state);
+
+    // Stored blocks are 26, 26 and 21 bytes
+    await uploadChunks(transport, state, [0, 2]);
+
+    await expect(transport.getUploadedChunks(state)).resolves.toEqual([0, 2]);
+  });
+
+  it('should ignore blocks whose size does not match the chunk layout', async () => {
+    const azurite = createAzuriteStandIn();
+    const transport = createAzureTransport({ containerUrl: CONTAINER_URL, fetch: azurite.fetchMock });
+    const oldState = createUploadState('upload-1', 'data.bin', 25, 5, 5);
+    oldState.remoteSession = await transport.createUpload!(oldState);
+    await uploadChunks(transport, oldState, [0, 1]);
+
+    const newState = { ...createUploadState('upload-1', 'data.bin', 25, 3, 10), remoteSession: oldState.remoteSession };
+
+    await expect(transport.getUploadedChunks(newState)).resolves.toEqual([]);
+  });
+
+  it('should return no chunks for an unknown blob', async () => {
+    const azurite = createAzuriteStandIn();
+    const transport = createAzureTransport({ containerUrl: CONTAINER_URL, fetch: azurite.fetchMock });
+    const state = createUploadState('upload-1', 'data.bin', 25, 3, 10);
+    state.remoteSession = await transport.createUpload!(state);
+
+    await expect(transport.getUploadedChunks(state)).resolves.toEqual([]);
+  });
+
+  it('should fail the commit when blocks are missing', async () => {
+    const azurite = createAzuriteStandIn();
+    const transport = createAzureTransport({ containerUrl: CONTAINER_URL, fetch: azurite.fetchMock });
+    const state = createUploadState('upload-1', 'data.bin', 25, 3, 10);
+    state.remoteSession = await transport.createUpload!(state);
+    await uploadChunks(transport, state, [0]);
+
+    await expect(transport.completeUpload!(state)).rejects.toThrow('HTTP 400');
+  });
+
+  it('should commit an empty file without uploading blocks', async () => {
+    const azurite = createAzuriteStandIn();
+    const transport = createAzureTransport({ containerUrl: CONTAINER_URL, fetch: azurite.fetchMock });
+    const state = createUploadState('upload-1', 'empty.txt', 0, 1, 10);
+    state.remoteSession = await transport.createUpload!(state);
+
+    await uploadChunks(transport, state, [0]);
+    await transport.completeUpload!(state);
+
+    expect(azurite.committed.get(state.remoteSession.location)).toEqual([]);
+  });
+
+  it('should delete the blob on abort and tolerate missing blobs', async () => {
+    const azurite = createAzuriteStandIn();
+    const transport = createAzureTransport({ containerUrl: CONTAINER_URL, fetch: azurite.fetchMock });
+    const state = createUploadState('upload-1', 'data.bin', 10, 1, 10);
+    state.remoteSession = await transport.createUpload!(state);
+    await uploadChunks(transport, state, [0]);
+    await transport.completeUpload!(state);
+
+    await transport.abortUpload!(state);
+    expect(azurite.committed.has(state.remoteSession.location)).toBe(false);
+    await expect(transport.abortUpload!(state)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { createSha256, isSha256Checksum, sha256Chunk, sha256File, sha256FileInSlices } from '../checksum';
+
+const ABC_SHA256 = 'sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+const EMPTY_SHA256 = 'sha256:e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+function bytesOf(length: number) {
+  return Uint8Array.from({ length }, (_, i) => (i * 31 + 7) % 256);
+}
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('checksum', () => {
+  describe('sha256Chunk', () => {
+    it('should hash a chunk as "sha256:<hex>"', async () => {
+      await expect(sha256Chunk(new Blob(['abc']))).resolves.toBe(ABC_SHA256);
+      await expect(sha256Chunk(new Blob([]))).resolves.toBe(EMPTY_SHA256);
+    });
+  });
+
+  describe('createSha256', () => {
+    it('should match SubtleCrypto however the input is split', async () => {
+      // Lengths around the 56- and 64-byte padding boundaries
+      for (const length of [0, 1, 55, 56, 63, 64, 65, 1000]) {
+        const data = bytesOf(length);
+        const expected = await sha256Chunk(new Blob([data]));
+
+        const whole = createSha256();
+        whole.update(data);
+        expect(`sha256:${hex(whole.digest())}`).toBe(expected);
+
+        const pieces = createSha256();
+        for (let offset = 0; offset < length; offset += 13) {
+          pieces.update(data.subarray(offset, offset + 13));
+        }
+        expect(`sha256:${hex(pieces.digest())}`).toBe(expected);
+      }
+    });
+  });
+
+  describe('sha256File', () => {
+    it('should hash the whole file', async () => {
+      await expect(sha256File(new File(['abc'], 'abc.txt'))).resolves.toBe(ABC_SHA256);
+      await expect(sha256File(new File([], 'empty.txt'))).resolves.toBe(EMPTY_SHA256);
+    });
+  });
+
+  describe('sha256FileInSlices', () => {
+    it('should hash the whole file slice by slice', async () => {
+      await expect(sha256FileInSlices(new File(['abc'], 'abc.txt'))).resolves.toBe(ABC_SHA256);
+      await expect(sha256FileInSlices(new File([], 'empty.txt'))).resolves.toBe(EMPTY_SHA256);
+    });
+  });
+
+  describe('isSha256Checksum', () => {
+    it('should only accept SHA-256 digests', () => {
+      expect(isSha256Checksum(ABC_SHA256)).toBe(true);
+      expect(isSha256Checksum(ABC_SHA256.toUpperCase())).toBe(true);
+      expect(isSha256Checksum('sha256:abc')).toBe(false);
+      expect(isSha256Checksum('md5:900150983cd24fb0d6963f7d28e17f72')).toBe(false);
+      expect(isSha256Checksum(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { applyJournal, compactUploadState, expandChunks } from '../compactState';
+import { createUploadState, resizePendingChunks, updateChunkStatus } from '../uploadState';
+
+describe('compactState', () => {
+  it('should expand compacted chunks to what they were', () => {
+    let state = createUploadState('id1', 'data.bin', 1000, 10, 100);
+    state = updateChunkStatus(state, 0, true, false, { etag: '"a"', checksum: 'sha256:aa' });
+    state = updateChunkStatus(state, 1, true);
+    state = updateChunkStatus(state, 3, false, true, undefined, {
+      kind: 'server',
+      message: 'Server error',
+      retryable: true,
+      status: 500,
+    });
+    state = updateChunkStatus(state, 4, true, false, { compressedLength: 40 });
+    state = resizePendingChunks(state, 250);
+
+    expect(expandChunks(compactUploadState(state))).toEqual(state.chunks);
+  });
+
+  it('should take space for runs and details rather than for each chunk', () => {
+    let state = createUploadState('id1', 'data.bin', 100_000 * 10 - 5, 100_000, 10);
+    state = {
+      ...state,
+      chunks: state.chunks.map((chunk) => (chunk.chunkIndex < 60_000 ? { ...chunk, uploaded: true } : chunk)),
+    };
+    state = updateChunkStatus(state, 70_000, false, true);
+
+    const { chunkLengths, uploadedRuns, chunkDetails } = compactUploadState(state);
+
+    expect(chunkLengths).toEqual([
+      [10, 99_999],
+      [5, 1],
+    ]);
+    expect(uploadedRuns).toEqual([0, 60_000, 40_000]);
+    expect(chunkDetails).toEqual({ 70_000: { failed: true, retryCount: 1 } });
+  });
+
+  it('should replace chunk statuses with journal entries but keep their byte ranges', () => {
+    const { chunks } = createUploadState('id1', 'data.bin', 25, 3, 10);
+
+    const updated = applyJournal(chunks, [
+      { chunkIndex: 2, uploaded: false, failed: true, retryCount: 1, lastUpdate: 1 },
+      { chunkIndex: 2, uploaded: true, failed: false, retryCount: 1, lastUpdate: 2 },
+    ]);
+
+    expect(updated).toEqual([
+      chunks[0],
+      chunks[1],
+      { chunkIndex: 2, offset: 20, length: 5, uploaded: true, failed: false, retryCount: 1 },
+    ]);
+    expect(chunks[2].uploaded).toBe(false);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chooseContentEncoding,
+  compressBytes,
+  decompressBytes,
+  isCompressedFormat,
+  negotiateContentEncodings,
+} from '../compression';
+import { processChunkBytes } from '../chunkProcessing';
+import { sha256File } from '../checksum';
+import { UploadTransport } from '../../types/upload';
+
+const jsonl = Array.from({ length: 200 }, (_, index) => JSON.stringify({ id: index, text: 'hello world' })).join('\n');
+const encode = (text: string) => new TextEncoder().encode(text).buffer as ArrayBuffer;
+
+const transport = (overrides: Partial<UploadTransport> = {}): UploadTransport => ({
+  uploadChunk: async () => {},
+  getUploadedChunks: async () => [],
+  contentEncodings: ['gzip', 'deflate'],
+  ...overrides,
+});
+
+describe('compression', () => {
+  describe('isCompressedFormat', () => {
+    it('should recognize compressed formats by extension', () => {
+      expect(isCompressedFormat('train.jsonl.gz', new Uint8Array())).toBe(true);
+      expect(isCompressedFormat('weights.PT', new Uint8Array())).toBe(true);
+      expect(isCompressedFormat('train.jsonl', new Uint8Array())).toBe(false);
+      expect(isCompressedFormat('README', new Uint8Array())).toBe(false);
+    });
+
+    it('should recognize compressed formats by their first bytes', () => {
+      expect(isCompressedFormat('data.bin', new Uint8Array([0x1f, 0x8b, 0x08]))).toBe(true);
+      expect(isCompressedFormat('data.bin', new Uint8Array([0x50, 0x4b, 0x03, 0x04]))).toBe(true);
+      expect(isCompressedFormat('data.bin', new Uint8Array([0x7b, 0x22]))).toBe(false);
+    });
+  });
+
+  describe('negotiateContentEncodings', () => {
+    it('should keep encodings the server accepted when it issues sessions', () => {
+      const http = transport({ initUpload: async () => ({ uploadId: 'x' }) });
+
+      expect(negotiateContentEncodings(http, { uploadId: 'x', contentEncodings: ['deflate', 'br' as never] })).toEqual([
+        'deflate',
+      ]);
+      // A server that lists nothing accepts nothing
+      expect(negotiateContentEncodings(http, { uploadId: 'x' })).toEqual([]);
+    });
+
+    it("should use the transport's own encodings without a server session", () => {
+      expect(negotiateContentEncodings(transport(), { uploadId: 'x' })).toEqual(['gzip', 'deflate']);
+      expect(negotiateContentEncodings(transport({ contentEncodings: undefined }), { uploadId: 'x' })).toEqual([]);
+    });
+  });
+
+  describe('chooseContentEncoding', () => {
+    it('should pick the preferred encoding for compressible files', async () => {
+      await expect(chooseContentEncoding(new File([jsonl], 'train.jsonl'), ['gzip', 'deflate'])).resolves.toBe('gzip');
+      await expect(chooseContentEncoding(new File([jsonl], 'train.jsonl'), [])).resolves.toBeUndefined();
+    });
+
+    it('should skip files that are compressed already', async () => {
+      const gzipped = new File([new Uint8Array([0x1f, 0x8b, 0x08, 0x00])], 'train.bin');
+
+      await expect(chooseContentEncoding(gzipped, ['gzip'])).resolves.toBeUndefined();
+      await expect(chooseContentEncoding(new File([jsonl], 'train.zip'), ['gzip'])).resolves.toBeUndefined();
+    });
+  });
+
+  it('should round-trip bytes through each encoding', async () => {
+    for (const encoding of ['gzip', 'deflate'] as const) {
+      const compressed = await compressBytes(encode(jsonl), encoding);
+      expect(compressed.byteLength).toBeLessThan(jsonl.length / 5);
+      expect(new TextDecoder().decode(await decompressBytes(compressed, encoding))).toBe(jsonl);
+    }
+  });
+
+  describe('processChunkBytes', () => {
+    it('should compress a chunk and hash the compressed bytes', async () => {
+      const processed = await processChunkBytes(encode(jsonl), { compression: 'gzip' });
+
+      expect(processed.contentEncoding).toBe('gzip');
+      expect(processed.data.byteLength).toBeLessThan(jsonl.length);
+      expect(processed.checksum).toBe(await sha256File(new Blob([processed.data])));
+    });
+
+    it('should send a chunk as it is when compression does not make it smaller', async () => {
+      const random = await new Blob([crypto.getRandomValues(new Uint8Array(1024))]).arrayBuffer();
+
+      const processed = await processChunkBytes(random, { compression: 'gzip' });
+
+      expect(processed.contentEncoding).toBeUndefined();
+      expect(processed.data.byteLength).toBe(1024);
+    });
+  });
+});
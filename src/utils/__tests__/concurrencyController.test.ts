@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createConcurrencyController, isCongestionSignal } from '../concurrencyController';
+import { NetworkError, QuotaError, ServerError, TimeoutError } from '../uploadErrors';
+
+// Clock the tests move by hand
+const createClock = () => {
+  let time = 0;
+  return {
+    now: () => time,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+};
+
+describe('concurrencyController', () => {
+  it('should treat timeouts and rate limits as congestion', () => {
+    expect(isCongestionSignal(new TimeoutError('timed out'))).toBe(true);
+    expect(isCongestionSignal(new QuotaError('slow down', { status: 429 }))).toBe(true);
+    expect(isCongestionSignal(new QuotaError('full', { status: 507 }))).toBe(false);
+    expect(isCongestionSignal(new ServerError('boom', { status: 500 }))).toBe(false);
+    expect(isCongestionSignal(new NetworkError('offline'))).toBe(false);
+  });
+
+  it('should start at the initial concurrency within the limits', () => {
+    expect(createConcurrencyController({ min: 1, max: 8, initial: 3 }).current).toBe(3);
+    expect(createConcurrencyController({ min: 2, max: 4, initial: 10 }).current).toBe(4);
+    expect(createConcurrencyController({ min: 2, max: 4, initial: 0 }).current).toBe(2);
+  });
+
+  it('should add a slot after each round that was faster than the one before', () => {
+    const clock = createClock();
+    const controller = createConcurrencyController({ min: 1, max: 8, initial: 2 }, { now: clock.now });
+
+    // First round: 2 chunks of 100 bytes in 100ms
+    clock.advance(100);
+    controller.recordSuccess(100, 0);
+    controller.recordSuccess(100, 0);
+    expect(controller.current).toBe(3);
+
+    // Second round: 3 chunks in 100ms is faster
+    clock.advance(100);
+    for (let i = 0; i < 3; i++) {
+      controller.recordSuccess(100, 100);
+    }
+    expect(controller.current).toBe(4);
+  });
+
+  it('should hold when throughput stops improving', () => {
+    const clock = createClock();
+    const controller = createConcurrencyController({ min: 1, max: 8, initial: 2 }, { now: clock.now });
+
+    clock.advance(100);
+    controller.recordSuccess(100, 0);
+    controller.recordSuccess(100, 0);
+    expect(controller.current).toBe(3);
+
+    // Same 2 bytes/ms with one more slot: the link is saturated
+    clock.advance(150);
+    for (let i = 0; i < 3; i++) {
+      controller.recordSuccess(100, 100);
+    }
+    expect(controller.current).toBe(3);
+  });
+
+  it('should never go above the maximum', () => {
+    const clock = createClock();
+    const controller = createConcurrencyController({ min: 1, max: 2, initial: 2 }, { now: clock.now });
+
+    clock.advance(100);
+    controller.recordSuccess(100, 0);
+    controller.recordSuccess(100, 0);
+
+    expect(controller.current).toBe(2);
+  });
+
+  it('should halve on congestion, but not below the minimum', () => {
+    const clock = createClock();
+    const onChange = vi.fn();
+    const controller = createConcurrencyController({ min: 2, max: 8, initial: 8 }, { now: clock.now, onChange });
+
+    clock.advance(10);
+    controller.recordFailure(new TimeoutError('timed out'), 10);
+    expect(controller.current).toBe(4);
+
+    clock.advance(10);
+    controller.recordFailure(new QuotaError('slow down', { status: 429 }), 20);
+    expect(controller.current).toBe(2);
+
+    clock.advance(10);
+    controller.recordFailure(new TimeoutError('timed out'), 30);
+    expect(controller.current).toBe(2);
+    expect(onChange.mock.calls).toEqual([[4], [2]]);
+  });
+
+  it('should cut once for requests that were in flight together', () => {
+    const clock = createClock();
+    const controller = createConcurrencyController({ min: 1, max: 8, initial: 8 }, { now: clock.now });
+
+    clock.advance(100);
+    controller.recordFailure(new TimeoutError('timed out'), 0);
+    controller.recordFailure(new TimeoutError('timed out'), 0);
+    controller.recordFailure(new TimeoutError('timed out'), 50);
+
+    expect(controller.current).toBe(4);
+  });
+
+  it('should ignore failures that are not congestion', () => {
+    const controller = createConcurrencyController({ min: 1, max: 8, initial: 4 });
+
+    controller.recordFailure(new ServerError('boom', { status: 500 }), Date.now());
+
+    expect(controller.current).toBe(4);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ENCRYPTION_OVERHEAD,
+  createUploadEncryption,
+  decryptUpload,
+  getChunkIv,
+  getStoredOffset,
+  getStoredSize,
+  renewUploadEncryption,
+  unlockUploadEncryption,
+} from '../encryption';
+import { processChunkBytes } from '../chunkProcessing';
+import { createUploadState } from '../uploadState';
+import { sha256File } from '../checksum';
+import { UploadState } from '../../types/upload';
+
+// Enough to exercise PBKDF2 without slowing the suite down
+const iterations = 1000;
+const content = 'The quick brown fox jumps over the lazy dog';
+
+async function encryptedState() {
+  const { encryption, key } = await createUploadEncryption('correct horse', { iterations });
+  const state = createUploadState('enc-1', 'data.txt', content.length, 5, 10);
+  state.encryption = encryption;
+  return { state, key };
+}
+
+// What the server stores: every chunk encrypted and appended in order
+async function encryptFile(state: UploadState, key: CryptoKey, file: Blob) {
+  const parts: ArrayBuffer[] = [];
+  for (const chunk of state.chunks) {
+    const data = await file.slice(chunk.offset, chunk.offset + chunk.length).arrayBuffer();
+    const iv = getChunkIv(state.encryption!, chunk.chunkIndex);
+    parts.push((await processChunkBytes(data, { encryption: { key, iv } })).data);
+  }
+  return parts;
+}
+
+const text = async (blob: Blob) => new TextDecoder().decode(await blob.arrayBuffer());
+
+describe('encryption', () => {
+  it('should keep only the wrapped key and algorithm settings', async () => {
+    const { encryption, key } = await createUploadEncryption('correct horse', { iterations });
+
+    expect(encryption).toMatchObject({
+      algorithm: 'AES-GCM',
+      keyLength: 256,
+      keyAlgorithm: 'AES-KW',
+      keyDerivation: { algorithm: 'PBKDF2', hash: 'SHA-256', iterations },
+    });
+    // AES-KW output is the key plus 8 bytes
+    expect(atob(encryption.wrappedKey)).toHaveLength(40);
+    expect(key.extractable).toBe(false);
+  });
+
+  it('should unlock the data key with the passphrase and reject a wrong one', async () => {
+    const { state, key } = await encryptedState();
+    const parts = await encryptFile(state, key, new Blob([content]));
+
+    const unlocked = await unlockUploadEncryption(state.encryption!, 'correct horse');
+    await expect(text(await decryptUpload(new Blob(parts), state, unlocked))).resolves.toBe(content);
+
+    await expect(unlockUploadEncryption(state.encryption!, 'wrong')).rejects.toThrow('Wrong passphrase');
+  });
+
+  it('should derive a unique, repeatable IV per chunk index', async () => {
+    const { encryption } = await createUploadEncryption('correct horse', { iterations });
+
+    expect(getChunkIv(encryption, 3)).toEqual(getChunkIv(encryption, 3));
+    expect(getChunkIv(encryption, 3)).not.toEqual(getChunkIv(encryption, 4));
+    expect(getChunkIv(encryption, 256).slice(8)).toEqual(new Uint8Array([0, 0, 1, 0]));
+    expect(getChunkIv(renewUploadEncryption(encryption), 3)).not.toEqual(getChunkIv(encryption, 3));
+  });
+
+  it('should hash the ciphertext, not the plaintext', async () => {
+    const { state, key } = await encryptedState();
+    const data = new TextEncoder().encode('0123456789').buffer as ArrayBuffer;
+
+    const processed = await processChunkBytes(data.slice(0), {
+      encryption: { key, iv: getChunkIv(state.encryption!, 0) },
+    });
+
+    expect(processed.data.byteLength).toBe(10 + ENCRYPTION_OVERHEAD);
+    expect(processed.checksum).toBe(await sha256File(new Blob([processed.data])));
+    expect(processed.checksum).not.toBe(await sha256File(new Blob([data])));
+  });
+
+  it('should offset encrypted chunks by the tags before them', async () => {
+    const { state } = await encryptedState();
+
+    expect(getStoredOffset(state, state.chunks[2])).toBe(20 + 2 * ENCRYPTION_OVERHEAD);
+    expect(getStoredSize(state)).toBe(content.length + 5 * ENCRYPTION_OVERHEAD);
+    expect(getStoredSize({ ...state, encryption: undefined })).toBe(content.length);
+  });
+
+  describe('decryptUpload', () => {
+    it('should reassemble the original file', async () => {
+      const { state, key } = await encryptedState();
+      const parts = await encryptFile(state, key, new Blob([content]));
+
+      await expect(text(await decryptUpload(new Blob(parts), state, key))).resolves.toBe(content);
+    });
+
+    it('should reject tampered and reordered chunks', async () => {
+      const { state, key } = await encryptedState();
+      const parts = await encryptFile(state, key, new Blob([content]));
+
+      const tampered = new Uint8Array(parts[1].slice(0));
+      tampered[0] ^= 1;
+      await expect(decryptUpload(new Blob([parts[0], tampered, ...parts.slice(2)]), state, key)).rejects.toThrow(
+        'Chunk 1 failed authentication'
+      );
+
+      await expect(decryptUpload(new Blob([parts[1], parts[0], ...parts.slice(2)]), state, key)).rejects.toThrow(
+        'Chunk 0 failed authentication'
+      );
+    });
+
+    it('should reject a truncated upload', async () => {
+      const { state, key } = await encryptedState();
+      const parts = await encryptFile(state, key, new Blob([content]));
+
+      await expect(decryptUpload(new Blob(parts.slice(0, 4)), state, key)).rejects.toThrow('expected');
+    });
+
+    it('should check the result against the original checksum', async () => {
+      const { state, key } = await encryptedState();
+      const parts = await encryptFile(state, key, new Blob([content]));
+
+      await expect(
+        decryptUpload(new Blob(parts), state, key, { expectedChecksum: await sha256File(new Blob([content])) })
+      ).resolves.toBeInstanceOf(Blob);
+      await expect(
+        decryptUpload(new Blob(parts), state, key, { expectedChecksum: `sha256:${'0'.repeat(64)}` })
+      ).rejects.toThrow('does not match');
+    });
+
+    it('should refuse an upload that is not encrypted', async () => {
+      const { key } = await encryptedState();
+      const state = createUploadState('plain', 'data.txt', 3, 1, 10);
+
+      await expect(decryptUpload(new Blob(['abc']), state, key)).rejects.toThrow('not encrypted');
+    });
+  });
+});
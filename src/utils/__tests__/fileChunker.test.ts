@@ -1,98 +1,204 @@
-import { describe, it, expect } from 'vitest';
-import { splitFileIntoChunks, generateUploadId } from '../fileChunker';
-
-describe('fileChunker', () => {
-  describe('splitFileIntoChunks', () => {
-    it('should split a small file into a single chunk', () => {
-      const file = new File(['test content'], 'test.txt', { type: 'text/plain' });
-      const chunks = splitFileIntoChunks(file, 1024 * 1024); // 1 MB chunk size
-
-      expect(chunks).toHaveLength(1);
-      expect(chunks[0].size).toBe(file.size);
-    });
-
-    it('should split a large file into multiple chunks', () => {
-      // Create a 3 MB file
-      const content = new Array(3 * 1024 * 1024).fill('a').join('');
-      const file = new File([content], 'large.txt', { type: 'text/plain' });
-      const chunkSize = 1024 * 1024; // 1 MB
-      const chunks = splitFileIntoChunks(file, chunkSize);
-
-      expect(chunks.length).toBeGreaterThan(1);
-      expect(chunks.length).toBe(3);
-      
-      // First chunks should be exactly chunkSize
-      for (let i = 0; i < chunks.length - 1; i++) {
-        expect(chunks[i].size).toBe(chunkSize);
-      }
-      
-      // Last chunk should be the remainder
-      const totalSize = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
-      expect(totalSize).toBe(file.size);
-    });
-
-    it('should handle file smaller than chunk size', () => {
-      const file = new File(['small'], 'small.txt', { type: 'text/plain' });
-      const chunks = splitFileIntoChunks(file, 1024 * 1024);
-
-      expect(chunks).toHaveLength(1);
-      expect(chunks[0].size).toBe(file.size);
-    });
-
-    it('should handle empty file', () => {
-      const file = new File([], 'empty.txt', { type: 'text/plain' });
-      const chunks = splitFileIntoChunks(file, 1024 * 1024);
-
-      expect(chunks).toHaveLength(1);
-      expect(chunks[0].size).toBe(0);
-    });
-
-    it('should create chunks that sum to original file size', () => {
-      const content = new Array(2.5 * 1024 * 1024).fill('b').join('');
-      const file = new File([content], 'test.txt', { type: 'text/plain' });
-      const chunkSize = 1024 * 1024;
-      const chunks = splitFileIntoChunks(file, chunkSize);
-
-      const totalSize = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
-      expect(totalSize).toBe(file.size);
-    });
-
-    it('should handle exact chunk size multiples', () => {
-      const content = new Array(2 * 1024 * 1024).fill('c').join('');
-      const file = new File([content], 'exact.txt', { type: 'text/plain' });
-      const chunkSize = 1024 * 1024;
-      const chunks = splitFileIntoChunks(file, chunkSize);
-
-      expect(chunks).toHaveLength(2);
-      chunks.forEach(chunk => {
-        expect(chunk.size).toBe(chunkSize);
-      });
-    });
-  });
-
-  describe('generateUploadId', () => {
-    it('should generate a unique upload ID', () => {
-      const id1 = generateUploadId();
-      const id2 = generateUploadId();
-
-      expect(id1).toBeTruthy();
-      expect(id2).toBeTruthy();
-      expect(id1).not.toBe(id2);
-    });
-
-    it('should generate IDs with upload_ prefix', () => {
-      const id = generateUploadId();
-      expect(id).toMatch(/^upload_/);
-    });
-
-    it('should generate different IDs when called multiple times', () => {
-      const ids = new Set();
-      for (let i = 0; i < 100; i++) {
-        ids.add(generateUploadId());
-      }
-      // All IDs should be unique
-      expect(ids.size).toBe(100);
-    });
-  });
-});
-
+import { describe, it, expect } from 'vitest';
+import {
+  splitFileIntoChunks,
+  generateUploadId,
+  getChunkSize,
+  chooseChunkSize,
+  sliceChunk,
+  getTotalChunks,
+  getChunkLength,
+  MIN_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+} from '../fileChunker';
+
+describe('fileChunker', () => {
+  describe('splitFileIntoChunks', () => {
+    it('should split a small file into a single chunk', () => {
+      const file = new File(['test content'], 'test.txt', { type: 'text/plain' });
+      const chunks = splitFileIntoChunks(file, 1024 * 1024); // 1 MB chunk size
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].size).toBe(file.size);
+    });
+
+    it('should split a large file into multiple chunks', () => {
+      // Create a 3 MB file
+      const content = new Array(3 * 1024 * 1024).fill('a').join('');
+      const file = new File([content], 'large.txt', { type: 'text/plain' });
+      const chunkSize = 1024 * 1024; // 1 MB
+      const chunks = splitFileIntoChunks(file, chunkSize);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.length).toBe(3);
+      
+      // First chunks should be exactly chunkSize
+      for (let i = 0; i < chunks.length - 1; i++) {
+        expect(chunks[i].size).toBe(chunkSize);
+      }
+      
+      // Last chunk should be the remainder
+      const totalSize = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+      expect(totalSize).toBe(file.size);
+    });
+
+    it('should handle file smaller than chunk size', () => {
+      const file = new File(['small'], 'small.txt', { type: 'text/plain' });
+      const chunks = splitFileIntoChunks(file, 1024 * 1024);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].size).toBe(file.size);
+    });
+
+    it('should handle empty file', () => {
+      const file = new File([], 'empty.txt', { type: 'text/plain' });
+      const chunks = splitFileIntoChunks(file, 1024 * 1024);
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].size).toBe(0);
+    });
+
+    it('should create chunks that sum to original file size', () => {
+      const content = new Array(2.5 * 1024 * 1024).fill('b').join('');
+      const file = new File([content], 'test.txt', { type: 'text/plain' });
+      const chunkSize = 1024 * 1024;
+      const chunks = splitFileIntoChunks(file, chunkSize);
+
+      const totalSize = chunks.reduce((sum, chunk) => sum + chunk.size, 0);
+      expect(totalSize).toBe(file.size);
+    });
+
+    it('should handle exact chunk size multiples', () => {
+      const content = new Array(2 * 1024 * 1024).fill('c').join('');
+      const file = new File([content], 'exact.txt', { type: 'text/plain' });
+      const chunkSize = 1024 * 1024;
+      const chunks = splitFileIntoChunks(file, chunkSize);
+
+      expect(chunks).toHaveLength(2);
+      chunks.forEach(chunk => {
+        expect(chunk.size).toBe(chunkSize);
+      });
+    });
+  });
+
+  describe('generateUploadId', () => {
+    it('should generate a unique upload ID', () => {
+      const id1 = generateUploadId();
+      const id2 = generateUploadId();
+
+      expect(id1).toBeTruthy();
+      expect(id2).toBeTruthy();
+      expect(id1).not.toBe(id2);
+    });
+
+    it('should generate IDs with upload_ prefix', () => {
+      const id = generateUploadId();
+      expect(id).toMatch(/^upload_/);
+    });
+
+    it('should generate different IDs when called multiple times', () => {
+      const ids = new Set();
+      for (let i = 0; i < 100; i++) {
+        ids.add(generateUploadId());
+      }
+      // All IDs should be unique
+      expect(ids.size).toBe(100);
+    });
+  });
+
+  describe('getChunkSize', () => {
+    const MiB = 1024 * 1024;
+
+    it('should use the preferred size when there are no limits', () => {
+      expect(getChunkSize(100 * MiB, MiB)).toBe(MiB);
+    });
+
+    it('should raise the size to the minimum chunk size', () => {
+      expect(getChunkSize(100 * MiB, MiB, { minChunkSize: 5 * MiB })).toBe(5 * MiB);
+    });
+
+    it('should grow the size to stay within the chunk count limit', () => {
+      const fileSize = 100 * 1024 * MiB; // 100 GiB
+      const chunkSize = getChunkSize(fileSize, MiB, { minChunkSize: 5 * MiB, maxChunks: 10000 });
+
+      expect(chunkSize % MiB).toBe(0);
+      expect(Math.ceil(fileSize / chunkSize)).toBeLessThanOrEqual(10000);
+    });
+
+    it('should throw when the file cannot fit within the limits', () => {
+      expect(() => getChunkSize(100 * MiB, MiB, { maxChunks: 10, maxChunkSize: 5 * MiB })).toThrow();
+    });
+  });
+
+  describe('chooseChunkSize', () => {
+    const MiB = 1024 * 1024;
+
+    it('should use 1 MiB until a throughput has been measured', () => {
+      expect(chooseChunkSize(100 * MiB)).toBe(MiB);
+    });
+
+    it('should size chunks to a few seconds of the measured throughput', () => {
+      // 96 KB/s (3G): 480 KB, rounded up to 512 KiB
+      expect(chooseChunkSize(100 * MiB, {}, 96_000)).toBe(512 * 1024);
+      // 10 MB/s: 50 MB, rounded up to whole 256 KiB steps
+      expect(chooseChunkSize(1024 * MiB, {}, 10_000_000) % (256 * 1024)).toBe(0);
+      expect(chooseChunkSize(1024 * MiB, {}, 10_000_000)).toBeGreaterThanOrEqual(50_000_000);
+    });
+
+    it('should stay within the automatic bounds', () => {
+      expect(chooseChunkSize(100 * MiB, {}, 1000)).toBe(MIN_CHUNK_SIZE);
+      expect(chooseChunkSize(100 * MiB, {}, 1e9)).toBe(MAX_CHUNK_SIZE);
+    });
+
+    it('should use larger chunks for huge files', () => {
+      const fileSize = 50 * 1024 * MiB; // 50 GiB checkpoint
+      const chunkSize = chooseChunkSize(fileSize);
+
+      expect(Math.ceil(fileSize / chunkSize)).toBeLessThanOrEqual(2000);
+    });
+
+    it('should respect the transport limits', () => {
+      expect(chooseChunkSize(100 * MiB, { minChunkSize: 5 * MiB }, 96_000)).toBe(5 * MiB);
+      expect(chooseChunkSize(100 * MiB, { maxChunkSize: 2 * MiB }, 1e9)).toBe(2 * MiB);
+    });
+  });
+
+  describe('sliceChunk', () => {
+    it('should return the chunk range of the file', () => {
+      const file = new File(['abcdefghij'], 'test.txt');
+
+      expect(sliceChunk(file, { offset: 3, length: 4 })!.size).toBe(4);
+      // The last chunk may run past the end of a shorter file
+      expect(sliceChunk(file, { offset: 8, length: 4 })!.size).toBe(2);
+    });
+
+    it('should return null for a chunk beyond the end of the file', () => {
+      const file = new File(['abc'], 'test.txt');
+
+      expect(sliceChunk(file, { offset: 3, length: 4 })).toBeNull();
+      expect(sliceChunk(new File([], 'empty.txt'), { offset: 0, length: 0 })!.size).toBe(0);
+    });
+  });
+
+  describe('getTotalChunks', () => {
+    it('should round up to cover the whole file', () => {
+      expect(getTotalChunks(25, 10)).toBe(3);
+      expect(getTotalChunks(20, 10)).toBe(2);
+    });
+
+    it('should use one chunk for an empty file', () => {
+      expect(getTotalChunks(0, 10)).toBe(1);
+    });
+  });
+
+  describe('getChunkLength', () => {
+    it('should return the full size for all but the last chunk', () => {
+      expect(getChunkLength(25, 10, 0)).toBe(10);
+      expect(getChunkLength(25, 10, 1)).toBe(10);
+      expect(getChunkLength(25, 10, 2)).toBe(5);
+    });
+
+    it('should return zero for an empty file', () => {
+      expect(getChunkLength(0, 10, 0)).toBe(0);
+    });
+  });
+});
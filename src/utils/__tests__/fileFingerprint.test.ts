@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createFileFingerprint,
+  findUploadForFile,
+  getSampleRanges,
+  isFileForUpload,
+  matchesFingerprint,
+} from '../fileFingerprint';
+import { createUploadState } from '../uploadState';
+
+const MODIFIED = Date.parse('2024-05-01T12:00:00Z');
+
+function fileOf(content: string, name = 'train.jsonl', lastModified = MODIFIED): File {
+  return new File([content], name, { lastModified });
+}
+
+describe('fileFingerprint', () => {
+  describe('getSampleRanges', () => {
+    it('should cover small files completely', () => {
+      expect(getSampleRanges(100)).toEqual([{ start: 0, end: 100 }]);
+    });
+
+    it('should sample the start, the end and evenly spaced blocks of large files', () => {
+      const fileSize = 100 * 1024 * 1024;
+      const ranges = getSampleRanges(fileSize);
+
+      expect(ranges).toHaveLength(16);
+      expect(ranges[0]).toEqual({ start: 0, end: 64 * 1024 });
+      expect(ranges[15]).toEqual({ start: fileSize - 64 * 1024, end: fileSize });
+      ranges.slice(1).forEach((range, index) => expect(range.start).toBeGreaterThan(ranges[index].end));
+    });
+  });
+
+  describe('createFileFingerprint', () => {
+    it('should record size, lastModified and the sample hash, plus a full hash for small files', async () => {
+      const fingerprint = await createFileFingerprint(fileOf('abc'));
+
+      expect(fingerprint).toEqual({
+        size: 3,
+        lastModified: MODIFIED,
+        sampleHash: 'sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+        fullHash: 'sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      });
+    });
+
+    it('should skip the full hash above the size limit', async () => {
+      const fingerprint = await createFileFingerprint(fileOf('abc'), { fullHashMaxSize: 2 });
+      expect(fingerprint.fullHash).toBeUndefined();
+    });
+  });
+
+  describe('matchesFingerprint', () => {
+    it('should match the same contents under another name', async () => {
+      const fingerprint = await createFileFingerprint(fileOf('{"prompt": 1}'));
+      await expect(matchesFingerprint(fingerprint, fileOf('{"prompt": 1}', 'renamed.jsonl'))).resolves.toBe(true);
+    });
+
+    it('should reject an edited file of the same size', async () => {
+      const fingerprint = await createFileFingerprint(fileOf('{"prompt": 1}'));
+      await expect(matchesFingerprint(fingerprint, fileOf('{"prompt": 2}'))).resolves.toBe(false);
+    });
+
+    it('should trust the full hash over lastModified', async () => {
+      const fingerprint = await createFileFingerprint(fileOf('{"prompt": 1}'));
+      const copied = fileOf('{"prompt": 1}', 'train.jsonl', MODIFIED + 60_000);
+      await expect(matchesFingerprint(fingerprint, copied)).resolves.toBe(true);
+    });
+
+    it('should require the same lastModified when there is no full hash', async () => {
+      const fingerprint = await createFileFingerprint(fileOf('{"prompt": 1}'), { fullHashMaxSize: 0 });
+      const touched = fileOf('{"prompt": 1}', 'train.jsonl', MODIFIED + 60_000);
+
+      await expect(matchesFingerprint(fingerprint, fileOf('{"prompt": 1}'))).resolves.toBe(true);
+      await expect(matchesFingerprint(fingerprint, touched)).resolves.toBe(false);
+    });
+  });
+
+  describe('isFileForUpload', () => {
+    it('should fall back to name and size for uploads without a fingerprint', async () => {
+      const upload = createUploadState('id1', 'train.jsonl', 3, 1, 3);
+
+      await expect(isFileForUpload(upload, fileOf('xyz'))).resolves.toBe(true);
+      await expect(isFileForUpload(upload, fileOf('xyz', 'other.jsonl'))).resolves.toBe(false);
+    });
+
+    it('should use the fingerprint when there is one', async () => {
+      const upload = createUploadState('id1', 'train.jsonl', 3, 1, 3);
+      upload.fingerprint = await createFileFingerprint(fileOf('abc'));
+
+      await expect(isFileForUpload(upload, fileOf('xyz'))).resolves.toBe(false);
+      await expect(isFileForUpload(upload, fileOf('abc', 'renamed.jsonl'))).resolves.toBe(true);
+    });
+  });
+
+  describe('findUploadForFile', () => {
+    it('should find the unfinished upload a file belongs to', async () => {
+      const finished = createUploadState('done', 'train.jsonl', 3, 1, 3);
+      finished.chunks[0].uploaded = true;
+      finished.fingerprint = await createFileFingerprint(fileOf('abc'));
+      const other = createUploadState('other', 'eval.jsonl', 3, 1, 3);
+      other.fingerprint = await createFileFingerprint(fileOf('xyz'));
+      const unfinished = createUploadState('open', 'train.jsonl', 3, 1, 3);
+      unfinished.fingerprint = await createFileFingerprint(fileOf('abc'));
+
+      const uploads = [finished, other, unfinished];
+      await expect(findUploadForFile(uploads, fileOf('abc', 'renamed.jsonl'))).resolves.toBe(unfinished);
+      await expect(findUploadForFile(uploads, fileOf('def'))).resolves.toBeNull();
+    });
+
+    it('should not pick up an upload the server has discarded', async () => {
+      const stale = createUploadState('stale', 'train.jsonl', 3, 1, 3);
+      stale.fingerprint = await createFileFingerprint(fileOf('abc'));
+      stale.stale = { since: Date.now(), reason: 'Failed to get upload offset: HTTP 404' };
+
+      await expect(findUploadForFile([stale], fileOf('abc'))).resolves.toBeNull();
+    });
+  });
+});
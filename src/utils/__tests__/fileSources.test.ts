@@ -0,0 +1,165 @@
+import { describe, it, expect, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  MAX_FILE_COPY_SIZE,
+  createFileSourceStore,
+  getDroppedFileHandle,
+  hasChunkBytes,
+  isPartialCopy,
+  openFileHandle,
+  restoreUploadFile,
+} from '../fileSources';
+import { createFileFingerprint } from '../fileFingerprint';
+import { createUploadState, updateChunkStatus } from '../uploadState';
+
+async function readText(file: Blob): Promise<string> {
+  return new TextDecoder().decode(await file.arrayBuffer());
+}
+
+// An upload of the file in chunks of chunkSize bytes
+function uploadOf(file: File, chunkSize = file.size) {
+  return createUploadState('id1', file.name, file.size, Math.ceil(file.size / chunkSize), chunkSize);
+}
+
+function fakeHandle(file: File, permission: PermissionState, requested: PermissionState = permission) {
+  return {
+    kind: 'file',
+    name: file.name,
+    getFile: vi.fn().mockResolvedValue(file),
+    queryPermission: vi.fn().mockResolvedValue(permission),
+    requestPermission: vi.fn().mockResolvedValue(requested),
+  } as unknown as FileSystemFileHandle & { requestPermission: ReturnType<typeof vi.fn> };
+}
+
+describe('fileSources', () => {
+  describe('createFileSourceStore', () => {
+    it('should restore a copied file with its name, type and modification time', async () => {
+      const store = createFileSourceStore({ indexedDB: new IDBFactory() });
+      const file = new File(['{"prompt": 1}'], 'train.jsonl', { type: 'application/jsonl', lastModified: 1000 });
+
+      await store.saveCopy(uploadOf(file), file);
+      const restored = await store.restore('id1');
+
+      expect(restored).toMatchObject({ name: 'train.jsonl', type: 'application/jsonl', lastModified: 1000 });
+      expect(await readText(restored!)).toBe('{"prompt": 1}');
+      expect(isPartialCopy(restored!)).toBe(false);
+    });
+
+    it('should copy only the chunks not uploaded yet, with zeros in place of the rest', async () => {
+      const store = createFileSourceStore({ indexedDB: new IDBFactory() });
+      const file = new File(['aaaabbbbccccdddd'], 'data.bin');
+      let upload = uploadOf(file, 4);
+      upload = updateChunkStatus(updateChunkStatus(upload, 0, true), 2, true);
+
+      await store.saveCopy(upload, file);
+      const restored = (await store.restore('id1'))!;
+
+      expect(restored.size).toBe(16);
+      expect(await readText(restored)).toBe('\0\0\0\0bbbb\0\0\0\0dddd');
+      expect(isPartialCopy(restored)).toBe(true);
+      expect(hasChunkBytes(restored, upload.chunks[1])).toBe(true);
+      expect(hasChunkBytes(restored, upload.chunks[0])).toBe(false);
+      expect(hasChunkBytes(file, upload.chunks[0])).toBe(true);
+    });
+
+    it('should not copy files over the size limit', async () => {
+      const store = createFileSourceStore({ indexedDB: new IDBFactory() });
+      const large = new File(['x'], 'large.bin');
+      Object.defineProperty(large, 'size', { value: MAX_FILE_COPY_SIZE + 1 });
+
+      await expect(store.saveCopy(uploadOf(large), large)).rejects.toThrow(RangeError);
+      expect(await store.restore('id1')).toBeNull();
+    });
+
+    it('should forget deleted uploads', async () => {
+      const store = createFileSourceStore({ indexedDB: new IDBFactory() });
+      const file = new File(['data'], 'file.txt');
+      await store.saveCopy(uploadOf(file), file);
+
+      await store.delete('id1');
+
+      expect(await store.restore('id1')).toBeNull();
+    });
+  });
+
+  describe('openFileHandle', () => {
+    it('should read the file when permission is granted', async () => {
+      const file = new File(['data'], 'file.txt');
+      const handle = fakeHandle(file, 'granted');
+
+      expect(await openFileHandle(handle)).toBe(file);
+      expect(handle.requestPermission).not.toHaveBeenCalled();
+    });
+
+    it('should ask for permission again in a new session', async () => {
+      const file = new File(['data'], 'file.txt');
+      const handle = fakeHandle(file, 'prompt', 'granted');
+
+      expect(await openFileHandle(handle)).toBe(file);
+      expect(handle.requestPermission).toHaveBeenCalledWith({ mode: 'read' });
+    });
+
+    it('should return null when permission is denied or the file is gone', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const file = new File(['data'], 'file.txt');
+      const moved = fakeHandle(file, 'granted');
+      vi.mocked(moved.getFile).mockRejectedValue(new DOMException('File not found', 'NotFoundError'));
+
+      expect(await openFileHandle(fakeHandle(file, 'prompt', 'denied'))).toBeNull();
+      expect(await openFileHandle(moved)).toBeNull();
+    });
+  });
+
+  describe('restoreUploadFile', () => {
+    it('should only return a file that still matches the upload', async () => {
+      const original = new File(['{"prompt": 1}'], 'train.jsonl', { lastModified: 1000 });
+      const upload = createUploadState('id1', 'train.jsonl', original.size, 1, original.size);
+      upload.fingerprint = await createFileFingerprint(original);
+      const edited = new File(['{"prompt": 2}'], 'train.jsonl', { lastModified: 2000 });
+      const store = createFileSourceStore({ indexedDB: new IDBFactory() });
+
+      await store.saveCopy(upload, original);
+      expect(await readText((await restoreUploadFile(store, upload))!)).toBe('{"prompt": 1}');
+
+      await store.saveCopy(upload, edited);
+      expect(await restoreUploadFile(store, upload)).toBeNull();
+    });
+
+    it('should return a partial copy of the same size as the upload without checking its fingerprint', async () => {
+      const original = new File(['aaaabbbb'], 'data.bin');
+      const upload = updateChunkStatus(uploadOf(original, 4), 0, true);
+      upload.fingerprint = await createFileFingerprint(original);
+      const store = createFileSourceStore({ indexedDB: new IDBFactory() });
+
+      await store.saveCopy(upload, original);
+
+      expect(await readText((await restoreUploadFile(store, upload))!)).toBe('\0\0\0\0bbbb');
+      expect(await restoreUploadFile(store, { ...upload, fileSize: 16 })).toBeNull();
+    });
+
+    it('should not return a partial copy for a stale upload, which starts over', async () => {
+      const original = new File(['aaaabbbb'], 'data.bin');
+      const upload = updateChunkStatus(uploadOf(original, 4), 0, true);
+      const store = createFileSourceStore({ indexedDB: new IDBFactory() });
+
+      await store.saveCopy(upload, original);
+
+      expect(await restoreUploadFile(store, { ...upload, stale: { since: 1000, reason: 'HTTP 404' } })).toBeNull();
+    });
+  });
+
+  describe('getDroppedFileHandle', () => {
+    it('should return the handle of a dropped file where the browser offers one', async () => {
+      const handle = fakeHandle(new File(['data'], 'file.txt'), 'granted');
+      const item = { getAsFileSystemHandle: vi.fn().mockResolvedValue(handle) } as unknown as DataTransferItem;
+      const directory = {
+        getAsFileSystemHandle: vi.fn().mockResolvedValue({ kind: 'directory' }),
+      } as unknown as DataTransferItem;
+
+      expect(await getDroppedFileHandle(item)).toBe(handle);
+      expect(await getDroppedFileHandle(directory)).toBeNull();
+      expect(await getDroppedFileHandle({} as DataTransferItem)).toBeNull();
+      expect(await getDroppedFileHandle(undefined)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createHttpTransport, getChunkUrl } from '../httpTransport';
+import { createUploadState } from '../uploadState';
+
+function mockResponse(status: number, body?: unknown): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), { status });
+}
+
+describe('httpTransport', () => {
+  describe('getChunkUrl', () => {
+    it('should build chunk URL from endpoint, upload ID and index', () => {
+      expect(getChunkUrl('https://api.test/upload', 'abc', 3)).toBe(
+        'https://api.test/upload/abc/chunks/3'
+      );
+    });
+
+    it('should handle trailing slashes and encode the upload ID', () => {
+      expect(getChunkUrl('https://api.test/upload/', 'a b', 0)).toBe(
+        'https://api.test/upload/a%20b/chunks/0'
+      );
+    });
+  });
+
+  describe('uploadChunk', () => {
+    it('should PUT chunk bytes with upload metadata headers', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(204));
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        headers: { Authorization: 'Bearer token' },
+        fetch: fetchMock,
+      });
+      const chunkData = new Blob(['chunk data']);
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 2,
+        totalChunks: 5,
+        offset: 20,
+        chunkData,
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.test/upload/upload-1/chunks/2');
+      expect(init.method).toBe('PUT');
+      expect(init.body).toBe(chunkData);
+      expect(init.headers).toMatchObject({
+        Authorization: 'Bearer token',
+        'X-Upload-Id': 'upload-1',
+        'X-Chunk-Index': '2',
+        'X-Total-Chunks': '5',
+        'X-Chunk-Offset': '20',
+      });
+      expect(init.headers['X-Chunk-Checksum']).toBeUndefined();
+    });
+
+    it('should send the chunk checksum for the server to verify', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(204));
+      const transport = createHttpTransport({ endpoint: 'https://api.test/upload', fetch: fetchMock });
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 0,
+        totalChunks: 1,
+        offset: 0,
+        chunkData: new Blob(['x']),
+        checksum: 'sha256:abc',
+      });
+
+      expect(fetchMock.mock.calls[0][1].headers['X-Chunk-Checksum']).toBe('sha256:abc');
+    });
+
+    it('should label compressed chunks with Content-Encoding', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(204));
+      const transport = createHttpTransport({ endpoint: 'https://api.test/upload', fetch: fetchMock });
+      const request = { uploadId: 'upload-1', chunkIndex: 0, totalChunks: 1, offset: 0, chunkData: new Blob(['x']) };
+
+      await transport.uploadChunk({ ...request, contentEncoding: 'gzip' });
+      await transport.uploadChunk(request);
+
+      expect(fetchMock.mock.calls[0][1].headers['Content-Encoding']).toBe('gzip');
+      expect(fetchMock.mock.calls[1][1].headers).not.toHaveProperty('Content-Encoding');
+    });
+
+    it('should pass the abort signal to the request', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(204));
+      const transport = createHttpTransport({ endpoint: 'https://api.test/upload', fetch: fetchMock });
+      const controller = new AbortController();
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 0,
+        totalChunks: 1,
+        offset: 0,
+        chunkData: new Blob(['x']),
+        signal: controller.signal,
+      });
+
+      expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+    });
+
+    it('should throw on non-2xx responses', async () => {
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        fetch: vi.fn().mockResolvedValue(mockResponse(500)),
+      });
+
+      await expect(
+        transport.uploadChunk({
+          uploadId: 'upload-1',
+          chunkIndex: 0,
+          totalChunks: 1,
+          offset: 0,
+          chunkData: new Blob(['x']),
+        })
+      ).rejects.toThrow('HTTP 500');
+    });
+
+    it('should reject with a typed error that says whether to retry', async () => {
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        fetch: vi.fn().mockResolvedValue(mockResponse(401)),
+      });
+
+      await expect(
+        transport.uploadChunk({
+          uploadId: 'upload-1',
+          chunkIndex: 0,
+          totalChunks: 1,
+          offset: 0,
+          chunkData: new Blob(['x']),
+        })
+      ).rejects.toMatchObject({ name: 'AuthError', kind: 'auth', retryable: false, status: 401 });
+    });
+
+    it('should reject with a network error when no response arrives', async () => {
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        fetch: vi.fn().mockRejectedValue(new TypeError('Failed to fetch')),
+      });
+
+      await expect(
+        transport.uploadChunk({
+          uploadId: 'upload-1',
+          chunkIndex: 0,
+          totalChunks: 1,
+          offset: 0,
+          chunkData: new Blob(['x']),
+        })
+      ).rejects.toMatchObject({ kind: 'network', retryable: true });
+    });
+  });
+
+  describe('getUploadedChunks', () => {
+    it('should return chunk indices reported by the server', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(mockResponse(200, [0, 1, 4]));
+      const transport = createHttpTransport({ endpoint: 'https://api.test/upload', fetch: fetchMock });
+
+      await expect(transport.getUploadedChunks(createUploadState('upload-1', 'file.bin', 50, 5, 10))).resolves.toEqual([0, 1, 4]);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.test/upload/upload-1/chunks');
+    });
+
+    it('should report an upload the server has discarded as expired', async () => {
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        fetch: vi.fn().mockResolvedValue(mockResponse(404)),
+      });
+
+      await expect(transport.getUploadedChunks(createUploadState('missing', 'file.bin', 50, 5, 10))).rejects.toMatchObject({
+        kind: 'session-expired',
+        status: 404,
+      });
+    });
+
+    it('should reject malformed responses', async () => {
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        fetch: vi.fn().mockResolvedValue(mockResponse(200, { chunks: 'nope' })),
+      });
+
+      await expect(transport.getUploadedChunks(createUploadState('upload-1', 'file.bin', 50, 5, 10))).rejects.toThrow();
+    });
+  });
+
+  describe('initUpload', () => {
+    it('should POST file details and return the server-issued upload ID and limits', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        mockResponse(201, { uploadId: 'srv-42', limits: { maxChunkSize: 1024 } })
+      );
+      const transport = createHttpTransport({ endpoint: 'https://api.test/upload/', fetch: fetchMock });
+
+      const session = await transport.initUpload!({ fileName: 'file.bin', fileSize: 50 });
+
+      expect(session).toEqual({ uploadId: 'srv-42', limits: { maxChunkSize: 1024 } });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.test/upload');
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual({ fileName: 'file.bin', fileSize: 50 });
+    });
+
+    it('should return the Content-Encodings the server accepts', async () => {
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        fetch: vi.fn().mockResolvedValue(mockResponse(201, { uploadId: 'srv-42', contentEncodings: ['gzip'] })),
+      });
+
+      const session = await transport.initUpload!({ fileName: 'file.bin', fileSize: 50 });
+
+      expect(session.contentEncodings).toEqual(['gzip']);
+      expect(transport.contentEncodings).toEqual(['gzip', 'deflate']);
+    });
+
+    it('should reject responses without an upload ID', async () => {
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        fetch: vi.fn().mockResolvedValue(mockResponse(201, {})),
+      });
+
+      await expect(transport.initUpload!({ fileName: 'file.bin', fileSize: 50 })).rejects.toThrow(
+        'Invalid start upload response'
+      );
+    });
+  });
+
+  describe('completeUpload', () => {
+    it('should POST file details to the complete endpoint and return the final object', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        mockResponse(200, { location: '/data/upload-1/file', checksum: 'sha256:abc', size: 50 })
+      );
+      const transport = createHttpTransport({ endpoint: 'https://api.test/upload', fetch: fetchMock });
+
+      const result = await transport.completeUpload!(createUploadState('upload-1', 'file.bin', 50, 5, 10));
+
+      expect(result).toEqual({ location: '/data/upload-1/file', checksum: 'sha256:abc' });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('https://api.test/upload/upload-1/complete');
+      expect(init.method).toBe('POST');
+      expect(JSON.parse(init.body)).toEqual({ fileName: 'file.bin', fileSize: 50, totalChunks: 5 });
+    });
+
+    it('should throw when the server cannot assemble the file', async () => {
+      const transport = createHttpTransport({
+        endpoint: 'https://api.test/upload',
+        fetch: vi.fn().mockResolvedValue(mockResponse(409, { missing: [3] })),
+      });
+
+      await expect(
+        transport.completeUpload!(createUploadState('upload-1', 'file.bin', 50, 5, 10))
+      ).rejects.toThrow('HTTP 409');
+    });
+  });
+
+  describe('abortUpload', () => {
+    it('should DELETE the upload and tolerate uploads that are already gone', async () => {
+      const fetchMock = vi.fn().mockResolvedValueOnce(mockResponse(204)).mockResolvedValueOnce(mockResponse(404));
+      const transport = createHttpTransport({ endpoint: 'https://api.test/upload', fetch: fetchMock });
+      const state = createUploadState('upload-1', 'file.bin', 50, 5, 10);
+
+      await transport.abortUpload!(state);
+      await expect(transport.abortUpload!(state)).resolves.toBeUndefined();
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.test/upload/upload-1');
+      expect(fetchMock.mock.calls[0][1].method).toBe('DELETE');
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  NetworkProfile,
+  createNetworkSimulator,
+  createRng,
+  formatFailureRates,
+  isOfflineAt,
+  parseFailureRates,
+} from '../networkSimulator';
+import { NetworkError } from '../uploadErrors';
+import { ChunkUploadRequest } from '../../types/upload';
+
+function createProfile(overrides: Partial<NetworkProfile> = {}): NetworkProfile {
+  return {
+    id: 'test',
+    label: 'Test',
+    latencyMs: 100,
+    jitterMs: 0,
+    bandwidthBytesPerSec: null,
+    failureRates: {},
+    offlineWindows: [],
+    seed: 1,
+    ...overrides,
+  };
+}
+
+function createRequest(size: number, overrides: Partial<ChunkUploadRequest> = {}): ChunkUploadRequest {
+  return {
+    uploadId: 'upload-1',
+    chunkIndex: 0,
+    totalChunks: 1,
+    offset: 0,
+    chunkData: new Blob([new Uint8Array(size)]),
+    ...overrides,
+  };
+}
+
+// Runs a simulated send to completion and reports how long it took on the fake clock
+async function timeSend(profile: NetworkProfile, request: ChunkUploadRequest): Promise<number> {
+  const simulator = createNetworkSimulator(profile);
+  const startedAt = Date.now();
+  const outcome = simulator.sendChunk(request).then(
+    () => null,
+    (error: unknown) => error
+  );
+  await vi.runAllTimersAsync();
+  const error = await outcome;
+  if (error) {
+    throw error;
+  }
+  return Date.now() - startedAt;
+}
+
+describe('networkSimulator', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createRng', () => {
+    it('should repeat the same sequence for the same seed', () => {
+      const first = createRng(42);
+      const second = createRng(42);
+      const sequence = Array.from({ length: 5 }, () => first());
+
+      expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+      sequence.forEach((value) => {
+        expect(value).toBeGreaterThanOrEqual(0);
+        expect(value).toBeLessThan(1);
+      });
+    });
+
+    it('should differ between seeds', () => {
+      expect(createRng(1)()).not.toBe(createRng(2)());
+    });
+  });
+
+  describe('isOfflineAt', () => {
+    it('should cover a one-off window', () => {
+      const windows = [{ startMs: 1000, durationMs: 500 }];
+      expect(isOfflineAt(windows, 999)).toBe(false);
+      expect(isOfflineAt(windows, 1000)).toBe(true);
+      expect(isOfflineAt(windows, 1499)).toBe(true);
+      expect(isOfflineAt(windows, 1500)).toBe(false);
+      expect(isOfflineAt(windows, 10_000)).toBe(false);
+    });
+
+    it('should repeat a periodic window', () => {
+      const windows = [{ startMs: 1000, durationMs: 500, repeatEveryMs: 2000 }];
+      expect(isOfflineAt(windows, 3200)).toBe(true);
+      expect(isOfflineAt(windows, 3600)).toBe(false);
+    });
+  });
+
+  describe('failure rates', () => {
+    it('should round-trip through the editor format', () => {
+      const rates = { 503: 0.1, 429: 0.05 };
+      expect(parseFailureRates(formatFailureRates(rates))).toEqual(rates);
+      expect(parseFailureRates('')).toEqual({});
+    });
+
+    it('should reject malformed or impossible rates', () => {
+      expect(() => parseFailureRates('503:10')).toThrow('Invalid failure rate');
+      expect(() => parseFailureRates('500=60%, 503=60%')).toThrow('more than 100%');
+    });
+  });
+
+  describe('sendChunk', () => {
+    it('should take latency plus size over bandwidth', async () => {
+      vi.useFakeTimers();
+      const profile = createProfile({ latencyMs: 100, bandwidthBytesPerSec: 1000 });
+
+      expect(await timeSend(profile, createRequest(500))).toBeGreaterThanOrEqual(600);
+      expect(await timeSend(profile, createRequest(2000))).toBeGreaterThanOrEqual(2100);
+    });
+
+    it('should report progress up to the chunk size', async () => {
+      vi.useFakeTimers();
+      const onProgress = vi.fn();
+
+      await timeSend(createProfile({ bandwidthBytesPerSec: 1000 }), createRequest(400, { onProgress }));
+
+      expect(onProgress.mock.calls.length).toBeGreaterThan(1);
+      expect(onProgress).toHaveBeenLastCalledWith(400);
+    });
+
+    it('should fail with a status code drawn from the failure rates', async () => {
+      vi.useFakeTimers();
+      const profile = createProfile({ failureRates: { 503: 1 } });
+
+      await expect(timeSend(profile, createRequest(10, { chunkIndex: 3 }))).rejects.toMatchObject({
+        message: 'Failed to upload chunk 3: HTTP 503',
+        kind: 'server',
+        retryable: true,
+      });
+    });
+
+    it('should reproduce the same failures for the same seed', async () => {
+      vi.useFakeTimers();
+      const profile = createProfile({ latencyMs: 0, failureRates: { 500: 0.5 }, seed: 7 });
+
+      const run = async () => {
+        const simulator = createNetworkSimulator(profile);
+        const outcomes: boolean[] = [];
+        for (let i = 0; i < 10; i++) {
+          const pending = simulator.sendChunk(createRequest(1)).then(
+            () => true,
+            () => false
+          );
+          await vi.runAllTimersAsync();
+          outcomes.push(await pending);
+        }
+        return outcomes;
+      };
+
+      const first = await run();
+      expect(await run()).toEqual(first);
+      expect(first).toContain(true);
+      expect(first).toContain(false);
+    });
+
+    it('should fail with a network error while offline', async () => {
+      vi.useFakeTimers();
+      const profile = createProfile({ offlineWindows: [{ startMs: 0, durationMs: 1000 }] });
+
+      await expect(timeSend(profile, createRequest(10))).rejects.toThrow(NetworkError);
+    });
+
+    it('should break a transfer when an outage starts mid-chunk', async () => {
+      vi.useFakeTimers();
+      const profile = createProfile({
+        bandwidthBytesPerSec: 1000,
+        offlineWindows: [{ startMs: 500, durationMs: 1000 }],
+      });
+
+      await expect(timeSend(profile, createRequest(2000))).rejects.toThrow('simulated offline');
+    });
+
+    it('should reject with an AbortError when aborted', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const simulator = createNetworkSimulator(createProfile());
+
+      const pending = simulator.sendChunk(createRequest(10, { signal: controller.signal }));
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createProgressFetch, xhrFetch } from '../progressFetch';
+
+/**
+ * Scripted XMLHttpRequest: records the request and lets the test drive upload progress and the response
+ */
+class FakeXhr {
+  static last: FakeXhr;
+  method = '';
+  url = '';
+  headers: Record<string, string> = {};
+  body: unknown;
+  status = 0;
+  statusText = '';
+  responseText = '';
+  responseHeaders = '';
+  upload: { onprogress: ((event: { loaded: number }) => void) | null } = { onprogress: null };
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+
+  constructor() {
+    FakeXhr.last = this;
+  }
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  getAllResponseHeaders() {
+    return this.responseHeaders;
+  }
+
+  send(body: unknown) {
+    this.body = body;
+  }
+
+  abort() {
+    this.onabort?.();
+  }
+
+  respond(status: number, responseText = '', responseHeaders = '') {
+    this.status = status;
+    this.responseText = responseText;
+    this.responseHeaders = responseHeaders;
+    this.onload?.();
+  }
+}
+
+describe('progressFetch', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send the request with XHR and report upload progress', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+    const onProgress = vi.fn();
+    const body = new Blob(['0123456789']);
+
+    const pending = xhrFetch('https://api.test/chunk', { method: 'PUT', headers: { 'X-Chunk-Index': '3' }, body }, onProgress);
+    const xhr = FakeXhr.last;
+    xhr.upload.onprogress?.({ loaded: 4 });
+    xhr.upload.onprogress?.({ loaded: 10 });
+    xhr.respond(200, '{"ok":true}', 'ETag: "abc"\r\nContent-Type: application/json\r\n');
+
+    const response = await pending;
+    expect(xhr.method).toBe('PUT');
+    expect(xhr.headers).toEqual({ 'x-chunk-index': '3' });
+    expect(xhr.body).toBe(body);
+    expect(onProgress.mock.calls).toEqual([[4], [10]]);
+    expect(response.status).toBe(200);
+    expect(response.headers.get('ETag')).toBe('"abc"');
+    await expect(response.json()).resolves.toEqual({ ok: true });
+  });
+
+  it('should resolve responses without a body', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+
+    const pending = xhrFetch('https://api.test/chunk', { method: 'PATCH' });
+    FakeXhr.last.respond(204, '');
+
+    await expect(pending).resolves.toHaveProperty('status', 204);
+  });
+
+  it('should reject network errors like fetch', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+
+    const pending = xhrFetch('https://api.test/chunk', { method: 'PUT' });
+    FakeXhr.last.onerror?.();
+
+    await expect(pending).rejects.toThrow(TypeError);
+  });
+
+  it('should reject timeouts with a TimeoutError', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+
+    const pending = xhrFetch('https://api.test/chunk', { method: 'PUT' });
+    FakeXhr.last.ontimeout?.();
+
+    await expect(pending).rejects.toMatchObject({ name: 'TimeoutError' });
+  });
+
+  it('should abort the request when the signal fires', async () => {
+    vi.stubGlobal('XMLHttpRequest', FakeXhr);
+    const controller = new AbortController();
+
+    const pending = xhrFetch('https://api.test/chunk', { method: 'PUT', signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    await expect(xhrFetch('https://api.test/chunk', { signal: controller.signal })).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+  });
+
+  it('should use a configured fetch instead of XHR', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+
+    const response = await createProgressFetch(fetchMock)('https://api.test/chunk', { method: 'PUT' }, vi.fn());
+
+    expect(response.status).toBe(204);
+    expect(fetchMock).toHaveBeenCalledWith('https://api.test/chunk', { method: 'PUT' });
+  });
+});
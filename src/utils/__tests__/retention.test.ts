@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { getEvictionOrder, isQuotaExceeded, parseExpiresAt, planRetention } from '../retention';
+import { createUploadState } from '../uploadState';
+import { UploadState } from '../../types/upload';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+function upload(uploadId: string, lastUpdate: number, extra: Partial<UploadState> = {}, uploaded = false): UploadState {
+  const state = createUploadState(uploadId, `${uploadId}.bin`, 1024, 2, 512);
+  return { ...state, lastUpdate, chunks: state.chunks.map((chunk) => ({ ...chunk, uploaded })), ...extra };
+}
+
+const ids = (states: UploadState[]) => states.map((state) => state.uploadId);
+
+describe('retention', () => {
+  describe('planRetention', () => {
+    it('should expire unfinished uploads without progress for the configured days', () => {
+      const states = [upload('old', NOW - 8 * DAY), upload('recent', NOW - 6 * DAY)];
+
+      expect(ids(planRetention(states, { incompleteDays: 7, keepCompleted: 10 }, NOW).expired)).toEqual(['old']);
+    });
+
+    it('should keep only the most recent completed uploads', () => {
+      const states = [
+        upload('second', NOW - 2 * DAY, {}, true),
+        upload('newest', NOW - DAY, {}, true),
+        upload('oldest', NOW - 30 * DAY, {}, true),
+      ];
+
+      expect(ids(planRetention(states, { incompleteDays: 7, keepCompleted: 2 }, NOW).expired)).toEqual(['oldest']);
+      expect(planRetention(states, { incompleteDays: 7, keepCompleted: 0 }, NOW).expired).toHaveLength(3);
+    });
+
+    it('should mark unfinished uploads stale once the server expiry has passed', () => {
+      const states = [
+        upload('session-expired', NOW - DAY, { remoteSession: { location: '/files/1', expiresAt: NOW - 1 } }),
+        upload('upload-expired', NOW - DAY, { expiresAt: NOW }),
+        upload('not-yet', NOW - DAY, { expiresAt: NOW + DAY }),
+        upload('marked', NOW - DAY, { expiresAt: NOW - 1, stale: { since: NOW - 1, reason: 'Gone' } }),
+        upload('finished', NOW - DAY, { expiresAt: NOW - 1 }, true),
+      ];
+
+      expect(ids(planRetention(states, { incompleteDays: 7, keepCompleted: 10 }, NOW).stale)).toEqual([
+        'session-expired',
+        'upload-expired',
+      ]);
+    });
+  });
+
+  describe('getEvictionOrder', () => {
+    it('should delete completed uploads first, then stale ones, then the oldest unfinished', () => {
+      const stale = { since: NOW, reason: 'Gone' };
+      const states = [
+        upload('active-new', NOW - DAY),
+        upload('writing', NOW - 9 * DAY),
+        upload('stale', NOW - DAY, { stale }),
+        upload('done-new', NOW - DAY, {}, true),
+        upload('active-old', NOW - 5 * DAY),
+        upload('done-old', NOW - 5 * DAY, {}, true),
+      ];
+
+      expect(ids(getEvictionOrder(states, 'writing'))).toEqual([
+        'done-old',
+        'done-new',
+        'stale',
+        'active-old',
+        'active-new',
+      ]);
+    });
+  });
+
+  describe('parseExpiresAt', () => {
+    it('should read epoch milliseconds and date strings', () => {
+      expect(parseExpiresAt(1_700_000_000_000)).toBe(1_700_000_000_000);
+      expect(parseExpiresAt('2014-06-25T16:00:00Z')).toBe(Date.UTC(2014, 5, 25, 16));
+      expect(parseExpiresAt('Wed, 25 Jun 2014 16:00:00 GMT')).toBe(Date.UTC(2014, 5, 25, 16));
+      expect(parseExpiresAt('soon')).toBeUndefined();
+      expect(parseExpiresAt(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('isQuotaExceeded', () => {
+    it('should recognize quota errors only', () => {
+      expect(isQuotaExceeded(new DOMException('Full', 'QuotaExceededError'))).toBe(true);
+      expect(isQuotaExceeded(new DOMException('Full', 'NS_ERROR_DOM_QUOTA_REACHED'))).toBe(true);
+      expect(isQuotaExceeded(new DOMException('Aborted', 'AbortError'))).toBe(false);
+      expect(isQuotaExceeded(new Error('QuotaExceededError'))).toBe(false);
+    });
+  });
+});
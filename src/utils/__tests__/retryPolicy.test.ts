@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, getBackoffDelay, getRetryRule, planRetry } from '../retryPolicy';
+import { AuthError, NetworkError, PayloadTooLargeError, QuotaError, ServerError } from '../uploadErrors';
+
+const policy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 100,
+  maxDelayMs: 1000,
+  jitter: 'none',
+  retryBudget: 10,
+  overrides: {},
+};
+
+describe('retryPolicy', () => {
+  describe('getBackoffDelay', () => {
+    it('should double the delay with every retry up to the maximum', () => {
+      expect([1, 2, 3, 4, 5].map((retry) => getBackoffDelay(policy, policy, retry))).toEqual([
+        100, 200, 400, 800, 1000,
+      ]);
+    });
+
+    it('should pick a random delay up to the backoff with full jitter', () => {
+      const jittered = { ...policy, jitter: 'full' as const };
+      expect(getBackoffDelay(jittered, jittered, 3, () => 0.25)).toBe(100);
+      expect(getBackoffDelay(jittered, jittered, 3, () => 0)).toBe(0);
+    });
+  });
+
+  describe('planRetry', () => {
+    const serverError = new ServerError('HTTP 503', { status: 503 });
+
+    it('should schedule a retry after the backoff delay', () => {
+      expect(planRetry(policy, serverError, 2, 2, 1000)).toEqual({ retryable: true, retryAt: 1200 });
+    });
+
+    it('should give up after the maximum attempts', () => {
+      expect(planRetry(policy, serverError, 4, 4, 1000)).toEqual({ retryable: true });
+    });
+
+    it('should give up when the upload has spent its retry budget', () => {
+      expect(planRetry(policy, serverError, 1, 11, 1000)).toEqual({ retryable: true });
+    });
+
+    it('should never retry non-retryable errors', () => {
+      expect(planRetry(policy, new AuthError('HTTP 401', { status: 401 }), 1, 1)).toEqual({ retryable: false });
+    });
+
+    it('should wait at least as long as Retry-After', () => {
+      const rateLimited = new QuotaError('HTTP 429', { status: 429, retryAfterMs: 5000 });
+      expect(planRetry(policy, rateLimited, 1, 1, 1000).retryAt).toBe(6000);
+    });
+
+    it('should apply per error class overrides', () => {
+      const custom: RetryPolicy = {
+        ...policy,
+        overrides: { network: { maxAttempts: 10, baseDelayMs: 50 }, 'payload-too-large': { retryable: true } },
+      };
+
+      expect(planRetry(custom, new NetworkError('offline'), 6, 6, 0)).toEqual({ retryable: true, retryAt: 1000 });
+      expect(planRetry(custom, new PayloadTooLargeError('HTTP 413', { status: 413 }), 1, 1, 0)).toEqual({
+        retryable: true,
+        retryAt: 100,
+      });
+    });
+  });
+
+  it('should give network errors more attempts by default', () => {
+    expect(getRetryRule(DEFAULT_RETRY_POLICY, 'network').maxAttempts).toBeGreaterThan(
+      getRetryRule(DEFAULT_RETRY_POLICY, 'server').maxAttempts
+    );
+  });
+});
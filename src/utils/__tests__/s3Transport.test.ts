@@ -0,0 +1,265 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildCompleteXml, createS3Transport, getObjectKey, S3_LIMITS } from '../s3Transport';
+import { createUploadState } from '../uploadState';
+
+const SIGNER = 'https://api.test/s3/sign';
+
+function signed(url: string): Response {
+  return new Response(JSON.stringify({ url }), { status: 200 });
+}
+
+function xml(body: string, status = 200): Response {
+  return new Response(body, { status, headers: { 'Content-Type': 'application/xml' } });
+}
+
+function createState() {
+  const state = createUploadState('upload-1', 'model.bin', 30, 3, 10);
+  state.remoteSession = { location: 's3-upload-id', key: 'upload-1/model.bin' };
+  return state;
+}
+
+describe('s3Transport', () => {
+  it('should expose S3 multipart limits', () => {
+    const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: vi.fn() });
+    expect(transport.limits).toEqual(S3_LIMITS);
+    expect(S3_LIMITS.minChunkSize).toBe(5 * 1024 * 1024);
+    expect(S3_LIMITS.maxChunks).toBe(10000);
+  });
+
+  describe('getObjectKey', () => {
+    it('should combine prefix, upload ID and file name', () => {
+      const state = createUploadState('upload-1', 'model.bin', 30, 3, 10);
+      expect(getObjectKey(state)).toBe('upload-1/model.bin');
+      expect(getObjectKey(state, 'datasets/')).toBe('datasets/upload-1/model.bin');
+    });
+  });
+
+  describe('buildCompleteXml', () => {
+    it('should list parts with escaped ETags', () => {
+      expect(buildCompleteXml([{ partNumber: 1, etag: '"abc"' }])).toBe(
+        '<CompleteMultipartUpload><Part><PartNumber>1</PartNumber><ETag>&quot;abc&quot;</ETag></Part></CompleteMultipartUpload>'
+      );
+    });
+  });
+
+  describe('createUpload', () => {
+    it('should sign and call CreateMultipartUpload', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/create'))
+        .mockResolvedValueOnce(
+          xml('<InitiateMultipartUploadResult><UploadId>s3-upload-id</UploadId></InitiateMultipartUploadResult>')
+        );
+      const transport = createS3Transport({ signerEndpoint: SIGNER, keyPrefix: 'data/', fetch: fetchMock });
+
+      const session = await transport.createUpload!(createUploadState('upload-1', 'model.bin', 30, 3, 10));
+
+      expect(session).toEqual({ location: 's3-upload-id', key: 'data/upload-1/model.bin' });
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({
+        operation: 'createMultipartUpload',
+        key: 'data/upload-1/model.bin',
+      });
+      expect(fetchMock.mock.calls[1]).toEqual(['https://s3.test/create', { method: 'POST' }]);
+    });
+  });
+
+  describe('uploadChunk', () => {
+    it('should PUT the part to a presigned URL and return its ETag', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/part'))
+        .mockResolvedValueOnce(new Response(null, { status: 200, headers: { ETag: '"etag-2"' } }));
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+      const chunkData = new Blob(['0123456789']);
+
+      const result = await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 1,
+        totalChunks: 3,
+        offset: 10,
+        chunkData,
+        session: { location: 's3-upload-id', key: 'upload-1/model.bin' },
+      });
+
+      expect(result).toEqual({ etag: '"etag-2"' });
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+        operation: 'uploadPart',
+        uploadId: 's3-upload-id',
+        partNumber: 2,
+      });
+      expect(fetchMock.mock.calls[1][1]).toEqual({ method: 'PUT', body: chunkData });
+    });
+
+    it('should have S3 verify the part against its SHA-256', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/part'))
+        .mockResolvedValueOnce(new Response(null, { status: 200, headers: { ETag: '"etag-1"' } }));
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 0,
+        totalChunks: 1,
+        offset: 0,
+        chunkData: new Blob(['abc']),
+        checksum: 'sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+        session: { location: 's3-upload-id', key: 'upload-1/model.bin' },
+      });
+
+      const checksumSha256 = 'ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=';
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ operation: 'uploadPart', checksumSha256 });
+      expect(fetchMock.mock.calls[1][1].headers).toEqual({ 'x-amz-checksum-sha256': checksumSha256 });
+    });
+
+    it('should report BadDigest as a retryable checksum mismatch', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/part'))
+        .mockResolvedValueOnce(
+          new Response('<Error><Code>BadDigest</Code><Message>The checksum did not match</Message></Error>', {
+            status: 400,
+          })
+        );
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+
+      await expect(
+        transport.uploadChunk({
+          uploadId: 'upload-1',
+          chunkIndex: 0,
+          totalChunks: 1,
+          offset: 0,
+          chunkData: new Blob(['abc']),
+          session: { location: 's3-upload-id', key: 'upload-1/model.bin' },
+        })
+      ).rejects.toMatchObject({ kind: 'checksum', retryable: true, status: 400 });
+    });
+
+    it('should fail when the ETag header is not exposed', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/part'))
+        .mockResolvedValueOnce(new Response(null, { status: 200 }));
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+
+      await expect(
+        transport.uploadChunk({
+          uploadId: 'upload-1',
+          chunkIndex: 0,
+          totalChunks: 1,
+          offset: 0,
+          chunkData: new Blob(['x']),
+          session: { location: 's3-upload-id', key: 'upload-1/model.bin' },
+        })
+      ).rejects.toThrow('ETag');
+    });
+  });
+
+  describe('getUploadedChunks', () => {
+    it('should use ListParts and follow pagination', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/list-1'))
+        .mockResolvedValueOnce(
+          xml(
+            '<ListPartsResult><IsTruncated>true</IsTruncated><NextPartNumberMarker>1</NextPartNumberMarker>' +
+              '<Part><PartNumber>1</PartNumber><ETag>"a"</ETag></Part></ListPartsResult>'
+          )
+        )
+        .mockResolvedValueOnce(signed('https://s3.test/list-2'))
+        .mockResolvedValueOnce(
+          xml(
+            '<ListPartsResult><IsTruncated>false</IsTruncated>' +
+              '<Part><PartNumber>3</PartNumber><ETag>"c"</ETag></Part></ListPartsResult>'
+          )
+        );
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+
+      await expect(transport.getUploadedChunks(createState())).resolves.toEqual([0, 2]);
+      expect(JSON.parse(fetchMock.mock.calls[2][1].body).partNumberMarker).toBe(1);
+    });
+
+    it('should report an upload S3 no longer knows as expired', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/list'))
+        .mockResolvedValueOnce(xml('<Error><Code>NoSuchUpload</Code></Error>', 404));
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+
+      await expect(transport.getUploadedChunks(createState())).rejects.toMatchObject({
+        kind: 'session-expired',
+        status: 404,
+      });
+    });
+  });
+
+  describe('completeUpload', () => {
+    it('should send every part with its stored ETag', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/complete'))
+        .mockResolvedValueOnce(
+          xml('<CompleteMultipartUploadResult><Location>https://bucket.s3.test/obj</Location></CompleteMultipartUploadResult>')
+        );
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+      const state = createState();
+      state.chunks = state.chunks.map((chunk) => ({ ...chunk, uploaded: true, etag: `"e${chunk.chunkIndex}"` }));
+
+      await expect(transport.completeUpload!(state)).resolves.toEqual({ location: 'https://bucket.s3.test/obj' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const body = fetchMock.mock.calls[1][1].body as string;
+      expect(body).toContain('<PartNumber>1</PartNumber><ETag>&quot;e0&quot;</ETag>');
+      expect(body).toContain('<PartNumber>3</PartNumber><ETag>&quot;e2&quot;</ETag>');
+    });
+
+    it('should fetch missing ETags with ListParts', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/list'))
+        .mockResolvedValueOnce(
+          xml('<ListPartsResult><Part><PartNumber>2</PartNumber><ETag>"listed"</ETag></Part></ListPartsResult>')
+        )
+        .mockResolvedValueOnce(signed('https://s3.test/complete'))
+        .mockResolvedValueOnce(xml('<CompleteMultipartUploadResult></CompleteMultipartUploadResult>'));
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+      const state = createState();
+      state.chunks = state.chunks.map((chunk) => ({
+        ...chunk,
+        uploaded: true,
+        etag: chunk.chunkIndex === 1 ? undefined : `"e${chunk.chunkIndex}"`,
+      }));
+
+      await transport.completeUpload!(state);
+
+      expect(fetchMock.mock.calls[3][1].body).toContain('<PartNumber>2</PartNumber><ETag>&quot;listed&quot;</ETag>');
+    });
+
+    it('should detect errors reported inside a 200 response', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/complete'))
+        .mockResolvedValueOnce(xml('<Error><Code>InternalError</Code></Error>'));
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+      const state = createState();
+      state.chunks = state.chunks.map((chunk) => ({ ...chunk, uploaded: true, etag: '"e"' }));
+
+      await expect(transport.completeUpload!(state)).rejects.toThrow('Failed to complete');
+    });
+  });
+
+  describe('abortUpload', () => {
+    it('should call AbortMultipartUpload', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(signed('https://s3.test/abort'))
+        .mockResolvedValueOnce(new Response(null, { status: 204 }));
+      const transport = createS3Transport({ signerEndpoint: SIGNER, fetch: fetchMock });
+
+      await transport.abortUpload!(createState());
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).operation).toBe('abortMultipartUpload');
+      expect(fetchMock.mock.calls[1]).toEqual(['https://s3.test/abort', { method: 'DELETE' }]);
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runScheduler } from '../scheduler';
+
+// Pending tasks in order, handed out one at a time
+const queue = (tasks: number[]) => {
+  const pending = [...tasks];
+  return () => pending.shift() ?? null;
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('scheduler', () => {
+  it('should run every task and resolve once they have settled', async () => {
+    const done: number[] = [];
+
+    await runScheduler<number>({
+      concurrency: () => 2,
+      next: queue([0, 1, 2, 3]),
+      nextWakeAt: () => null,
+      run: async (task) => {
+        await delay(1);
+        done.push(task);
+      },
+      shouldStop: () => false,
+    });
+
+    expect(done.sort()).toEqual([0, 1, 2, 3]);
+  });
+
+  it('should start the next task as soon as a slot frees', async () => {
+    const finished: number[] = [];
+
+    await runScheduler<number>({
+      concurrency: () => 2,
+      next: queue([0, 1, 2, 3]),
+      nextWakeAt: () => null,
+      run: async (task) => {
+        // Task 0 is slow; 1, 2 and 3 share the other slot meanwhile
+        await delay(task === 0 ? 50 : 1);
+        finished.push(task);
+      },
+      shouldStop: () => false,
+    });
+
+    expect(finished).toEqual([1, 2, 3, 0]);
+  });
+
+  it('should never exceed the concurrency', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    await runScheduler<number>({
+      concurrency: () => 3,
+      next: queue([0, 1, 2, 3, 4, 5, 6, 7]),
+      nextWakeAt: () => null,
+      run: async () => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await delay(2);
+        inFlight--;
+      },
+      shouldStop: () => false,
+    });
+
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should report the tasks in flight', async () => {
+    const snapshots: number[][] = [];
+
+    await runScheduler<number>({
+      concurrency: () => 2,
+      next: queue([0, 1]),
+      nextWakeAt: () => null,
+      run: () => delay(1),
+      shouldStop: () => false,
+      onInFlightChange: (inFlight) => snapshots.push([...inFlight]),
+    });
+
+    expect(snapshots[0]).toEqual([0]);
+    expect(snapshots[1]).toEqual([0, 1]);
+    expect(snapshots[snapshots.length - 1]).toEqual([]);
+  });
+
+  it('should wait for tasks that become ready later', async () => {
+    const readyAt = Date.now() + 30;
+    let picked = false;
+    const run = vi.fn().mockResolvedValue(undefined);
+
+    await runScheduler<number>({
+      concurrency: () => 1,
+      next: () => {
+        if (picked || Date.now() < readyAt) {
+          return null;
+        }
+        picked = true;
+        return 7;
+      },
+      nextWakeAt: () => (picked ? null : readyAt),
+      run,
+      shouldStop: () => false,
+    });
+
+    expect(run).toHaveBeenCalledWith(7);
+    expect(Date.now()).toBeGreaterThanOrEqual(readyAt);
+  });
+
+  it('should start nothing new after a stop but let running tasks finish', async () => {
+    let stopped = false;
+    const finished: number[] = [];
+
+    await runScheduler<number>({
+      concurrency: () => 2,
+      next: queue([0, 1, 2, 3]),
+      nextWakeAt: () => null,
+      run: async (task) => {
+        stopped = true;
+        await delay(5);
+        finished.push(task);
+      },
+      shouldStop: () => stopped,
+    });
+
+    expect(finished.sort()).toEqual([0, 1]);
+  });
+
+  it('should keep going when a task rejects', async () => {
+    const run = vi.fn().mockRejectedValueOnce(new Error('boom')).mockResolvedValue(undefined);
+
+    await runScheduler<number>({
+      concurrency: () => 1,
+      next: queue([0, 1]),
+      nextWakeAt: () => null,
+      run,
+      shouldStop: () => false,
+    });
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createStatePersister, getJournalEntries } from '../statePersister';
+import { createMemoryStateStore } from '../stateStore';
+import { createUploadState, loadUploadState, resizePendingChunks, saveUploadState, updateChunkStatus } from '../uploadState';
+import { SCHEMA_VERSION } from '../stateSchema';
+
+function createSpiedStore() {
+  const store = createMemoryStateStore();
+  vi.spyOn(store, 'save');
+  vi.spyOn(store, 'append');
+  return store;
+}
+
+describe('statePersister', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('getJournalEntries', () => {
+    it('should list the chunks whose status changed', () => {
+      const state = createUploadState('id1', 'data.bin', 100, 10, 10);
+      const updated = updateChunkStatus(updateChunkStatus(state, 2, true, false, { etag: '"c"' }), 5, false, true);
+
+      expect(getJournalEntries(state, updated, [2, 5])).toEqual([
+        { chunkIndex: 2, uploaded: true, failed: false, retryCount: 0, etag: '"c"', lastUpdate: updated.lastUpdate },
+        { chunkIndex: 5, uploaded: false, failed: true, retryCount: 1, lastUpdate: updated.lastUpdate },
+      ]);
+    });
+
+    it('should ask for a snapshot when more than chunk statuses changed', () => {
+      const state = updateChunkStatus(createUploadState('id1', 'data.bin', 100, 10, 10), 0, true);
+
+      expect(getJournalEntries(state, resizePendingChunks(state, 30), [])).toBeNull();
+      expect(getJournalEntries(state, { ...state, result: { location: '/data/id1' } }, [])).toBeNull();
+    });
+  });
+
+  it('should write the latest of the updates made within the interval', async () => {
+    vi.useFakeTimers();
+    const store = createSpiedStore();
+    const persister = createStatePersister(store, { interval: 1000 });
+    const state = createUploadState('id1', 'data.bin', 100, 10, 10);
+
+    persister.update(state);
+    persister.update(updateChunkStatus(state, 0, true), [0]);
+    const latest = updateChunkStatus(updateChunkStatus(state, 0, true), 1, true);
+    persister.update(latest, [1]);
+    expect(store.save).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(store.save).toHaveBeenCalledTimes(1);
+    expect(await loadUploadState('id1', store)).toEqual({ ...latest, schemaVersion: SCHEMA_VERSION });
+  });
+
+  it('should journal chunk updates after the first snapshot', async () => {
+    const store = createSpiedStore();
+    const persister = createStatePersister(store);
+    let state = createUploadState('id1', 'data.bin', 100, 10, 10);
+
+    persister.update(state);
+    await persister.flush();
+    for (const chunkIndex of [0, 1, 2]) {
+      state = updateChunkStatus(state, chunkIndex, true);
+      persister.update(state, [chunkIndex]);
+      await persister.flush();
+    }
+
+    expect(store.save).toHaveBeenCalledTimes(1);
+    expect(store.append).toHaveBeenCalledTimes(3);
+    expect(await loadUploadState('id1', store)).toEqual({ ...state, schemaVersion: SCHEMA_VERSION });
+  });
+
+  it('should compact the journal into a snapshot once it is long enough', async () => {
+    const store = createSpiedStore();
+    const persister = createStatePersister(store, { compactAfter: 2 });
+    let state = createUploadState('id1', 'data.bin', 100, 10, 10);
+
+    persister.update(state);
+    await persister.flush();
+    for (const chunkIndex of [0, 1, 2, 3, 4]) {
+      state = updateChunkStatus(state, chunkIndex, true);
+      persister.update(state, [chunkIndex]);
+      await persister.flush();
+    }
+
+    // Updates 1-2 are journaled, 3 would make the journal too long and compacts it, 4-5 are journaled
+    expect(store.append).toHaveBeenCalledTimes(4);
+    expect(store.save).toHaveBeenCalledTimes(2);
+    expect(((await store.load('id1')) as { journal: unknown[] }).journal).toHaveLength(2);
+    expect(await loadUploadState('id1', store)).toEqual({ ...state, schemaVersion: SCHEMA_VERSION });
+  });
+
+  it('should write a snapshot after a failed write', async () => {
+    const store = createSpiedStore();
+    const persister = createStatePersister(store);
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    let state = createUploadState('id1', 'data.bin', 100, 10, 10);
+    persister.update(state);
+    await persister.flush();
+
+    vi.mocked(store.append).mockRejectedValueOnce(new Error('QuotaExceededError'));
+    state = updateChunkStatus(state, 0, true);
+    persister.update(state, [0]);
+    await persister.flush();
+    state = updateChunkStatus(state, 1, true);
+    persister.update(state, [1]);
+    await persister.flush();
+
+    expect(errorSpy).toHaveBeenCalledWith('Failed to save upload state:', expect.any(Error));
+    expect(store.save).toHaveBeenCalledTimes(2);
+    expect(await loadUploadState('id1', store)).toEqual({ ...state, schemaVersion: SCHEMA_VERSION });
+  });
+
+  it('should write a snapshot when the chunk list changed without saying which chunks', async () => {
+    const store = createSpiedStore();
+    const persister = createStatePersister(store);
+    let state = createUploadState('id1', 'data.bin', 100, 10, 10);
+    persister.update(state);
+    await persister.flush();
+
+    state = updateChunkStatus(updateChunkStatus(state, 0, true), 1, true);
+    persister.update(state);
+    await persister.flush();
+
+    expect(store.append).not.toHaveBeenCalled();
+    expect(store.save).toHaveBeenCalledTimes(2);
+    expect(await loadUploadState('id1', store)).toEqual({ ...state, schemaVersion: SCHEMA_VERSION });
+  });
+
+  it('should not write the state it was given as saved until it changes', async () => {
+    const store = createSpiedStore();
+    const saved = createUploadState('id1', 'data.bin', 100, 10, 10);
+    await saveUploadState(saved, store);
+    vi.mocked(store.save).mockClear();
+    const persister = createStatePersister(store, { saved });
+
+    await persister.flush();
+    expect(store.save).not.toHaveBeenCalled();
+
+    const state = updateChunkStatus(saved, 0, true);
+    persister.update(state, [0]);
+    await persister.flush();
+
+    expect(store.save).not.toHaveBeenCalled();
+    expect(store.append).toHaveBeenCalledTimes(1);
+    expect(await loadUploadState('id1', store)).toEqual({ ...state, schemaVersion: SCHEMA_VERSION });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { SCHEMA_VERSION, readUploadState, validateUploadState } from '../stateSchema';
+import { createUploadState } from '../uploadState';
+import { compactUploadState } from '../compactState';
+import { UploadState } from '../../types/upload';
+
+function problemOf(data: unknown, journal?: unknown[]): string | undefined {
+  const read = readUploadState(data, journal);
+  return 'problem' in read ? read.problem : undefined;
+}
+
+describe('stateSchema', () => {
+  describe('readUploadState', () => {
+    it('should read a current state as it is', () => {
+      const state: UploadState = {
+        ...createUploadState('id1', 'train.jsonl', 25, 3, 10),
+        schemaVersion: SCHEMA_VERSION,
+        fingerprint: { size: 25, lastModified: 1000, sampleHash: 'sha256:abc' },
+        compression: 'gzip',
+        result: { location: '/data/id1/file', verified: true },
+      };
+
+      expect(readUploadState(JSON.parse(JSON.stringify(compactUploadState(state))))).toEqual({ state });
+    });
+
+    it('should read states that saved chunk objects', () => {
+      const state = createUploadState('id1', 'test.txt', 25, 3, 10);
+
+      expect(readUploadState({ ...state, schemaVersion: 2 })).toEqual({
+        state: { ...state, schemaVersion: SCHEMA_VERSION },
+      });
+    });
+
+    it('should apply journal entries in order', () => {
+      const state = { ...createUploadState('id1', 'test.txt', 25, 3, 10), lastUpdate: 1 };
+      const journal = [
+        { chunkIndex: 1, uploaded: false, failed: true, retryCount: 1, lastUpdate: 2 },
+        { chunkIndex: 1, uploaded: true, failed: false, retryCount: 1, etag: '"b"', lastUpdate: 3 },
+      ];
+
+      const read = readUploadState(compactUploadState({ ...state, schemaVersion: SCHEMA_VERSION }), journal);
+
+      expect(read).toEqual({
+        state: {
+          ...state,
+          chunks: [state.chunks[0], { ...state.chunks[1], uploaded: true, retryCount: 1, etag: '"b"' }, state.chunks[2]],
+          lastUpdate: 3,
+          schemaVersion: SCHEMA_VERSION,
+        },
+      });
+      expect(problemOf(compactUploadState({ ...state, schemaVersion: SCHEMA_VERSION }), [{ chunkIndex: 3 }])).toBe(
+        'Invalid journal entry 0'
+      );
+    });
+
+    it('should migrate states saved before schema versions, adding chunk byte ranges', () => {
+      const state = createUploadState('legacy', 'test.txt', 25, 3, 10);
+      const legacy = {
+        ...state,
+        chunks: state.chunks.map(({ offset: _offset, length: _length, ...chunk }) => chunk),
+      };
+
+      expect(readUploadState(legacy)).toEqual({ state: { ...state, schemaVersion: SCHEMA_VERSION } });
+    });
+
+    it('should not read states saved by a newer version of the app', () => {
+      const state = { ...createUploadState('id1', 'test.txt', 25, 3, 10), schemaVersion: SCHEMA_VERSION + 1 };
+
+      expect(problemOf(state)).toBe(`Saved by a newer version of the app (schema version ${SCHEMA_VERSION + 1})`);
+      expect(problemOf({ ...state, schemaVersion: 'two' })).toBe('Unknown schema version two');
+    });
+
+    it('should explain why data is not an upload state', () => {
+      const state = createUploadState('id1', 'test.txt', 25, 3, 10);
+
+      expect(problemOf(null)).toBe('Stored data is not an object');
+      expect(problemOf({ ...state, fileName: undefined })).toBe('Missing file name');
+      expect(problemOf({ ...state, totalChunks: 4 })).toBe('Chunk list does not match the chunk count');
+      expect(problemOf({ ...state, fileSize: 22 })).toBe('Chunk 2 has no valid byte range');
+      expect(problemOf({ ...state, chunks: [state.chunks[1], state.chunks[0], state.chunks[2]] })).toBe(
+        'Chunk 0 has index 1'
+      );
+      expect(problemOf({ ...state, compression: 'br' })).toBe('Unknown compression br');
+
+      const compact = { ...compactUploadState(state), schemaVersion: SCHEMA_VERSION };
+      expect(problemOf({ ...compact, chunkLengths: [[10, 1e9]] })).toBe('Chunk list does not match the chunk count');
+      expect(problemOf({ ...compact, uploadedRuns: [1] })).toBe('Chunk list does not match the chunk count');
+      expect(problemOf({ ...compact, chunkDetails: { 5: { failed: true } } })).toBe('Invalid details for chunk 5');
+      expect(problemOf({ ...compact, chunkDetails: { 0: { retryCount: -1 } } })).toBe('Chunk 0 has no valid status');
+    });
+  });
+
+  describe('validateUploadState', () => {
+    it('should accept encrypted uploads', () => {
+      const state = {
+        ...createUploadState('id1', 'test.txt', 25, 3, 10),
+        encryption: {
+          algorithm: 'AES-GCM',
+          keyLength: 256,
+          ivPrefix: 'AAAAAAAAAAA=',
+          wrappedKey: 'key',
+          keyAlgorithm: 'AES-KW',
+          keyDerivation: { algorithm: 'PBKDF2', hash: 'SHA-256', iterations: 600000, salt: 'salt' },
+        },
+      };
+
+      expect(validateUploadState(state)).toBeNull();
+      expect(validateUploadState({ ...state, encryption: { ...state.encryption, wrappedKey: 1 } })).toBe(
+        'Invalid encryption settings'
+      );
+    });
+  });
+});
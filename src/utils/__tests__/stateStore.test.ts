@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import {
+  StateStore,
+  createIndexedDbStateStore,
+  createLocalStorageStateStore,
+  createMemoryStateStore,
+  withQuotaEviction,
+} from '../stateStore';
+import { createUploadState } from '../uploadState';
+import { CompactUploadState, JournalEntry, compactUploadState } from '../compactState';
+import { SCHEMA_VERSION } from '../stateSchema';
+
+const createState = (uploadId: string, fileName: string, fileSize: number, totalChunks: number, chunkSize: number) =>
+  compactUploadState({
+    ...createUploadState(uploadId, fileName, fileSize, totalChunks, chunkSize),
+    schemaVersion: SCHEMA_VERSION,
+  });
+
+const entry = (chunkIndex: number, lastUpdate: number): JournalEntry => ({
+  chunkIndex,
+  uploaded: true,
+  failed: false,
+  retryCount: 0,
+  lastUpdate,
+});
+
+describe('stateStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe.each([
+    ['memory', () => createMemoryStateStore()],
+    ['localStorage', () => createLocalStorageStateStore()],
+    ['IndexedDB', () => createIndexedDbStateStore({ indexedDB: new IDBFactory() })],
+  ] as [string, () => StateStore][])('%s', (_name, createStore) => {
+    it('should save, load, list and delete states', async () => {
+      const store = createStore();
+      const first = createState('id1', 'file1.txt', 1024, 2, 512);
+      const second = createState('id2', 'file2.txt', 2048, 4, 512);
+
+      await store.save(first);
+      await store.save(second);
+
+      expect(await store.load('id1')).toEqual({ uploadId: 'id1', data: first, journal: [] });
+      expect(await store.load('missing')).toBeNull();
+      expect((await store.list()).map((state) => state.uploadId).sort()).toEqual(['id1', 'id2']);
+
+      await store.delete('id1');
+
+      expect(await store.load('id1')).toBeNull();
+      expect(await store.list()).toEqual([{ uploadId: 'id2', data: second, journal: [] }]);
+    });
+
+    it('should keep journal entries in order until the next save', async () => {
+      const store = createStore();
+      const state = createState('id1', 'file1.txt', 1024, 2, 512);
+      await store.save(state);
+
+      await store.append('id1', [entry(1, 1)]);
+      await store.append('id1', [entry(0, 2), entry(1, 3)]);
+
+      const journal = [entry(1, 1), entry(0, 2), entry(1, 3)];
+      expect(await store.load('id1')).toEqual({ uploadId: 'id1', data: state, journal });
+      expect(await store.list()).toEqual([{ uploadId: 'id1', data: state, journal }]);
+
+      await store.save({ ...state, lastUpdate: 3 });
+      expect(await store.load('id1')).toMatchObject({ journal: [] });
+
+      await store.append('id1', [entry(0, 4)]);
+      await store.delete('id1');
+      await store.save(state);
+      expect(await store.load('id1')).toMatchObject({ journal: [] });
+    });
+
+    it('should notify subscribers of saves, appends and deletes until they unsubscribe', async () => {
+      const store = createStore();
+      const listener = vi.fn();
+      const unsubscribe = store.subscribe(listener);
+
+      await store.save(createState('id1', 'file1.txt', 1024, 2, 512));
+      await store.append('id1', [entry(0, 1)]);
+      await store.delete('id1');
+      unsubscribe();
+      await store.save(createState('id2', 'file2.txt', 1024, 2, 512));
+
+      expect(listener.mock.calls).toEqual([['id1'], ['id1'], ['id1']]);
+    });
+
+    it('should not be changed by edits to saved or loaded states', async () => {
+      const store = createStore();
+      const state = createState('id1', 'file1.txt', 1024, 2, 512);
+
+      const loadData = async () => ((await store.load('id1')) as { data: CompactUploadState }).data;
+
+      await store.save(state);
+      state.uploadedRuns.push(1);
+      (await loadData()).chunkDetails[1] = { failed: true };
+
+      expect(await loadData()).toMatchObject({ uploadedRuns: [2], chunkDetails: {} });
+    });
+  });
+
+  describe('localStorage', () => {
+    it('should list entries that are not JSON with the reason', async () => {
+      const store = createLocalStorageStateStore();
+      localStorage.setItem('upload_state_broken', 'invalid json');
+      localStorage.setItem('other_key', 'value');
+      const state = createState('id1', 'file1.txt', 1024, 2, 512);
+      await store.save(state);
+
+      expect(await store.list()).toEqual(
+        expect.arrayContaining([
+          { uploadId: 'broken', error: 'Stored data is not valid JSON' },
+          { uploadId: 'id1', data: state, journal: [] },
+        ])
+      );
+      expect(await store.list()).toHaveLength(2);
+    });
+  });
+
+  describe('IndexedDB', () => {
+    it('should write only the latest of saves made while one is pending', async () => {
+      const store = createIndexedDbStateStore({ indexedDB: new IDBFactory() });
+      const listener = vi.fn();
+      store.subscribe(listener);
+      const state = createState('id1', 'file1.txt', 1024, 2, 512);
+
+      const saves = [
+        store.save(state),
+        store.save({ ...state, lastUpdate: 1 }),
+        store.save({ ...state, lastUpdate: 2 }),
+      ];
+      await Promise.all(saves);
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(await store.load('id1')).toMatchObject({ data: { lastUpdate: 2 } });
+    });
+
+    it('should apply a delete after the saves before it', async () => {
+      const store = createIndexedDbStateStore({ indexedDB: new IDBFactory() });
+      const state = createState('id1', 'file1.txt', 1024, 2, 512);
+
+      store.save(state);
+      const deleted = store.delete('id1');
+      const saved = store.save({ ...state, lastUpdate: 1 });
+      store.delete('id1');
+
+      await expect(deleted).resolves.toBeUndefined();
+      await expect(saved).resolves.toBeUndefined();
+      expect(await store.load('id1')).toBeNull();
+    });
+
+    it('should not let a save queued before an append take in a later state', async () => {
+      const store = createIndexedDbStateStore({ indexedDB: new IDBFactory() });
+      const state = createState('id1', 'file1.txt', 1024, 2, 512);
+
+      store.save(state);
+      store.save({ ...state, lastUpdate: 1 });
+      store.append('id1', [entry(0, 2)]);
+      await store.save({ ...state, uploadedRuns: [0, 2], lastUpdate: 3 });
+
+      expect(await store.load('id1')).toMatchObject({ data: { uploadedRuns: [0, 2], lastUpdate: 3 }, journal: [] });
+    });
+
+    it('should add the journal to databases created before it', async () => {
+      const factory = new IDBFactory();
+      const state = createUploadState('id1', 'file1.txt', 1024, 2, 512);
+      const request = factory.open('resumable-uploads', 1);
+      request.onupgradeneeded = () => request.result.createObjectStore('uploads', { keyPath: 'uploadId' });
+      await new Promise((resolve) => (request.onsuccess = resolve));
+      const transaction = request.result.transaction('uploads', 'readwrite');
+      transaction.objectStore('uploads').put(state);
+      await new Promise((resolve) => (transaction.oncomplete = resolve));
+      request.result.close();
+
+      const store = createIndexedDbStateStore({ indexedDB: factory });
+      await store.append('id1', [entry(0, 1)]);
+
+      expect(await store.load('id1')).toEqual({ uploadId: 'id1', data: state, journal: [entry(0, 1)] });
+    });
+
+    it('should move states out of localStorage when first opened', async () => {
+      const legacy = createUploadState('legacy', 'old.bin', 1024, 2, 512);
+      localStorage.setItem('upload_state_legacy', JSON.stringify(legacy));
+      localStorage.setItem('upload_state_broken', 'invalid json');
+      localStorage.setItem('upload_state_number', '42');
+      localStorage.setItem('other_key', 'value');
+
+      const store = createIndexedDbStateStore({ indexedDB: new IDBFactory(), migrateFrom: localStorage });
+
+      expect(await store.list()).toEqual([
+        { uploadId: 'broken', error: 'Stored data is not valid JSON' },
+        { uploadId: 'legacy', data: legacy, journal: [] },
+        { uploadId: 'number', error: 'Stored data is not an object' },
+      ]);
+      expect(Object.keys(localStorage)).toEqual(['other_key']);
+    });
+
+    it('should keep states already in the database over copies left in localStorage', async () => {
+      const factory = new IDBFactory();
+      const state = createState('id1', 'file1.txt', 1024, 2, 512);
+      await createIndexedDbStateStore({ indexedDB: factory }).save({ ...state, lastUpdate: 2 });
+      localStorage.setItem('upload_state_id1', JSON.stringify({ ...state, lastUpdate: 1 }));
+
+      const store = createIndexedDbStateStore({ indexedDB: factory, migrateFrom: localStorage });
+
+      expect(await store.load('id1')).toMatchObject({ data: { lastUpdate: 2 } });
+      expect(localStorage.getItem('upload_state_id1')).toBeNull();
+    });
+  });
+
+  describe('withQuotaEviction', () => {
+    // A memory store that holds `capacity` uploads and fails like a full disk beyond that
+    function createFullStore(capacity: number) {
+      const store = createMemoryStateStore();
+      const full = new DOMException('The quota has been exceeded', 'QuotaExceededError');
+      return {
+        ...store,
+        async save(state: CompactUploadState) {
+          const others = (await store.list()).filter((stored) => stored.uploadId !== state.uploadId);
+          if (others.length >= capacity) {
+            throw full;
+          }
+          await store.save(state);
+        },
+      };
+    }
+
+    it('should delete older uploads until the write fits', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const onEvict = vi.fn();
+      const store = withQuotaEviction(createFullStore(2), { onEvict });
+      await store.save({ ...createState('done', 'done.txt', 1024, 2, 512), uploadedRuns: [0, 2], lastUpdate: 2 });
+      await store.save({ ...createState('active', 'active.txt', 1024, 2, 512), lastUpdate: 1 });
+
+      await store.save(createState('new', 'new.txt', 1024, 2, 512));
+
+      expect(onEvict.mock.calls).toEqual([['done']]);
+      expect((await store.list()).map((stored) => stored.uploadId).sort()).toEqual(['active', 'new']);
+    });
+
+    it('should pass on the error when nothing else can be deleted', async () => {
+      const store = withQuotaEviction(createFullStore(0));
+
+      await expect(store.save(createState('new', 'new.txt', 1024, 2, 512))).rejects.toThrow('quota');
+    });
+  });
+});
@@ -0,0 +1,335 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createTusTransport, encodeMetadata, getChunksBelowOffset } from '../tusTransport';
+import { createUploadState, resizePendingChunks } from '../uploadState';
+import { checksumToBase64, sha256Chunk } from '../checksum';
+import { UploadEncryption } from '../../types/upload';
+
+const ENDPOINT = 'https://tus.test/files/';
+const ABC_SHA256 = 'sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+const UPLOAD_URL = 'https://tus.test/files/abc123';
+
+function tusResponse(status: number, headers: Record<string, string> = {}): Response {
+  return new Response(null, { status, headers });
+}
+
+// Only sizes matter to the transport; the key material is never used
+const ENCRYPTION: UploadEncryption = {
+  algorithm: 'AES-GCM',
+  keyLength: 256,
+  ivPrefix: 'AAAAAAAAAAA=',
+  wrappedKey: '',
+  keyAlgorithm: 'AES-KW',
+  keyDerivation: { algorithm: 'PBKDF2', hash: 'SHA-256', iterations: 1, salt: '' },
+};
+
+function createState() {
+  const state = createUploadState('upload-1', 'data.jsonl', 25, 3, 10);
+  state.remoteSession = { location: UPLOAD_URL };
+  return state;
+}
+
+describe('tusTransport', () => {
+  describe('encodeMetadata', () => {
+    it('should base64-encode metadata values', () => {
+      expect(encodeMetadata({ filename: 'a.txt', uploadId: 'x' })).toBe('filename YS50eHQ=,uploadId eA==');
+    });
+
+    it('should encode non-ASCII values as UTF-8', () => {
+      expect(encodeMetadata({ filename: 'é' })).toBe('filename w6k=');
+    });
+  });
+
+  describe('getChunksBelowOffset', () => {
+    it('should return chunks fully covered by the offset', () => {
+      const state = createState();
+      expect(getChunksBelowOffset(0, state)).toEqual([]);
+      expect(getChunksBelowOffset(15, state)).toEqual([0]);
+      expect(getChunksBelowOffset(20, state)).toEqual([0, 1]);
+      expect(getChunksBelowOffset(25, state)).toEqual([0, 1, 2]);
+    });
+
+    it('should follow chunks of different sizes', () => {
+      const state = resizePendingChunks(createState(), 5);
+      // Nothing was uploaded yet, so the whole file is re-split into 5-byte chunks
+      expect(getChunksBelowOffset(12, state)).toEqual([0, 1]);
+
+      const partly = createState();
+      partly.chunks[0].uploaded = true;
+      const resized = resizePendingChunks(partly, 15);
+      expect(resized.chunks.map((chunk) => chunk.length)).toEqual([10, 15]);
+      expect(getChunksBelowOffset(20, resized)).toEqual([0]);
+      expect(getChunksBelowOffset(25, resized)).toEqual([0, 1]);
+    });
+
+    it('should count the tag of every encrypted chunk', () => {
+      const state = { ...createState(), encryption: ENCRYPTION };
+      // Stored chunks are 26, 26 and 21 bytes
+      expect(getChunksBelowOffset(51, state)).toEqual([0]);
+      expect(getChunksBelowOffset(52, state)).toEqual([0, 1]);
+      expect(getChunksBelowOffset(73, state)).toEqual([0, 1, 2]);
+    });
+
+    it('should treat an empty file as a single uploaded chunk', () => {
+      const state = createUploadState('upload-1', 'empty.txt', 0, 1, 10);
+      expect(getChunksBelowOffset(0, state)).toEqual([0]);
+    });
+  });
+
+  describe('createUpload', () => {
+    it('should POST Upload-Length and metadata and return the upload URL', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(201, { Location: '/files/abc123' }));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      const session = await transport.createUpload!(createUploadState('upload-1', 'data.jsonl', 25, 3, 10));
+
+      expect(session).toEqual({ location: UPLOAD_URL });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(ENDPOINT);
+      expect(init.method).toBe('POST');
+      expect(init.headers).toMatchObject({
+        'Tus-Resumable': '1.0.0',
+        'Upload-Length': '25',
+      });
+      expect(init.headers['Upload-Metadata']).toContain('filename ');
+    });
+
+    it('should take the expiry a server with the expiration extension reports', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(
+        tusResponse(201, { Location: '/files/abc123', 'Upload-Expires': 'Wed, 25 Jun 2014 16:00:00 GMT' })
+      );
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      const session = await transport.createUpload!(createUploadState('upload-1', 'data.jsonl', 25, 3, 10));
+
+      expect(session).toEqual({ location: UPLOAD_URL, expiresAt: Date.UTC(2014, 5, 25, 16) });
+    });
+
+    it('should include encryption tags in Upload-Length', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(201, { Location: '/files/abc123' }));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+      const state = { ...createUploadState('upload-1', 'data.jsonl', 25, 3, 10), encryption: ENCRYPTION };
+
+      await transport.createUpload!(state);
+
+      expect(fetchMock.mock.calls[0][1].headers['Upload-Length']).toBe('73');
+    });
+
+    it('should throw when the server does not create the upload', async () => {
+      const transport = createTusTransport({
+        endpoint: ENDPOINT,
+        fetch: vi.fn().mockResolvedValue(tusResponse(413)),
+      });
+
+      await expect(transport.createUpload!(createState())).rejects.toThrow('HTTP 413');
+    });
+  });
+
+  describe('uploadChunk', () => {
+    it('should PATCH chunk bytes at the chunk offset', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(204, { 'Upload-Offset': '20' }));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+      const chunkData = new Blob(['0123456789']);
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 1,
+        totalChunks: 3,
+        offset: 10,
+        chunkData,
+        session: { location: UPLOAD_URL },
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe(UPLOAD_URL);
+      expect(init.method).toBe('PATCH');
+      expect(init.body).toBe(chunkData);
+      expect(init.headers).toMatchObject({
+        'Content-Type': 'application/offset+octet-stream',
+        'Upload-Offset': '10',
+      });
+      expect(init.headers['Upload-Checksum']).toBeUndefined();
+    });
+
+    it('should send the chunk SHA-256 as Upload-Checksum', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(204));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 0,
+        totalChunks: 1,
+        offset: 0,
+        chunkData: new Blob(['abc']),
+        checksum: ABC_SHA256,
+        session: { location: UPLOAD_URL },
+      });
+
+      expect(fetchMock.mock.calls[0][1].headers['Upload-Checksum']).toBe(
+        'sha256 ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0='
+      );
+    });
+
+    it('should send no Upload-Checksum when disabled', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(204));
+      const transport = createTusTransport({ endpoint: ENDPOINT, checksum: false, fetch: fetchMock });
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 0,
+        totalChunks: 1,
+        offset: 0,
+        chunkData: new Blob(['abc']),
+        checksum: ABC_SHA256,
+        session: { location: UPLOAD_URL },
+      });
+
+      expect(fetchMock.mock.calls[0][1].headers['Upload-Checksum']).toBeUndefined();
+    });
+
+    it('should send a SHA-1 Upload-Checksum when configured', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(204));
+      const transport = createTusTransport({ endpoint: ENDPOINT, checksum: 'sha1', fetch: fetchMock });
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 0,
+        totalChunks: 1,
+        offset: 0,
+        chunkData: new Blob(['abc']),
+        session: { location: UPLOAD_URL },
+      });
+
+      expect(fetchMock.mock.calls[0][1].headers['Upload-Checksum']).toBe(
+        'sha1 qZk+NkcGgWq6PiVxeFDCbJzQ2J0='
+      );
+    });
+
+    it('should continue from the server offset after a partial PATCH', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(tusResponse(409))
+        .mockResolvedValueOnce(tusResponse(200, { 'Upload-Offset': '14' }))
+        .mockResolvedValueOnce(tusResponse(204));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      await transport.uploadChunk({
+        uploadId: 'upload-1',
+        chunkIndex: 1,
+        totalChunks: 3,
+        offset: 10,
+        chunkData: new Blob(['0123456789']),
+        checksum: await sha256Chunk(new Blob(['0123456789'])),
+        session: { location: UPLOAD_URL },
+      });
+
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      const [, resumeInit] = fetchMock.mock.calls[2];
+      expect(resumeInit.headers['Upload-Offset']).toBe('14');
+      expect((resumeInit.body as Blob).size).toBe(6);
+      // The digest covers the bytes of this request only
+      const restChecksum = checksumToBase64(await sha256Chunk(new Blob(['456789'])));
+      expect(resumeInit.headers['Upload-Checksum']).toBe(`sha256 ${restChecksum}`);
+    });
+
+    it('should treat a chunk the server already has as uploaded', async () => {
+      const fetchMock = vi
+        .fn()
+        .mockResolvedValueOnce(tusResponse(409))
+        .mockResolvedValueOnce(tusResponse(200, { 'Upload-Offset': '20' }));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      await expect(
+        transport.uploadChunk({
+          uploadId: 'upload-1',
+          chunkIndex: 1,
+          totalChunks: 3,
+          offset: 10,
+          chunkData: new Blob(['0123456789']),
+          session: { location: UPLOAD_URL },
+        })
+      ).resolves.toBeUndefined();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject checksum mismatches as retryable', async () => {
+      const transport = createTusTransport({
+        endpoint: ENDPOINT,
+        fetch: vi.fn().mockResolvedValue(tusResponse(460)),
+      });
+
+      await expect(
+        transport.uploadChunk({
+          uploadId: 'upload-1',
+          chunkIndex: 0,
+          totalChunks: 1,
+          offset: 0,
+          chunkData: new Blob(['abc']),
+          session: { location: UPLOAD_URL },
+        })
+      ).rejects.toMatchObject({ kind: 'checksum', retryable: true, status: 460 });
+    });
+
+    it('should require a created upload', async () => {
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: vi.fn() });
+
+      await expect(
+        transport.uploadChunk({
+          uploadId: 'upload-1',
+          chunkIndex: 0,
+          totalChunks: 1,
+          offset: 0,
+          chunkData: new Blob(['abc']),
+        })
+      ).rejects.toThrow('not been created');
+    });
+  });
+
+  describe('getUploadedChunks', () => {
+    it('should map the HEAD Upload-Offset to uploaded chunks', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(200, { 'Upload-Offset': '20' }));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      await expect(transport.getUploadedChunks(createState())).resolves.toEqual([0, 1]);
+      expect(fetchMock.mock.calls[0][1].method).toBe('HEAD');
+    });
+
+    it('should report an upload the server has discarded as expired', async () => {
+      const transport = createTusTransport({
+        endpoint: ENDPOINT,
+        fetch: vi.fn().mockResolvedValue(tusResponse(410)),
+      });
+
+      await expect(transport.getUploadedChunks(createState())).rejects.toMatchObject({
+        kind: 'session-expired',
+        status: 410,
+      });
+    });
+  });
+
+  describe('completeUpload', () => {
+    it('should confirm the server has every byte and return the upload URL', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(200, { 'Upload-Offset': '25' }));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      await expect(transport.completeUpload!(createState())).resolves.toEqual({ location: UPLOAD_URL });
+    });
+
+    it('should fail when the server is missing bytes', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(200, { 'Upload-Offset': '20' }));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      await expect(transport.completeUpload!(createState())).rejects.toThrow('server has 20 of 25 bytes');
+    });
+  });
+
+  describe('abortUpload', () => {
+    it('should DELETE the upload (termination extension)', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(tusResponse(204));
+      const transport = createTusTransport({ endpoint: ENDPOINT, fetch: fetchMock });
+
+      await transport.abortUpload!(createState());
+
+      expect(fetchMock).toHaveBeenCalledWith(UPLOAD_URL, expect.objectContaining({ method: 'DELETE' }));
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  AuthError,
+  ChecksumMismatchError,
+  NetworkError,
+  PayloadTooLargeError,
+  QuotaError,
+  RequestError,
+  ServerError,
+  SessionExpiredError,
+  TimeoutError,
+  UploadError,
+  describeChunkError,
+  errorForStatus,
+  httpError,
+  parseRetryAfter,
+  toUploadError,
+  withUploadErrors,
+} from '../uploadErrors';
+
+describe('uploadErrors', () => {
+  describe('errorForStatus', () => {
+    it.each([
+      [401, AuthError, false],
+      [403, AuthError, false],
+      [404, SessionExpiredError, false],
+      [410, SessionExpiredError, false],
+      [408, TimeoutError, true],
+      [504, TimeoutError, true],
+      [413, PayloadTooLargeError, false],
+      [429, QuotaError, true],
+      [507, QuotaError, false],
+      [460, ChecksumMismatchError, true],
+      [500, ServerError, true],
+      [503, ServerError, true],
+      [400, RequestError, false],
+    ])('should classify HTTP %i', (status, errorClass, retryable) => {
+      const error = errorForStatus(status, 'Failed to upload chunk 1');
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error.retryable).toBe(retryable);
+      expect(error.status).toBe(status);
+      expect(error.message).toBe(`Failed to upload chunk 1: HTTP ${status}`);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should read a delay in seconds', () => {
+      expect(parseRetryAfter('120')).toBe(120_000);
+    });
+
+    it('should read an HTTP date relative to now', () => {
+      const now = Date.parse('Wed, 21 Oct 2015 07:28:00 GMT');
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:28:30 GMT', now)).toBe(30_000);
+      expect(parseRetryAfter('Wed, 21 Oct 2015 07:27:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  it('should take Retry-After from the response', () => {
+    const response = new Response(null, { status: 503, headers: { 'Retry-After': '5' } });
+
+    expect(httpError(response, 'Failed')).toMatchObject({ kind: 'server', retryAfterMs: 5000 });
+  });
+
+  describe('toUploadError', () => {
+    it('should treat fetch TypeErrors as network errors', () => {
+      expect(toUploadError(new TypeError('Failed to fetch'))).toBeInstanceOf(NetworkError);
+    });
+
+    it('should treat timeouts as timeout errors', () => {
+      expect(toUploadError(new DOMException('timed out', 'TimeoutError'))).toBeInstanceOf(TimeoutError);
+    });
+
+    it('should keep upload errors and assume anything else is transient', () => {
+      const auth = new AuthError('denied');
+      expect(toUploadError(auth)).toBe(auth);
+      expect(toUploadError(new Error('boom'))).toMatchObject({ kind: 'unknown', retryable: true });
+    });
+  });
+
+  describe('withUploadErrors', () => {
+    it('should convert rejected requests but let aborts through', async () => {
+      const offline = withUploadErrors(vi.fn().mockRejectedValue(new TypeError('Failed to fetch')));
+      await expect(offline('https://api.test', {})).rejects.toBeInstanceOf(NetworkError);
+
+      const aborted = withUploadErrors(
+        vi.fn().mockRejectedValue(new DOMException('The request was aborted', 'AbortError'))
+      );
+      await expect(aborted('https://api.test', {})).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  it('should describe an error for chunk state with its retry decision', () => {
+    const error = new UploadError('quota', 'Too many requests', { retryable: true, status: 429, retryAfterMs: 2000 });
+
+    expect(describeChunkError(error)).toEqual({
+      kind: 'quota',
+      message: 'Too many requests',
+      retryable: true,
+      status: 429,
+    });
+    expect(describeChunkError(error, { retryable: true, retryAt: 3000 })).toMatchObject({ retryAt: 3000 });
+  });
+});
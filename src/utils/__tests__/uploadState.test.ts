@@ -1,171 +1,403 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import {
-  saveUploadState,
-  loadUploadState,
-  getAllUploadStates,
-  deleteUploadState,
-  createUploadState,
-  updateChunkStatus,
-} from '../uploadState';
-import { UploadState } from '../../types/upload';
-
-describe('uploadState', () => {
-  beforeEach(() => {
-    localStorage.clear();
-  });
-
-  describe('createUploadState', () => {
-    it('should create initial upload state with all chunks', () => {
-      const state = createUploadState('test-id', 'test.txt', 1024, 5, 256);
-
-      expect(state.uploadId).toBe('test-id');
-      expect(state.fileName).toBe('test.txt');
-      expect(state.fileSize).toBe(1024);
-      expect(state.totalChunks).toBe(5);
-      expect(state.chunkSize).toBe(256);
-      expect(state.chunks).toHaveLength(5);
-      expect(state.chunks.every(chunk => !chunk.uploaded && !chunk.failed)).toBe(true);
-      expect(state.startTime).toBeGreaterThan(0);
-    });
-
-    it('should initialize chunks with correct indices', () => {
-      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
-
-      state.chunks.forEach((chunk, index) => {
-        expect(chunk.chunkIndex).toBe(index);
-        expect(chunk.uploaded).toBe(false);
-        expect(chunk.failed).toBe(false);
-        expect(chunk.retryCount).toBe(0);
-      });
-    });
-  });
-
-  describe('saveUploadState and loadUploadState', () => {
-    it('should save and load upload state', () => {
-      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
-      saveUploadState('test-id', state);
-
-      const loaded = loadUploadState('test-id');
-
-      expect(loaded).not.toBeNull();
-      expect(loaded?.uploadId).toBe(state.uploadId);
-      expect(loaded?.fileName).toBe(state.fileName);
-      expect(loaded?.fileSize).toBe(state.fileSize);
-      expect(loaded?.chunks).toHaveLength(3);
-    });
-
-    it('should return null for non-existent upload', () => {
-      const loaded = loadUploadState('non-existent');
-      expect(loaded).toBeNull();
-    });
-
-    it('should handle corrupted localStorage data gracefully', () => {
-      localStorage.setItem('upload_state_test', 'invalid json');
-      const loaded = loadUploadState('test');
-      expect(loaded).toBeNull();
-    });
-  });
-
-  describe('getAllUploadStates', () => {
-    it('should return all upload states', () => {
-      const state1 = createUploadState('id1', 'file1.txt', 1024, 2, 512);
-      const state2 = createUploadState('id2', 'file2.txt', 2048, 4, 512);
-
-      saveUploadState('id1', state1);
-      saveUploadState('id2', state2);
-
-      const allStates = getAllUploadStates();
-
-      expect(allStates).toHaveLength(2);
-      expect(allStates.some(s => s.uploadId === 'id1')).toBe(true);
-      expect(allStates.some(s => s.uploadId === 'id2')).toBe(true);
-    });
-
-    it('should return empty array when no uploads exist', () => {
-      const allStates = getAllUploadStates();
-      expect(allStates).toHaveLength(0);
-    });
-
-    it('should ignore non-upload keys in localStorage', () => {
-      localStorage.setItem('other_key', 'value');
-      const state = createUploadState('id1', 'file1.txt', 1024, 2, 512);
-      saveUploadState('id1', state);
-
-      const allStates = getAllUploadStates();
-
-      expect(allStates).toHaveLength(1);
-    });
-  });
-
-  describe('deleteUploadState', () => {
-    it('should delete upload state from localStorage', () => {
-      const state = createUploadState('test-id', 'test.txt', 1024, 2, 512);
-      saveUploadState('test-id', state);
-
-      expect(loadUploadState('test-id')).not.toBeNull();
-
-      deleteUploadState('test-id');
-
-      expect(loadUploadState('test-id')).toBeNull();
-    });
-
-    it('should handle deleting non-existent state gracefully', () => {
-      expect(() => deleteUploadState('non-existent')).not.toThrow();
-    });
-  });
-
-  describe('updateChunkStatus', () => {
-    it('should mark chunk as uploaded', () => {
-      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
-      const updated = updateChunkStatus(state, 1, true, false);
-
-      expect(updated.chunks[1].uploaded).toBe(true);
-      expect(updated.chunks[1].failed).toBe(false);
-      expect(updated.chunks[1].retryCount).toBe(0);
-      expect(updated.chunks[0].uploaded).toBe(false); // Other chunks unchanged
-      expect(updated.chunks[2].uploaded).toBe(false);
-    });
-
-    it('should mark chunk as failed and increment retry count', () => {
-      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
-      const updated = updateChunkStatus(state, 0, false, true);
-
-      expect(updated.chunks[0].uploaded).toBe(false);
-      expect(updated.chunks[0].failed).toBe(true);
-      expect(updated.chunks[0].retryCount).toBe(1);
-    });
-
-    it('should increment retry count on subsequent failures', () => {
-      let state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
-      state = updateChunkStatus(state, 1, false, true);
-      state = updateChunkStatus(state, 1, false, true);
-      state = updateChunkStatus(state, 1, false, true);
-
-      expect(state.chunks[1].retryCount).toBe(3);
-    });
-
-    it('should update lastUpdate timestamp', () => {
-      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
-      const originalTime = state.lastUpdate;
-
-      // Wait a bit to ensure time difference
-      return new Promise(resolve => {
-        setTimeout(() => {
-          const updated = updateChunkStatus(state, 1, true, false);
-          expect(updated.lastUpdate).toBeGreaterThan(originalTime);
-          resolve(undefined);
-        }, 10);
-      });
-    });
-
-    it('should not modify original state object', () => {
-      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
-      const originalChunks = [...state.chunks];
-      
-      updateChunkStatus(state, 1, true, false);
-
-      expect(state.chunks).toEqual(originalChunks);
-    });
-  });
-});
-
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  saveUploadState,
+  loadUploadState,
+  getAllUploadStates,
+  listUploadSessions,
+  deleteUploadState,
+  createUploadState,
+  updateChunkStatus,
+  reconcileChunks,
+  getPendingTailStart,
+  resizePendingChunks,
+  loadMeasuredThroughput,
+  saveMeasuredThroughput,
+  startNewUpload,
+  applyRetention,
+} from '../uploadState';
+import { createMemoryStateStore } from '../stateStore';
+import { UploadState, UploadTransport } from '../../types/upload';
+import { SCHEMA_VERSION } from '../stateSchema';
+
+describe('uploadState', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('loadUploadState', () => {
+    it('should add byte ranges to states saved without them', async () => {
+      const state = createUploadState('legacy', 'test.txt', 25, 3, 10);
+      const legacy = {
+        ...state,
+        chunks: state.chunks.map(({ offset: _offset, length: _length, ...chunk }) => chunk),
+      };
+      localStorage.setItem('upload_state_legacy', JSON.stringify(legacy));
+
+      expect((await loadUploadState('legacy'))?.chunks).toEqual(state.chunks);
+      expect((await getAllUploadStates())[0].chunks).toEqual(state.chunks);
+    });
+  });
+
+  describe('createUploadState', () => {
+    it('should create initial upload state with all chunks', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 5, 256);
+
+      expect(state.uploadId).toBe('test-id');
+      expect(state.fileName).toBe('test.txt');
+      expect(state.fileSize).toBe(1024);
+      expect(state.totalChunks).toBe(5);
+      expect(state.chunkSize).toBe(256);
+      expect(state.chunks).toHaveLength(5);
+      expect(state.chunks.every(chunk => !chunk.uploaded && !chunk.failed)).toBe(true);
+      expect(state.startTime).toBeGreaterThan(0);
+    });
+
+    it('should initialize chunks with correct indices', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+
+      state.chunks.forEach((chunk, index) => {
+        expect(chunk.chunkIndex).toBe(index);
+        expect(chunk.uploaded).toBe(false);
+        expect(chunk.failed).toBe(false);
+        expect(chunk.retryCount).toBe(0);
+      });
+    });
+
+    it('should give every chunk its byte range', () => {
+      const state = createUploadState('test-id', 'test.txt', 25, 3, 10);
+
+      expect(state.chunks.map(({ offset, length }) => [offset, length])).toEqual([[0, 10], [10, 10], [20, 5]]);
+    });
+  });
+
+  describe('startNewUpload', () => {
+    it('should take the ID and limits the server issues, fingerprint the file and save the state', async () => {
+      const file = new File(['x'.repeat(3000)], 'train.jsonl', { lastModified: 1000 });
+      const initUpload = vi.fn().mockResolvedValue({ uploadId: 'server-id', limits: { maxChunkSize: 1024 } });
+      const transport = { uploadChunk: vi.fn(), getUploadedChunks: vi.fn(), initUpload };
+
+      const state = await startNewUpload(transport, file);
+
+      expect(initUpload).toHaveBeenCalledWith({ fileName: 'train.jsonl', fileSize: 3000 });
+      expect(state.uploadId).toBe('server-id');
+      expect(state.limits).toEqual({ maxChunkSize: 1024 });
+      expect(state.chunks.every((chunk) => chunk.length <= 1024)).toBe(true);
+      expect(state.fingerprint).toMatchObject({ size: 3000, lastModified: 1000 });
+      expect((await loadUploadState('server-id'))?.fingerprint).toEqual(state.fingerprint);
+    });
+
+    it('should compress with an encoding both the transport and the server support', async () => {
+      const file = new File(['x'.repeat(3000)], 'train.jsonl');
+      const initUpload = vi.fn().mockResolvedValue({ uploadId: 'server-id', contentEncodings: ['deflate'] });
+      const transport: UploadTransport = {
+        uploadChunk: vi.fn(),
+        getUploadedChunks: vi.fn(),
+        initUpload,
+        contentEncodings: ['gzip', 'deflate'],
+      };
+      const gzipOnly: UploadTransport = { ...transport, contentEncodings: ['gzip'] };
+
+      expect((await startNewUpload(transport, file, { compress: true })).compression).toBe('deflate');
+      expect((await startNewUpload(gzipOnly, file, { compress: true })).compression).toBeUndefined();
+      expect((await startNewUpload(transport, file)).compression).toBeUndefined();
+    });
+  });
+
+  describe('saveUploadState and loadUploadState', () => {
+    it('should save and load upload state', async () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+      await saveUploadState(state);
+
+      const loaded = await loadUploadState('test-id');
+
+      expect(loaded).not.toBeNull();
+      expect(loaded?.uploadId).toBe(state.uploadId);
+      expect(loaded?.fileName).toBe(state.fileName);
+      expect(loaded?.fileSize).toBe(state.fileSize);
+      expect(loaded?.chunks).toHaveLength(3);
+    });
+
+    it('should return null for non-existent upload', async () => {
+      const loaded = await loadUploadState('non-existent');
+      expect(loaded).toBeNull();
+    });
+
+    it('should handle corrupted localStorage data gracefully', async () => {
+      localStorage.setItem('upload_state_test', 'invalid json');
+      const loaded = await loadUploadState('test');
+      expect(loaded).toBeNull();
+    });
+  });
+
+  describe('getAllUploadStates', () => {
+    it('should return all upload states', async () => {
+      const state1 = createUploadState('id1', 'file1.txt', 1024, 2, 512);
+      const state2 = createUploadState('id2', 'file2.txt', 2048, 4, 512);
+
+      await saveUploadState(state1);
+      await saveUploadState(state2);
+
+      const allStates = await getAllUploadStates();
+
+      expect(allStates).toHaveLength(2);
+      expect(allStates.some(s => s.uploadId === 'id1')).toBe(true);
+      expect(allStates.some(s => s.uploadId === 'id2')).toBe(true);
+    });
+
+    it('should return empty array when no uploads exist', async () => {
+      const allStates = await getAllUploadStates();
+      expect(allStates).toHaveLength(0);
+    });
+
+    it('should ignore non-upload keys in localStorage', async () => {
+      localStorage.setItem('other_key', 'value');
+      const state = createUploadState('id1', 'file1.txt', 1024, 2, 512);
+      await saveUploadState(state);
+
+      const allStates = await getAllUploadStates();
+
+      expect(allStates).toHaveLength(1);
+    });
+  });
+
+  describe('listUploadSessions', () => {
+    it('should save states with the schema version', async () => {
+      await saveUploadState(createUploadState('id1', 'file1.txt', 1024, 2, 512));
+
+      expect(JSON.parse(localStorage.getItem('upload_state_id1')!).schemaVersion).toBe(SCHEMA_VERSION);
+    });
+
+    it('should quarantine states that cannot be read instead of dropping them', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const state = createUploadState('id1', 'file1.txt', 1024, 2, 512);
+      await saveUploadState(state);
+      localStorage.setItem('upload_state_broken', 'invalid json');
+      localStorage.setItem('upload_state_newer', JSON.stringify({ ...state, uploadId: 'newer', schemaVersion: 99 }));
+
+      const { states, quarantined } = await listUploadSessions();
+
+      expect(states.map((s) => s.uploadId)).toEqual(['id1']);
+      expect(quarantined).toEqual(
+        expect.arrayContaining([
+          { uploadId: 'broken', problem: 'Stored data is not valid JSON' },
+          { uploadId: 'newer', problem: 'Saved by a newer version of the app (schema version 99)' },
+        ])
+      );
+      expect(await loadUploadState('newer')).toBeNull();
+      expect(localStorage.getItem('upload_state_newer')).not.toBeNull();
+
+      await deleteUploadState('broken');
+
+      expect((await listUploadSessions()).quarantined.map((session) => session.uploadId)).toEqual(['newer']);
+    });
+  });
+
+  describe('applyRetention', () => {
+    it('should discard expired uploads and mark the ones the server discarded as stale', async () => {
+      const DAY = 24 * 60 * 60 * 1000;
+      const now = 100 * DAY;
+      const store = createMemoryStateStore();
+      const upload = (uploadId: string, lastUpdate: number, uploaded = false) => {
+        const state = createUploadState(uploadId, `${uploadId}.bin`, 1024, 2, 512);
+        return { ...state, lastUpdate, chunks: state.chunks.map((chunk) => ({ ...chunk, uploaded })) };
+      };
+      await saveUploadState(upload('abandoned', now - 8 * DAY), store);
+      await saveUploadState({ ...upload('expired-on-server', now - DAY), expiresAt: now - 1 }, store);
+      await saveUploadState(upload('recent', now - DAY), store);
+      await saveUploadState(upload('old-done', now - 3 * DAY, true), store);
+      await saveUploadState(upload('new-done', now - 2 * DAY, true), store);
+      const discard = vi.fn((uploadId: string) => deleteUploadState(uploadId, store));
+
+      const summary = await applyRetention(discard, { policy: { incompleteDays: 7, keepCompleted: 1 }, now, store });
+
+      expect(summary).toEqual({ deleted: 2, markedStale: 1 });
+      expect(discard.mock.calls.map(([uploadId]) => uploadId)).toEqual(['abandoned', 'old-done']);
+      expect((await loadUploadState('expired-on-server', store))?.stale).toEqual({
+        since: now,
+        reason: 'The server has discarded this upload',
+      });
+      expect((await getAllUploadStates(store)).map((state) => state.uploadId).sort()).toEqual([
+        'expired-on-server',
+        'new-done',
+        'recent',
+      ]);
+    });
+  });
+
+  describe('deleteUploadState', () => {
+    it('should delete upload state from localStorage', async () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 2, 512);
+      await saveUploadState(state);
+
+      expect(await loadUploadState('test-id')).not.toBeNull();
+
+      await deleteUploadState('test-id');
+
+      expect(await loadUploadState('test-id')).toBeNull();
+    });
+
+    it('should handle deleting non-existent state gracefully', async () => {
+      await expect(deleteUploadState('non-existent')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('updateChunkStatus', () => {
+    it('should mark chunk as uploaded', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+      const updated = updateChunkStatus(state, 1, true, false);
+
+      expect(updated.chunks[1].uploaded).toBe(true);
+      expect(updated.chunks[1].failed).toBe(false);
+      expect(updated.chunks[1].retryCount).toBe(0);
+      expect(updated.chunks[0].uploaded).toBe(false); // Other chunks unchanged
+      expect(updated.chunks[2].uploaded).toBe(false);
+    });
+
+    it('should mark chunk as failed and increment retry count', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+      const updated = updateChunkStatus(state, 0, false, true);
+
+      expect(updated.chunks[0].uploaded).toBe(false);
+      expect(updated.chunks[0].failed).toBe(true);
+      expect(updated.chunks[0].retryCount).toBe(1);
+    });
+
+    it('should increment retry count on subsequent failures', () => {
+      let state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+      state = updateChunkStatus(state, 1, false, true);
+      state = updateChunkStatus(state, 1, false, true);
+      state = updateChunkStatus(state, 1, false, true);
+
+      expect(state.chunks[1].retryCount).toBe(3);
+    });
+
+    it('should keep the last error until the chunk is uploaded', () => {
+      const error = { kind: 'server' as const, message: 'HTTP 503', retryable: true, status: 503 };
+      let state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+
+      state = updateChunkStatus(state, 0, false, true, undefined, error);
+      expect(state.chunks[0].lastError).toEqual(error);
+
+      state = updateChunkStatus(state, 0, false, false);
+      expect(state.chunks[0].lastError).toEqual(error);
+
+      state = updateChunkStatus(state, 0, true, false);
+      expect(state.chunks[0]).not.toHaveProperty('lastError');
+    });
+
+    it('should update lastUpdate timestamp', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+      const originalTime = state.lastUpdate;
+
+      // Wait a bit to ensure time difference
+      return new Promise(resolve => {
+        setTimeout(() => {
+          const updated = updateChunkStatus(state, 1, true, false);
+          expect(updated.lastUpdate).toBeGreaterThan(originalTime);
+          resolve(undefined);
+        }, 10);
+      });
+    });
+
+    it('should not modify original state object', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+      const originalChunks = [...state.chunks];
+      
+      updateChunkStatus(state, 1, true, false);
+
+      expect(state.chunks).toEqual(originalChunks);
+    });
+  });
+
+  describe('reconcileChunks', () => {
+    it('should trust the server in both directions', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 4, 256);
+      state.chunks[0] = { ...state.chunks[0], uploaded: true, etag: '"a"' };
+      state.chunks[1] = { ...state.chunks[1], uploaded: true, etag: '"b"' };
+      state.chunks[2] = { ...state.chunks[2], failed: true, retryCount: 1 };
+
+      const { state: reconciled, summary } = reconcileChunks(state, [0, 2]);
+
+      expect(summary).toEqual({ confirmed: 1, recovered: [2], requeued: [1] });
+      expect(reconciled.chunks[0]).toMatchObject({ uploaded: true, etag: '"a"' });
+      expect(reconciled.chunks[1]).toMatchObject({ uploaded: false, failed: false, etag: undefined });
+      expect(reconciled.chunks[2]).toMatchObject({ uploaded: true, failed: false });
+      expect(reconciled.chunks[3].uploaded).toBe(false);
+    });
+
+    it('should return the same state when both sides agree', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 3, 256);
+      state.chunks[0].uploaded = true;
+
+      const result = reconcileChunks(state, [0]);
+
+      expect(result.state).toBe(state);
+      expect(result.summary).toEqual({ confirmed: 1, recovered: [], requeued: [] });
+    });
+
+    it('should ignore indices outside the upload', () => {
+      const state = createUploadState('test-id', 'test.txt', 1024, 2, 512);
+
+      expect(reconcileChunks(state, [5]).summary.recovered).toEqual([]);
+    });
+  });
+
+  describe('resizePendingChunks', () => {
+    it('should find the chunks after the last uploaded one', () => {
+      const state = createUploadState('test-id', 'test.txt', 100, 10, 10);
+      expect(getPendingTailStart(state)).toBe(0);
+
+      state.chunks[1].uploaded = true;
+      state.chunks[3].uploaded = true;
+      expect(getPendingTailStart(state)).toBe(4);
+
+      state.chunks[9].uploaded = true;
+      expect(getPendingTailStart(state)).toBe(10);
+    });
+
+    it('should re-split only the pending tail', () => {
+      const state = createUploadState('test-id', 'test.txt', 100, 10, 10);
+      state.chunks[0] = { ...state.chunks[0], uploaded: true, etag: '"a"' };
+      state.chunks[2].uploaded = true;
+      state.chunks[4] = { ...state.chunks[4], failed: true, retryCount: 2 };
+
+      const resized = resizePendingChunks(state, 25);
+
+      expect(resized.chunkSize).toBe(25);
+      expect(resized.totalChunks).toBe(6);
+      // Chunk 1 sits between uploaded chunks and keeps its range
+      expect(resized.chunks.slice(0, 3)).toEqual(state.chunks.slice(0, 3));
+      expect(resized.chunks.slice(3).map(({ chunkIndex, offset, length }) => [chunkIndex, offset, length])).toEqual([
+        [3, 30, 25],
+        [4, 55, 25],
+        [5, 80, 20],
+      ]);
+      expect(resized.chunks.slice(3).every((chunk) => !chunk.failed && chunk.retryCount === 0)).toBe(true);
+    });
+
+    it('should cover the whole file when nothing was uploaded yet', () => {
+      const state = createUploadState('test-id', 'test.txt', 100, 10, 10);
+
+      const resized = resizePendingChunks(state, 40);
+
+      expect(resized.chunks.map((chunk) => chunk.length)).toEqual([40, 40, 20]);
+    });
+
+    it('should leave a fully uploaded state unchanged', () => {
+      const state = createUploadState('test-id', 'test.txt', 20, 2, 10);
+      state.chunks.forEach((chunk) => (chunk.uploaded = true));
+
+      expect(resizePendingChunks(state, 5)).toBe(state);
+    });
+  });
+
+  describe('measured throughput', () => {
+    it('should be unknown until saved', () => {
+      expect(loadMeasuredThroughput()).toBeNull();
+
+      saveMeasuredThroughput(123456.7);
+
+      expect(loadMeasuredThroughput()).toBe(123457);
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ChunkWorkerRequest, createChunkWorkerPool } from '../workerPool';
+import { runWorkerTask } from '../chunkProcessing';
+
+const ABC_SHA256 = 'sha256:ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad';
+
+// Stands in for a Worker running chunkWorker.ts; messages are answered when the test says so
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: Partial<ErrorEvent>) => void) | null = null;
+  terminated = false;
+
+  constructor(private readonly posted: { worker: FakeWorker; message: ChunkWorkerRequest; transfer: Transferable[] }[]) {}
+
+  postMessage(message: ChunkWorkerRequest, transfer: Transferable[]) {
+    this.posted.push({ worker: this, message, transfer });
+  }
+
+  async respond({ id, ...task }: ChunkWorkerRequest) {
+    this.onmessage?.({ data: { id, ...(await runWorkerTask(task)) } } as MessageEvent);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+function createFakeWorkers() {
+  const posted: { worker: FakeWorker; message: ChunkWorkerRequest; transfer: Transferable[] }[] = [];
+  const workers: FakeWorker[] = [];
+  const createWorker = () => {
+    const worker = new FakeWorker(posted);
+    workers.push(worker);
+    return worker as unknown as Worker;
+  };
+  return { posted, workers, createWorker };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+async function text(buffer: ArrayBuffer): Promise<string> {
+  return new TextDecoder().decode(new Uint8Array(buffer));
+}
+
+describe('workerPool', () => {
+  it('should process chunks on the main thread when workers are unavailable', async () => {
+    // jsdom has no Worker
+    const pool = createChunkWorkerPool();
+
+    const processed = await pool.process(new Blob(['abc']));
+
+    expect(processed.checksum).toBe(ABC_SHA256);
+    await expect(text(processed.data)).resolves.toBe('abc');
+  });
+
+  it('should hand chunks to idle workers, transferring their buffers', async () => {
+    const { posted, workers, createWorker } = createFakeWorkers();
+    const pool = createChunkWorkerPool({ size: 2, createWorker });
+
+    const results = ['abc', 'def', 'ghi'].map((content) => pool.process(new Blob([content])));
+    await vi.waitFor(() => expect(posted).toHaveLength(2));
+    await flush();
+
+    // Two workers, so the third chunk waits for one of them
+    expect(workers).toHaveLength(2);
+    expect(posted.map(({ worker }) => workers.indexOf(worker))).toEqual([0, 1]);
+    posted.forEach(({ message, transfer }) => {
+      expect(transfer).toHaveLength(1);
+      expect(message).toHaveProperty('data', transfer[0]);
+    });
+
+    await posted[0].worker.respond(posted[0].message);
+    await vi.waitFor(() => expect(posted).toHaveLength(3));
+    expect(posted[2].worker).toBe(workers[0]);
+
+    await posted[1].worker.respond(posted[1].message);
+    await posted[2].worker.respond(posted[2].message);
+    const processed = await Promise.all(results);
+    expect(processed[0].checksum).toBe(ABC_SHA256);
+    await expect(Promise.all(processed.map(({ data }) => text(data)))).resolves.toEqual(['abc', 'def', 'ghi']);
+  });
+
+  it('should hash whole files in a worker without reading them on the main thread', async () => {
+    const { posted, createWorker } = createFakeWorkers();
+    const pool = createChunkWorkerPool({ size: 1, createWorker });
+    const file = new File(['abc'], 'abc.txt');
+    const read = vi.spyOn(file, 'arrayBuffer');
+
+    const checksum = pool.hashFile(file);
+    await vi.waitFor(() => expect(posted).toHaveLength(1));
+
+    expect(posted[0].message).toMatchObject({ file });
+    expect(posted[0].transfer).toEqual([]);
+    expect(read).not.toHaveBeenCalled();
+    await posted[0].worker.respond(posted[0].message);
+    await expect(checksum).resolves.toBe(ABC_SHA256);
+  });
+
+  it('should hash whole files on the main thread when workers are unavailable', async () => {
+    await expect(createChunkWorkerPool().hashFile(new File(['abc'], 'abc.txt'))).resolves.toBe(ABC_SHA256);
+  });
+
+  it('should not read more chunks into memory than it may buffer', async () => {
+    const { posted, createWorker } = createFakeWorkers();
+    const pool = createChunkWorkerPool({ size: 4, maxBuffered: 2, createWorker });
+    const chunks = Array.from({ length: 5 }, (_, index) => new Blob([`chunk-${index}`]));
+    const reads = chunks.map((chunk) => vi.spyOn(chunk, 'arrayBuffer'));
+
+    const results = chunks.map((chunk) => pool.process(chunk));
+    await vi.waitFor(() => expect(posted).toHaveLength(2));
+    await flush();
+
+    expect(reads.filter((read) => read.mock.calls.length > 0)).toHaveLength(2);
+    expect(posted).toHaveLength(2);
+
+    await posted[0].worker.respond(posted[0].message);
+    await vi.waitFor(() => expect(posted).toHaveLength(3));
+    expect(reads.filter((read) => read.mock.calls.length > 0)).toHaveLength(3);
+
+    for (let i = 1; i < 5; i++) {
+      await vi.waitFor(() => expect(posted.length).toBeGreaterThan(i));
+      await posted[i].worker.respond(posted[i].message);
+    }
+    await expect(Promise.all(results)).resolves.toHaveLength(5);
+  });
+
+  it('should fall back to the main thread when a worker fails', async () => {
+    const { posted, workers, createWorker } = createFakeWorkers();
+    const pool = createChunkWorkerPool({ size: 1, createWorker });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const first = pool.process(new Blob(['abc']));
+    const second = pool.process(new Blob(['def']));
+    await vi.waitFor(() => expect(posted).toHaveLength(1));
+
+    // The chunk the worker held is lost with it; the queued one is processed inline
+    workers[0].onerror?.({ message: 'Failed to load worker script' });
+
+    await expect(first).rejects.toThrow('Chunk worker failed');
+    await expect(second.then(({ data }) => text(data))).resolves.toBe('def');
+    expect(workers[0].terminated).toBe(true);
+
+    await expect(pool.process(new Blob(['abc']))).resolves.toMatchObject({ checksum: ABC_SHA256 });
+    expect(workers).toHaveLength(1);
+  });
+});
@@ -1,71 +1,154 @@
-import { ChunkUploadRequest } from '../types/upload';
-
-// Default delay settings (in milliseconds)
-export const UPLOAD_SPEEDS = {
-  fast: { min: 50, max: 150 },      // 50-150ms (default)
-  normal: { min: 150, max: 300 },   // 150-300ms
-  slow: { min: 500, max: 1000 },    // 500-1000ms
-  verySlow: { min: 1000, max: 2000 }, // 1000-2000ms
-} as const;
-
-export type UploadSpeed = keyof typeof UPLOAD_SPEEDS;
-
-let currentSpeed: UploadSpeed = 'verySlow';
-
-/**
- * Sets the upload speed/delay
- */
-export function setUploadSpeed(speed: UploadSpeed): void {
-  currentSpeed = speed;
-  // Store in localStorage for persistence
-  localStorage.setItem('uploadSpeed', speed);
-}
-
-/**
- * Gets the current upload speed
- */
-export function getUploadSpeed(): UploadSpeed {
-  const stored = localStorage.getItem('uploadSpeed');
-  if (stored && stored in UPLOAD_SPEEDS) {
-    return stored as UploadSpeed;
-  }
-  return 'verySlow';
-}
-
-// Initialize speed from localStorage
-currentSpeed = getUploadSpeed();
-
-/**
- * Simulates uploading a chunk to the backend
- * Since there's no backend, this simulates network conditions
- */
-export async function uploadChunk(request: ChunkUploadRequest): Promise<void> {
-  // Get delay based on current speed setting
-  const speedConfig = UPLOAD_SPEEDS[currentSpeed];
-  const delay = Math.random() * (speedConfig.max - speedConfig.min) + speedConfig.min;
-  await new Promise(resolve => setTimeout(resolve, delay));
-
-  // Simulate random failures (10% failure rate for demonstration)
-  const shouldFail = Math.random() < 0.1;
-  
-  if (shouldFail) {
-    throw new Error(`Failed to upload chunk ${request.chunkIndex}`);
-  }
-
-  // Simulate successful upload
-  console.log(`Chunk ${request.chunkIndex} uploaded successfully`);
-}
-
-/**
- * Simulates checking which chunks are already uploaded on the server
- * In a real implementation, this would query the backend
- */
-export async function getUploadedChunks(_uploadId: string): Promise<number[]> {
-  // Simulate network delay
-  await new Promise(resolve => setTimeout(resolve, 100));
-  
-  // In a real implementation, this would return chunks already on the server
-  // For now, we return empty array (all chunks need to be uploaded)
-  return [];
-}
-
+import { ChunkUploadRequest, UploadState, UploadTransport } from '../types/upload';
+import { BUILT_IN_PROFILES, DEFAULT_PROFILE_ID, NetworkProfile, createNetworkSimulator } from './networkSimulator';
+
+const PROFILE_KEY = 'networkProfile';
+const CUSTOM_PROFILES_KEY = 'networkProfiles';
+// Key used before network profiles replaced the fixed speed presets
+const LEGACY_SPEED_KEY = 'uploadSpeed';
+
+function loadCustomProfiles(): NetworkProfile[] {
+  try {
+    const data = localStorage.getItem(CUSTOM_PROFILES_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomProfiles(profiles: NetworkProfile[]): void {
+  localStorage.setItem(CUSTOM_PROFILES_KEY, JSON.stringify(profiles));
+}
+
+/**
+ * Built-in profiles (with any saved edits applied) followed by user-created ones
+ */
+export function getNetworkProfiles(): NetworkProfile[] {
+  const custom = loadCustomProfiles();
+  const customById = new Map(custom.map((profile) => [profile.id, profile]));
+  const builtIns = BUILT_IN_PROFILES.map((profile) => customById.get(profile.id) ?? profile);
+  const builtInIds = new Set(BUILT_IN_PROFILES.map((profile) => profile.id));
+  return [...builtIns, ...custom.filter((profile) => !builtInIds.has(profile.id))];
+}
+
+export function isBuiltInProfile(id: string): boolean {
+  return BUILT_IN_PROFILES.some((profile) => profile.id === id);
+}
+
+/**
+ * Gets the ID of the selected network profile
+ */
+export function getNetworkProfileId(): string {
+  const stored = localStorage.getItem(PROFILE_KEY) ?? localStorage.getItem(LEGACY_SPEED_KEY);
+  if (stored && getNetworkProfiles().some((profile) => profile.id === stored)) {
+    return stored;
+  }
+  return DEFAULT_PROFILE_ID;
+}
+
+/**
+ * Gets the selected network profile
+ */
+export function getNetworkProfile(): NetworkProfile {
+  const id = getNetworkProfileId();
+  return getNetworkProfiles().find((profile) => profile.id === id)!;
+}
+
+let simulator = createNetworkSimulator(getNetworkProfile());
+
+/**
+ * Selects the network profile used by uploadChunk. The simulator restarts, so
+ * offline windows count from now and a seeded profile replays the same sequence
+ */
+export function setNetworkProfile(id: string): void {
+  localStorage.setItem(PROFILE_KEY, id);
+  localStorage.removeItem(LEGACY_SPEED_KEY);
+  simulator = createNetworkSimulator(getNetworkProfile());
+}
+
+/**
+ * Saves a new or edited profile. Editing a built-in profile stores an override
+ * that resetNetworkProfile removes
+ */
+export function saveNetworkProfile(profile: NetworkProfile): void {
+  saveCustomProfiles([...loadCustomProfiles().filter((existing) => existing.id !== profile.id), profile]);
+  if (profile.id === getNetworkProfileId()) {
+    simulator = createNetworkSimulator(profile);
+  }
+}
+
+/**
+ * Deletes a user-created profile, or restores a built-in one to its defaults
+ */
+export function resetNetworkProfile(id: string): void {
+  saveCustomProfiles(loadCustomProfiles().filter((profile) => profile.id !== id));
+  if (id === simulator.profile.id) {
+    setNetworkProfile(getNetworkProfileId());
+  }
+}
+
+/**
+ * Simulates uploading a chunk to the backend
+ * Since there's no backend, this reproduces the selected network profile
+ */
+export async function uploadChunk(request: ChunkUploadRequest): Promise<void> {
+  await simulator.sendChunk(request);
+
+  // Simulate successful upload
+  recordSimulatedChunk(request.uploadId, request.chunkIndex);
+  console.log(`Chunk ${request.chunkIndex} uploaded successfully`);
+}
+
+/**
+ * Simulates checking which chunks are already uploaded on the server
+ * In a real implementation, this would query the backend
+ */
+export async function getUploadedChunks(uploadId: string): Promise<number[]> {
+  // Simulate network delay
+  await new Promise(resolve => setTimeout(resolve, 100));
+
+  return loadSimulatedChunks(uploadId);
+}
+
+// The simulated "server" keeps received chunk indices in localStorage, so resume
+// can be reconciled against it just like against a real backend
+const SIMULATED_SERVER_PREFIX = 'simulated_server_chunks_';
+
+function loadSimulatedChunks(uploadId: string): number[] {
+  try {
+    const data = localStorage.getItem(`${SIMULATED_SERVER_PREFIX}${uploadId}`);
+    return data ? JSON.parse(data) : [];
+  } catch {
+    return [];
+  }
+}
+
+function recordSimulatedChunk(uploadId: string, chunkIndex: number): void {
+  const chunks = new Set(loadSimulatedChunks(uploadId));
+  chunks.add(chunkIndex);
+  try {
+    localStorage.setItem(
+      `${SIMULATED_SERVER_PREFIX}${uploadId}`,
+      JSON.stringify(Array.from(chunks).sort((a, b) => a - b))
+    );
+  } catch (error) {
+    console.error('Failed to record simulated chunk:', error);
+  }
+}
+
+/**
+ * Simulates discarding everything the server received for an upload
+ */
+export async function abortUpload(uploadId: string): Promise<void> {
+  localStorage.removeItem(`${SIMULATED_SERVER_PREFIX}${uploadId}`);
+}
+
+/**
+ * Transport backed by the simulated API above (no real server). Compressed chunks are
+ * accepted as they are; their smaller size makes them faster on a bandwidth-capped profile
+ */
+export const simulatedTransport: UploadTransport = {
+  contentEncodings: ['gzip', 'deflate'],
+  uploadChunk,
+  getUploadedChunks: (state: UploadState) => getUploadedChunks(state.uploadId),
+  abortUpload: (state: UploadState) => abortUpload(state.uploadId),
+};
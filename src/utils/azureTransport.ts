@@ -0,0 +1,184 @@
+import { ChunkUploadRequest, RemoteSession, UploadResult, UploadState, UploadTransport } from '../types/upload';
+import { createProgressFetch } from './progressFetch';
+import { httpError, withUploadErrors } from './uploadErrors';
+import { getStoredLength } from './encryption';
+
+const AZURE_API_VERSION = '2021-08-06';
+const MiB = 1024 * 1024;
+
+/**
+ * Block blob limits: at most 50,000 blocks of up to 4000 MiB each
+ */
+export const AZURE_LIMITS = {
+  maxChunkSize: 4000 * MiB,
+  maxChunks: 50_000,
+};
+
+export interface AzureTransportOptions {
+  /**
+   * Container URL including its SAS token, e.g.
+   * "https://account.blob.core.windows.net/uploads?sv=...&sig=..."
+   * or "http://127.0.0.1:10000/devstoreaccount1/uploads?..." for Azurite
+   */
+  containerUrl: string;
+  /** Prefix for blob names, e.g. "datasets/" */
+  keyPrefix?: string;
+  /** fetch implementation, defaults to the global one */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Deterministic block ID for a chunk. Azure requires every block ID of a blob
+ * to have the same length, so the index is zero-padded before base64 encoding
+ */
+export function getBlockId(chunkIndex: number): string {
+  return btoa(`block-${String(chunkIndex).padStart(6, '0')}`);
+}
+
+/**
+ * Inverse of getBlockId; returns null for block IDs this client did not create
+ */
+export function parseBlockId(blockId: string): number | null {
+  try {
+    const match = /^block-(\d{6})$/.exec(atob(blockId));
+    return match ? Number(match[1]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds the Put Block List XML body, committing blocks in chunk order
+ */
+export function buildBlockListXml(totalChunks: number): string {
+  const blocks = Array.from({ length: totalChunks }, (_, index) => `<Latest>${getBlockId(index)}</Latest>`);
+  return `<?xml version="1.0" encoding="utf-8"?><BlockList>${blocks.join('')}</BlockList>`;
+}
+
+/**
+ * Creates a transport that uploads to Azure Blob Storage as a block blob:
+ * one Put Block per chunk, Get Block List on resume and Put Block List to commit.
+ *
+ * Authentication is a SAS token on the container URL. The blob URL stored in the
+ * session has no query string, so the token is never persisted with upload state.
+ */
+export function createAzureTransport(options: AzureTransportOptions): UploadTransport {
+  const doFetch = withUploadErrors(options.fetch ?? ((input, init) => fetch(input, init)));
+  const sendChunk = withUploadErrors(createProgressFetch(options.fetch));
+  const container = new URL(options.containerUrl);
+
+  const getBlobUrl = (state: UploadState): string => {
+    const blobName = `${options.keyPrefix ?? ''}${state.uploadId}/${state.fileName}`;
+    const path = blobName.split('/').map(encodeURIComponent).join('/');
+    const blobUrl = new URL(container.toString());
+    blobUrl.pathname = `${container.pathname.replace(/\/$/, '')}/${path}`;
+    blobUrl.search = '';
+    return blobUrl.toString();
+  };
+
+  // Blob URL + SAS token + operation parameters
+  const signedUrl = (location: string, params: Record<string, string> = {}): string => {
+    const url = new URL(location);
+    container.searchParams.forEach((value, key) => url.searchParams.set(key, value));
+    Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+    return url.toString();
+  };
+
+  const azureHeaders = (extra: Record<string, string> = {}): Record<string, string> => ({
+    'x-ms-version': AZURE_API_VERSION,
+    ...extra,
+  });
+
+  const requireSession = (session: RemoteSession | undefined): RemoteSession => {
+    if (!session) {
+      throw new Error('Blob upload has not been created');
+    }
+    return session;
+  };
+
+  return {
+    limits: AZURE_LIMITS,
+
+    // Block blobs need no server-side setup; the session just records the blob URL
+    async createUpload(state: UploadState): Promise<RemoteSession> {
+      return { location: getBlobUrl(state) };
+    },
+
+    async uploadChunk(request: ChunkUploadRequest): Promise<void> {
+      const { location } = requireSession(request.session);
+      // Azure rejects empty blocks; an empty file is committed with an empty block list
+      if (request.chunkData.size === 0) {
+        return;
+      }
+      const response = await sendChunk(
+        signedUrl(location, { comp: 'block', blockid: getBlockId(request.chunkIndex) }),
+        { method: 'PUT', headers: azureHeaders(), body: request.chunkData, signal: request.signal },
+        request.onProgress
+      );
+      if (response.status !== 201) {
+        throw httpError(response, `Failed to upload chunk ${request.chunkIndex}`);
+      }
+    },
+
+    async getUploadedChunks(state: UploadState): Promise<number[]> {
+      if (!state.remoteSession) {
+        return [];
+      }
+
+      const response = await doFetch(
+        signedUrl(state.remoteSession.location, { comp: 'blocklist', blocklisttype: 'all' }),
+        { method: 'GET', headers: azureHeaders() }
+      );
+      if (response.status === 404) {
+        return [];
+      }
+      if (!response.ok) {
+        throw httpError(response, 'Failed to get block list');
+      }
+
+      // Committed and uncommitted blocks both count: blocks stay uncommitted until the end
+      const doc = new DOMParser().parseFromString(await response.text(), 'application/xml');
+      const chunks = new Set<number>();
+      for (const block of Array.from(doc.getElementsByTagName('Block'))) {
+        const index = parseBlockId(block.getElementsByTagName('Name')[0]?.textContent ?? '');
+        const size = Number(block.getElementsByTagName('Size')[0]?.textContent);
+        if (index === null || index >= state.totalChunks) {
+          continue;
+        }
+        // Ignore blocks left over from a different chunk layout; encrypted blocks carry a tag
+        if (size === getStoredLength(state, state.chunks[index])) {
+          chunks.add(index);
+        }
+      }
+      return Array.from(chunks).sort((a, b) => a - b);
+    },
+
+    async completeUpload(state: UploadState): Promise<UploadResult> {
+      const { location } = requireSession(state.remoteSession);
+      const response = await doFetch(signedUrl(location, { comp: 'blocklist' }), {
+        method: 'PUT',
+        headers: azureHeaders({ 'Content-Type': 'application/xml' }),
+        body: buildBlockListXml(state.fileSize === 0 ? 0 : state.totalChunks),
+      });
+      if (response.status !== 201) {
+        throw httpError(response, 'Failed to commit block list');
+      }
+      return { location };
+    },
+
+    // Uncommitted blocks are garbage collected by Azure after a week;
+    // deleting the blob removes anything that was already committed
+    async abortUpload(state: UploadState): Promise<void> {
+      if (!state.remoteSession) {
+        return;
+      }
+      const response = await doFetch(signedUrl(state.remoteSession.location), {
+        method: 'DELETE',
+        headers: azureHeaders(),
+      });
+      if (!response.ok && response.status !== 404) {
+        throw httpError(response, 'Failed to delete blob');
+      }
+    },
+  };
+}
@@ -0,0 +1,181 @@
+// Digests are written as "<algorithm>:<hex>", the format servers report for the whole file
+const SHA256_PREFIX = 'sha256:';
+// Slice read per step when hashing a whole file
+const FILE_READ_SIZE = 4 * 1024 * 1024;
+
+// SHA-256 round constants
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+const rotr = (x: number, n: number) => (x >>> n) | (x << (32 - n));
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Incremental SHA-256. SubtleCrypto only hashes a whole buffer at once, which does not
+ * work for files larger than memory. Much slower than SubtleCrypto, so large inputs are
+ * hashed in a worker (see sha256FileInSlices)
+ */
+export function createSha256() {
+  const state = new Uint32Array([
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ]);
+  const block = new Uint8Array(64);
+  const w = new Uint32Array(64);
+  let blockLength = 0;
+  let totalBytes = 0;
+
+  const compress = (data: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = (data[j] << 24) | (data[j + 1] << 16) | (data[j + 2] << 8) | data[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = w[i - 16] + s0 + w[i - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = state;
+    for (let i = 0; i < 64; i++) {
+      const t1 = (h + (rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)) + ((e & f) ^ (~e & g)) + K[i] + w[i]) >>> 0;
+      const t2 = ((rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)) + ((a & b) ^ (a & c) ^ (b & c))) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + t1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (t1 + t2) >>> 0;
+    }
+
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  return {
+    update(data: Uint8Array): void {
+      totalBytes += data.length;
+      let position = 0;
+
+      // Top up a partly filled block first
+      if (blockLength > 0) {
+        const take = Math.min(64 - blockLength, data.length);
+        block.set(data.subarray(0, take), blockLength);
+        blockLength += take;
+        position = take;
+        if (blockLength < 64) {
+          return;
+        }
+        compress(block, 0);
+        blockLength = 0;
+      }
+
+      for (; position + 64 <= data.length; position += 64) {
+        compress(data, position);
+      }
+      block.set(data.subarray(position), 0);
+      blockLength = data.length - position;
+    },
+
+    /** Finishes the hash; the hasher must not be used afterwards */
+    digest(): Uint8Array {
+      const bitLength = totalBytes * 8;
+      block[blockLength++] = 0x80;
+      if (blockLength > 56) {
+        block.fill(0, blockLength);
+        compress(block, 0);
+        blockLength = 0;
+      }
+      block.fill(0, blockLength, 56);
+      const view = new DataView(block.buffer);
+      view.setUint32(56, Math.floor(bitLength / 2 ** 32));
+      view.setUint32(60, bitLength >>> 0);
+      compress(block, 0);
+
+      const out = new Uint8Array(32);
+      const outView = new DataView(out.buffer);
+      state.forEach((word, i) => outView.setUint32(i * 4, word));
+      return out;
+    },
+  };
+}
+
+/**
+ * SHA-256 of a buffer ("sha256:<hex>"), using SubtleCrypto where available
+ * (browsers only offer it on secure origins)
+ */
+export async function sha256Bytes(data: ArrayBuffer): Promise<string> {
+  if (globalThis.crypto?.subtle) {
+    // Passed as a view: Node's WebCrypto (under jsdom in tests) rejects bare ArrayBuffers from other realms
+    return `${SHA256_PREFIX}${toHex(new Uint8Array(await crypto.subtle.digest('SHA-256', new Uint8Array(data))))}`;
+  }
+  const hash = createSha256();
+  hash.update(new Uint8Array(data));
+  return `${SHA256_PREFIX}${toHex(hash.digest())}`;
+}
+
+/**
+ * SHA-256 of one chunk ("sha256:<hex>")
+ */
+export async function sha256Chunk(data: Blob): Promise<string> {
+  return sha256Bytes(await data.arrayBuffer());
+}
+
+/**
+ * SHA-256 of a file read into memory at once ("sha256:<hex>"), for files known to be
+ * small (fingerprints, decrypted downloads). Large files use ChunkProcessor.hashFile
+ */
+export async function sha256File(file: Blob): Promise<string> {
+  return sha256Bytes(await file.arrayBuffer());
+}
+
+/**
+ * SHA-256 of a whole file ("sha256:<hex>"), read in slices so memory use stays flat.
+ * Runs the incremental hash, which would block the UI on a large file: call it from a
+ * worker (utils/chunkWorker.ts)
+ */
+export async function sha256FileInSlices(file: Blob): Promise<string> {
+  const hash = createSha256();
+  for (let offset = 0; offset < file.size; offset += FILE_READ_SIZE) {
+    hash.update(new Uint8Array(await file.slice(offset, offset + FILE_READ_SIZE).arrayBuffer()));
+  }
+  return `${SHA256_PREFIX}${toHex(hash.digest())}`;
+}
+
+/**
+ * "sha256:<hex>" as base64, the encoding of x-amz-checksum-sha256 and tus Upload-Checksum;
+ * undefined for anything but a SHA-256 digest
+ */
+export function checksumToBase64(checksum: string): string | undefined {
+  const hex = /^sha256:([0-9a-f]{64})$/i.exec(checksum)?.[1];
+  if (!hex) {
+    return undefined;
+  }
+  const bytes = hex.match(/../g)!.map((byte) => parseInt(byte, 16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Whether a digest reported by a server is a SHA-256 the local file can be checked against
+ */
+export function isSha256Checksum(checksum: string | undefined): checksum is string {
+  return checksum !== undefined && /^sha256:[0-9a-f]{64}$/i.test(checksum);
+}
@@ -0,0 +1,75 @@
+import { sha256Bytes, sha256FileInSlices } from './checksum';
+import { encryptChunkBytes } from './encryption';
+import { compressBytes } from './compression';
+import { ContentEncoding } from '../types/upload';
+
+/**
+ * A chunk ready to send: the bytes that go over the wire and their checksum
+ */
+export interface ProcessedChunk {
+  data: ArrayBuffer;
+  /** SHA-256 of data ("sha256:<hex>") */
+  checksum: string;
+  /** Set when data is compressed; chunks that do not get smaller are sent as they are */
+  contentEncoding?: ContentEncoding;
+}
+
+/**
+ * Digest of a whole file, for checking the one a server reports after the upload
+ */
+export interface FileDigest {
+  /** SHA-256 of the file ("sha256:<hex>") */
+  checksum: string;
+}
+
+/**
+ * Per-chunk settings; CryptoKeys can be posted to workers, so they travel with each chunk
+ */
+export interface ChunkProcessingOptions {
+  /** Compress with CompressionStream first, see utils/compression.ts */
+  compression?: ContentEncoding;
+  /** Encrypt with AES-GCM before hashing, see utils/encryption.ts */
+  encryption?: { key: CryptoKey; iv: Uint8Array<ArrayBuffer> };
+}
+
+/**
+ * CPU-heavy work done to every chunk before it is sent. Runs in a worker
+ * (utils/chunkWorker.ts) or, where workers are unavailable, on the main thread.
+ * The checksum covers the bytes sent, so for encrypted chunks the ciphertext
+ */
+export async function processChunkBytes(
+  data: ArrayBuffer,
+  options: ChunkProcessingOptions = {}
+): Promise<ProcessedChunk> {
+  let contentEncoding: ContentEncoding | undefined;
+  if (options.compression) {
+    const compressed = await compressBytes(data, options.compression);
+    if (compressed.byteLength < data.byteLength) {
+      data = compressed;
+      contentEncoding = options.compression;
+    }
+  }
+  if (options.encryption) {
+    data = await encryptChunkBytes(options.encryption.key, options.encryption.iv, data);
+  }
+  const checksum = await sha256Bytes(data);
+  return contentEncoding ? { data, checksum, contentEncoding } : { data, checksum };
+}
+
+/**
+ * Work the chunk workers do: process a chunk's bytes, or hash a whole file
+ */
+export type WorkerTask = { data: ArrayBuffer; options: ChunkProcessingOptions } | { file: Blob };
+
+export type WorkerResult = ProcessedChunk | FileDigest;
+
+/**
+ * Does a task in a worker (utils/chunkWorker.ts) or, where workers are unavailable, on
+ * the main thread
+ */
+export async function runWorkerTask(task: WorkerTask): Promise<WorkerResult> {
+  if ('file' in task) {
+    return { checksum: await sha256FileInSlices(task.file) };
+  }
+  return processChunkBytes(task.data, task.options);
+}
@@ -0,0 +1,18 @@
+import { runWorkerTask } from './chunkProcessing';
+import type { ChunkWorkerRequest, ChunkWorkerResponse } from './workerPool';
+
+// Dedicated worker scope (the project's lib settings describe a window)
+declare const self: {
+  onmessage: ((event: MessageEvent<ChunkWorkerRequest>) => void) | null;
+  postMessage(message: ChunkWorkerResponse, options: { transfer: Transferable[] }): void;
+};
+
+// Worker entry for utils/workerPool.ts. Chunk buffers are transferred in and out, never copied
+self.onmessage = async ({ data: { id, ...task } }) => {
+  try {
+    const result = await runWorkerTask(task);
+    self.postMessage({ id, ...result }, { transfer: 'data' in result ? [result.data] : [] });
+  } catch (error) {
+    self.postMessage({ id, error: error instanceof Error ? error.message : String(error) }, { transfer: [] });
+  }
+};
@@ -0,0 +1,107 @@
+import { ChunkStatus, UploadState } from '../types/upload';
+
+/**
+ * Chunk fields besides the byte range and the uploaded flag; saved only for chunks where
+ * they differ from a fresh chunk (not failed, no retries)
+ */
+export type ChunkDetails = Partial<
+  Pick<ChunkStatus, 'failed' | 'retryCount' | 'etag' | 'checksum' | 'compressedLength' | 'lastError'>
+>;
+
+/**
+ * How an UploadState is saved: the chunk list takes space for what differs between chunks
+ * rather than one object per chunk, so a state with 100,000 chunks stays small
+ */
+export interface CompactUploadState extends Omit<UploadState, 'chunks'> {
+  /**
+   * Chunk lengths as [length, count] runs, in chunk order. Chunks are contiguous, so
+   * offsets follow from the lengths
+   */
+  chunkLengths: [number, number][];
+  /** Lengths of alternating runs of chunks not uploaded and uploaded, starting with not uploaded */
+  uploadedRuns: number[];
+  /** Details of the chunks that have any, by chunk index */
+  chunkDetails: Record<number, ChunkDetails>;
+}
+
+/**
+ * A chunk's status after it changed, appended to the upload's journal instead of saving
+ * the whole state again (see utils/statePersister.ts). Byte ranges only change with a
+ * new snapshot, so they are left out
+ */
+export type JournalEntry = Omit<ChunkStatus, 'offset' | 'length'> & { lastUpdate: number };
+
+function getDetails({ failed, retryCount, etag, checksum, compressedLength, lastError }: ChunkStatus): ChunkDetails {
+  return {
+    ...(failed ? { failed } : {}),
+    ...(retryCount > 0 ? { retryCount } : {}),
+    ...(etag !== undefined ? { etag } : {}),
+    ...(checksum !== undefined ? { checksum } : {}),
+    ...(compressedLength !== undefined ? { compressedLength } : {}),
+    ...(lastError !== undefined ? { lastError } : {}),
+  };
+}
+
+export function compactUploadState({ chunks, ...rest }: UploadState): CompactUploadState {
+  const chunkLengths: [number, number][] = [];
+  const uploadedRuns: number[] = [0];
+  const chunkDetails: Record<number, ChunkDetails> = {};
+
+  for (const chunk of chunks) {
+    const lastLength = chunkLengths[chunkLengths.length - 1];
+    if (lastLength?.[0] === chunk.length) {
+      lastLength[1]++;
+    } else {
+      chunkLengths.push([chunk.length, 1]);
+    }
+
+    // Odd runs are uploaded
+    if (chunk.uploaded !== (uploadedRuns.length % 2 === 0)) {
+      uploadedRuns.push(0);
+    }
+    uploadedRuns[uploadedRuns.length - 1]++;
+
+    const details = getDetails(chunk);
+    if (Object.keys(details).length > 0) {
+      chunkDetails[chunk.chunkIndex] = details;
+    }
+  }
+
+  return { ...rest, chunkLengths, uploadedRuns, chunkDetails };
+}
+
+/**
+ * Chunk objects of a compact state. The compact fields must have been checked (see
+ * utils/stateSchema.ts): lengths and runs cover the same number of chunks
+ */
+export function expandChunks({ chunkLengths, uploadedRuns, chunkDetails }: CompactUploadState): ChunkStatus[] {
+  const chunks: ChunkStatus[] = [];
+  let offset = 0;
+  for (const [length, count] of chunkLengths) {
+    for (let n = 0; n < count; n++) {
+      const chunkIndex = chunks.length;
+      chunks.push({ chunkIndex, offset, length, uploaded: false, failed: false, retryCount: 0, ...chunkDetails[chunkIndex] });
+      offset += length;
+    }
+  }
+
+  let index = 0;
+  uploadedRuns.forEach((run, runIndex) => {
+    for (const end = index + run; index < end; index++) {
+      chunks[index].uploaded = runIndex % 2 === 1;
+    }
+  });
+  return chunks;
+}
+
+/**
+ * Chunks with journal entries applied in order, each replacing its chunk's status
+ */
+export function applyJournal(chunks: ChunkStatus[], journal: JournalEntry[]): ChunkStatus[] {
+  const updated = [...chunks];
+  for (const { lastUpdate: _lastUpdate, ...status } of journal) {
+    const { offset, length } = updated[status.chunkIndex];
+    updated[status.chunkIndex] = { ...status, offset, length };
+  }
+  return updated;
+}
@@ -0,0 +1,86 @@
+import { ContentEncoding, UploadSession, UploadTransport } from '../types/upload';
+
+// In order of preference
+const CONTENT_ENCODINGS: ContentEncoding[] = ['gzip', 'deflate'];
+
+// Formats that are compressed already (or contain compressed data); compressing them again saves nothing
+const COMPRESSED_EXTENSIONS = new Set([
+  // Archives and compressed streams
+  'gz', 'tgz', 'zip', 'bz2', 'xz', 'zst', 'lz4', '7z', 'rar', 'br',
+  // Columnar and array formats with built-in compression, and zip-based model files
+  'parquet', 'orc', 'avro', 'npz', 'pt', 'pth', 'onnx', 'tflite',
+  // Media
+  'jpg', 'jpeg', 'png', 'gif', 'webp', 'avif', 'heic', 'mp3', 'mp4', 'm4a', 'mov', 'mkv', 'webm', 'ogg', 'flac', 'pdf',
+]);
+
+// Leading bytes of compressed formats, for files with a missing or misleading extension
+const COMPRESSED_MAGIC: number[][] = [
+  [0x1f, 0x8b], // gzip
+  [0x50, 0x4b, 0x03, 0x04], // zip (also npz, pt, docx, ...)
+  [0x28, 0xb5, 0x2f, 0xfd], // zstd
+  [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00], // xz
+  [0x42, 0x5a, 0x68], // bzip2
+  [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], // 7z
+  [0x52, 0x61, 0x72, 0x21], // rar
+  [0x50, 0x41, 0x52, 0x31], // parquet
+  [0x89, 0x50, 0x4e, 0x47], // png
+  [0xff, 0xd8, 0xff], // jpeg
+];
+const MAGIC_BYTES = Math.max(...COMPRESSED_MAGIC.map((magic) => magic.length));
+
+/**
+ * Whether a file is in an already-compressed format, by its extension or its first bytes
+ */
+export function isCompressedFormat(fileName: string, header: Uint8Array): boolean {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : '';
+  if (COMPRESSED_EXTENSIONS.has(extension)) {
+    return true;
+  }
+  return COMPRESSED_MAGIC.some((magic) => magic.every((byte, index) => header[index] === byte));
+}
+
+/**
+ * Content-Encodings both sides support: what the transport can send, limited to what the
+ * server accepted when the upload was initialized. Transports that issue sessions must
+ * list the server's encodings there; without initUpload the transport's own list stands
+ */
+export function negotiateContentEncodings(transport: UploadTransport, session: UploadSession): ContentEncoding[] {
+  const accepted = transport.initUpload ? session.contentEncodings ?? [] : transport.contentEncodings ?? [];
+  return CONTENT_ENCODINGS.filter(
+    (encoding) => transport.contentEncodings?.includes(encoding) && accepted.includes(encoding)
+  );
+}
+
+/**
+ * Picks how a file's chunks are compressed: the preferred negotiated encoding, or none when
+ * there is none, the browser lacks CompressionStream or the file is compressed already
+ */
+export async function chooseContentEncoding(
+  file: File,
+  encodings: ContentEncoding[]
+): Promise<ContentEncoding | undefined> {
+  if (encodings.length === 0 || typeof CompressionStream === 'undefined') {
+    return undefined;
+  }
+  const header = new Uint8Array(await file.slice(0, MAGIC_BYTES).arrayBuffer());
+  return isCompressedFormat(file.name, header) ? undefined : encodings[0];
+}
+
+function transform(data: ArrayBuffer, stream: CompressionStream | DecompressionStream): Promise<ArrayBuffer> {
+  const writer = stream.writable.getWriter();
+  // Not awaited: the output must be read while the input is written. Failures (e.g.
+  // corrupt input) also error the readable side, where they are reported
+  writer
+    .write(new Uint8Array(data))
+    .then(() => writer.close())
+    .catch(() => {});
+  return new Response(stream.readable).arrayBuffer();
+}
+
+export function compressBytes(data: ArrayBuffer, encoding: ContentEncoding): Promise<ArrayBuffer> {
+  return transform(data, new CompressionStream(encoding));
+}
+
+export function decompressBytes(data: ArrayBuffer, encoding: ContentEncoding): Promise<ArrayBuffer> {
+  return transform(data, new DecompressionStream(encoding));
+}
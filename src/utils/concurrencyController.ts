@@ -0,0 +1,114 @@
+import { UploadError } from './uploadErrors';
+
+/**
+ * Bounds for the number of chunk requests kept in flight
+ */
+export interface ConcurrencyLimits {
+  min: number;
+  max: number;
+  /** Where the controller starts before it has measured anything */
+  initial: number;
+}
+
+export const DEFAULT_CONCURRENCY_LIMITS: ConcurrencyLimits = {
+  min: 1,
+  max: 8,
+  initial: 3,
+};
+
+// Throughput of a round must beat the previous round by this fraction to add a slot,
+// so measurement noise alone does not ratchet concurrency up
+const MIN_IMPROVEMENT = 0.05;
+
+/**
+ * Errors that mean the link or the server is overloaded: a client or gateway timeout,
+ * or a 429 rate limit. Other failures say nothing about how many requests are in flight
+ */
+export function isCongestionSignal(error: UploadError): boolean {
+  return error.kind === 'timeout' || error.status === 429;
+}
+
+export interface ConcurrencyController {
+  /** Requests that may be in flight right now */
+  readonly current: number;
+  /** A chunk of `bytes` sent by a request started at `startedAt` (epoch ms) succeeded */
+  recordSuccess(bytes: number, startedAt: number): void;
+  /** A request started at `startedAt` failed */
+  recordFailure(error: UploadError, startedAt: number): void;
+}
+
+/**
+ * AIMD (additive increase, multiplicative decrease) control of upload concurrency.
+ *
+ * Throughput is measured per round, a round being as many successful chunks as there are
+ * slots. Concurrency grows by one after a round that was faster than the one before, and
+ * is halved on a congestion signal (see isCongestionSignal). Requests that were already
+ * in flight when concurrency was cut are ignored: their failures share the same cause,
+ * and their timing says nothing about the smaller window
+ */
+export function createConcurrencyController(
+  limits: ConcurrencyLimits = DEFAULT_CONCURRENCY_LIMITS,
+  options: { onChange?: (concurrency: number) => void; now?: () => number } = {}
+): ConcurrencyController {
+  const now = options.now ?? (() => Date.now());
+  const min = Math.max(1, Math.floor(limits.min));
+  const max = Math.max(min, Math.floor(limits.max));
+  const clamp = (value: number) => Math.min(max, Math.max(min, value));
+
+  let current = clamp(Math.floor(limits.initial));
+  let lastDecreaseAt = -Infinity;
+  let previousThroughput: number | null = null;
+  let roundStartedAt: number | null = null;
+  let roundBytes = 0;
+  let roundChunks = 0;
+
+  const startRound = () => {
+    roundStartedAt = null;
+    roundBytes = 0;
+    roundChunks = 0;
+  };
+
+  const setCurrent = (value: number) => {
+    if (value !== current) {
+      current = value;
+      options.onChange?.(current);
+    }
+  };
+
+  return {
+    get current() {
+      return current;
+    },
+
+    recordSuccess(bytes, startedAt) {
+      if (startedAt <= lastDecreaseAt) {
+        return;
+      }
+      roundStartedAt = Math.min(roundStartedAt ?? startedAt, startedAt);
+      roundBytes += bytes;
+      roundChunks++;
+      if (roundChunks < current) {
+        return;
+      }
+
+      const elapsed = Math.max(1, now() - roundStartedAt);
+      const throughput = roundBytes / elapsed;
+      if (previousThroughput === null || throughput > previousThroughput * (1 + MIN_IMPROVEMENT)) {
+        setCurrent(clamp(current + 1));
+      }
+      previousThroughput = throughput;
+      startRound();
+    },
+
+    recordFailure(error, startedAt) {
+      if (!isCongestionSignal(error) || startedAt <= lastDecreaseAt) {
+        return;
+      }
+      lastDecreaseAt = now();
+      setCurrent(clamp(Math.floor(current / 2)));
+      // Measure the smaller window from scratch
+      previousThroughput = null;
+      startRound();
+    },
+  };
+}
@@ -0,0 +1,174 @@
+import { ChunkStatus, UploadEncryption, UploadState } from '../types/upload';
+import { isSha256Checksum, sha256File } from './checksum';
+
+// AES-GCM appends a 16-byte authentication tag to every chunk it encrypts
+export const ENCRYPTION_OVERHEAD = 16;
+// 96-bit IVs: a random per-upload prefix followed by the chunk index
+const IV_PREFIX_BYTES = 8;
+const SALT_BYTES = 16;
+// OWASP's recommendation for PBKDF2-HMAC-SHA256
+export const DEFAULT_KDF_ITERATIONS = 600_000;
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function base64ToBytes(base64: string) {
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+}
+
+// Key-encryption key for wrapping the upload's data key, derived from the passphrase
+async function deriveWrappingKey(passphrase: string, keyDerivation: UploadEncryption['keyDerivation']) {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    {
+      name: 'PBKDF2',
+      hash: keyDerivation.hash,
+      salt: base64ToBytes(keyDerivation.salt),
+      iterations: keyDerivation.iterations,
+    },
+    material,
+    { name: 'AES-KW', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  );
+}
+
+async function unwrapDataKey(encryption: UploadEncryption, wrappingKey: CryptoKey): Promise<CryptoKey> {
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      base64ToBytes(encryption.wrappedKey),
+      wrappingKey,
+      'AES-KW',
+      { name: 'AES-GCM', length: 256 },
+      false,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    // AES-KW checks its integrity value, so a wrong passphrase fails here rather than producing garbage
+    throw new Error('Wrong passphrase for this encrypted upload');
+  }
+}
+
+/**
+ * Sets up encryption for a new upload: a random AES-256-GCM data key, wrapped with a
+ * key derived from the passphrase (PBKDF2-SHA256). Only the wrapped key is kept in the
+ * upload state; the returned key cannot be exported
+ */
+export async function createUploadEncryption(
+  passphrase: string,
+  { iterations = DEFAULT_KDF_ITERATIONS }: { iterations?: number } = {}
+): Promise<{ encryption: UploadEncryption; key: CryptoKey }> {
+  const keyDerivation: UploadEncryption['keyDerivation'] = {
+    algorithm: 'PBKDF2',
+    hash: 'SHA-256',
+    iterations,
+    salt: bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES))),
+  };
+  const wrappingKey = await deriveWrappingKey(passphrase, keyDerivation);
+  const dataKey = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+
+  const encryption: UploadEncryption = {
+    algorithm: 'AES-GCM',
+    keyLength: 256,
+    ivPrefix: bytesToBase64(crypto.getRandomValues(new Uint8Array(IV_PREFIX_BYTES))),
+    wrappedKey: bytesToBase64(new Uint8Array(await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, 'AES-KW'))),
+    keyAlgorithm: 'AES-KW',
+    keyDerivation,
+  };
+  return { encryption, key: await unwrapDataKey(encryption, wrappingKey) };
+}
+
+/**
+ * Recovers an upload's data key from its passphrase, e.g. to resume or decrypt it
+ */
+export async function unlockUploadEncryption(encryption: UploadEncryption, passphrase: string): Promise<CryptoKey> {
+  return unwrapDataKey(encryption, await deriveWrappingKey(passphrase, encryption.keyDerivation));
+}
+
+/**
+ * Encryption for a new upload under the same data key and passphrase (e.g. restarting
+ * with another file). The IV prefix is drawn afresh so no IV is used twice with the key
+ */
+export function renewUploadEncryption(encryption: UploadEncryption): UploadEncryption {
+  return { ...encryption, ivPrefix: bytesToBase64(crypto.getRandomValues(new Uint8Array(IV_PREFIX_BYTES))) };
+}
+
+/**
+ * IV for one chunk: the upload's random prefix and the chunk index (big-endian). Unique
+ * per chunk, and the same on every attempt, so a resent chunk has the same bytes and checksum
+ */
+export function getChunkIv(encryption: UploadEncryption, chunkIndex: number): Uint8Array<ArrayBuffer> {
+  const iv = new Uint8Array(IV_PREFIX_BYTES + 4);
+  iv.set(base64ToBytes(encryption.ivPrefix));
+  new DataView(iv.buffer).setUint32(IV_PREFIX_BYTES, chunkIndex);
+  return iv;
+}
+
+export function encryptChunkBytes(key: CryptoKey, iv: Uint8Array<ArrayBuffer>, data: ArrayBuffer): Promise<ArrayBuffer> {
+  return crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data);
+}
+
+/**
+ * Where a chunk starts in the uploaded object. Encrypted chunks are longer than the file
+ * range they cover, so offsets shift by the tags of the chunks before them
+ */
+export function getStoredOffset(state: UploadState, chunk: ChunkStatus): number {
+  return chunk.offset + (state.encryption ? chunk.chunkIndex * ENCRYPTION_OVERHEAD : 0);
+}
+
+/**
+ * Bytes a chunk takes in the uploaded object
+ */
+export function getStoredLength(state: UploadState, chunk: ChunkStatus): number {
+  return chunk.length + (state.encryption ? ENCRYPTION_OVERHEAD : 0);
+}
+
+/**
+ * Size of the uploaded object: the file size, plus a tag per chunk when encrypted
+ */
+export function getStoredSize(state: UploadState): number {
+  return state.fileSize + (state.encryption ? state.totalChunks * ENCRYPTION_OVERHEAD : 0);
+}
+
+/**
+ * Decrypts a downloaded copy of an encrypted upload back into the original file.
+ *
+ * Each chunk's GCM tag authenticates its bytes and, through the IV, its position, so
+ * tampered, reordered or swapped chunks fail. The result is then checked against
+ * expectedChecksum, or the whole-file hash in the upload's fingerprint when it has one
+ */
+export async function decryptUpload(
+  encrypted: Blob,
+  state: UploadState,
+  key: CryptoKey,
+  { expectedChecksum = state.fingerprint?.fullHash }: { expectedChecksum?: string } = {}
+): Promise<Blob> {
+  const { encryption } = state;
+  if (!encryption) {
+    throw new Error('Upload is not encrypted');
+  }
+  if (encrypted.size !== getStoredSize(state)) {
+    throw new Error(`Encrypted upload is ${encrypted.size} bytes, expected ${getStoredSize(state)}`);
+  }
+
+  const parts: ArrayBuffer[] = [];
+  for (const chunk of state.chunks) {
+    const start = getStoredOffset(state, chunk);
+    const data = await encrypted.slice(start, start + getStoredLength(state, chunk)).arrayBuffer();
+    try {
+      parts.push(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: getChunkIv(encryption, chunk.chunkIndex) }, key, data));
+    } catch {
+      throw new Error(`Chunk ${chunk.chunkIndex} failed authentication: wrong key or corrupted data`);
+    }
+  }
+
+  const file = new Blob(parts);
+  if (isSha256Checksum(expectedChecksum) && (await sha256File(file)) !== expectedChecksum.toLowerCase()) {
+    throw new Error('Decrypted file does not match the original checksum');
+  }
+  return file;
+}
@@ -1,24 +1,106 @@
-/**
- * Splits a file into chunks of specified size
- */
-export function splitFileIntoChunks(file: File, chunkSize: number): Blob[] {
-  const chunks: Blob[] = [];
-  let start = 0;
-
-  while (start < file.size) {
-    const end = Math.min(start + chunkSize, file.size);
-    const chunk = file.slice(start, end);
-    chunks.push(chunk);
-    start = end;
-  }
-
-  return chunks;
-}
-
-/**
- * Generates a unique upload ID
- */
-export function generateUploadId(): string {
-  return `upload_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-}
-
+import { ChunkStatus, TransportLimits } from '../types/upload';
+
+const KiB = 1024;
+const MiB = 1024 * KiB;
+
+// Bounds for chunk sizes chosen automatically
+export const MIN_CHUNK_SIZE = 256 * KiB;
+export const MAX_CHUNK_SIZE = 64 * MiB;
+// Used until a throughput has been measured
+const DEFAULT_CHUNK_SIZE = 1 * MiB;
+// Aim for chunks that take about this long on one connection: long enough that
+// per-request overhead does not matter, short enough that a failure loses little
+const TARGET_CHUNK_SECONDS = 5;
+// Keeps per-chunk bookkeeping (state writes, grid cells, requests) bounded for huge files
+const TARGET_MAX_CHUNKS = 2000;
+
+/**
+ * Splits a file into chunks of specified size (an empty file still gets one, empty, chunk)
+ */
+export function splitFileIntoChunks(file: File, chunkSize: number): Blob[] {
+  if (file.size === 0) {
+    return [file.slice(0, 0)];
+  }
+
+  const chunks: Blob[] = [];
+  let start = 0;
+
+  while (start < file.size) {
+    const end = Math.min(start + chunkSize, file.size);
+    const chunk = file.slice(start, end);
+    chunks.push(chunk);
+    start = end;
+  }
+
+  return chunks;
+}
+
+/**
+ * Generates a unique upload ID
+ */
+export function generateUploadId(): string {
+  return `upload_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+/**
+ * Picks a chunk size for a file that satisfies the transport's limits,
+ * growing the preferred size when it is below the minimum or would need too many chunks
+ */
+export function getChunkSize(fileSize: number, preferredSize: number, limits: TransportLimits = {}): number {
+  let chunkSize = Math.max(preferredSize, limits.minChunkSize ?? 0);
+
+  if (limits.maxChunks && Math.ceil(fileSize / chunkSize) > limits.maxChunks) {
+    // Round up to a whole MiB to keep chunk boundaries tidy
+    chunkSize = Math.ceil(fileSize / limits.maxChunks / MiB) * MiB;
+  }
+
+  if (limits.maxChunkSize && chunkSize > limits.maxChunkSize) {
+    throw new Error('File is too large for this upload transport');
+  }
+
+  return chunkSize;
+}
+
+/**
+ * Chooses the chunk size for a new upload, or for the part of an upload not sent yet:
+ * sized from the measured throughput of one connection (bytes/s, null if unknown),
+ * grown for files that would otherwise need very many chunks, then fitted to the
+ * transport's limits (see getChunkSize)
+ */
+export function chooseChunkSize(
+  fileSize: number,
+  limits: TransportLimits = {},
+  throughput: number | null = null
+): number {
+  const forThroughput = throughput ? throughput * TARGET_CHUNK_SECONDS : DEFAULT_CHUNK_SIZE;
+  const forChunkCount = fileSize / TARGET_MAX_CHUNKS;
+  // Round to whole 256 KiB steps so sizes stay tidy and do not drift with every measurement
+  const preferred = Math.ceil(Math.max(forThroughput, forChunkCount) / MIN_CHUNK_SIZE) * MIN_CHUNK_SIZE;
+  const bounded = Math.min(MAX_CHUNK_SIZE, limits.maxChunkSize ?? Infinity, Math.max(MIN_CHUNK_SIZE, preferred));
+  return getChunkSize(fileSize, bounded, limits);
+}
+
+/**
+ * The bytes of one chunk, or null when the file does not reach the chunk
+ * (e.g. a different file was selected); an empty file has one empty chunk
+ */
+export function sliceChunk(file: File, chunk: Pick<ChunkStatus, 'offset' | 'length'>): Blob | null {
+  if (chunk.offset >= file.size && !(chunk.offset === 0 && file.size === 0)) {
+    return null;
+  }
+  return file.slice(chunk.offset, chunk.offset + chunk.length);
+}
+
+/**
+ * Number of chunks for a file (an empty file still needs one chunk)
+ */
+export function getTotalChunks(fileSize: number, chunkSize: number): number {
+  return fileSize === 0 ? 1 : Math.ceil(fileSize / chunkSize);
+}
+
+/**
+ * Size in bytes of one chunk; only the last chunk may be shorter than chunkSize
+ */
+export function getChunkLength(fileSize: number, chunkSize: number, chunkIndex: number): number {
+  return Math.max(0, Math.min(chunkSize, fileSize - chunkIndex * chunkSize));
+}
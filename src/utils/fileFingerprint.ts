@@ -0,0 +1,91 @@
+import { FileFingerprint, UploadState } from '../types/upload';
+import { sha256Chunk, sha256File } from './checksum';
+
+const KiB = 1024;
+const MiB = 1024 * KiB;
+
+// Sampled blocks: the first and last block plus evenly spaced ones between them
+const SAMPLE_BLOCK_SIZE = 64 * KiB;
+const SAMPLE_BLOCKS = 16;
+// Files up to this size also get a whole-file hash
+export const DEFAULT_FULL_HASH_MAX_SIZE = 64 * MiB;
+
+/**
+ * Byte ranges hashed for the sample hash; the whole file when it is smaller than the samples
+ */
+export function getSampleRanges(fileSize: number): { start: number; end: number }[] {
+  if (fileSize <= SAMPLE_BLOCK_SIZE * SAMPLE_BLOCKS) {
+    return [{ start: 0, end: fileSize }];
+  }
+  const step = (fileSize - SAMPLE_BLOCK_SIZE) / (SAMPLE_BLOCKS - 1);
+  return Array.from({ length: SAMPLE_BLOCKS }, (_, index) => {
+    const start = Math.round(index * step);
+    return { start, end: start + SAMPLE_BLOCK_SIZE };
+  });
+}
+
+function hashSamples(file: File): Promise<string> {
+  return sha256Chunk(new Blob(getSampleRanges(file.size).map(({ start, end }) => file.slice(start, end))));
+}
+
+/**
+ * Fingerprints a file from its size, lastModified and a hash of sampled blocks, so only
+ * about 1 MiB is read however large the file is. Files up to fullHashMaxSize are hashed whole too
+ */
+export async function createFileFingerprint(
+  file: File,
+  { fullHashMaxSize = DEFAULT_FULL_HASH_MAX_SIZE }: { fullHashMaxSize?: number } = {}
+): Promise<FileFingerprint> {
+  const fingerprint: FileFingerprint = {
+    size: file.size,
+    lastModified: file.lastModified,
+    sampleHash: await hashSamples(file),
+  };
+  if (file.size <= fullHashMaxSize) {
+    fingerprint.fullHash = await sha256File(file);
+  }
+  return fingerprint;
+}
+
+/**
+ * Whether a file has the contents a fingerprint was taken from. The name is not part of
+ * it, so a renamed file still matches. Samples miss edits between them, so without a
+ * whole-file hash the file must also not have been modified since
+ */
+export async function matchesFingerprint(fingerprint: FileFingerprint, file: File): Promise<boolean> {
+  if (file.size !== fingerprint.size) {
+    return false;
+  }
+  if ((await hashSamples(file)) !== fingerprint.sampleHash) {
+    return false;
+  }
+  if (fingerprint.fullHash) {
+    return (await sha256File(file)) === fingerprint.fullHash;
+  }
+  return file.lastModified === fingerprint.lastModified;
+}
+
+/**
+ * Whether a re-selected file is the one an upload was started with. Uploads saved
+ * without a fingerprint can only be checked by name and size
+ */
+export async function isFileForUpload(upload: UploadState, file: File): Promise<boolean> {
+  if (!upload.fingerprint) {
+    return file.name === upload.fileName && file.size === upload.fileSize;
+  }
+  return matchesFingerprint(upload.fingerprint, file);
+}
+
+/**
+ * Finds the unfinished upload a newly chosen file belongs to, even if it was renamed.
+ * Uploads the server has discarded (stale) cannot be resumed, so the file starts a new one
+ */
+export async function findUploadForFile(uploads: UploadState[], file: File): Promise<UploadState | null> {
+  for (const upload of uploads) {
+    const resumable = !upload.result && !upload.stale && upload.chunks.some((chunk) => !chunk.uploaded);
+    if (resumable && upload.fingerprint && (await matchesFingerprint(upload.fingerprint, file))) {
+      return upload;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,262 @@
+import { ChunkStatus, UploadState } from '../types/upload';
+import { isFileForUpload } from './fileFingerprint';
+import { openDatabase, requestResult, transactionDone } from './indexedDb';
+
+const MiB = 1024 * 1024;
+
+// Largest file copied into IndexedDB for browsers without file handles
+export const MAX_FILE_COPY_SIZE = 64 * MiB;
+
+// Parts of the File System Access API that only Chromium has, so TypeScript's DOM types leave them out
+interface PermissionedFileHandle extends FileSystemFileHandle {
+  queryPermission?(descriptor: { mode: 'read' }): Promise<PermissionState>;
+  requestPermission?(descriptor: { mode: 'read' }): Promise<PermissionState>;
+}
+type FilePickerWindow = Window & { showOpenFilePicker?: () => Promise<FileSystemFileHandle[]> };
+type HandleDataTransferItem = DataTransferItem & { getAsFileSystemHandle?: () => Promise<FileSystemHandle | null> };
+
+/**
+ * Bytes of a copied file from `offset` on. Kept as bytes rather than a Blob because
+ * Safari, which has no file handles, has lost Blobs stored in IndexedDB
+ */
+interface CopiedRange {
+  offset: number;
+  bytes: ArrayBuffer;
+}
+
+/**
+ * Where an upload reads its file from on resume: a handle to the file on disk, or a
+ * copy of the bytes of the chunks that were still to upload when it was made
+ */
+type FileSource =
+  | { uploadId: string; handle: FileSystemFileHandle }
+  | { uploadId: string; copy: { name: string; type: string; lastModified: number; size: number; ranges: CopiedRange[] } };
+
+/**
+ * Remembers the file of each upload, so it can be resumed without choosing the file again
+ */
+export interface FileSourceStore {
+  saveHandle(uploadId: string, handle: FileSystemFileHandle): Promise<void>;
+  /**
+   * Copies the chunks of the upload not uploaded yet from its file. Rejects files larger
+   * than MAX_FILE_COPY_SIZE
+   */
+  saveCopy(upload: UploadState, file: File): Promise<void>;
+  /**
+   * Opens the upload's file again; null when there is none or it cannot be read. May ask
+   * for permission to read a handle's file, so call it from a click
+   */
+  restore(uploadId: string): Promise<File | null>;
+  delete(uploadId: string): Promise<void>;
+}
+
+/**
+ * Whether the browser can pick files as handles, which can be stored and opened later
+ */
+export function supportsFileHandles(): boolean {
+  return typeof window !== 'undefined' && typeof (window as FilePickerWindow).showOpenFilePicker === 'function';
+}
+
+/**
+ * Shows the browser's file picker and returns the chosen file with its handle; null
+ * when the picker is dismissed. Only where supportsFileHandles()
+ */
+export async function pickFile(): Promise<{ file: File; handle: FileSystemFileHandle } | null> {
+  try {
+    const [handle] = await (window as FilePickerWindow).showOpenFilePicker!();
+    return { file: await handle.getFile(), handle };
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Handle of a dropped file, where the browser offers one. Must be called while the drop
+ * event is handled: its items are emptied once the handler returns
+ */
+export function getDroppedFileHandle(item: DataTransferItem | undefined): Promise<FileSystemFileHandle | null> {
+  const getHandle = (item as HandleDataTransferItem | undefined)?.getAsFileSystemHandle;
+  if (!item || !getHandle) {
+    return Promise.resolve(null);
+  }
+  return getHandle
+    .call(item)
+    .then((handle) => (handle?.kind === 'file' ? (handle as FileSystemFileHandle) : null))
+    .catch(() => null);
+}
+
+/**
+ * Reads a handle's file, asking for permission first if it has not been granted in this
+ * session. null when permission is denied or the file was moved or deleted since
+ */
+export async function openFileHandle(handle: FileSystemFileHandle): Promise<File | null> {
+  const permissioned = handle as PermissionedFileHandle;
+  try {
+    if (permissioned.queryPermission && (await permissioned.queryPermission({ mode: 'read' })) !== 'granted') {
+      if ((await permissioned.requestPermission?.({ mode: 'read' })) !== 'granted') {
+        return null;
+      }
+    }
+    return await handle.getFile();
+  } catch (error) {
+    console.error('Failed to open file handle:', error);
+    return null;
+  }
+}
+
+// Ranges of the files restored from a copy that left out chunks already uploaded
+const partialCopies = new WeakMap<File, { offset: number; length: number }[]>();
+
+/**
+ * Whether the file was restored from a copy without the chunks that were already
+ * uploaded. Those read as zeros, so the file cannot be hashed or fingerprinted
+ */
+export function isPartialCopy(file: File): boolean {
+  return partialCopies.has(file);
+}
+
+/**
+ * Whether the file holds the chunk's bytes: always, unless it is a partial copy that
+ * left the chunk out
+ */
+export function hasChunkBytes(file: File, { offset, length }: Pick<ChunkStatus, 'offset' | 'length'>): boolean {
+  const ranges = partialCopies.get(file);
+  return !ranges || ranges.some((range) => range.offset <= offset && offset + length <= range.offset + range.length);
+}
+
+// Byte ranges of the runs of chunks not uploaded yet
+function getPendingRanges(upload: UploadState): { offset: number; length: number }[] {
+  const ranges: { offset: number; length: number }[] = [];
+  for (const chunk of upload.chunks) {
+    if (chunk.uploaded) {
+      continue;
+    }
+    const last = ranges[ranges.length - 1];
+    if (last && last.offset + last.length === chunk.offset) {
+      last.length += chunk.length;
+    } else {
+      ranges.push({ offset: chunk.offset, length: chunk.length });
+    }
+  }
+  return ranges;
+}
+
+// The copied file at its full size, with zeros where chunks were left out
+function restoreCopy({ name, type, lastModified, size, ranges }: Extract<FileSource, { copy: unknown }>['copy']): File {
+  const parts: BlobPart[] = [];
+  let position = 0;
+  let copied = 0;
+  for (const { offset, bytes } of ranges) {
+    if (offset > position) {
+      parts.push(new Uint8Array(offset - position));
+    }
+    parts.push(bytes);
+    position = offset + bytes.byteLength;
+    copied += bytes.byteLength;
+  }
+  if (size > position) {
+    parts.push(new Uint8Array(size - position));
+  }
+
+  const file = new File(parts, name, { type, lastModified });
+  if (copied < size) {
+    partialCopies.set(file, ranges.map(({ offset, bytes }) => ({ offset, length: bytes.byteLength })));
+  }
+  return file;
+}
+
+const DB_VERSION = 1;
+const SOURCES_STORE = 'files';
+
+/**
+ * Keeps file sources in IndexedDB, which can hold file handles (localStorage cannot)
+ */
+export function createFileSourceStore({
+  dbName = 'resumable-upload-files',
+  indexedDB: factory = indexedDB,
+}: { dbName?: string; indexedDB?: IDBFactory } = {}): FileSourceStore {
+  let database: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    database ??= openDatabase(factory, dbName, DB_VERSION, (db) => {
+      db.createObjectStore(SOURCES_STORE, { keyPath: 'uploadId' });
+    });
+    return database;
+  };
+
+  const write = async (run: (sources: IDBObjectStore) => void): Promise<void> => {
+    const transaction = (await open()).transaction(SOURCES_STORE, 'readwrite');
+    run(transaction.objectStore(SOURCES_STORE));
+    await transactionDone(transaction);
+  };
+
+  return {
+    saveHandle(uploadId, handle) {
+      const source: FileSource = { uploadId, handle };
+      return write((sources) => sources.put(source));
+    },
+    async saveCopy(upload, file) {
+      if (file.size > MAX_FILE_COPY_SIZE) {
+        throw new RangeError(`Only files up to ${MAX_FILE_COPY_SIZE} bytes are copied`);
+      }
+      const ranges = await Promise.all(
+        getPendingRanges(upload).map(async ({ offset, length }) => ({
+          offset,
+          bytes: await file.slice(offset, offset + length).arrayBuffer(),
+        }))
+      );
+      const { name, type, lastModified, size } = file;
+      const source: FileSource = { uploadId: upload.uploadId, copy: { name, type, lastModified, size, ranges } };
+      await write((sources) => sources.put(source));
+    },
+    async restore(uploadId) {
+      const sources = (await open()).transaction(SOURCES_STORE).objectStore(SOURCES_STORE);
+      const source: FileSource | undefined = await requestResult(sources.get(uploadId));
+      if (!source) {
+        return null;
+      }
+      if ('handle' in source) {
+        return openFileHandle(source.handle);
+      }
+      return restoreCopy(source.copy);
+    },
+    delete(uploadId) {
+      return write((sources) => sources.delete(uploadId));
+    },
+  };
+}
+
+/**
+ * Opens the file an upload was started with, if it was remembered and has not changed
+ * since. A partial copy only has to be the file's size: it was taken from the upload's
+ * file, and the fingerprint covers bytes it left out. It is never returned for a stale
+ * upload, which can only start over and needs the whole file. Failures count as nothing
+ * remembered, so the caller falls back to the picker
+ */
+export async function restoreUploadFile(store: FileSourceStore, upload: UploadState): Promise<File | null> {
+  try {
+    const file = await store.restore(upload.uploadId);
+    if (file && isPartialCopy(file)) {
+      return !upload.stale && file.size === upload.fileSize ? file : null;
+    }
+    return file && (await isFileForUpload(upload, file)) ? file : null;
+  } catch (error) {
+    console.error('Failed to restore upload file:', error);
+    return null;
+  }
+}
+
+let defaultStore: FileSourceStore | null = null;
+
+/**
+ * The page's file source store; null without IndexedDB, where nothing can be remembered
+ */
+export function getDefaultFileSourceStore(): FileSourceStore | null {
+  if (typeof indexedDB === 'undefined') {
+    return null;
+  }
+  defaultStore ??= createFileSourceStore();
+  return defaultStore;
+}
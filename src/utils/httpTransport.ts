@@ -0,0 +1,155 @@
+import {
+  ChunkUploadRequest,
+  UploadInitRequest,
+  UploadResult,
+  UploadSession,
+  UploadState,
+  UploadTransport,
+} from '../types/upload';
+import { createProgressFetch } from './progressFetch';
+import { httpError, withUploadErrors } from './uploadErrors';
+import { getStoredSize } from './encryption';
+import { parseExpiresAt } from './retention';
+
+export interface HttpTransportOptions {
+  /** Base URL of the upload API, e.g. "https://uploads.example.com/api/upload" */
+  endpoint: string;
+  /** Extra headers sent with every request (auth tokens, tenant IDs, ...) */
+  headers?: Record<string, string>;
+  /** fetch implementation, defaults to the global one */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Builds the URL for a single chunk: {endpoint}/{uploadId}/chunks/{chunkIndex}
+ */
+export function getChunkUrl(endpoint: string, uploadId: string, chunkIndex: number): string {
+  return `${trimTrailingSlash(endpoint)}/${encodeURIComponent(uploadId)}/chunks/${chunkIndex}`;
+}
+
+function trimTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url.slice(0, -1) : url;
+}
+
+/**
+ * Creates a transport that talks to a real backend over HTTP.
+ *
+ * POST   {endpoint}                              - start an upload; returns { uploadId, limits?, contentEncodings? }
+ * PUT    {endpoint}/{uploadId}/chunks/{chunkIndex} - raw chunk bytes, or compressed ones with Content-Encoding
+ *                                                    (if the server listed it); 460 if they do not match X-Chunk-Checksum
+ * GET    {endpoint}/{uploadId}/chunks              - JSON array of received chunk indices
+ * POST   {endpoint}/{uploadId}/complete            - assemble the file; returns { location, checksum? }
+ * DELETE {endpoint}/{uploadId}                     - discard the upload and its chunks
+ *
+ * server/uploadServer.ts is a reference implementation of this API.
+ */
+export function createHttpTransport(options: HttpTransportOptions): UploadTransport {
+  const doFetch = withUploadErrors(options.fetch ?? ((input, init) => fetch(input, init)));
+  const sendChunk = withUploadErrors(createProgressFetch(options.fetch));
+  const baseHeaders = options.headers ?? {};
+  const uploadUrl = (uploadId: string) => `${trimTrailingSlash(options.endpoint)}/${encodeURIComponent(uploadId)}`;
+
+  return {
+    contentEncodings: ['gzip', 'deflate'],
+
+    async initUpload(request: UploadInitRequest): Promise<UploadSession> {
+      const response = await doFetch(trimTrailingSlash(options.endpoint), {
+        method: 'POST',
+        headers: { ...baseHeaders, 'Content-Type': 'application/json' },
+        body: JSON.stringify(request),
+      });
+
+      if (!response.ok) {
+        throw httpError(response, 'Failed to start upload');
+      }
+
+      const data = await response.json();
+      if (typeof data?.uploadId !== 'string' || !data.uploadId) {
+        throw new Error('Invalid start upload response');
+      }
+      const contentEncodings = Array.isArray(data.contentEncodings) ? data.contentEncodings : undefined;
+      return { uploadId: data.uploadId, limits: data.limits, contentEncodings, expiresAt: parseExpiresAt(data.expiresAt) };
+    },
+
+    async uploadChunk(request: ChunkUploadRequest): Promise<void> {
+      const response = await sendChunk(
+        getChunkUrl(options.endpoint, request.uploadId, request.chunkIndex),
+        {
+          method: 'PUT',
+          headers: {
+            ...baseHeaders,
+            'Content-Type': 'application/octet-stream',
+            'X-Upload-Id': request.uploadId,
+            'X-Chunk-Index': String(request.chunkIndex),
+            'X-Total-Chunks': String(request.totalChunks),
+            'X-Chunk-Offset': String(request.offset),
+            ...(request.contentEncoding ? { 'Content-Encoding': request.contentEncoding } : {}),
+            ...(request.checksum ? { 'X-Chunk-Checksum': request.checksum } : {}),
+          },
+          body: request.chunkData,
+          signal: request.signal,
+        },
+        request.onProgress
+      );
+
+      if (!response.ok) {
+        throw httpError(response, `Failed to upload chunk ${request.chunkIndex}`);
+      }
+    },
+
+    async getUploadedChunks(state: UploadState): Promise<number[]> {
+      const response = await doFetch(
+        `${uploadUrl(state.uploadId)}/chunks`,
+        { method: 'GET', headers: baseHeaders }
+      );
+
+      // The upload was started with the server, so 404 or 410 means it has been discarded
+      if (!response.ok) {
+        throw httpError(response, 'Failed to get uploaded chunks');
+      }
+
+      const data: unknown = await response.json();
+      if (!Array.isArray(data)) {
+        throw new Error('Invalid uploaded chunks response');
+      }
+      return data.filter((index): index is number => Number.isInteger(index));
+    },
+
+    async completeUpload(state: UploadState): Promise<UploadResult> {
+      const response = await doFetch(
+        `${uploadUrl(state.uploadId)}/complete`,
+        {
+          method: 'POST',
+          headers: { ...baseHeaders, 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            fileName: state.fileName,
+            fileSize: getStoredSize(state),
+            totalChunks: state.totalChunks,
+          }),
+        }
+      );
+
+      if (!response.ok) {
+        throw httpError(response, 'Failed to complete upload');
+      }
+
+      const data = await response.json();
+      if (typeof data?.location !== 'string') {
+        throw new Error('Invalid complete upload response');
+      }
+      return { location: data.location, checksum: data.checksum };
+    },
+
+    async abortUpload(state: UploadState): Promise<void> {
+      const response = await doFetch(uploadUrl(state.uploadId), {
+        method: 'DELETE',
+        headers: baseHeaders,
+      });
+
+      // Already gone is as good as deleted
+      if (!response.ok && response.status !== 404) {
+        throw httpError(response, 'Failed to abort upload');
+      }
+    },
+  };
+}
@@ -0,0 +1,253 @@
+import { ChunkUploadRequest } from '../types/upload';
+import { NetworkError, errorForStatus } from './uploadErrors';
+
+/**
+ * A period during which the simulated network is unreachable, measured from
+ * when the simulator was created (i.e. when the profile was selected)
+ */
+export interface OfflineWindow {
+  startMs: number;
+  durationMs: number;
+  /** Repeat the window with this period; omit for a one-off outage */
+  repeatEveryMs?: number;
+}
+
+/**
+ * Network conditions the simulated transport reproduces
+ */
+export interface NetworkProfile {
+  id: string;
+  label: string;
+  /** Round-trip latency added to every request */
+  latencyMs: number;
+  /** Latency varies uniformly by up to this much either way */
+  jitterMs: number;
+  /** Upload bandwidth cap; null means chunks take no time to transfer */
+  bandwidthBytesPerSec: number | null;
+  /** Probability (0-1) of each HTTP-like status code being returned instead of success */
+  failureRates: Record<number, number>;
+  offlineWindows: OfflineWindow[];
+  /** Seed for reproducible runs; null uses Math.random */
+  seed: number | null;
+}
+
+const KiB = 1024;
+
+export const BUILT_IN_PROFILES: NetworkProfile[] = [
+  {
+    id: 'fast',
+    label: 'Fast',
+    latencyMs: 100,
+    jitterMs: 50,
+    bandwidthBytesPerSec: null,
+    failureRates: { 500: 0.1 },
+    offlineWindows: [],
+    seed: null,
+  },
+  {
+    id: 'normal',
+    label: 'Normal',
+    latencyMs: 225,
+    jitterMs: 75,
+    bandwidthBytesPerSec: null,
+    failureRates: { 500: 0.1 },
+    offlineWindows: [],
+    seed: null,
+  },
+  {
+    id: 'slow',
+    label: 'Slow',
+    latencyMs: 750,
+    jitterMs: 250,
+    bandwidthBytesPerSec: null,
+    failureRates: { 500: 0.1 },
+    offlineWindows: [],
+    seed: null,
+  },
+  {
+    id: 'verySlow',
+    label: 'Very Slow',
+    latencyMs: 1500,
+    jitterMs: 500,
+    bandwidthBytesPerSec: null,
+    failureRates: { 500: 0.1 },
+    offlineWindows: [],
+    seed: null,
+  },
+  {
+    id: 'mobile3g',
+    label: 'Mobile 3G',
+    latencyMs: 300,
+    jitterMs: 150,
+    bandwidthBytesPerSec: 96 * KiB,
+    failureRates: { 408: 0.03, 503: 0.02 },
+    offlineWindows: [],
+    seed: null,
+  },
+  {
+    id: 'flaky',
+    label: 'Flaky Server',
+    latencyMs: 150,
+    jitterMs: 100,
+    bandwidthBytesPerSec: 2048 * KiB,
+    failureRates: { 429: 0.05, 500: 0.1, 502: 0.05, 503: 0.1 },
+    offlineWindows: [],
+    seed: null,
+  },
+  {
+    id: 'intermittent',
+    label: 'Intermittent Connection',
+    latencyMs: 150,
+    jitterMs: 50,
+    bandwidthBytesPerSec: 1024 * KiB,
+    failureRates: {},
+    offlineWindows: [{ startMs: 10_000, durationMs: 5_000, repeatEveryMs: 20_000 }],
+    seed: null,
+  },
+];
+
+export const DEFAULT_PROFILE_ID = 'verySlow';
+
+// How often simulated uploads report progress (in milliseconds)
+const PROGRESS_INTERVAL = 100;
+
+/**
+ * Deterministic PRNG (mulberry32) returning numbers in [0, 1)
+ */
+export function createRng(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Whether the network is offline at the given time since the simulator started
+ */
+export function isOfflineAt(windows: OfflineWindow[], elapsedMs: number): boolean {
+  return windows.some((window) => {
+    if (elapsedMs < window.startMs) {
+      return false;
+    }
+    const sinceStart = elapsedMs - window.startMs;
+    const position = window.repeatEveryMs ? sinceStart % window.repeatEveryMs : sinceStart;
+    return position < window.durationMs;
+  });
+}
+
+/**
+ * Formats failure rates for editing, e.g. "503=10%, 429=5%"
+ */
+export function formatFailureRates(rates: Record<number, number>): string {
+  return Object.entries(rates)
+    .map(([status, rate]) => `${status}=${Math.round(rate * 1000) / 10}%`)
+    .join(', ');
+}
+
+/**
+ * Inverse of formatFailureRates; throws on malformed entries
+ */
+export function parseFailureRates(text: string): Record<number, number> {
+  const rates: Record<number, number> = {};
+  for (const entry of text.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const match = /^(\d{3})\s*=\s*(\d+(?:\.\d+)?)\s*%$/.exec(entry);
+    if (!match) {
+      throw new Error(`Invalid failure rate "${entry}" (expected e.g. "503=10%")`);
+    }
+    rates[Number(match[1])] = Number(match[2]) / 100;
+  }
+  if (Object.values(rates).reduce((total, rate) => total + rate, 0) > 1) {
+    throw new Error('Failure rates add up to more than 100%');
+  }
+  return rates;
+}
+
+/**
+ * Waits like setTimeout, but rejects with an AbortError as soon as the signal is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortError = () => new DOMException('The upload was aborted', 'AbortError');
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface NetworkSimulator {
+  profile: NetworkProfile;
+  /** Sends one chunk under the profile's conditions; rejects with the same typed errors as a real transport */
+  sendChunk(request: ChunkUploadRequest): Promise<void>;
+}
+
+/**
+ * Creates a simulator for one profile. Its clock (for offline windows) and RNG
+ * (seeded when the profile has a seed) start fresh on every call
+ */
+export function createNetworkSimulator(
+  profile: NetworkProfile,
+  now: () => number = () => Date.now()
+): NetworkSimulator {
+  const random = profile.seed === null ? () => Math.random() : createRng(profile.seed);
+  const startedAt = now();
+  const isOffline = () => isOfflineAt(profile.offlineWindows, now() - startedAt);
+  const networkError = () => new NetworkError('Network request failed (simulated offline)');
+
+  // Picks a failure status (or null for success) from the profile's failure rates
+  const drawFailure = (): number | null => {
+    const roll = random();
+    let cumulative = 0;
+    for (const [status, rate] of Object.entries(profile.failureRates)) {
+      cumulative += rate;
+      if (roll < cumulative) {
+        return Number(status);
+      }
+    }
+    return null;
+  };
+
+  return {
+    profile,
+
+    async sendChunk(request: ChunkUploadRequest): Promise<void> {
+      const latency = Math.max(0, profile.latencyMs + (random() * 2 - 1) * profile.jitterMs);
+      const transferMs = profile.bandwidthBytesPerSec
+        ? (request.chunkData.size / profile.bandwidthBytesPerSec) * 1000
+        : 0;
+      const totalMs = latency + transferMs;
+
+      // Send the bytes in steps so progress moves while the chunk is "in flight",
+      // and so an outage that starts mid-transfer breaks the request
+      const steps = Math.max(1, Math.round(totalMs / PROGRESS_INTERVAL));
+      for (let step = 1; step <= steps; step++) {
+        if (isOffline()) {
+          throw networkError();
+        }
+        await sleep(totalMs / steps, request.signal);
+        request.onProgress?.(Math.round((request.chunkData.size * step) / steps));
+      }
+      if (isOffline()) {
+        throw networkError();
+      }
+
+      const status = drawFailure();
+      if (status !== null) {
+        throw errorForStatus(status, `Failed to upload chunk ${request.chunkIndex}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,94 @@
+/**
+ * Receives the number of request body bytes sent so far
+ */
+export type ProgressCallback = (loadedBytes: number) => void;
+
+/**
+ * fetch-like function that can report upload progress
+ */
+export type ProgressFetch = (
+  input: string,
+  init: RequestInit,
+  onProgress?: ProgressCallback
+) => Promise<Response>;
+
+// Statuses whose Response must not have a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+function parseResponseHeaders(raw: string): Headers {
+  const headers = new Headers();
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * fetch built on XMLHttpRequest, because fetch cannot report upload progress in browsers.
+ * Resolves with a regular Response; network errors reject with a TypeError, timeouts with
+ * a TimeoutError and aborts (init.signal) with an AbortError, like fetch
+ */
+export function xhrFetch(input: string, init: RequestInit = {}, onProgress?: ProgressCallback): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const { signal } = init;
+    if (signal?.aborted) {
+      reject(new DOMException('The request was aborted', 'AbortError'));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(init.method ?? 'GET', input);
+    new Headers(init.headers).forEach((value, name) => xhr.setRequestHeader(name, value));
+
+    if (onProgress) {
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    }
+
+    const abort = () => xhr.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    const cleanup = () => signal?.removeEventListener('abort', abort);
+
+    xhr.onload = () => {
+      cleanup();
+      const body = NULL_BODY_STATUSES.includes(xhr.status) ? null : xhr.responseText;
+      resolve(
+        new Response(body, {
+          status: xhr.status,
+          statusText: xhr.statusText,
+          headers: parseResponseHeaders(xhr.getAllResponseHeaders()),
+        })
+      );
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new TypeError('Network request failed'));
+    };
+    xhr.ontimeout = () => {
+      cleanup();
+      reject(new DOMException('Network request timed out', 'TimeoutError'));
+    };
+    xhr.onabort = () => {
+      cleanup();
+      reject(new DOMException('The request was aborted', 'AbortError'));
+    };
+
+    xhr.send((init.body ?? null) as XMLHttpRequestBodyInit | null);
+  });
+}
+
+/**
+ * Picks how transports send chunk bodies: a custom fetch when one is configured
+ * (progress is then only known when the request finishes), otherwise XHR with progress
+ */
+export function createProgressFetch(fetchImpl?: typeof fetch): ProgressFetch {
+  if (fetchImpl) {
+    return (input, init) => fetchImpl(input, init);
+  }
+  if (typeof XMLHttpRequest !== 'undefined') {
+    return xhrFetch;
+  }
+  return (input, init) => fetch(input, init);
+}
@@ -0,0 +1,112 @@
+import { UploadState } from '../types/upload';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * How long saved uploads are kept before they are deleted
+ */
+export interface RetentionPolicy {
+  /** Days after its last update that an unfinished upload is deleted */
+  incompleteDays: number;
+  /** Finished uploads kept, the most recently updated; older ones are deleted */
+  keepCompleted: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: RetentionPolicy = {
+  incompleteDays: 7,
+  keepCompleted: 20,
+};
+
+function readCount(value: string | undefined, fallback: number): number {
+  const count = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(count) && count >= 0 ? count : fallback;
+}
+
+/**
+ * Reads the retention policy from Vite env variables (VITE_RETAIN_INCOMPLETE_DAYS,
+ * VITE_KEEP_COMPLETED_UPLOADS), falling back to DEFAULT_RETENTION_POLICY
+ */
+export function getRetentionPolicy(): RetentionPolicy {
+  return {
+    incompleteDays: readCount(import.meta.env.VITE_RETAIN_INCOMPLETE_DAYS, DEFAULT_RETENTION_POLICY.incompleteDays),
+    keepCompleted: readCount(import.meta.env.VITE_KEEP_COMPLETED_UPLOADS, DEFAULT_RETENTION_POLICY.keepCompleted),
+  };
+}
+
+/**
+ * Expiry a server reported, as epoch ms: a number of ms, or a date string (ISO 8601 or
+ * an HTTP date, as in tus Upload-Expires). undefined when absent or unreadable
+ */
+export function parseExpiresAt(value: unknown): number | undefined {
+  const time = typeof value === 'string' ? Date.parse(value) : value;
+  return typeof time === 'number' && Number.isFinite(time) ? time : undefined;
+}
+
+/**
+ * Every chunk is on the server; the upload needs nothing more from this browser
+ */
+export function isUploadComplete(state: UploadState): boolean {
+  return state.chunks.every((chunk) => chunk.uploaded);
+}
+
+/**
+ * When the server discards the unfinished upload, from the remote session or from when
+ * the upload was started; undefined when the server did not say
+ */
+export function getServerExpiry(state: UploadState): number | undefined {
+  return state.remoteSession?.expiresAt ?? state.expiresAt;
+}
+
+const byLastUpdate = (a: UploadState, b: UploadState) => a.lastUpdate - b.lastUpdate;
+
+/**
+ * What the policy does with saved uploads at `now`: the ones to delete (unfinished ones
+ * not updated for incompleteDays, finished ones past the newest keepCompleted), and the
+ * unfinished ones to mark stale because the server's expiry has passed
+ */
+export function planRetention(
+  states: UploadState[],
+  policy: RetentionPolicy,
+  now: number
+): { expired: UploadState[]; stale: UploadState[] } {
+  const completed = states.filter(isUploadComplete).sort(byLastUpdate);
+  const incomplete = states.filter((state) => !isUploadComplete(state));
+  const isTooOld = (state: UploadState) => now - state.lastUpdate > policy.incompleteDays * DAY;
+
+  const expired = [
+    ...incomplete.filter(isTooOld),
+    ...completed.slice(0, Math.max(0, completed.length - policy.keepCompleted)),
+  ];
+  const stale = incomplete.filter((state) => {
+    const expiry = getServerExpiry(state);
+    return !isTooOld(state) && !state.stale && expiry !== undefined && expiry <= now;
+  });
+  return { expired, stale };
+}
+
+/**
+ * Saved uploads to delete when storage is full, least valuable first: finished ones,
+ * then ones the server has discarded, then unfinished ones; the oldest first within each.
+ * `keep` (the upload being written) is never among them
+ */
+export function getEvictionOrder(states: UploadState[], keep: string): UploadState[] {
+  const candidates = states.filter((state) => state.uploadId !== keep);
+  const completed = candidates.filter(isUploadComplete);
+  const incomplete = candidates.filter((state) => !isUploadComplete(state));
+  return [
+    ...completed.sort(byLastUpdate),
+    ...incomplete.filter((state) => state.stale).sort(byLastUpdate),
+    ...incomplete.filter((state) => !state.stale).sort(byLastUpdate),
+  ];
+}
+
+/**
+ * Whether a write failed because the origin's storage quota is used up
+ */
+export function isQuotaExceeded(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    // Firefox used its own name before the standard one
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
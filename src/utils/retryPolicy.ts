@@ -0,0 +1,94 @@
+import { UploadErrorKind } from '../types/upload';
+import { UploadError } from './uploadErrors';
+
+/**
+ * Settings that can differ per error class
+ */
+export interface RetryRule {
+  /** Attempts per chunk, including the first */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles with every further retry */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * How failed chunks are retried during an upload
+ */
+export interface RetryPolicy extends RetryRule {
+  /**
+   * "full": wait a random time between 0 and the backoff delay, so chunks that failed
+   * together do not all retry together. "none": wait exactly the backoff delay
+   */
+  jitter: 'full' | 'none';
+  /** Failed attempts, across all chunks of an upload, after which nothing is retried */
+  retryBudget: number;
+  /** Per error class changes, e.g. more patience for network errors or retrying a 413 */
+  overrides: Partial<Record<UploadErrorKind, Partial<RetryRule> & { retryable?: boolean }>>;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  jitter: 'full',
+  retryBudget: 100,
+  overrides: {
+    // Outages usually last longer than a server hiccup
+    network: { maxAttempts: 8 },
+    // Rate limits clear slowly; a Retry-After header still takes precedence when longer
+    quota: { baseDelayMs: 5000 },
+  },
+};
+
+/**
+ * The policy with the overrides for one error class applied
+ */
+export function getRetryRule(policy: RetryPolicy, kind: UploadErrorKind): RetryRule & { retryable?: boolean } {
+  return { ...policy, ...policy.overrides[kind] };
+}
+
+/**
+ * Exponential backoff before retry number `retry` (1 for the first retry), with jitter applied
+ */
+export function getBackoffDelay(
+  policy: RetryPolicy,
+  rule: RetryRule,
+  retry: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(rule.maxDelayMs, rule.baseDelayMs * 2 ** (retry - 1));
+  return policy.jitter === 'full' ? random() * delay : delay;
+}
+
+export interface RetryDecision {
+  /** Whether the error class may be retried at all under this policy */
+  retryable: boolean;
+  /** When to send the chunk again; undefined means give up */
+  retryAt?: number;
+}
+
+/**
+ * Decides whether and when a chunk that just failed is sent again
+ *
+ * @param failures - failed attempts of this chunk so far, including this one
+ * @param failuresInUpload - failed attempts across the whole upload, including this one
+ */
+export function planRetry(
+  policy: RetryPolicy,
+  error: UploadError,
+  failures: number,
+  failuresInUpload: number,
+  now: number = Date.now(),
+  random: () => number = Math.random
+): RetryDecision {
+  const rule = getRetryRule(policy, error.kind);
+  const retryable = rule.retryable ?? error.retryable;
+  if (!retryable || failures >= rule.maxAttempts || failuresInUpload > policy.retryBudget) {
+    return { retryable };
+  }
+
+  // Never retry before the server said we may
+  const delay = Math.max(getBackoffDelay(policy, rule, failures, random), error.retryAfterMs ?? 0);
+  return { retryable, retryAt: now + delay };
+}
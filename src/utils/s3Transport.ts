@@ -0,0 +1,285 @@
+import {
+  ChunkUploadRequest,
+  ChunkUploadResult,
+  RemoteSession,
+  UploadResult,
+  UploadState,
+  UploadTransport,
+} from '../types/upload';
+import { createProgressFetch } from './progressFetch';
+import { ChecksumMismatchError, httpError, withUploadErrors } from './uploadErrors';
+import { checksumToBase64 } from './checksum';
+
+const MiB = 1024 * 1024;
+
+/**
+ * S3 multipart limits: parts of 5 MiB to 5 GiB (the last part may be smaller),
+ * at most 10,000 parts per upload
+ */
+export const S3_LIMITS = {
+  minChunkSize: 5 * MiB,
+  maxChunkSize: 5 * 1024 * MiB,
+  maxChunks: 10_000,
+};
+
+// A created multipart upload: the UploadId as location, and the object key
+type MultipartSession = Required<Pick<RemoteSession, 'location' | 'key'>>;
+
+export type S3Operation =
+  | 'createMultipartUpload'
+  | 'uploadPart'
+  | 'listParts'
+  | 'completeMultipartUpload'
+  | 'abortMultipartUpload';
+
+export interface SignRequest {
+  operation: S3Operation;
+  key: string;
+  /** S3 UploadId, for every operation except createMultipartUpload */
+  uploadId?: string;
+  partNumber?: number;
+  /** Pagination marker for listParts */
+  partNumberMarker?: number;
+  /**
+   * Base64 SHA-256 of the part, for uploadPart. The URL must sign the
+   * x-amz-checksum-sha256 header so S3 verifies the bytes
+   */
+  checksumSha256?: string;
+}
+
+export interface S3TransportOptions {
+  /**
+   * Signer endpoint. Receives a JSON SignRequest via POST and answers
+   * { url } with a presigned URL for that S3 operation
+   */
+  signerEndpoint: string;
+  /** Prefix for object keys, e.g. "datasets/" */
+  keyPrefix?: string;
+  /** Extra headers sent to the signer (auth tokens, ...) */
+  headers?: Record<string, string>;
+  /** fetch implementation, defaults to the global one */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Object key for an upload: {keyPrefix}{uploadId}/{fileName}
+ */
+export function getObjectKey(state: UploadState, keyPrefix = ''): string {
+  return `${keyPrefix}${state.uploadId}/${state.fileName}`;
+}
+
+/**
+ * Builds the CompleteMultipartUpload XML body
+ */
+export function buildCompleteXml(parts: { partNumber: number; etag: string }[]): string {
+  const partsXml = parts
+    .map((part) => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escapeXml(part.etag)}</ETag></Part>`)
+    .join('');
+  return `<CompleteMultipartUpload>${partsXml}</CompleteMultipartUpload>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parseXml(text: string): Document {
+  return new DOMParser().parseFromString(text, 'application/xml');
+}
+
+function getText(parent: Document | Element, tagName: string): string | null {
+  return parent.getElementsByTagName(tagName)[0]?.textContent ?? null;
+}
+
+/**
+ * Creates a transport that uploads to S3 (or MinIO and other S3-compatible stores)
+ * with the multipart API. Each chunk is one part (part number = chunkIndex + 1).
+ *
+ * The browser never holds credentials: every S3 request goes to a presigned URL
+ * obtained from the signer endpoint. The bucket's CORS rules must expose the ETag header.
+ */
+export function createS3Transport(options: S3TransportOptions): UploadTransport {
+  const doFetch = withUploadErrors(options.fetch ?? ((input, init) => fetch(input, init)));
+  const sendChunk = withUploadErrors(createProgressFetch(options.fetch));
+
+  const sign = async (request: SignRequest): Promise<string> => {
+    const response = await doFetch(options.signerEndpoint, {
+      method: 'POST',
+      headers: { ...options.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(request),
+    });
+    if (!response.ok) {
+      throw httpError(response, `Failed to sign ${request.operation}`);
+    }
+    const data = await response.json();
+    if (typeof data?.url !== 'string') {
+      throw new Error(`Invalid signer response for ${request.operation}`);
+    }
+    return data.url;
+  };
+
+  const requireSession = (session: RemoteSession | undefined): MultipartSession => {
+    if (!session?.key) {
+      throw new Error('Multipart upload has not been created');
+    }
+    return { location: session.location, key: session.key };
+  };
+
+  // Returns part number -> ETag. S3 answers 404 NoSuchUpload once the upload was aborted
+  // or expired, which rejects with a SessionExpiredError
+  const listParts = async (session: MultipartSession): Promise<Map<number, string>> => {
+    const parts = new Map<number, string>();
+    let partNumberMarker: number | undefined;
+
+    for (;;) {
+      const url = await sign({
+        operation: 'listParts',
+        key: session.key,
+        uploadId: session.location,
+        partNumberMarker,
+      });
+      const response = await doFetch(url, { method: 'GET' });
+      if (!response.ok) {
+        throw httpError(response, 'Failed to list parts');
+      }
+
+      const doc = parseXml(await response.text());
+      for (const part of Array.from(doc.getElementsByTagName('Part'))) {
+        const partNumber = Number(getText(part, 'PartNumber'));
+        const etag = getText(part, 'ETag');
+        if (Number.isInteger(partNumber) && etag) {
+          parts.set(partNumber, etag);
+        }
+      }
+
+      if (getText(doc, 'IsTruncated') !== 'true') {
+        return parts;
+      }
+      partNumberMarker = Number(getText(doc, 'NextPartNumberMarker'));
+    }
+  };
+
+  return {
+    limits: S3_LIMITS,
+
+    async createUpload(state: UploadState): Promise<RemoteSession> {
+      const key = getObjectKey(state, options.keyPrefix);
+      const url = await sign({ operation: 'createMultipartUpload', key });
+      const response = await doFetch(url, { method: 'POST' });
+      if (!response.ok) {
+        throw httpError(response, 'Failed to create multipart upload');
+      }
+
+      const uploadId = getText(parseXml(await response.text()), 'UploadId');
+      if (!uploadId) {
+        throw new Error('Missing UploadId in CreateMultipartUpload response');
+      }
+      return { location: uploadId, key };
+    },
+
+    async uploadChunk(request: ChunkUploadRequest): Promise<ChunkUploadResult> {
+      const session = requireSession(request.session);
+      const checksumSha256 = request.checksum && checksumToBase64(request.checksum);
+      const url = await sign({
+        operation: 'uploadPart',
+        key: session.key,
+        uploadId: session.location,
+        partNumber: request.chunkIndex + 1,
+        ...(checksumSha256 ? { checksumSha256 } : {}),
+      });
+
+      const response = await sendChunk(
+        url,
+        {
+          method: 'PUT',
+          body: request.chunkData,
+          signal: request.signal,
+          ...(checksumSha256 ? { headers: { 'x-amz-checksum-sha256': checksumSha256 } } : {}),
+        },
+        request.onProgress
+      );
+      if (!response.ok) {
+        const context = `Failed to upload chunk ${request.chunkIndex}`;
+        // S3 answers a part that does not match its checksum with 400 BadDigest
+        if (response.status === 400 && getText(parseXml(await response.text()), 'Code') === 'BadDigest') {
+          throw new ChecksumMismatchError(`${context}: HTTP 400 BadDigest`, { status: 400 });
+        }
+        throw httpError(response, context);
+      }
+
+      const etag = response.headers.get('ETag');
+      if (!etag) {
+        throw new Error('Missing ETag header (check that the bucket CORS rules expose ETag)');
+      }
+      return { etag };
+    },
+
+    async getUploadedChunks(state: UploadState): Promise<number[]> {
+      if (!state.remoteSession) {
+        return [];
+      }
+      const parts = await listParts(requireSession(state.remoteSession));
+      return Array.from(parts.keys())
+        .map((partNumber) => partNumber - 1)
+        .filter((index) => index < state.totalChunks)
+        .sort((a, b) => a - b);
+    },
+
+    async completeUpload(state: UploadState): Promise<UploadResult> {
+      const session = requireSession(state.remoteSession);
+
+      // ETags normally come from our own UploadPart responses; ask S3 for any we lack
+      let listedParts: Map<number, string> | null = null;
+      if (state.chunks.some((chunk) => !chunk.etag)) {
+        listedParts = await listParts(session);
+      }
+
+      const parts = state.chunks.map((chunk) => {
+        const partNumber = chunk.chunkIndex + 1;
+        const etag = chunk.etag ?? listedParts?.get(partNumber);
+        if (!etag) {
+          throw new Error(`Missing ETag for chunk ${chunk.chunkIndex}`);
+        }
+        return { partNumber, etag };
+      });
+
+      const url = await sign({
+        operation: 'completeMultipartUpload',
+        key: session.key,
+        uploadId: session.location,
+      });
+      const response = await doFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/xml' },
+        body: buildCompleteXml(parts),
+      });
+
+      // S3 can report a failed completion inside a 200 response
+      const body = await response.text();
+      const doc = response.ok ? parseXml(body) : null;
+      if (!doc || doc.getElementsByTagName('Error').length > 0) {
+        throw httpError(response, 'Failed to complete multipart upload');
+      }
+      return { location: getText(doc, 'Location') ?? session.key };
+    },
+
+    async abortUpload(state: UploadState): Promise<void> {
+      if (!state.remoteSession) {
+        return;
+      }
+      const session = requireSession(state.remoteSession);
+      const url = await sign({
+        operation: 'abortMultipartUpload',
+        key: session.key,
+        uploadId: session.location,
+      });
+      const response = await doFetch(url, { method: 'DELETE' });
+      if (!response.ok && response.status !== 404) {
+        throw httpError(response, 'Failed to abort multipart upload');
+      }
+    },
+  };
+}
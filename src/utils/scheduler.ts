@@ -0,0 +1,73 @@
+// Longest the scheduler sleeps between checks, so stop requests and concurrency
+// changes are noticed promptly even while every slot is busy
+const POLL_INTERVAL_MS = 250;
+
+export interface SchedulerOptions<T> {
+  /** Maximum tasks in flight; read before every pick, so it may change during a run */
+  concurrency: () => number;
+  /** The next task that may start now, or null; `inFlight` holds the tasks already running */
+  next: (inFlight: ReadonlySet<T>) => T | null;
+  /**
+   * Earliest time (epoch ms) a task that is not ready yet becomes ready, e.g. a chunk
+   * backing off before a retry; null when no task is waiting
+   */
+  nextWakeAt: (inFlight: ReadonlySet<T>) => number | null;
+  run: (task: T) => Promise<unknown>;
+  /** Checked between picks; once true no new task starts and the run ends when in-flight ones settle */
+  shouldStop: () => boolean;
+  /** Called whenever a task starts or settles */
+  onInFlightChange?: (inFlight: ReadonlySet<T>) => void;
+}
+
+/**
+ * Runs tasks through a pool of `concurrency()` slots: a new task starts as soon as a slot
+ * frees, rather than waiting for a whole batch. Resolves when nothing is running and no
+ * task is ready or waiting, or after a stop once the in-flight tasks have settled.
+ * Tasks report failures through their own state; rejections are ignored
+ */
+export async function runScheduler<T>(options: SchedulerOptions<T>): Promise<void> {
+  const running = new Map<T, Promise<void>>();
+  const inFlight = new Set<T>();
+
+  const start = (task: T) => {
+    inFlight.add(task);
+    options.onInFlightChange?.(inFlight);
+    const settled = options
+      .run(task)
+      .catch(() => undefined)
+      .then(() => {
+        inFlight.delete(task);
+        running.delete(task);
+        options.onInFlightChange?.(inFlight);
+      });
+    running.set(task, settled);
+  };
+
+  while (!options.shouldStop()) {
+    while (inFlight.size < options.concurrency()) {
+      const task = options.next(inFlight);
+      if (task === null) {
+        break;
+      }
+      start(task);
+    }
+
+    const wakeAt = options.nextWakeAt(inFlight);
+    if (inFlight.size === 0 && wakeAt === null) {
+      break;
+    }
+
+    // Sleep until a slot frees or a waiting task becomes ready
+    const delay = Math.max(0, Math.min(POLL_INTERVAL_MS, (wakeAt ?? Infinity) - Date.now()));
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([
+      ...running.values(),
+      new Promise<void>((resolve) => {
+        timer = setTimeout(resolve, delay);
+      }),
+    ]);
+    clearTimeout(timer);
+  }
+
+  await Promise.all(running.values());
+}
@@ -0,0 +1,128 @@
+import { UploadState } from '../types/upload';
+import { JournalEntry, compactUploadState } from './compactState';
+import { SCHEMA_VERSION } from './stateSchema';
+import { StateStore } from './stateStore';
+
+// Most often an upload in progress is written, in milliseconds
+const SAVE_INTERVAL = 1000;
+// Journal entries after which the next write is a snapshot instead, which clears them
+const COMPACT_AFTER = 500;
+
+export interface StatePersister {
+  /**
+   * Records the upload's latest state; it is written within the save interval. Pass the
+   * chunks the update changed when it changed nothing else in the chunk list, so they
+   * are journaled; a chunk list changed otherwise is written as a snapshot
+   */
+  update(state: UploadState, changedChunks?: number[]): void;
+  /** Writes the latest state now, e.g. before the page unloads or the upload finishes */
+  flush(): Promise<void>;
+}
+
+/**
+ * Journal entries that turn `previous` into `next`, one for each of the `changed` chunks;
+ * the other chunks must be the same. null when anything else changed (the file, the
+ * chunk layout, the result, ...), which takes a snapshot
+ */
+export function getJournalEntries(previous: UploadState, next: UploadState, changed: number[]): JournalEntry[] | null {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  for (const key of keys) {
+    if (
+      key !== 'chunks' &&
+      key !== 'lastUpdate' &&
+      key !== 'schemaVersion' &&
+      previous[key as keyof UploadState] !== next[key as keyof UploadState]
+    ) {
+      return null;
+    }
+  }
+  if (previous.chunks.length !== next.chunks.length) {
+    return null;
+  }
+
+  const entries: JournalEntry[] = [];
+  for (const index of changed) {
+    const before = previous.chunks[index];
+    const after = next.chunks[index];
+    if (before.offset !== after.offset || before.length !== after.length) {
+      return null;
+    }
+    const { offset: _offset, length: _length, ...status } = after;
+    entries.push({ ...status, lastUpdate: next.lastUpdate });
+  }
+  return entries;
+}
+
+/**
+ * Saves an upload in progress without writing the whole state on every change. Updates
+ * are batched: the latest state is written at most once per interval. A write appends
+ * the chunks changed since the last one to the store's journal, and a snapshot
+ * compacts the journal once it grows past compactAfter entries, or when more than chunk
+ * statuses changed. `saved` is the state the store already has, e.g. the one the upload
+ * was loaded as; nothing is written until it changes. A failed write is logged, and the
+ * next write is a snapshot
+ */
+export function createStatePersister(
+  store: StateStore,
+  {
+    interval = SAVE_INTERVAL,
+    compactAfter = COMPACT_AFTER,
+    saved,
+  }: { interval?: number; compactAfter?: number; saved?: UploadState } = {}
+): StatePersister {
+  let latest: UploadState | null = null;
+  // Last state the store has, snapshot and journal together; null before the first snapshot
+  let written: UploadState | null = saved ?? null;
+  // Chunks changed since the last write; null when the chunk list changed otherwise
+  let changed: Set<number> | null = new Set();
+  let journalLength = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  // Writes run one after another, each comparing against the one before
+  let writing: Promise<void> = Promise.resolve();
+
+  const write = async (): Promise<void> => {
+    const state = latest;
+    if (!state || state === written) {
+      return;
+    }
+    const changedChunks = changed;
+    changed = new Set();
+    const entries = written && changedChunks && getJournalEntries(written, state, Array.from(changedChunks));
+    try {
+      if (!entries || journalLength + entries.length > compactAfter) {
+        await store.save(compactUploadState({ ...state, schemaVersion: SCHEMA_VERSION }));
+        journalLength = 0;
+      } else if (entries.length > 0) {
+        await store.append(state.uploadId, entries);
+        journalLength += entries.length;
+      }
+      written = state;
+    } catch (error) {
+      console.error('Failed to save upload state:', error);
+      written = null;
+    }
+  };
+
+  const flush = (): Promise<void> => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    writing = writing.then(write);
+    return writing;
+  };
+
+  return {
+    update(state, changedChunks) {
+      const previous = latest ?? written;
+      if (changedChunks) {
+        changedChunks.forEach((index) => changed?.add(index));
+      } else if (previous && state.chunks !== previous.chunks) {
+        changed = null;
+      }
+      latest = state;
+      timer ??= setTimeout(flush, interval);
+    },
+    flush,
+  };
+}
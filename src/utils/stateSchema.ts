@@ -0,0 +1,219 @@
+import { UploadState } from '../types/upload';
+import { getChunkLength } from './fileChunker';
+import { CompactUploadState, JournalEntry, applyJournal, expandChunks } from './compactState';
+
+/**
+ * Version of the UploadState structure this code writes, saved with every state as
+ * schemaVersion. Raise it with a migration below whenever saved states change shape
+ */
+export const SCHEMA_VERSION = 3;
+
+/**
+ * Last version that saved each chunk as an object. Version 3 saves chunks compactly (see
+ * utils/compactState.ts): older states are migrated up to this version, newer ones have
+ * their chunks expanded, and both are validated as chunk objects
+ */
+const CHUNK_OBJECTS_VERSION = 2;
+
+type StateData = Record<string, unknown>;
+
+const isObject = (value: unknown): value is StateData =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+const isTime = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isCountPair = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(isCount);
+
+/**
+ * Upgrades saved data from the version it is keyed by to the next. Migrations run before
+ * validation, so they leave anything they do not recognize for validation to reject
+ */
+const MIGRATIONS: Record<number, (data: StateData) => StateData> = {
+  // Version 1 (saved without schemaVersion) used one size for every chunk; chunks now
+  // carry their own byte range. Chunks saved after ranges were added have them already
+  1: (data) => {
+    const { chunks, fileSize, chunkSize } = data;
+    if (!Array.isArray(chunks) || !isCount(fileSize) || !isCount(chunkSize)) {
+      return data;
+    }
+    return {
+      ...data,
+      chunks: chunks.map((chunk) =>
+        isObject(chunk) && chunk.offset === undefined && isCount(chunk.chunkIndex)
+          ? {
+              ...chunk,
+              offset: chunk.chunkIndex * chunkSize,
+              length: getChunkLength(fileSize, chunkSize, chunk.chunkIndex),
+            }
+          : chunk
+      ),
+    };
+  },
+};
+
+function checkChunk(chunk: unknown, index: number, fileSize: number): string | null {
+  if (!isObject(chunk)) {
+    return `Chunk ${index} is not an object`;
+  }
+  if (chunk.chunkIndex !== index) {
+    return `Chunk ${index} has index ${String(chunk.chunkIndex)}`;
+  }
+  if (!isCount(chunk.offset) || !isCount(chunk.length) || chunk.offset + chunk.length > fileSize) {
+    return `Chunk ${index} has no valid byte range`;
+  }
+  if (typeof chunk.uploaded !== 'boolean' || typeof chunk.failed !== 'boolean' || !isCount(chunk.retryCount)) {
+    return `Chunk ${index} has no valid status`;
+  }
+  if (!isOptional(chunk.etag, isString) || !isOptional(chunk.checksum, isString)) {
+    return `Chunk ${index} has an invalid etag or checksum`;
+  }
+  if (!isOptional(chunk.compressedLength, isCount) || !isOptional(chunk.lastError, isObject)) {
+    return `Chunk ${index} has invalid details`;
+  }
+  return null;
+}
+
+/**
+ * Replaces compact chunk fields with chunk objects, or says why they cannot be expanded
+ */
+function expandStoredChunks(data: StateData): { data: StateData } | { problem: string } {
+  const { chunkLengths, uploadedRuns, chunkDetails, ...rest } = data;
+  if (!Array.isArray(chunkLengths) || !chunkLengths.every(isCountPair)) {
+    return { problem: 'Invalid chunk lengths' };
+  }
+  if (!Array.isArray(uploadedRuns) || !uploadedRuns.every(isCount) || !isObject(chunkDetails)) {
+    return { problem: 'Invalid chunk status' };
+  }
+  // Checked before expanding, so corrupted counts cannot make a huge chunk list
+  const chunkCount = chunkLengths.reduce((sum, [, count]) => sum + count, 0);
+  const runTotal = uploadedRuns.reduce((sum, run) => sum + run, 0);
+  if (chunkCount !== data.totalChunks || runTotal !== chunkCount) {
+    return { problem: 'Chunk list does not match the chunk count' };
+  }
+  for (const [index, details] of Object.entries(chunkDetails)) {
+    if (!isObject(details) || !(Number(index) < chunkCount)) {
+      return { problem: `Invalid details for chunk ${index}` };
+    }
+  }
+  return { data: { ...rest, chunks: expandChunks(data as unknown as CompactUploadState) } };
+}
+
+/**
+ * First reason data is not a usable UploadState of the current version, or null when it is.
+ * Checks what the upload logic relies on; details such as error messages are not checked
+ */
+export function validateUploadState(data: StateData): string | null {
+  if (!isString(data.uploadId) || data.uploadId === '') {
+    return 'Missing upload ID';
+  }
+  if (!isString(data.fileName)) {
+    return 'Missing file name';
+  }
+  if (!isCount(data.fileSize) || !isCount(data.chunkSize) || !isCount(data.totalChunks)) {
+    return 'Invalid file or chunk size';
+  }
+  if (!isTime(data.startTime) || !isTime(data.lastUpdate)) {
+    return 'Invalid timestamps';
+  }
+  if (!Array.isArray(data.chunks) || data.chunks.length !== data.totalChunks) {
+    return 'Chunk list does not match the chunk count';
+  }
+  for (let index = 0; index < data.chunks.length; index++) {
+    const problem = checkChunk(data.chunks[index], index, data.fileSize);
+    if (problem) {
+      return problem;
+    }
+  }
+  const fingerprint = data.fingerprint;
+  if (fingerprint !== undefined && (!isObject(fingerprint) || !isCount(fingerprint.size) || !isString(fingerprint.sampleHash))) {
+    return 'Invalid file fingerprint';
+  }
+  const encryption = data.encryption;
+  if (
+    encryption !== undefined &&
+    (!isObject(encryption) ||
+      encryption.algorithm !== 'AES-GCM' ||
+      !isString(encryption.ivPrefix) ||
+      !isString(encryption.wrappedKey) ||
+      !isObject(encryption.keyDerivation))
+  ) {
+    return 'Invalid encryption settings';
+  }
+  if (data.compression !== undefined && data.compression !== 'gzip' && data.compression !== 'deflate') {
+    return `Unknown compression ${String(data.compression)}`;
+  }
+  if (data.result !== undefined && (!isObject(data.result) || !isString(data.result.location))) {
+    return 'Invalid upload result';
+  }
+  if (
+    !isOptional(data.limits, isObject) ||
+    !isOptional(data.remoteSession, isObject) ||
+    !isOptional(data.expiresAt, isTime)
+  ) {
+    return 'Invalid server session';
+  }
+  const stale = data.stale;
+  if (stale !== undefined && (!isObject(stale) || !isTime(stale.since) || !isString(stale.reason))) {
+    return 'Invalid stale marker';
+  }
+  return null;
+}
+
+/**
+ * Turns stored data into an UploadState: migrates it from the version it was saved with,
+ * validates the result and applies the chunk updates journaled since it was saved. Data
+ * that is invalid, or was saved by a newer version of the app, comes back as the reason it
+ * cannot be used
+ */
+export function readUploadState(data: unknown, journal: unknown[] = []): { state: UploadState } | { problem: string } {
+  if (!isObject(data)) {
+    return { problem: 'Stored data is not an object' };
+  }
+  const version = data.schemaVersion ?? 1;
+  if (!isCount(version) || version < 1) {
+    return { problem: `Unknown schema version ${String(version)}` };
+  }
+  if (version > SCHEMA_VERSION) {
+    return { problem: `Saved by a newer version of the app (schema version ${version})` };
+  }
+
+  let migrated = data;
+  for (let from = version; from < CHUNK_OBJECTS_VERSION; from++) {
+    migrated = MIGRATIONS[from](migrated);
+  }
+  if (version > CHUNK_OBJECTS_VERSION) {
+    const expanded = expandStoredChunks(migrated);
+    if ('problem' in expanded) {
+      return expanded;
+    }
+    migrated = expanded.data;
+  }
+  const problem = validateUploadState(migrated);
+  if (problem) {
+    return { problem };
+  }
+
+  const state = migrated as unknown as UploadState;
+  for (const [index, entry] of journal.entries()) {
+    const chunk = isObject(entry) && isCount(entry.chunkIndex) ? state.chunks[entry.chunkIndex] : undefined;
+    if (
+      !isObject(entry) ||
+      !chunk ||
+      !isTime(entry.lastUpdate) ||
+      checkChunk({ ...entry, offset: chunk.offset, length: chunk.length }, chunk.chunkIndex, state.fileSize)
+    ) {
+      return { problem: `Invalid journal entry ${index}` };
+    }
+  }
+  const entries = journal as JournalEntry[];
+  return {
+    state: {
+      ...state,
+      chunks: applyJournal(state.chunks, entries),
+      lastUpdate: entries.reduce((latest, entry) => Math.max(latest, entry.lastUpdate), state.lastUpdate),
+      schemaVersion: SCHEMA_VERSION,
+    },
+  };
+}
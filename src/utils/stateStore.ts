@@ -0,0 +1,431 @@
+import { UploadState } from '../types/upload';
+import { CompactUploadState, JournalEntry } from './compactState';
+import { openDatabase, requestResult, transactionDone } from './indexedDb';
+import { getEvictionOrder, isQuotaExceeded } from './retention';
+import { readUploadState } from './stateSchema';
+import { getDefaultFileSourceStore } from './fileSources';
+
+/**
+ * A state as it was stored, with the journal entries appended since, not validated yet
+ * (see utils/stateSchema.ts). Entries that cannot even be decoded carry the reason instead
+ * of data
+ */
+export type StoredState = { uploadId: string; data: unknown; journal: unknown[] } | { uploadId: string; error: string };
+
+/**
+ * Where upload states are kept between sessions: a snapshot of each upload's state, and a
+ * journal of the chunk updates since (see utils/statePersister.ts). Saves, appends and
+ * deletes notify subscribers once they are stored, with the upload's ID
+ */
+export interface StateStore {
+  /** Replaces the upload's snapshot and clears its journal, which the snapshot includes */
+  save(state: CompactUploadState): Promise<void>;
+  append(uploadId: string, entries: JournalEntry[]): Promise<void>;
+  /** null when no state is stored for the upload */
+  load(uploadId: string): Promise<StoredState | null>;
+  list(): Promise<StoredState[]>;
+  delete(uploadId: string): Promise<void>;
+  /** Returns a function that removes the listener */
+  subscribe(listener: (uploadId: string) => void): () => void;
+}
+
+// Key prefix of states in localStorage, also where states were kept before IndexedDB
+export const LOCAL_STORAGE_PREFIX = 'upload_state_';
+
+function decodeJson(uploadId: string, text: string, journalText: string | null = null): StoredState {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { uploadId, error: 'Stored data is not valid JSON' };
+  }
+  try {
+    const journal: unknown = journalText === null ? [] : JSON.parse(journalText);
+    return Array.isArray(journal) ? { uploadId, data, journal } : { uploadId, error: 'Stored journal is not a list' };
+  } catch {
+    return { uploadId, error: 'Stored journal is not valid JSON' };
+  }
+}
+
+function createListeners() {
+  const listeners = new Set<(uploadId: string) => void>();
+  return {
+    notify(uploadId: string): void {
+      listeners.forEach((listener) => listener(uploadId));
+    },
+    subscribe(listener: (uploadId: string) => void): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Keeps states in memory only, e.g. for tests or when nothing may be written to disk.
+ * States are copied in and out, so callers cannot change what is stored
+ */
+export function createMemoryStateStore(): StateStore {
+  const states = new Map<string, CompactUploadState>();
+  const journals = new Map<string, JournalEntry[]>();
+  const { notify, subscribe } = createListeners();
+  const read = (uploadId: string, state: CompactUploadState): StoredState => ({
+    uploadId,
+    data: structuredClone(state),
+    journal: structuredClone(journals.get(uploadId) ?? []),
+  });
+
+  return {
+    async save(state) {
+      states.set(state.uploadId, structuredClone(state));
+      journals.delete(state.uploadId);
+      notify(state.uploadId);
+    },
+    async append(uploadId, entries) {
+      journals.set(uploadId, [...(journals.get(uploadId) ?? []), ...structuredClone(entries)]);
+      notify(uploadId);
+    },
+    async load(uploadId) {
+      const state = states.get(uploadId);
+      return state ? read(uploadId, state) : null;
+    },
+    async list() {
+      return Array.from(states, ([uploadId, state]) => read(uploadId, state));
+    },
+    async delete(uploadId) {
+      states.delete(uploadId);
+      journals.delete(uploadId);
+      notify(uploadId);
+    },
+    subscribe,
+  };
+}
+
+// Key prefix of journals in localStorage
+const JOURNAL_PREFIX = 'upload_journal_';
+
+/**
+ * Keeps each state as JSON under "upload_state_<uploadId>" and its journal under
+ * "upload_journal_<uploadId>". localStorage holds about 5 MB per origin and every write
+ * blocks the page, so this is the fallback for browsers without IndexedDB
+ */
+export function createLocalStorageStateStore(storage: Storage = localStorage): StateStore {
+  const { notify, subscribe } = createListeners();
+  const read = (uploadId: string, text: string) =>
+    decodeJson(uploadId, text, storage.getItem(`${JOURNAL_PREFIX}${uploadId}`));
+
+  return {
+    async save(state) {
+      storage.setItem(`${LOCAL_STORAGE_PREFIX}${state.uploadId}`, JSON.stringify(state));
+      storage.removeItem(`${JOURNAL_PREFIX}${state.uploadId}`);
+      notify(state.uploadId);
+    },
+    async append(uploadId, entries) {
+      // localStorage cannot append, so the journal is written again; compaction keeps it short
+      const journal: unknown = JSON.parse(storage.getItem(`${JOURNAL_PREFIX}${uploadId}`) ?? '[]');
+      storage.setItem(`${JOURNAL_PREFIX}${uploadId}`, JSON.stringify([...(journal as unknown[]), ...entries]));
+      notify(uploadId);
+    },
+    async load(uploadId) {
+      const text = storage.getItem(`${LOCAL_STORAGE_PREFIX}${uploadId}`);
+      return text === null ? null : read(uploadId, text);
+    },
+    async list() {
+      const states: StoredState[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        const text = key?.startsWith(LOCAL_STORAGE_PREFIX) ? storage.getItem(key) : null;
+        if (key && text !== null) {
+          states.push(read(key.slice(LOCAL_STORAGE_PREFIX.length), text));
+        }
+      }
+      return states;
+    },
+    async delete(uploadId) {
+      storage.removeItem(`${LOCAL_STORAGE_PREFIX}${uploadId}`);
+      storage.removeItem(`${JOURNAL_PREFIX}${uploadId}`);
+      notify(uploadId);
+    },
+    subscribe,
+  };
+}
+
+export interface IndexedDbStateStoreOptions {
+  /** Defaults to "resumable-uploads" */
+  dbName?: string;
+  /** Defaults to the browser's; tests pass fake-indexeddb */
+  indexedDB?: IDBFactory;
+  /**
+   * States found under "upload_state_<uploadId>" here are moved into the database when
+   * it is first opened, then removed; undecodable ones too, so they can be listed and deleted
+   */
+  migrateFrom?: Storage;
+}
+
+// Version 2 added the journal
+const DB_VERSION = 2;
+const STATES_STORE = 'uploads';
+// Records of { uploadId, entries } under increasing keys, so an upload's come back in order
+const JOURNAL_STORE = 'journal';
+const BY_UPLOAD = 'uploadId';
+
+// Key path values are on the records themselves, so entries moved from localStorage that
+// are not JSON objects are kept wrapped, with why they could not be used
+interface UnreadableRecord {
+  uploadId: string;
+  unreadable: { text: string; error: string };
+}
+
+function toRecord(uploadId: string, text: string): object {
+  const stored = decodeJson(uploadId, text);
+  if ('error' in stored) {
+    return { uploadId, unreadable: { text, error: stored.error } };
+  }
+  if (typeof stored.data !== 'object' || stored.data === null || Array.isArray(stored.data)) {
+    return { uploadId, unreadable: { text, error: 'Stored data is not an object' } };
+  }
+  return { ...stored.data, uploadId };
+}
+
+interface JournalRecord {
+  uploadId: string;
+  entries: JournalEntry[];
+}
+
+function fromRecord(record: { uploadId: string }, journal: JournalRecord[]): StoredState {
+  const { unreadable } = record as Partial<UnreadableRecord>;
+  return unreadable
+    ? { uploadId: record.uploadId, error: unreadable.error }
+    : { uploadId: record.uploadId, data: record, journal: journal.flatMap((journalRecord) => journalRecord.entries) };
+}
+
+function deleteJournal(journal: IDBObjectStore, uploadId: string): void {
+  const keys = journal.index(BY_UPLOAD).getAllKeys(uploadId);
+  keys.onsuccess = () => keys.result.forEach((key) => journal.delete(key));
+}
+
+async function moveLocalStorageStates(db: IDBDatabase, storage: Storage): Promise<void> {
+  const moved: [string, object][] = [];
+  for (let i = 0; i < storage.length; i++) {
+    const key = storage.key(i);
+    const text = key?.startsWith(LOCAL_STORAGE_PREFIX) ? storage.getItem(key) : null;
+    if (key && text !== null) {
+      moved.push([key, toRecord(key.slice(LOCAL_STORAGE_PREFIX.length), text)]);
+    }
+  }
+  if (moved.length === 0) {
+    return;
+  }
+
+  const transaction = db.transaction(STATES_STORE, 'readwrite');
+  const states = transaction.objectStore(STATES_STORE);
+  for (const [, record] of moved) {
+    // A state saved in the database already is newer than the copy left in localStorage:
+    // the failed add is skipped instead of aborting the transaction
+    states.add(record).onerror = (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+    };
+  }
+  await transactionDone(transaction);
+  // Removed only once the database has them, so an interrupted migration runs again
+  moved.forEach(([key]) => storage.removeItem(key));
+}
+
+/**
+ * Keeps states in IndexedDB, the default store: there is room for many large uploads and
+ * writes do not block the page. A state saved again while its last save is still being
+ * written replaces the queued one, so chunk updates arriving faster than the disk takes
+ * them coalesce into one write. A snapshot and the removal of the journal it includes
+ * are one transaction. Reads wait for queued writes
+ */
+export function createIndexedDbStateStore({
+  dbName = 'resumable-uploads',
+  indexedDB: factory = indexedDB,
+  migrateFrom,
+}: IndexedDbStateStoreOptions = {}): StateStore {
+  const { notify, subscribe } = createListeners();
+  let database: Promise<IDBDatabase> | null = null;
+  // Last write or delete of each upload, so operations on one upload run in order
+  const pending = new Map<string, Promise<void>>();
+  // Saves that have not started writing yet; a newer state replaces theirs
+  const queued = new Map<string, { state: CompactUploadState; done: Promise<void> }>();
+
+  const open = (): Promise<IDBDatabase> => {
+    database ??= (async () => {
+      const db = await openDatabase(factory, dbName, DB_VERSION, (db) => {
+        if (!db.objectStoreNames.contains(STATES_STORE)) {
+          db.createObjectStore(STATES_STORE, { keyPath: 'uploadId' });
+        }
+        db.createObjectStore(JOURNAL_STORE, { autoIncrement: true }).createIndex(BY_UPLOAD, 'uploadId');
+      });
+      if (migrateFrom) {
+        await moveLocalStorageStates(db, migrateFrom);
+      }
+      return db;
+    })();
+    return database;
+  };
+
+  const write = async (run: (states: IDBObjectStore, journal: IDBObjectStore) => void): Promise<void> => {
+    const transaction = (await open()).transaction([STATES_STORE, JOURNAL_STORE], 'readwrite');
+    run(transaction.objectStore(STATES_STORE), transaction.objectStore(JOURNAL_STORE));
+    await transactionDone(transaction);
+  };
+
+  const read = async () => {
+    const transaction = (await open()).transaction([STATES_STORE, JOURNAL_STORE]);
+    return { states: transaction.objectStore(STATES_STORE), journal: transaction.objectStore(JOURNAL_STORE) };
+  };
+
+  // Runs after the upload's earlier operations, whether or not they succeeded
+  const enqueue = (uploadId: string, operation: () => Promise<void>): Promise<void> => {
+    const done = (pending.get(uploadId) ?? Promise.resolve()).catch(() => {}).then(operation);
+    pending.set(uploadId, done);
+    const cleanUp = () => {
+      if (pending.get(uploadId) === done) {
+        pending.delete(uploadId);
+      }
+    };
+    done.then(cleanUp, cleanUp);
+    return done;
+  };
+
+  const settled = (uploadIds: Iterable<string>) =>
+    Promise.all(Array.from(uploadIds, (uploadId) => pending.get(uploadId)?.catch(() => {})));
+
+  return {
+    save(state) {
+      const waiting = queued.get(state.uploadId);
+      if (waiting) {
+        waiting.state = state;
+        return waiting.done;
+      }
+      const entry = { state, done: Promise.resolve() };
+      entry.done = enqueue(state.uploadId, async () => {
+        queued.delete(state.uploadId);
+        await write((states, journal) => {
+          states.put(entry.state);
+          deleteJournal(journal, state.uploadId);
+        });
+        notify(state.uploadId);
+      });
+      queued.set(state.uploadId, entry);
+      return entry.done;
+    },
+    append(uploadId, entries) {
+      // A save queued before the entries must not take in a newer state, which the
+      // entries would then roll back
+      queued.delete(uploadId);
+      const record: JournalRecord = { uploadId, entries };
+      return enqueue(uploadId, async () => {
+        await write((_states, journal) => journal.add(record));
+        notify(uploadId);
+      });
+    },
+    async load(uploadId) {
+      await settled([uploadId]);
+      const { states, journal } = await read();
+      const [record, journalRecords] = await Promise.all([
+        requestResult(states.get(uploadId)),
+        requestResult(journal.index(BY_UPLOAD).getAll(uploadId)),
+      ]);
+      return record ? fromRecord(record, journalRecords) : null;
+    },
+    async list() {
+      await settled(pending.keys());
+      const { states, journal } = await read();
+      const [records, journalRecords] = await Promise.all([
+        requestResult(states.getAll()),
+        requestResult(journal.getAll() as IDBRequest<JournalRecord[]>),
+      ]);
+      return records.map((record) =>
+        fromRecord(
+          record,
+          journalRecords.filter((journalRecord) => journalRecord.uploadId === record.uploadId)
+        )
+      );
+    },
+    delete(uploadId) {
+      // A save queued before the delete is written first and then removed
+      queued.delete(uploadId);
+      return enqueue(uploadId, async () => {
+        await write((states, journal) => {
+          states.delete(uploadId);
+          deleteJournal(journal, uploadId);
+        });
+        notify(uploadId);
+      });
+    },
+    subscribe,
+  };
+}
+
+/**
+ * Wraps a store so a save or append that fails because storage is full makes room:
+ * other uploads are deleted one at a time, in getEvictionOrder's order, retrying the
+ * write after each, until it succeeds or there is nothing left to delete. onEvict hears
+ * of each deleted upload, to release what it holds elsewhere (e.g. a file copy)
+ */
+export function withQuotaEviction(
+  store: StateStore,
+  { onEvict }: { onEvict?: (uploadId: string) => void } = {}
+): StateStore {
+  const withSpace = async (uploadId: string, write: () => Promise<void>): Promise<void> => {
+    try {
+      return await write();
+    } catch (error) {
+      if (!isQuotaExceeded(error)) {
+        throw error;
+      }
+      const states: UploadState[] = [];
+      for (const stored of await store.list()) {
+        const read = 'error' in stored ? null : readUploadState(stored.data, stored.journal);
+        if (read && 'state' in read) {
+          states.push(read.state);
+        }
+      }
+      for (const evicted of getEvictionOrder(states, uploadId)) {
+        console.warn(`Storage is full, deleting saved upload ${evicted.uploadId} (${evicted.fileName})`);
+        await store.delete(evicted.uploadId);
+        onEvict?.(evicted.uploadId);
+        try {
+          return await write();
+        } catch (retryError) {
+          if (!isQuotaExceeded(retryError)) {
+            throw retryError;
+          }
+        }
+      }
+      throw error;
+    }
+  };
+
+  return {
+    ...store,
+    save: (state) => withSpace(state.uploadId, () => store.save(state)),
+    append: (uploadId, entries) => withSpace(uploadId, () => store.append(uploadId, entries)),
+  };
+}
+
+let defaultStore: StateStore | null = null;
+
+/**
+ * IndexedDB where the browser has it, taking over states earlier versions kept in
+ * localStorage; localStorage otherwise. When storage fills up, older uploads and their
+ * remembered files are deleted to make room (see withQuotaEviction)
+ */
+export function getDefaultStateStore(): StateStore {
+  defaultStore ??= withQuotaEviction(
+    typeof indexedDB !== 'undefined'
+      ? createIndexedDbStateStore({ migrateFrom: localStorage })
+      : createLocalStorageStateStore(),
+    {
+      onEvict: (uploadId) => {
+        getDefaultFileSourceStore()
+          ?.delete(uploadId)
+          .catch((error) => console.error('Failed to forget upload file:', error));
+      },
+    }
+  );
+  return defaultStore;
+}
@@ -0,0 +1,70 @@
+import { UploadTransport } from '../types/upload';
+import { simulatedTransport } from './api';
+import { createHttpTransport } from './httpTransport';
+import { TusChecksumAlgorithm, createTusTransport } from './tusTransport';
+import { createS3Transport } from './s3Transport';
+import { createAzureTransport } from './azureTransport';
+
+export type TransportKind = 'simulated' | 'http' | 'tus' | 's3' | 'azure';
+
+export interface TransportConfig {
+  kind: TransportKind;
+  endpoint?: string;
+  /**
+   * Per-chunk checksum where the protocol leaves the algorithm to the client (tus):
+   * SHA-256 by default, false to send none
+   */
+  checksum?: TusChecksumAlgorithm | false;
+}
+
+/**
+ * Creates a transport for the given config
+ */
+export function createTransport(config: TransportConfig): UploadTransport {
+  switch (config.kind) {
+    case 'http':
+      if (!config.endpoint) {
+        throw new Error('An endpoint is required for the http transport');
+      }
+      return createHttpTransport({ endpoint: config.endpoint });
+    case 'tus':
+      if (!config.endpoint) {
+        throw new Error('An endpoint is required for the tus transport');
+      }
+      return createTusTransport({ endpoint: config.endpoint, checksum: config.checksum });
+    case 's3':
+      if (!config.endpoint) {
+        throw new Error('A signer endpoint is required for the s3 transport');
+      }
+      return createS3Transport({ signerEndpoint: config.endpoint });
+    case 'azure':
+      if (!config.endpoint) {
+        throw new Error('A container URL is required for the azure transport');
+      }
+      return createAzureTransport({ containerUrl: config.endpoint });
+    case 'simulated':
+    default:
+      return simulatedTransport;
+  }
+}
+
+// "sha256", "sha1" or "false"; anything else keeps the default
+function parseChecksumSetting(value: string | undefined): TusChecksumAlgorithm | false | undefined {
+  if (value === 'false') {
+    return false;
+  }
+  return value === 'sha1' || value === 'sha256' ? value : undefined;
+}
+
+/**
+ * Reads the transport config from Vite env variables (VITE_UPLOAD_TRANSPORT,
+ * VITE_UPLOAD_ENDPOINT, VITE_UPLOAD_CHECKSUM), falling back to the simulator
+ */
+export function getDefaultTransport(): UploadTransport {
+  const kind = (import.meta.env.VITE_UPLOAD_TRANSPORT ?? 'simulated') as TransportKind;
+  return createTransport({
+    kind,
+    endpoint: import.meta.env.VITE_UPLOAD_ENDPOINT,
+    checksum: parseChecksumSetting(import.meta.env.VITE_UPLOAD_CHECKSUM),
+  });
+}
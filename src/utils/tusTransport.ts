@@ -0,0 +1,224 @@
+import { ChunkUploadRequest, RemoteSession, UploadResult, UploadState, UploadTransport } from '../types/upload';
+import { createProgressFetch } from './progressFetch';
+import { httpError, withUploadErrors } from './uploadErrors';
+import { getStoredLength, getStoredOffset, getStoredSize } from './encryption';
+import { parseExpiresAt } from './retention';
+import { checksumToBase64, sha256Chunk } from './checksum';
+
+const TUS_VERSION = '1.0.0';
+
+export type TusChecksumAlgorithm = 'sha256' | 'sha1';
+
+export interface TusTransportOptions {
+  /** tus creation endpoint, e.g. "https://tus.example.com/files/" */
+  endpoint: string;
+  /** Extra headers sent with every request (auth tokens, tenant IDs, ...) */
+  headers?: Record<string, string>;
+  /**
+   * Upload-Checksum sent with every PATCH (checksum extension). By default the chunk's
+   * SHA-256, the digest the upload computed for it; sha1 is the one algorithm every
+   * server with the extension supports; false sends none
+   */
+  checksum?: TusChecksumAlgorithm | false;
+  /** fetch implementation, defaults to the global one */
+  fetch?: typeof fetch;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Encodes Upload-Metadata as comma-separated "key base64(value)" pairs
+ */
+export function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => `${key} ${bytesToBase64(new TextEncoder().encode(value))}`)
+    .join(',');
+}
+
+/**
+ * Maps a tus byte offset to the chunks it fully covers
+ */
+export function getChunksBelowOffset(offset: number, state: UploadState): number[] {
+  // An empty file is a single empty chunk that is done once the upload exists
+  if (getStoredSize(state) === 0) {
+    return [0];
+  }
+
+  const chunks: number[] = [];
+  for (const chunk of state.chunks) {
+    if (getStoredOffset(state, chunk) + getStoredLength(state, chunk) > offset) {
+      break;
+    }
+    chunks.push(chunk.chunkIndex);
+  }
+  return chunks;
+}
+
+async function sha1Base64(data: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', await data.arrayBuffer());
+  return bytesToBase64(new Uint8Array(digest));
+}
+
+/**
+ * Creates a tus 1.0 client transport (core protocol plus the creation,
+ * termination and checksum extensions).
+ *
+ * A tus upload is a single byte stream appended in order, so each chunk is one
+ * PATCH at the chunk's offset and the transport limits the hook to one request
+ * at a time. Resume uses HEAD to read Upload-Offset and marks every chunk below
+ * it as uploaded.
+ */
+export function createTusTransport(options: TusTransportOptions): UploadTransport {
+  const doFetch = withUploadErrors(options.fetch ?? ((input, init) => fetch(input, init)));
+  const sendChunk = withUploadErrors(createProgressFetch(options.fetch));
+
+  const tusHeaders = (extra: Record<string, string> = {}): Record<string, string> => ({
+    ...options.headers,
+    'Tus-Resumable': TUS_VERSION,
+    ...extra,
+  });
+
+  const requireSession = (session: RemoteSession | undefined): RemoteSession => {
+    if (!session) {
+      throw new Error('tus upload has not been created');
+    }
+    return session;
+  };
+
+  // A 404 or 410 means the server has discarded the upload it created (SessionExpiredError)
+  const getOffset = async (location: string): Promise<number> => {
+    const response = await doFetch(location, { method: 'HEAD', headers: tusHeaders() });
+    if (!response.ok) {
+      throw httpError(response, 'Failed to get upload offset');
+    }
+    const offset = Number(response.headers.get('Upload-Offset'));
+    if (!Number.isFinite(offset)) {
+      throw new Error('Missing Upload-Offset header');
+    }
+    return offset;
+  };
+
+  const checksumAlgorithm = options.checksum ?? 'sha256';
+
+  // Upload-Checksum of the bytes sent; checksum is the SHA-256 of data when it is the whole chunk
+  const getUploadChecksum = async (data: Blob, checksum: string | undefined): Promise<string | undefined> => {
+    if (checksumAlgorithm === 'sha1') {
+      return `sha1 ${await sha1Base64(data)}`;
+    }
+    const digest = checksumAlgorithm === 'sha256' && checksum && checksumToBase64(checksum);
+    return digest ? `sha256 ${digest}` : undefined;
+  };
+
+  const patch = async (
+    location: string,
+    offset: number,
+    data: Blob,
+    { onProgress, signal, checksum }: Pick<ChunkUploadRequest, 'onProgress' | 'signal' | 'checksum'>
+  ): Promise<Response> => {
+    const extra: Record<string, string> = {
+      'Content-Type': 'application/offset+octet-stream',
+      'Upload-Offset': String(offset),
+    };
+    const uploadChecksum = await getUploadChecksum(data, checksum);
+    if (uploadChecksum) {
+      extra['Upload-Checksum'] = uploadChecksum;
+    }
+    return sendChunk(location, { method: 'PATCH', headers: tusHeaders(extra), body: data, signal }, onProgress);
+  };
+
+  return {
+    maxConcurrency: 1,
+
+    async createUpload(state: UploadState): Promise<RemoteSession> {
+      const response = await doFetch(options.endpoint, {
+        method: 'POST',
+        headers: tusHeaders({
+          'Upload-Length': String(getStoredSize(state)),
+          'Upload-Metadata': encodeMetadata({ filename: state.fileName, uploadId: state.uploadId }),
+        }),
+      });
+
+      const location = response.headers.get('Location');
+      if (response.status !== 201 || !location) {
+        throw httpError(response, 'Failed to create tus upload');
+      }
+
+      // Servers with the expiration extension say when they discard unfinished uploads
+      const expiresAt = parseExpiresAt(response.headers.get('Upload-Expires') ?? undefined);
+      return {
+        location: new URL(location, options.endpoint).toString(),
+        ...(expiresAt !== undefined ? { expiresAt } : {}),
+      };
+    },
+
+    async uploadChunk(request: ChunkUploadRequest): Promise<void> {
+      const { location } = requireSession(request.session);
+      const chunkEnd = request.offset + request.chunkData.size;
+
+      const response = await patch(location, request.offset, request.chunkData, request);
+      if (response.status === 204) {
+        return;
+      }
+
+      // Offset mismatch: a previous PATCH may have been partially stored.
+      // Continue from the server's offset if it falls inside this chunk
+      if (response.status === 409) {
+        const serverOffset = await getOffset(location);
+        if (serverOffset >= chunkEnd) {
+          return;
+        }
+        if (serverOffset > request.offset) {
+          const stored = serverOffset - request.offset;
+          const rest = request.chunkData.slice(stored);
+          const retry = await patch(location, serverOffset, rest, {
+            signal: request.signal,
+            onProgress: request.onProgress && ((loaded) => request.onProgress?.(stored + loaded)),
+            // The chunk's digest does not cover the rest alone
+            checksum: checksumAlgorithm === 'sha256' && request.checksum ? await sha256Chunk(rest) : undefined,
+          });
+          if (retry.status === 204) {
+            return;
+          }
+          throw httpError(retry, `Failed to upload chunk ${request.chunkIndex}`);
+        }
+      }
+
+      throw httpError(response, `Failed to upload chunk ${request.chunkIndex}`);
+    },
+
+    async getUploadedChunks(state: UploadState): Promise<number[]> {
+      if (!state.remoteSession) {
+        return [];
+      }
+      return getChunksBelowOffset(await getOffset(state.remoteSession.location), state);
+    },
+
+    // tus has no completion request: the upload is done once the server's offset
+    // reaches Upload-Length, so check that and hand back the upload URL
+    async completeUpload(state: UploadState): Promise<UploadResult> {
+      const { location } = requireSession(state.remoteSession);
+      const offset = await getOffset(location);
+      const size = getStoredSize(state);
+      if (offset !== size) {
+        throw new Error(`tus upload is incomplete: server has ${offset} of ${size} bytes`);
+      }
+      return { location };
+    },
+
+    async abortUpload(state: UploadState): Promise<void> {
+      if (!state.remoteSession) {
+        return;
+      }
+      const response = await doFetch(state.remoteSession.location, {
+        method: 'DELETE',
+        headers: tusHeaders(),
+      });
+      // Already gone is as good as deleted
+      if (!response.ok && response.status !== 404 && response.status !== 410) {
+        throw httpError(response, 'Failed to terminate tus upload');
+      }
+    },
+  };
+}
@@ -0,0 +1,214 @@
+import { ChunkError, UploadErrorKind } from '../types/upload';
+import { ProgressFetch } from './progressFetch';
+
+/**
+ * Base class for errors raised by transports. `retryable` tells the upload loop
+ * whether sending the same request again can succeed
+ */
+export class UploadError extends Error {
+  readonly kind: UploadErrorKind;
+  readonly retryable: boolean;
+  /** HTTP status, when the error came from a response */
+  readonly status?: number;
+  /** How long the server asked us to wait before retrying (Retry-After) */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    kind: UploadErrorKind,
+    message: string,
+    options: { retryable: boolean; status?: number; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = 'UploadError';
+    this.kind = kind;
+    this.retryable = options.retryable;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+interface HttpErrorOptions {
+  status?: number;
+  retryAfterMs?: number;
+}
+
+/** The request never got a response (connection refused, DNS, offline) */
+export class NetworkError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('network', message, { ...options, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+/** The request or the server timed out (client timeout, 408, 504) */
+export class TimeoutError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('timeout', message, { ...options, retryable: true });
+    this.name = 'TimeoutError';
+  }
+}
+
+/** Credentials are missing, expired or not allowed to upload (401, 403) */
+export class AuthError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('auth', message, { ...options, retryable: false });
+    this.name = 'AuthError';
+  }
+}
+
+/** Rate limited (429, retryable) or out of storage (507, fatal) */
+export class QuotaError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('quota', message, { ...options, retryable: options.status !== 507 });
+    this.name = 'QuotaError';
+  }
+}
+
+/** The chunk is larger than the server accepts (413); resending it cannot help */
+export class PayloadTooLargeError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('payload-too-large', message, { ...options, retryable: false });
+    this.name = 'PayloadTooLargeError';
+  }
+}
+
+/** The server no longer knows the upload (404, 410); it has to be started again */
+export class SessionExpiredError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('session-expired', message, { ...options, retryable: false });
+    this.name = 'SessionExpiredError';
+  }
+}
+
+/** The server failed to handle a valid request (5xx) */
+export class ServerError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('server', message, { ...options, retryable: true });
+    this.name = 'ServerError';
+  }
+}
+
+/** The server rejected the request itself (other 4xx) */
+export class RequestError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('request', message, { ...options, retryable: false });
+    this.name = 'RequestError';
+  }
+}
+
+/** The server received bytes that do not match the chunk's checksum (460); sending again usually fixes it */
+export class ChecksumMismatchError extends UploadError {
+  constructor(message: string, options: HttpErrorOptions = {}) {
+    super('checksum', message, { ...options, retryable: true });
+    this.name = 'ChecksumMismatchError';
+  }
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Error class for an HTTP status; the message ends with "HTTP <status>"
+ */
+export function errorForStatus(status: number, context: string, retryAfterMs?: number): UploadError {
+  const message = `${context}: HTTP ${status}`;
+  const options = { status, retryAfterMs };
+  if (status === 401 || status === 403) {
+    return new AuthError(message, options);
+  }
+  if (status === 404 || status === 410) {
+    return new SessionExpiredError(message, options);
+  }
+  if (status === 408 || status === 504) {
+    return new TimeoutError(message, options);
+  }
+  if (status === 413) {
+    return new PayloadTooLargeError(message, options);
+  }
+  if (status === 429 || status === 507) {
+    return new QuotaError(message, options);
+  }
+  // 460 is the tus checksum extension's "Checksum Mismatch", also used by the reference server
+  if (status === 460) {
+    return new ChecksumMismatchError(message, options);
+  }
+  if (status >= 500) {
+    return new ServerError(message, options);
+  }
+  return new RequestError(message, options);
+}
+
+/**
+ * Builds the error for an unsuccessful response, honouring its Retry-After header
+ */
+export function httpError(response: Response, context: string): UploadError {
+  return errorForStatus(response.status, context, parseRetryAfter(response.headers.get('Retry-After')));
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Normalizes anything a transport threw; errors of unknown origin are assumed to be transient
+ */
+export function toUploadError(error: unknown): UploadError {
+  if (error instanceof UploadError) {
+    return error;
+  }
+  if (error instanceof DOMException && error.name === 'TimeoutError') {
+    return new TimeoutError(error.message);
+  }
+  // fetch rejects with a TypeError when no response arrives (and with an AbortError when
+  // the browser drops the request); both mean the network, not the server, failed
+  if (error instanceof TypeError || isAbortError(error)) {
+    return new NetworkError((error as Error).message);
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new UploadError('unknown', message, { retryable: true });
+}
+
+/**
+ * Wraps a fetch-like function so failed requests reject with typed upload errors.
+ * Aborts are rethrown unchanged so callers can still tell them apart
+ */
+export function withUploadErrors(fetchFn: ProgressFetch): ProgressFetch {
+  return async (...args) => {
+    try {
+      return await fetchFn(...args);
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      throw toUploadError(error);
+    }
+  };
+}
+
+/**
+ * Serializable summary of an error for ChunkStatus.lastError, with the retry decision
+ * made for it (see planRetry); by default the error class decides and no retry is scheduled
+ */
+export function describeChunkError(
+  error: UploadError,
+  retry: { retryable: boolean; retryAt?: number } = { retryable: error.retryable }
+): ChunkError {
+  return {
+    kind: error.kind,
+    message: error.message,
+    retryable: retry.retryable,
+    ...(error.status !== undefined ? { status: error.status } : {}),
+    ...(retry.retryAt !== undefined ? { retryAt: retry.retryAt } : {}),
+  };
+}
@@ -1,122 +1,351 @@
-import { UploadState, ChunkStatus } from '../types/upload';
-
-const STORAGE_PREFIX = 'upload_state_';
-
-/**
- * Saves upload state to localStorage
- */
-export function saveUploadState(uploadId: string, state: UploadState): void {
-  try {
-    const key = `${STORAGE_PREFIX}${uploadId}`;
-    localStorage.setItem(key, JSON.stringify(state));
-  } catch (error) {
-    console.error('Failed to save upload state:', error);
-  }
-}
-
-/**
- * Loads upload state from localStorage
- */
-export function loadUploadState(uploadId: string): UploadState | null {
-  try {
-    const key = `${STORAGE_PREFIX}${uploadId}`;
-    const data = localStorage.getItem(key);
-    return data ? JSON.parse(data) : null;
-  } catch (error) {
-    console.error('Failed to load upload state:', error);
-    return null;
-  }
-}
-
-/**
- * Gets all upload states from localStorage
- */
-export function getAllUploadStates(): UploadState[] {
-  const states: UploadState[] = [];
-  
-  try {
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(STORAGE_PREFIX)) {
-        const data = localStorage.getItem(key);
-        if (data) {
-          states.push(JSON.parse(data));
-        }
-      }
-    }
-  } catch (error) {
-    console.error('Failed to get all upload states:', error);
-  }
-  
-  return states;
-}
-
-/**
- * Deletes upload state from localStorage
- */
-export function deleteUploadState(uploadId: string): void {
-  try {
-    const key = `${STORAGE_PREFIX}${uploadId}`;
-    localStorage.removeItem(key);
-  } catch (error) {
-    console.error('Failed to delete upload state:', error);
-  }
-}
-
-/**
- * Creates initial upload state
- */
-export function createUploadState(
-  uploadId: string,
-  fileName: string,
-  fileSize: number,
-  totalChunks: number,
-  chunkSize: number
-): UploadState {
-  const chunks: ChunkStatus[] = Array.from({ length: totalChunks }, (_, index) => ({
-    chunkIndex: index,
-    uploaded: false,
-    failed: false,
-    retryCount: 0,
-  }));
-
-  return {
-    uploadId,
-    fileName,
-    fileSize,
-    totalChunks,
-    chunkSize,
-    chunks,
-    startTime: Date.now(),
-    lastUpdate: Date.now(),
-  };
-}
-
-/**
- * Updates chunk status in upload state
- */
-export function updateChunkStatus(
-  state: UploadState,
-  chunkIndex: number,
-  uploaded: boolean,
-  failed: boolean = false
-): UploadState {
-  const updatedChunks = [...state.chunks];
-  const chunk = updatedChunks[chunkIndex];
-  
-  if (chunk) {
-    updatedChunks[chunkIndex] = {
-      ...chunk,
-      uploaded,
-      failed,
-      retryCount: failed ? chunk.retryCount + 1 : chunk.retryCount,
-    };
-  }
-
-  return {
-    ...state,
-    chunks: updatedChunks,
-    lastUpdate: Date.now(),
-  };
-}
-
+import {
+  UploadState,
+  ChunkStatus,
+  ChunkError,
+  ChunkUploadResult,
+  QuarantinedSession,
+  ReconciliationSummary,
+  UploadEncryption,
+  UploadSession,
+  UploadTransport,
+} from '../types/upload';
+import { chooseChunkSize, generateUploadId, getChunkLength, getTotalChunks } from './fileChunker';
+import { createFileFingerprint } from './fileFingerprint';
+import { chooseContentEncoding, negotiateContentEncodings } from './compression';
+import { StateStore, StoredState, getDefaultStateStore } from './stateStore';
+import { SCHEMA_VERSION, readUploadState } from './stateSchema';
+import { compactUploadState } from './compactState';
+import { RetentionPolicy, getRetentionPolicy, planRetention } from './retention';
+
+const THROUGHPUT_KEY = 'measuredThroughput';
+
+function readStored(stored: StoredState): { state: UploadState } | { problem: string } {
+  return 'error' in stored ? { problem: stored.error } : readUploadState(stored.data, stored.journal);
+}
+
+/**
+ * Saves upload state compactly, by default to getDefaultStateStore(). An upload in
+ * progress saves through a StatePersister instead, which journals chunk updates
+ */
+export async function saveUploadState(state: UploadState, store = getDefaultStateStore()): Promise<void> {
+  try {
+    await store.save(compactUploadState({ ...state, schemaVersion: SCHEMA_VERSION }));
+  } catch (error) {
+    console.error('Failed to save upload state:', error);
+  }
+}
+
+/**
+ * Loads upload state, migrated to the current schema; null when there is none or it
+ * cannot be read (see listUploadSessions)
+ */
+export async function loadUploadState(uploadId: string, store = getDefaultStateStore()): Promise<UploadState | null> {
+  try {
+    const stored = await store.load(uploadId);
+    if (!stored) {
+      return null;
+    }
+    const read = readStored(stored);
+    if ('problem' in read) {
+      console.error(`Upload state ${uploadId} cannot be read: ${read.problem}`);
+      return null;
+    }
+    return read.state;
+  } catch (error) {
+    console.error('Failed to load upload state:', error);
+    return null;
+  }
+}
+
+/**
+ * Lists saved uploads: the states that can be read, migrated to the current schema, and
+ * the ones quarantined because they cannot. Quarantined entries are left as stored, so
+ * nothing is lost, until deleteUploadState removes them
+ */
+export async function listUploadSessions(
+  store = getDefaultStateStore()
+): Promise<{ states: UploadState[]; quarantined: QuarantinedSession[] }> {
+  const states: UploadState[] = [];
+  const quarantined: QuarantinedSession[] = [];
+  try {
+    for (const stored of await store.list()) {
+      const read = readStored(stored);
+      if ('problem' in read) {
+        quarantined.push({ uploadId: stored.uploadId, problem: read.problem });
+      } else {
+        states.push(read.state);
+      }
+    }
+  } catch (error) {
+    console.error('Failed to get all upload states:', error);
+  }
+  return { states, quarantined };
+}
+
+/**
+ * Gets all upload states that can be read
+ */
+export async function getAllUploadStates(store = getDefaultStateStore()): Promise<UploadState[]> {
+  return (await listUploadSessions(store)).states;
+}
+
+/**
+ * Deletes upload state, including a quarantined one
+ */
+export async function deleteUploadState(uploadId: string, store = getDefaultStateStore()): Promise<void> {
+  try {
+    await store.delete(uploadId);
+  } catch (error) {
+    console.error('Failed to delete upload state:', error);
+  }
+}
+
+/**
+ * Applies a retention policy (see utils/retention.ts) to the saved uploads: unfinished
+ * ones the server has discarded are marked stale, and expired ones are handed to discard,
+ * which should delete them along with what they hold elsewhere (server data, their file)
+ */
+export async function applyRetention(
+  discard: (uploadId: string) => Promise<void>,
+  {
+    policy = getRetentionPolicy(),
+    now = Date.now(),
+    store = getDefaultStateStore(),
+  }: { policy?: RetentionPolicy; now?: number; store?: StateStore } = {}
+): Promise<{ deleted: number; markedStale: number }> {
+  const { expired, stale } = planRetention((await listUploadSessions(store)).states, policy, now);
+  for (const state of stale) {
+    await saveUploadState(markUploadStale(state, 'The server has discarded this upload', now), store);
+  }
+  for (const state of expired) {
+    await discard(state.uploadId);
+  }
+  return { deleted: expired.length, markedStale: stale.length };
+}
+
+/**
+ * Marks an upload the server no longer has, so it is offered to start over rather than
+ * resume. lastUpdate is kept: retention still counts the upload's age from its last progress
+ */
+export function markUploadStale(state: UploadState, reason: string, now: number = Date.now()): UploadState {
+  return { ...state, stale: { since: now, reason } };
+}
+
+/**
+ * Creates initial upload state
+ */
+export function createUploadState(
+  uploadId: string,
+  fileName: string,
+  fileSize: number,
+  totalChunks: number,
+  chunkSize: number
+): UploadState {
+  const chunks: ChunkStatus[] = Array.from({ length: totalChunks }, (_, index) => ({
+    chunkIndex: index,
+    offset: index * chunkSize,
+    length: getChunkLength(fileSize, chunkSize, index),
+    uploaded: false,
+    failed: false,
+    retryCount: 0,
+  }));
+
+  return {
+    uploadId,
+    fileName,
+    fileSize,
+    totalChunks,
+    chunkSize,
+    chunks,
+    startTime: Date.now(),
+    lastUpdate: Date.now(),
+  };
+}
+
+/**
+ * Starts a new upload of a file: gets an upload ID (from the server when the transport
+ * issues them), sizes chunks within protocol and server limits (e.g. S3's 5 MiB minimum
+ * part size and 10,000 parts) for the throughput measured last time, fingerprints the
+ * file and saves the state. Pass encryption (from createUploadEncryption) to encrypt its chunks,
+ * and compress to compress them with an encoding both the transport and the server support.
+ * Encrypted uploads are never compressed: ciphertext does not compress, and compressing
+ * before encrypting would let chunk sizes reveal the contents. The state is saved to
+ * stateStore, by default getDefaultStateStore()
+ */
+export async function startNewUpload(
+  transport: UploadTransport,
+  file: File,
+  {
+    encryption,
+    compress = false,
+    stateStore = getDefaultStateStore(),
+  }: { encryption?: UploadEncryption; compress?: boolean; stateStore?: StateStore } = {}
+): Promise<UploadState> {
+  const session: UploadSession = transport.initUpload
+    ? await transport.initUpload({ fileName: file.name, fileSize: file.size })
+    : { uploadId: generateUploadId() };
+
+  const chunkSize = chooseChunkSize(file.size, { ...transport.limits, ...session.limits }, loadMeasuredThroughput());
+  const uploadState = createUploadState(
+    session.uploadId,
+    file.name,
+    file.size,
+    getTotalChunks(file.size, chunkSize),
+    chunkSize
+  );
+  if (session.limits) {
+    uploadState.limits = session.limits;
+  }
+  if (session.expiresAt !== undefined) {
+    uploadState.expiresAt = session.expiresAt;
+  }
+  uploadState.fingerprint = await createFileFingerprint(file);
+  if (encryption) {
+    uploadState.encryption = encryption;
+  } else if (compress) {
+    const compression = await chooseContentEncoding(file, negotiateContentEncodings(transport, session));
+    if (compression) {
+      uploadState.compression = compression;
+    }
+  }
+
+  await saveUploadState(uploadState, stateStore);
+  return uploadState;
+}
+
+/**
+ * Updates chunk status in upload state. A failure records its error; the last error
+ * is kept while the chunk waits for a retry and dropped once it is uploaded
+ */
+export function updateChunkStatus(
+  state: UploadState,
+  chunkIndex: number,
+  uploaded: boolean,
+  failed: boolean = false,
+  result?: ChunkUploadResult & Pick<ChunkStatus, 'checksum' | 'compressedLength'>,
+  error?: ChunkError
+): UploadState {
+  const updatedChunks = [...state.chunks];
+  const chunk = updatedChunks[chunkIndex];
+  
+  if (chunk) {
+    const { lastError: previousError, ...rest } = chunk;
+    const lastError = failed ? error : uploaded ? undefined : previousError;
+    updatedChunks[chunkIndex] = {
+      ...rest,
+      ...result,
+      uploaded,
+      failed,
+      retryCount: failed ? chunk.retryCount + 1 : chunk.retryCount,
+      ...(lastError ? { lastError } : {}),
+    };
+  }
+
+  return {
+    ...state,
+    chunks: updatedChunks,
+    lastUpdate: Date.now(),
+  };
+}
+
+
+/**
+ * Merges the server's list of received chunks into local state, treating the server as
+ * authoritative: chunks it lost are queued again and chunks it has are marked uploaded
+ */
+export function reconcileChunks(
+  state: UploadState,
+  serverChunks: number[]
+): { state: UploadState; summary: ReconciliationSummary } {
+  const onServer = new Set(serverChunks);
+  const summary: ReconciliationSummary = { confirmed: 0, recovered: [], requeued: [] };
+
+  const chunks = state.chunks.map((chunk) => {
+    const serverHasChunk = onServer.has(chunk.chunkIndex);
+    if (chunk.uploaded && serverHasChunk) {
+      summary.confirmed++;
+      return chunk;
+    }
+    if (chunk.uploaded) {
+      summary.requeued.push(chunk.chunkIndex);
+      return { ...chunk, uploaded: false, failed: false, etag: undefined };
+    }
+    if (serverHasChunk) {
+      summary.recovered.push(chunk.chunkIndex);
+      return { ...chunk, uploaded: true, failed: false };
+    }
+    return chunk;
+  });
+
+  if (summary.recovered.length === 0 && summary.requeued.length === 0) {
+    return { state, summary };
+  }
+
+  return {
+    state: { ...state, chunks, lastUpdate: Date.now() },
+    summary,
+  };
+}
+
+/**
+ * Index of the first chunk after the last uploaded one. The chunks from there on have
+ * never reached the server (reconcile first), so they can be split differently
+ */
+export function getPendingTailStart(state: UploadState): number {
+  for (let index = state.chunks.length - 1; index >= 0; index--) {
+    if (state.chunks[index].uploaded) {
+      return index + 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Splits the pending tail of an upload (see getPendingTailStart) into chunks of a new
+ * size. Uploaded chunks, and pending chunks between them, keep their index and range
+ */
+export function resizePendingChunks(state: UploadState, chunkSize: number): UploadState {
+  const tailStart = getPendingTailStart(state);
+  if (tailStart === state.chunks.length || chunkSize === state.chunkSize) {
+    return state;
+  }
+
+  const tailOffset = state.chunks[tailStart].offset;
+  const tailChunks: ChunkStatus[] = [];
+  for (let offset = tailOffset; offset < state.fileSize || tailChunks.length === 0; offset += chunkSize) {
+    tailChunks.push({
+      chunkIndex: tailStart + tailChunks.length,
+      offset,
+      length: Math.max(0, Math.min(chunkSize, state.fileSize - offset)),
+      uploaded: false,
+      failed: false,
+      retryCount: 0,
+    });
+  }
+
+  const chunks = [...state.chunks.slice(0, tailStart), ...tailChunks];
+  return {
+    ...state,
+    chunkSize,
+    totalChunks: chunks.length,
+    chunks,
+    lastUpdate: Date.now(),
+  };
+}
+
+/**
+ * Throughput of one connection (bytes/s) measured during the last upload, used to size
+ * the chunks of the next one; null before anything was measured
+ */
+export function loadMeasuredThroughput(): number | null {
+  const value = Number(localStorage.getItem(THROUGHPUT_KEY));
+  return Number.isFinite(value) && value > 0 ? value : null;
+}
+
+export function saveMeasuredThroughput(bytesPerSecond: number): void {
+  try {
+    localStorage.setItem(THROUGHPUT_KEY, String(Math.round(bytesPerSecond)));
+  } catch (error) {
+    console.error('Failed to save measured throughput:', error);
+  }
+}
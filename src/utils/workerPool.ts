@@ -0,0 +1,207 @@
+import {
+  ChunkProcessingOptions,
+  ProcessedChunk,
+  WorkerResult,
+  WorkerTask,
+  runWorkerTask,
+} from './chunkProcessing';
+
+/** Message to utils/chunkWorker.ts; chunk data is transferred, not copied */
+export type ChunkWorkerRequest = { id: number } & WorkerTask;
+
+export type ChunkWorkerResponse = { id: number } & (WorkerResult | { error: string });
+
+/**
+ * Turns chunk Blobs into the bytes to send (see utils/chunkProcessing.ts)
+ */
+export interface ChunkProcessor {
+  process(chunk: Blob, options?: ChunkProcessingOptions): Promise<ProcessedChunk>;
+  /**
+   * SHA-256 of a whole file ("sha256:<hex>"). SubtleCrypto cannot hash a file in pieces,
+   * and hashing gigabytes in JavaScript would freeze the UI, so it runs in a worker
+   */
+  hashFile(file: Blob): Promise<string>;
+  /** Stops the workers; chunks still queued are rejected */
+  terminate(): void;
+}
+
+export interface WorkerPoolOptions {
+  /** Number of workers; defaults to the CPU count minus one for the UI thread, at most 4 */
+  size?: number;
+  /**
+   * Most chunks read into memory by the pool at once, queued or being processed.
+   * Further chunks wait before their Blob is read. Defaults to twice the size
+   */
+  maxBuffered?: number;
+  /** Starts a worker running utils/chunkWorker.ts; tests pass fakes */
+  createWorker?: () => Worker;
+}
+
+interface Job {
+  id: number;
+  task: WorkerTask;
+  resolve: (result: WorkerResult) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: Job | null;
+}
+
+const MAX_DEFAULT_WORKERS = 4;
+
+function defaultPoolSize(): number {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2;
+  return Math.max(1, Math.min(MAX_DEFAULT_WORKERS, cores - 1));
+}
+
+// Written out in full so Vite bundles the worker
+function createChunkWorker(): Worker {
+  return new Worker(new URL('./chunkWorker.ts', import.meta.url), { type: 'module' });
+}
+
+/**
+ * Creates a pool of Web Workers that process chunks off the main thread, so hashing
+ * large files does not freeze the UI. Chunk buffers are transferred to and from the
+ * workers rather than copied. A whole file to hash takes one worker until it is done.
+ *
+ * Where workers are unavailable (jsdom, old browsers) or fail to start, chunks are
+ * processed on the main thread by the same code. A chunk whose worker crashed is
+ * rejected; the upload retries it like any failed chunk
+ */
+export function createChunkWorkerPool(options: WorkerPoolOptions = {}): ChunkProcessor {
+  const size = Math.max(1, options.size ?? defaultPoolSize());
+  const maxBuffered = Math.max(1, options.maxBuffered ?? size * 2);
+  const createWorker = options.createWorker ?? (typeof Worker !== 'undefined' ? createChunkWorker : undefined);
+
+  const workers: PoolWorker[] = [];
+  const queue: Job[] = [];
+  let nextId = 0;
+  let inline = !createWorker;
+
+  // Counting semaphore over buffered chunks; a released slot passes straight to the next waiter
+  let buffered = 0;
+  const waiting: (() => void)[] = [];
+  const acquireSlot = (): Promise<void> => {
+    if (buffered < maxBuffered) {
+      buffered++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => waiting.push(resolve));
+  };
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      buffered--;
+    }
+  };
+
+  const stopWorkers = (reason: string) => {
+    for (const poolWorker of workers.splice(0)) {
+      poolWorker.worker.terminate();
+      poolWorker.job?.reject(new Error(reason));
+    }
+  };
+
+  // After a worker failure everything runs on the main thread, including chunks not yet sent to a worker
+  const fallBackToMainThread = (reason: string) => {
+    inline = true;
+    stopWorkers(reason);
+    for (const job of queue.splice(0)) {
+      runWorkerTask(job.task).then(job.resolve, job.reject);
+    }
+  };
+
+  const dispatch = () => {
+    for (const poolWorker of workers) {
+      const job = poolWorker.job ? undefined : queue.shift();
+      if (job) {
+        poolWorker.job = job;
+        const transfer = 'data' in job.task ? [job.task.data] : [];
+        poolWorker.worker.postMessage({ id: job.id, ...job.task } satisfies ChunkWorkerRequest, transfer);
+      }
+    }
+  };
+
+  const startWorkers = (): boolean => {
+    if (inline || workers.length > 0) {
+      return !inline;
+    }
+    try {
+      for (let i = 0; i < size; i++) {
+        const poolWorker: PoolWorker = { worker: createWorker!(), job: null };
+        poolWorker.worker.onmessage = ({ data: response }: MessageEvent<ChunkWorkerResponse>) => {
+          const job = poolWorker.job;
+          poolWorker.job = null;
+          if (job?.id === response.id) {
+            if ('error' in response) {
+              job.reject(new Error(response.error));
+            } else {
+              const { id: _id, ...result } = response;
+              job.resolve(result);
+            }
+          }
+          dispatch();
+        };
+        poolWorker.worker.onerror = (event) => {
+          event.preventDefault?.();
+          console.error('Chunk worker failed, processing chunks on the main thread:', event.message);
+          fallBackToMainThread('Chunk worker failed');
+        };
+        workers.push(poolWorker);
+      }
+      return true;
+    } catch (error) {
+      console.error('Cannot start chunk workers, processing chunks on the main thread:', error);
+      fallBackToMainThread('Cannot start chunk workers');
+      return false;
+    }
+  };
+
+  const run = (task: WorkerTask): Promise<WorkerResult> => {
+    if (!startWorkers()) {
+      return runWorkerTask(task);
+    }
+    return new Promise<WorkerResult>((resolve, reject) => {
+      queue.push({ id: nextId++, task, resolve, reject });
+      dispatch();
+    });
+  };
+
+  return {
+    async process(chunk: Blob, options: ChunkProcessingOptions = {}): Promise<ProcessedChunk> {
+      await acquireSlot();
+      try {
+        // A chunk task always results in a processed chunk
+        return (await run({ data: await chunk.arrayBuffer(), options })) as ProcessedChunk;
+      } finally {
+        releaseSlot();
+      }
+    },
+
+    // The worker reads the file in slices, so it takes no buffered slot
+    async hashFile(file: Blob): Promise<string> {
+      return (await run({ file })).checksum;
+    },
+
+    terminate() {
+      stopWorkers('Worker pool terminated');
+      for (const job of queue.splice(0)) {
+        job.reject(new Error('Worker pool terminated'));
+      }
+    },
+  };
+}
+
+let defaultPool: ChunkProcessor | null = null;
+
+/**
+ * Pool shared by every upload in the page, created on first use
+ */
+export function getDefaultChunkProcessor(): ChunkProcessor {
+  defaultPool ??= createChunkWorkerPool();
+  return defaultPool;
+}
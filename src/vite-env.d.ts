@@ -0,0 +1,18 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Which transport to use: "simulated" (default), "http", "tus", "s3" or "azure" */
+  readonly VITE_UPLOAD_TRANSPORT?: string;
+  /** Base URL of the upload API (the signer endpoint for s3, the SAS container URL for azure) */
+  readonly VITE_UPLOAD_ENDPOINT?: string;
+  /** "true" to send per-chunk checksums (tus checksum extension) */
+  readonly VITE_UPLOAD_CHECKSUM?: string;
+  /** Days after their last update that unfinished uploads are deleted (default 7) */
+  readonly VITE_RETAIN_INCOMPLETE_DAYS?: string;
+  /** Finished uploads kept in the list of previous uploads (default 20) */
+  readonly VITE_KEEP_COMPLETED_UPLOADS?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
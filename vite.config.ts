@@ -1,8 +1,13 @@
-import { defineConfig } from 'vite'
-import react from '@vitejs/plugin-react'
-
-// https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-})
-
+import { defineConfig } from 'vite'
+import react from '@vitejs/plugin-react'
+import { uploadServerPlugin } from './server/vitePlugin'
+
+// https://vitejs.dev/config/
+export default defineConfig({
+  plugins: [
+    react(),
+    // Reference backend for VITE_UPLOAD_TRANSPORT=http (see README)
+    uploadServerPlugin({ dataDir: process.env.UPLOAD_DATA_DIR }),
+  ],
+})
+